@@ -0,0 +1,64 @@
+/**
+ * Service Worker
+ *
+ * Keeps a copy of the app shell so practice mode loads without a
+ * connection. Network first, so a deploy is picked up on the next visit;
+ * API and socket traffic is never cached.
+ */
+
+// Filled in by the build (see precacheServiceWorker in vite.config.ts)
+const CACHE_VERSION = 'dev';
+const PRECACHE_ASSETS = [];
+
+const CACHE_NAME = `simon-shell-${CACHE_VERSION}`;
+
+self.addEventListener('install', (event) => {
+  // Cache the whole build up front: the page that registered us loaded
+  // its scripts before we existed, so they never pass through fetch below
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) =>
+      cache.addAll([...new Set(['/', '/index.html', ...PRECACHE_ASSETS])])
+    )
+  );
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  // Drop shells cached by older versions
+  event.waitUntil(
+    caches.keys().then((keys) =>
+      Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key)))
+    )
+  );
+  self.clients.claim();
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith('/api/') || url.pathname.startsWith('/socket.io/')) return;
+
+  event.respondWith(
+    fetch(request)
+      .then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      })
+      .catch(async () => {
+        const cached = await caches.match(request);
+        if (cached) return cached;
+
+        // Client-side routes (e.g. /practice) all load the same shell
+        if (request.mode === 'navigate') {
+          const shell = await caches.match('/index.html');
+          if (shell) return shell;
+        }
+        return Response.error();
+      })
+  );
+});
@@ -8,8 +8,13 @@ import { useState, useCallback } from 'react';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { EntryPage } from './pages/EntryPage';
 import { WaitingRoomPage } from './pages/WaitingRoomPage';
+import { PracticePage } from './pages/PracticePage';
+import { DailyPage } from './pages/DailyPage';
+import { ProfilePage } from './pages/ProfilePage';
+import { LobbyPage } from './pages/LobbyPage';
 import { LandscapeWarning } from './components/ui/LandscapeWarning';
 import { SplashScreen } from './components/ui/SplashScreen';
+import { ServerRestartBanner } from './components/ui/ServerRestartBanner';
 
 function App() {
   const [showSplash, setShowSplash] = useState(true);
@@ -24,9 +29,14 @@ function App() {
         <SplashScreen onComplete={handleSplashComplete} duration={3000} />
       )}
       <LandscapeWarning />
+      <ServerRestartBanner />
       <Routes>
         <Route path="/" element={<EntryPage />} />
         <Route path="/waiting" element={<WaitingRoomPage />} />
+        <Route path="/practice" element={<PracticePage />} />
+        <Route path="/daily" element={<DailyPage />} />
+        <Route path="/profile/:playerId" element={<ProfilePage />} />
+        <Route path="/rooms" element={<LobbyPage />} />
         <Route path="*" element={<Navigate to="/" />} />
       </Routes>
     </BrowserRouter>
@@ -6,7 +6,9 @@
  */
 
 import { useState, useEffect, useRef } from 'react';
-import type { Color } from '../../shared/types';
+import { CLASSIC_COLORS } from '../../shared/types';
+import type { Color, SequenceSlice, SimonVariant } from '../../shared/types';
+import { getMirrorColor } from '../../shared/simon';
 import { soundService } from '../../services/soundService';
 
 // =============================================================================
@@ -27,6 +29,74 @@ interface CircularSimonBoardProps {
   secondsRemaining: number;
   timerColor: 'green' | 'yellow' | 'red';
   isTimerPulsing: boolean;
+  showDurationMs?: number;
+  showGapMs?: number;
+  variant?: SimonVariant; // How the sequence must be entered
+  palette?: Color[];      // Pads on the board (classic four by default)
+  isChoosingColor?: boolean;       // Chain mode: the next pad clicked is added to the sequence
+  turnPlayerName?: string | null;  // Chain mode: whose turn it is, when it isn't yours
+  slice?: SequenceSlice | null;    // Team modes: the part of the sequence you enter
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Reminder shown during input for variants other than standard
+const VARIANT_LABELS: Record<Exclude<SimonVariant, 'standard'>, string> = {
+  reverse: '🔄 REVERSE',
+  mirror: '🪞 MIRROR',
+};
+
+const COLOR_EMOJIS: Record<Color, string> = {
+  red: '🔴',
+  blue: '🔵',
+  yellow: '🟡',
+  green: '🟢',
+  purple: '🟣',
+  orange: '🟠',
+  white: '⚪',
+  brown: '🟤',
+};
+
+// Clockwise from the top-left pad; the classic four keep their places
+const BOARD_ORDER: Color[] = ['green', 'red', 'blue', 'yellow', 'purple', 'orange', 'white', 'brown'];
+
+// Gap between wedges in degrees
+const WEDGE_GAP_ANGLE = 4;
+
+// =============================================================================
+// LAYOUT HELPERS
+// =============================================================================
+
+/**
+ * Wedge angles for a board, equal slices ending the first one at 12 o'clock
+ * (four pads give the classic quarters)
+ */
+export function getWedgeLayout(palette: Color[]): Array<{ color: Color; start: number; end: number }> {
+  const pads = BOARD_ORDER.filter(color => palette.includes(color));
+  const slice = 360 / pads.length;
+  const firstStart = 270 - slice;
+
+  return pads.map((color, i) => ({
+    color,
+    start: firstStart + i * slice + WEDGE_GAP_ANGLE / 2,
+    end: firstStart + (i + 1) * slice - WEDGE_GAP_ANGLE / 2,
+  }));
+}
+
+/**
+ * What the player has to do differently in a variant
+ */
+function getVariantHint(variant: Exclude<SimonVariant, 'standard'>, palette: Color[]): string {
+  if (variant === 'reverse') {
+    return 'Enter it backwards: last color first';
+  }
+
+  const swaps = palette
+    .filter(color => palette.indexOf(getMirrorColor(color, palette)) > palette.indexOf(color))
+    .map(color => `${COLOR_EMOJIS[color]} ↔ ${COLOR_EMOJIS[getMirrorColor(color, palette)]}`);
+  return `Swap colors: ${swaps.join(', ')}`;
 }
 
 // =============================================================================
@@ -103,6 +173,10 @@ const ColorWedge: React.FC<WedgeProps> = ({
     red: { dim: '#8b1a1a', bright: '#ff4444' },    // Dark red -> Bright red
     yellow: { dim: '#8b7a00', bright: '#ffff00' }, // Dark yellow -> Pure yellow
     blue: { dim: '#0a3d6b', bright: '#44aaff' },   // Dark blue -> Bright blue
+    purple: { dim: '#4b1a7a', bright: '#cc66ff' }, // Dark purple -> Violet
+    orange: { dim: '#8b4500', bright: '#ff9933' }, // Dark orange -> Bright orange
+    white: { dim: '#6b6b6b', bright: '#ffffff' },  // Grey -> White
+    brown: { dim: '#4a2c12', bright: '#c08040' },  // Dark brown -> Tan
   };
 
   const wedgeColor = colors[color];
@@ -163,6 +237,13 @@ export const CircularSimonBoard: React.FC<CircularSimonBoardProps> = ({
   secondsRemaining,
   timerColor,
   isTimerPulsing,
+  showDurationMs = 600,
+  showGapMs = 200,
+  variant = 'standard',
+  palette = CLASSIC_COLORS,
+  isChoosingColor = false,
+  turnPlayerName = null,
+  slice = null,
 }) => {
   const [activeColor, setActiveColor] = useState<Color | null>(null);
 
@@ -172,15 +253,9 @@ export const CircularSimonBoard: React.FC<CircularSimonBoardProps> = ({
   const centerY = size / 2;
   const outerRadius = size / 2 - 10; // Leave margin for stroke
   const innerRadius = size * 0.18; // Center hub size
-  const gapAngle = 4; // Gap between wedges in degrees
 
-  // Wedge angles (with gaps)
-  const wedges: { color: Color; start: number; end: number }[] = [
-    { color: 'green', start: 180 + gapAngle / 2, end: 270 - gapAngle / 2 },   // Top Left
-    { color: 'red', start: 270 + gapAngle / 2, end: 360 - gapAngle / 2 },      // Top Right
-    { color: 'yellow', start: 90 + gapAngle / 2, end: 180 - gapAngle / 2 },    // Bottom Left
-    { color: 'blue', start: 0 + gapAngle / 2, end: 90 - gapAngle / 2 },        // Bottom Right
-  ];
+  // Wedge angles (with gaps), one per pad
+  const wedges = getWedgeLayout(palette);
 
   // Track which color in sequence is being shown
   const [sequenceIndex, setSequenceIndex] = useState<number>(-1);
@@ -241,10 +316,10 @@ export const CircularSimonBoard: React.FC<CircularSimonBoardProps> = ({
     
     console.log(`🎨 ANIMATION START: Round ${currentRound}, Length: ${sequenceLength}, Colors:`, sequenceToShow);
 
-    // CRITICAL: These MUST match backend SIMON_CONSTANTS in game.types.ts
-    // Backend: SHOW_COLOR_DURATION_MS = 600, SHOW_COLOR_GAP_MS = 200
-    const SHOW_DURATION = 600;  // How long each color stays lit
-    const SHOW_GAP = 200;       // Gap between colors (all dark)
+    // CRITICAL: These MUST match the room's Simon settings on the server
+    // (sent with simon:show_sequence)
+    const SHOW_DURATION = showDurationMs;  // How long each color stays lit
+    const SHOW_GAP = showGapMs;            // Gap between colors (all dark)
 
     let currentIndex = 0;
     let timeoutId: ReturnType<typeof setTimeout>;
@@ -308,11 +383,18 @@ export const CircularSimonBoard: React.FC<CircularSimonBoardProps> = ({
       setActiveColor(null);
       setSequenceIndex(-1);
     };
-  }, [isShowingSequence, sequence, round]); // Dependencies: re-run when any of these change
+  }, [isShowingSequence, sequence, round, showDurationMs, showGapMs]); // Dependencies: re-run when any of these change
+
+  // Pads respond while repeating the sequence or choosing the next color
+  const canClick = isInputPhase || isChoosingColor;
+
+  // Colors this player enters (a slice of the sequence in team modes)
+  const inputLength = slice ? slice.end - slice.start : sequence.length;
+  const isPartialSlice = slice !== null && inputLength < sequence.length;
 
   // Handle color button click
   const handleColorClick = (color: Color) => {
-    if (disabled || isShowingSequence || !isInputPhase) return;
+    if (disabled || isShowingSequence || !canClick) return;
 
     // 🔊 PLAY COLOR TONE (short click sound)
     soundService.playColorClick(color);
@@ -327,15 +409,7 @@ export const CircularSimonBoard: React.FC<CircularSimonBoardProps> = ({
   };
 
   // Get color emoji
-  const getColorEmoji = (color: Color): string => {
-    const emojis: Record<Color, string> = {
-      red: '🔴',
-      blue: '🔵',
-      yellow: '🟡',
-      green: '🟢',
-    };
-    return emojis[color];
-  };
+  const getColorEmoji = (color: Color): string => COLOR_EMOJIS[color];
 
   return (
     <div className="game-area flex flex-col items-center gap-3 w-full">
@@ -356,13 +430,49 @@ export const CircularSimonBoard: React.FC<CircularSimonBoardProps> = ({
               ? '👻 Spectating...' 
               : isInputPhase
                 ? '🎮 Repeat the pattern!' 
-                : '✅ Ready'}
+                : turnPlayerName
+                  ? `⏳ ${turnPlayerName}'s turn`
+                  : '✅ Ready'}
           </p>
         )}
+        
+        {/* Chain mode: choose the next color */}
+        {isChoosingColor && !disabled && (
+          <div
+            data-testid="choose-color-prompt"
+            className="mt-2 bg-green-500/20 border border-green-400 rounded-lg px-4 py-2 animate-pulse"
+          >
+            <p className="text-green-300 font-bold text-base">🔗 ADD THE NEXT COLOR!</p>
+            <p className="text-green-200 text-xs sm:text-sm">Tap a pad to extend the sequence</p>
+          </div>
+        )}
+
+        {/* Team modes: which colors are yours */}
+        {isInputPhase && isPartialSlice && slice && (
+          <div
+            data-testid="slice-indicator"
+            className="mt-2 bg-blue-500/20 border border-blue-400 rounded-lg px-4 py-2"
+          >
+            <p className="text-blue-200 font-bold text-sm">
+              🤝 Your part: {inputLength === 1 ? `color ${slice.start + 1}` : `colors ${slice.start + 1}-${slice.end}`} of {sequence.length}
+            </p>
+          </div>
+        )}
+
+        {/* Variant Indicator */}
+        {isInputPhase && variant !== 'standard' && (
+          <div
+            data-testid="variant-indicator"
+            className="mt-2 bg-purple-500/20 border border-purple-400 rounded-lg px-4 py-2"
+          >
+            <p className="text-purple-300 font-bold text-base">{VARIANT_LABELS[variant]}</p>
+            <p className="text-purple-200 text-xs sm:text-sm">{getVariantHint(variant, palette)}</p>
+          </div>
+        )}
       </div>
 
       {/* Timer Display */}
-      {isInputPhase && secondsRemaining > 0 && (
+      {canClick && secondsRemaining > 0 && (
         <div className="flex flex-col items-center">
           <div 
             className={`
@@ -403,7 +513,7 @@ export const CircularSimonBoard: React.FC<CircularSimonBoardProps> = ({
               color={wedge.color}
               isActive={activeColor === wedge.color}
               onClick={() => handleColorClick(wedge.color)}
-              disabled={disabled || isShowingSequence || !isInputPhase}
+              disabled={disabled || isShowingSequence || !canClick}
               startAngle={wedge.start}
               endAngle={wedge.end}
               centerX={centerX}
@@ -476,14 +586,14 @@ export const CircularSimonBoard: React.FC<CircularSimonBoardProps> = ({
               </span>
             ))}
             <span className="text-gray-400 text-xs ml-2">
-              {playerSequence.length}/{sequence.length}
+              {playerSequence.length}/{inputLength}
             </span>
           </div>
         </div>
       )}
 
       {/* Submit Button */}
-      {isInputPhase && (
+      {isInputPhase && !disabled && (
         <button
           onClick={() => {
             if (canSubmit && 'vibrate' in navigator) {
@@ -502,7 +612,7 @@ export const CircularSimonBoard: React.FC<CircularSimonBoardProps> = ({
               : 'bg-gray-600 text-gray-400 cursor-not-allowed opacity-50'}
           `}
         >
-          {canSubmit ? '✅ SUBMIT' : `⏳ ${playerSequence.length}/${sequence.length}`}
+          {canSubmit ? '✅ SUBMIT' : `⏳ ${playerSequence.length}/${inputLength}`}
         </button>
       )}
     </div>
@@ -0,0 +1,145 @@
+/**
+ * Color Race Board Component
+ *
+ * Shows the color to click and 4 large color buttons.
+ * First player to click the correct color wins the round.
+ */
+
+import type { Color } from '../../shared/types';
+import type { GamePhase } from '../../store/colorRaceStore';
+import { soundService } from '../../services/soundService';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface ColorRaceBoardProps {
+  phase: GamePhase;
+  currentColor: Color | null;
+  round: number;
+  totalRounds: number;
+  roundWinner: { playerId: string; displayName: string } | null;
+  hasAnswered: boolean;
+  currentPlayerId: string;
+  onColorClick: (color: Color) => void;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Inline styles (Tailwind purges Record-based classes)
+const BUTTON_COLORS: Record<Color, string> = {
+  red: '#ef4444',
+  blue: '#3b82f6',
+  yellow: '#facc15',
+  green: '#22c55e',
+  purple: '#a855f7',
+  orange: '#f97316',
+  white: '#f8fafc',
+  brown: '#92400e',
+};
+
+// Layout matches the Simon board: green/red on top, yellow/blue on bottom
+const BUTTON_ORDER: Color[] = ['green', 'red', 'yellow', 'blue'];
+
+// =============================================================================
+// COLOR RACE BOARD COMPONENT
+// =============================================================================
+
+export const ColorRaceBoard: React.FC<ColorRaceBoardProps> = ({
+  phase,
+  currentColor,
+  round,
+  totalRounds,
+  roundWinner,
+  hasAnswered,
+  currentPlayerId,
+  onColorClick,
+}) => {
+  const canAnswer = phase === 'playing' && !hasAnswered;
+
+  const handleColorClick = (color: Color) => {
+    if (!canAnswer) return;
+
+    soundService.playColorClick(color);
+
+    if ('vibrate' in navigator) {
+      navigator.vibrate(50);
+    }
+
+    onColorClick(color);
+  };
+
+  // Instruction / result text above the board
+  const renderStatus = () => {
+    if (phase === 'round_result') {
+      if (!roundWinner) {
+        return <p className="text-white/80 text-xl font-bold">⚠️ Nobody got it!</p>;
+      }
+      return (
+        <p className="text-yellow-300 text-xl font-bold">
+          🏆 {roundWinner.playerId === currentPlayerId ? 'You win' : `${roundWinner.displayName} wins`} the round!
+        </p>
+      );
+    }
+
+    if (phase === 'playing' && currentColor) {
+      return (
+        <p
+          className="text-4xl sm:text-5xl font-black tracking-wide animate-pulse"
+          style={{ color: BUTTON_COLORS[currentColor] }}
+        >
+          Click {currentColor.toUpperCase()}!
+        </p>
+      );
+    }
+
+    return <p className="text-white/80 text-lg">Get ready...</p>;
+  };
+
+  return (
+    <div className="game-area flex flex-col items-center gap-4 w-full">
+      {/* Round Display */}
+      <h2 className="text-xl sm:text-2xl font-bold text-white">
+        Round {round} / {totalRounds}
+      </h2>
+
+      {/* Instruction */}
+      <div className="min-h-[64px] flex items-center justify-center text-center">
+        {renderStatus()}
+      </div>
+
+      {/* Color Buttons */}
+      <div className="grid grid-cols-2 gap-3 sm:gap-4">
+        {BUTTON_ORDER.map((color) => (
+          <button
+            key={color}
+            onClick={() => handleColorClick(color)}
+            disabled={!canAnswer}
+            className={`
+              w-[min(40vw,140px)] h-[min(40vw,140px)] sm:w-40 sm:h-40
+              rounded-xl sm:rounded-2xl shadow-lg
+              transition-all duration-100
+              ${canAnswer ? 'cursor-pointer active:scale-95' : 'cursor-not-allowed opacity-60'}
+            `}
+            style={{
+              touchAction: 'manipulation',
+              backgroundColor: BUTTON_COLORS[color],
+            }}
+            aria-label={`${color} button`}
+          >
+            <span className="sr-only">{color}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Answer Status */}
+      {phase === 'playing' && hasAnswered && (
+        <p className="text-white/80 text-sm">✅ Answer locked in! Waiting for others...</p>
+      )}
+    </div>
+  );
+};
+
+export default ColorRaceBoard;
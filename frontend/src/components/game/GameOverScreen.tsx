@@ -5,12 +5,16 @@
  * - Winner celebration with crown
  * - Final scoreboard with medals
  * - Game stats
- * - Play Again / Home buttons
+ * - Per-round points breakdown (Simon)
+ * - Team results (Simon co-op / 2v2)
+ * - Rating changes for signed-in players (Simon)
+ * - Play Again / Home / My Stats buttons
  * - Share score functionality
  */
 
 import { useEffect, useState } from 'react';
 import { soundService } from '../../services/soundService';
+import type { RatingChange, RoundScore, SimonRoundBreakdown, SimonTeamResult, TeamId } from '../../shared/types';
 
 // =============================================================================
 // TYPES
@@ -30,9 +34,37 @@ interface GameOverScreenProps {
   }>;
   currentPlayerId: string;
   roundsPlayed: number;
-  onPlayAgain: () => void;
+  onPlayAgain?: () => void; // Omitted for spectators
   onGoHome: () => void;
+  onViewStats?: () => void; // Profile with match history (omitted for spectators)
   gameCode: string;
+  challengeCode?: string | null; // Seed of this game, for "beat my run" links
+  roundHistory?: SimonRoundBreakdown[]; // Points earned each round
+  teams?: SimonTeamResult[]; // Team standings, best first (team modes only)
+  winningTeamId?: TeamId | null;
+  ratingChanges?: RatingChange[]; // Signed-in players' new ratings
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Itemized points, e.g. "20 + 14⚡ ×1.2🔥 + 10🥇"
+ */
+function formatRoundScore(score: RoundScore): string {
+  let text = `${score.basePoints}`;
+  if (score.speedPoints > 0) text += ` + ${score.speedPoints}⚡`;
+  if (score.streakMultiplier !== 1) text += ` ×${score.streakMultiplier}🔥`;
+  if (score.firstCorrectBonus > 0) text += ` + ${score.firstCorrectBonus}🥇`;
+  return text;
+}
+
+/**
+ * Signed rating delta, e.g. "+14" or "-8"
+ */
+function formatRatingDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : `${delta}`;
 }
 
 // =============================================================================
@@ -82,9 +114,16 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
   roundsPlayed,
   onPlayAgain,
   onGoHome,
+  onViewStats,
   gameCode,
+  challengeCode,
+  roundHistory = [],
+  teams = [],
+  winningTeamId = null,
+  ratingChanges = [],
 }) => {
   const [showConfetti, setShowConfetti] = useState(true);
+  const [showBreakdown, setShowBreakdown] = useState(false);
   const [animatedScore, setAnimatedScore] = useState(0);
   const isWinner = winner?.playerId === currentPlayerId;
   const isSoloGame = finalScores.length === 1;
@@ -137,10 +176,13 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
     const rank = finalScores.findIndex(s => s.playerId === currentPlayerId) + 1;
     
     const shareText = isSoloGame
-      ? `🎮 I reached Round ${roundsPlayed} in Simon Says with ${myScore} points! Can you beat my score?`
+      ? `🎮 I reached Round ${roundsPlayed} in Simon Says with ${myScore} points! Can you beat my run?`
       : `🏆 I finished #${rank} in Simon Says with ${myScore} points! ${isWinner ? '👑 WINNER!' : ''}`;
     
-    const shareUrl = `${window.location.origin}/?join=${gameCode}`;
+    // A challenge link replays the same sequence in a new room
+    const shareUrl = challengeCode
+      ? `${window.location.origin}/?challenge=${challengeCode}`
+      : `${window.location.origin}/?join=${gameCode}`;
     
     if (navigator.share) {
       try {
@@ -213,6 +255,36 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
           </div>
         )}
 
+        {/* Team Results (co-op / 2v2) */}
+        {teams.length > 0 && (
+          <div className="bg-gray-800/80 rounded-2xl p-4 mb-4" data-testid="team-results">
+            <h3 className="text-white font-bold text-center mb-3 text-sm uppercase tracking-wide">
+              {teams.length === 1
+                ? `🤝 Your team reached round ${roundsPlayed}`
+                : winningTeamId
+                  ? `🏆 Team ${winningTeamId} wins!`
+                  : '🤝 Draw'}
+            </h3>
+
+            <div className="space-y-2">
+              {teams.map(team => (
+                <div
+                  key={team.teamId}
+                  className={`flex items-center justify-between px-3 py-2 rounded-lg ${
+                    team.teamId === winningTeamId ? 'bg-yellow-500/30' : 'bg-gray-700'
+                  }`}
+                >
+                  <span className="text-white font-medium">
+                    Team {team.teamId}
+                    {team.playerIds.includes(currentPlayerId) && <span className="text-xs ml-1 text-blue-200">(you)</span>}
+                  </span>
+                  <span className="text-white font-bold">{team.score} pts</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Scoreboard (Multiplayer only) */}
         {!isSoloGame && finalScores.length > 0 && (
           <div className="bg-gray-800/80 rounded-2xl p-4 mb-4">
@@ -224,6 +296,7 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
               {finalScores.map((player, index) => {
                 const isCurrentPlayer = player.playerId === currentPlayerId;
                 const rank = index + 1;
+                const ratingChange = ratingChanges.find(change => change.playerId === player.playerId);
                 
                 return (
                   <div
@@ -252,6 +325,15 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
                       {player.isEliminated && (
                         <span className="text-red-400 text-xs">💀</span>
                       )}
+                      {ratingChange && (
+                        <span
+                          className={`text-xs font-semibold ${ratingChange.delta >= 0 ? 'text-green-400' : 'text-red-400'}`}
+                          title={`Rating ${ratingChange.rating}`}
+                          data-testid="rating-delta"
+                        >
+                          {formatRatingDelta(ratingChange.delta)}
+                        </span>
+                      )}
                     </div>
                   </div>
                 );
@@ -288,16 +370,60 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
           </div>
         </div>
 
+        {/* Round Breakdown */}
+        {roundHistory.length > 0 && (
+          <div className="bg-gray-800/60 rounded-xl p-4 mb-6">
+            <button
+              onClick={() => setShowBreakdown(!showBreakdown)}
+              className="w-full flex items-center justify-between text-white font-bold text-sm uppercase tracking-wide"
+              style={{ touchAction: 'manipulation' }}
+            >
+              <span>Round Breakdown</span>
+              <span>{showBreakdown ? '▲' : '▼'}</span>
+            </button>
+
+            {showBreakdown && (
+              <div className="mt-3 space-y-2 max-h-64 overflow-y-auto">
+                {roundHistory.map(({ round, scores }) => (
+                  <div key={round} className="text-sm">
+                    <div className="text-gray-400 text-xs mb-1">Round {round}</div>
+                    {scores.length === 0 ? (
+                      <div className="text-gray-500 text-xs pl-2">No correct answers</div>
+                    ) : (
+                      scores.map(score => (
+                        <div
+                          key={score.playerId}
+                          className={`flex items-center justify-between pl-2 ${
+                            score.playerId === currentPlayerId ? 'text-blue-300' : 'text-white'
+                          }`}
+                        >
+                          <span>{finalScores.find(s => s.playerId === score.playerId)?.name ?? 'Player'}</span>
+                          <span className="flex items-center gap-2">
+                            <span className="text-gray-400 text-xs">{formatRoundScore(score)}</span>
+                            <span className="font-bold">+{score.total}</span>
+                          </span>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="space-y-3">
           {/* Play Again Button */}
-          <button
-            onClick={onPlayAgain}
-            className="w-full bg-green-500 hover:bg-green-600 active:bg-green-700 text-white font-bold py-4 px-6 rounded-xl transition-all duration-100 active:scale-95 text-lg flex items-center justify-center gap-2 shadow-lg"
-            style={{ touchAction: 'manipulation' }}
-          >
-            🔄 PLAY AGAIN
-          </button>
+          {onPlayAgain && (
+            <button
+              onClick={onPlayAgain}
+              className="w-full bg-green-500 hover:bg-green-600 active:bg-green-700 text-white font-bold py-4 px-6 rounded-xl transition-all duration-100 active:scale-95 text-lg flex items-center justify-center gap-2 shadow-lg"
+              style={{ touchAction: 'manipulation' }}
+            >
+              🔄 PLAY AGAIN
+            </button>
+          )}
 
           {/* Home Button */}
           <button
@@ -308,14 +434,31 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
             🏠 HOME
           </button>
 
+          {/* Stats Button */}
+          {onViewStats && (
+            <button
+              onClick={onViewStats}
+              className="w-full bg-gray-700 hover:bg-gray-600 active:bg-gray-500 text-white font-bold py-3 px-6 rounded-xl transition-all duration-100 active:scale-95 flex items-center justify-center gap-2"
+              style={{ touchAction: 'manipulation' }}
+            >
+              📊 MY STATS
+            </button>
+          )}
+
           {/* Share Button */}
           <button
             onClick={handleShare}
             className="w-full bg-blue-600 hover:bg-blue-500 active:bg-blue-700 text-white font-bold py-3 px-6 rounded-xl transition-all duration-100 active:scale-95 flex items-center justify-center gap-2"
             style={{ touchAction: 'manipulation' }}
           >
-            📤 SHARE SCORE
+            📤 {challengeCode ? 'BEAT MY RUN' : 'SHARE SCORE'}
           </button>
+
+          {challengeCode && (
+            <p className="text-center text-white/60 text-xs">
+              Challenge code: <span className="font-mono font-bold text-white/80">{challengeCode}</span>
+            </p>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,80 @@
+/**
+ * Room Listing Panel Component
+ *
+ * Lobby control for the public lobby browser: the host can make the room
+ * public and name it; everyone else sees how the room is listed.
+ */
+
+import { useEffect, useState } from 'react';
+import type { RoomListingUpdate } from '../../shared/types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface RoomListingPanelProps {
+  isPublic: boolean;
+  name: string | null;
+  isHost: boolean;
+  onChange: (listing: RoomListingUpdate) => void;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const RoomListingPanel: React.FC<RoomListingPanelProps> = ({
+  isPublic,
+  name,
+  isHost,
+  onChange,
+}) => {
+  // Name being typed; applied on blur or Enter
+  const [nameDraft, setNameDraft] = useState(name ?? '');
+
+  useEffect(() => {
+    setNameDraft(name ?? '');
+  }, [name]);
+
+  const applyName = () => {
+    const draft = nameDraft.trim();
+    if (draft === (name ?? '')) return;
+
+    onChange({ isPublic, name: draft === '' ? null : draft });
+  };
+
+  if (!isHost) {
+    return (
+      <p className="text-sm text-gray-600" data-testid="room-listing">
+        {isPublic ? `🌐 Listed publicly${name ? ` as "${name}"` : ''}` : '🔒 Private (invite only)'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2" data-testid="room-listing">
+      <label className="flex items-center gap-3 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={isPublic}
+          onChange={(e) => onChange({ isPublic: e.target.checked, name })}
+          className="w-4 h-4"
+        />
+        🌐 List in public rooms
+      </label>
+      {isPublic && (
+        <input
+          type="text"
+          value={nameDraft}
+          onChange={(e) => setNameDraft(e.target.value)}
+          onBlur={applyName}
+          onKeyDown={(e) => e.key === 'Enter' && applyName()}
+          placeholder="Room name"
+          minLength={3}
+          maxLength={24}
+          className="w-full rounded-lg border-2 border-gray-200 bg-gray-100 p-2 text-sm sm:text-base min-h-[44px] hover:border-purple-400"
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,299 @@
+/**
+ * Room Settings Panel Component
+ *
+ * Lobby controls for per-room settings (max players, Simon timing,
+ * pads, lives, scoring, chain mode, reverse/mirror input, challenge code).
+ * The host can edit; everyone else sees the current values read-only.
+ */
+
+import { useState } from 'react';
+import type { RoomSettingsUpdate, RoomSettingsView, SimonMode, SimonScoringMode, SimonVariant } from '../../shared/types';
+import { decodeChallengeCode } from '../../shared/random';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface RoomSettingsPanelProps {
+  settings: RoomSettingsView;
+  isHost: boolean;
+  playerCount: number;
+  onChange: (update: RoomSettingsUpdate) => void;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const MAX_PLAYERS_OPTIONS = [1, 2, 3, 4];
+
+const STARTING_LENGTH_OPTIONS = [1, 2, 3, 4, 5];
+
+const LIVES_OPTIONS = [1, 2, 3, 5];
+
+const PAD_COUNT_OPTIONS = [3, 4, 5, 6, 7, 8];
+
+const MODE_OPTIONS: Array<{ mode: SimonMode; label: string }> = [
+  { mode: 'free_for_all', label: '🏁 Free-for-all' },
+  { mode: 'chain', label: '🔗 Chain (take turns adding colors)' },
+  { mode: 'coop', label: '🤝 Co-op (split the sequence as one team)' },
+  { mode: 'teams', label: '⚔️ 2v2 Teams' },
+];
+
+const VARIANT_OPTIONS: Array<{ variant: SimonVariant; label: string }> = [
+  { variant: 'standard', label: '🎮 Standard' },
+  { variant: 'reverse', label: '🔄 Reverse (enter it backwards)' },
+  { variant: 'mirror', label: '🪞 Mirror (red ↔ blue, yellow ↔ green)' },
+];
+
+const SCORING_OPTIONS: Array<{ mode: SimonScoringMode; label: string }> = [
+  { mode: 'speed', label: '⚡ Speed (faster & longer = more)' },
+  { mode: 'classic', label: '🏁 Classic (+1 to the fastest)' },
+];
+
+// Sequence playback presets (duration lit / gap dark, in ms)
+const SPEED_PRESETS = [
+  { label: '🐢 Slow', showColorDurationMs: 900, showColorGapMs: 300 },
+  { label: '🙂 Normal', showColorDurationMs: 600, showColorGapMs: 200 },
+  { label: '⚡ Fast', showColorDurationMs: 350, showColorGapMs: 150 },
+];
+
+// Input timeout presets (base seconds + seconds per color)
+const TIMEOUT_PRESETS = [
+  { label: 'Relaxed', timeoutBaseSeconds: 25, timeoutPerColorSeconds: 3 },
+  { label: 'Standard', timeoutBaseSeconds: 15, timeoutPerColorSeconds: 2 },
+  { label: 'Tight', timeoutBaseSeconds: 8, timeoutPerColorSeconds: 1 },
+];
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const RoomSettingsPanel: React.FC<RoomSettingsPanelProps> = ({
+  settings,
+  isHost,
+  playerCount,
+  onChange,
+}) => {
+  const { simon } = settings;
+
+  // Challenge code being typed; applied on blur or Enter. The applied
+  // code isn't sent back (it would give away the sequence) until the game ends.
+  const [codeDraft, setCodeDraft] = useState('');
+  const [codeError, setCodeError] = useState('');
+
+  const applyChallengeCode = () => {
+    const code = codeDraft.trim();
+    if (code === '') return;
+
+    const challenge = decodeChallengeCode(code);
+    if (challenge === null) {
+      setCodeError('Invalid challenge code');
+      return;
+    }
+
+    // The board changes which colors the seed draws
+    setCodeDraft('');
+    setCodeError('');
+    onChange(challenge.padCount === null
+      ? { seed: challenge.seed }
+      : { seed: challenge.seed, simon: { padCount: challenge.padCount } });
+  };
+
+  const speedIndex = SPEED_PRESETS.findIndex(
+    p => p.showColorDurationMs === simon.showColorDurationMs && p.showColorGapMs === simon.showColorGapMs
+  );
+  const timeoutIndex = TIMEOUT_PRESETS.findIndex(
+    p => p.timeoutBaseSeconds === simon.timeoutBaseSeconds && p.timeoutPerColorSeconds === simon.timeoutPerColorSeconds
+  );
+
+  const selectClass = `w-full rounded-lg border-2 border-gray-200 bg-gray-100 p-2 text-sm sm:text-base min-h-[44px] ${
+    isHost ? 'hover:border-purple-400' : 'cursor-default opacity-75'
+  }`;
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <label className="text-sm text-gray-600">
+        Max players
+        <select
+          className={selectClass}
+          value={settings.maxPlayers}
+          disabled={!isHost}
+          onChange={(e) => onChange({ maxPlayers: Number(e.target.value) })}
+        >
+          {MAX_PLAYERS_OPTIONS.map(n => (
+            <option key={n} value={n} disabled={n < playerCount}>
+              {n}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="text-sm text-gray-600">
+        Starting length
+        <select
+          className={selectClass}
+          value={simon.initialSequenceLength}
+          disabled={!isHost}
+          onChange={(e) => onChange({ simon: { initialSequenceLength: Number(e.target.value) } })}
+        >
+          {STARTING_LENGTH_OPTIONS.map(n => (
+            <option key={n} value={n}>
+              {n} {n === 1 ? 'color' : 'colors'}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="text-sm text-gray-600">
+        Sequence speed
+        <select
+          className={selectClass}
+          value={speedIndex}
+          disabled={!isHost}
+          onChange={(e) => {
+            const { showColorDurationMs, showColorGapMs } = SPEED_PRESETS[Number(e.target.value)];
+            onChange({ simon: { showColorDurationMs, showColorGapMs } });
+          }}
+        >
+          {speedIndex === -1 && <option value={-1}>Custom</option>}
+          {SPEED_PRESETS.map((preset, i) => (
+            <option key={preset.label} value={i}>
+              {preset.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="text-sm text-gray-600">
+        Time limit
+        <select
+          className={selectClass}
+          value={timeoutIndex}
+          disabled={!isHost}
+          onChange={(e) => {
+            const { timeoutBaseSeconds, timeoutPerColorSeconds } = TIMEOUT_PRESETS[Number(e.target.value)];
+            onChange({ simon: { timeoutBaseSeconds, timeoutPerColorSeconds } });
+          }}
+        >
+          {timeoutIndex === -1 && <option value={-1}>Custom</option>}
+          {TIMEOUT_PRESETS.map((preset, i) => (
+            <option key={preset.label} value={i}>
+              {preset.label} ({preset.timeoutBaseSeconds}s + {preset.timeoutPerColorSeconds}s/color)
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="text-sm text-gray-600">
+        Pads
+        <select
+          className={selectClass}
+          value={simon.padCount}
+          disabled={!isHost}
+          onChange={(e) => onChange({ simon: { padCount: Number(e.target.value) } })}
+        >
+          {PAD_COUNT_OPTIONS.map(n => (
+            <option key={n} value={n}>
+              {n} {n === 4 ? '(classic)' : n > 4 ? '(hard)' : '(easy)'}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="text-sm text-gray-600">
+        Lives
+        <select
+          className={selectClass}
+          value={simon.lives}
+          disabled={!isHost}
+          onChange={(e) => onChange({ simon: { lives: Number(e.target.value) } })}
+        >
+          {!LIVES_OPTIONS.includes(simon.lives) && <option value={simon.lives}>{simon.lives}</option>}
+          {LIVES_OPTIONS.map(n => (
+            <option key={n} value={n}>
+              {n === 1 ? '1 (instant elimination)' : `${'❤️'.repeat(n)} ${n}`}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="text-sm text-gray-600">
+        Scoring
+        <select
+          className={selectClass}
+          value={simon.scoring}
+          disabled={!isHost}
+          onChange={(e) => onChange({ simon: { scoring: e.target.value as SimonScoringMode } })}
+        >
+          {SCORING_OPTIONS.map(option => (
+            <option key={option.mode} value={option.mode}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="text-sm text-gray-600">
+        Mode
+        <select
+          className={selectClass}
+          value={simon.mode}
+          disabled={!isHost}
+          onChange={(e) => onChange({ simon: { mode: e.target.value as SimonMode } })}
+        >
+          {MODE_OPTIONS.map(option => (
+            <option key={option.mode} value={option.mode}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="text-sm text-gray-600 col-span-2">
+        Input
+        <select
+          className={selectClass}
+          value={simon.variant}
+          disabled={!isHost}
+          onChange={(e) => onChange({ simon: { variant: e.target.value as SimonVariant } })}
+        >
+          {VARIANT_OPTIONS.map(option => (
+            <option key={option.variant} value={option.variant}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="text-sm text-gray-600 col-span-2">
+        Challenge code
+        <input
+          type="text"
+          className={`${selectClass} font-mono uppercase`}
+          value={codeDraft}
+          placeholder={settings.hasChallenge
+            ? 'Challenge set (code shown after the game)'
+            : isHost ? 'Random (paste a code to replay a run)' : 'Random'}
+          maxLength={8}
+          readOnly={!isHost}
+          onChange={(e) => setCodeDraft(e.target.value.toUpperCase())}
+          onBlur={applyChallengeCode}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') applyChallengeCode();
+          }}
+        />
+        {codeError && <span className="text-xs text-red-500">{codeError}</span>}
+        {isHost && settings.hasChallenge && (
+          <button
+            type="button"
+            className="mt-1 text-xs text-purple-600 hover:underline"
+            onClick={() => onChange({ seed: null })}
+          >
+            Back to a random sequence
+          </button>
+        )}
+      </label>
+    </div>
+  );
+};
@@ -48,6 +48,10 @@ const ColorButton: React.FC<ColorButtonProps> = ({ color, isActive, onClick, dis
       blue: { base: '#3b82f6', light: '#93c5fd', hover: '#2563eb' },
       yellow: { base: '#facc15', light: '#fef08a', hover: '#eab308' },
       green: { base: '#22c55e', light: '#86efac', hover: '#16a34a' },
+      purple: { base: '#a855f7', light: '#d8b4fe', hover: '#9333ea' },
+      orange: { base: '#f97316', light: '#fdba74', hover: '#ea580c' },
+      white: { base: '#e2e8f0', light: '#ffffff', hover: '#cbd5e1' },
+      brown: { base: '#92400e', light: '#d6a06a', hover: '#78350f' },
     };
     
     return {
@@ -173,6 +177,10 @@ export const SimonBoard: React.FC<SimonBoardProps> = ({
       blue: '🔵',
       yellow: '🟡',
       green: '🟢',
+      purple: '🟣',
+      orange: '🟠',
+      white: '⚪',
+      brown: '🟤',
     };
     return emojis[color];
   };
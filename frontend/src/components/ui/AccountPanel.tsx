@@ -0,0 +1,131 @@
+/**
+ * Account Panel Component
+ *
+ * Optional sign-in on the home screen. Guests can ignore it; once
+ * signed in, every room created or joined is tied to the account.
+ */
+
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAccountStore } from '../../store/accountStore';
+
+export const AccountPanel: React.FC = () => {
+  const { account, error, magicLinkSent, register, login, requestMagicLink, logout } = useAccountStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const navigate = useNavigate();
+
+  const run = async (action: () => Promise<void>) => {
+    setLoading(true);
+    await action();
+    setLoading(false);
+    setPassword('');
+  };
+
+  if (account) {
+    return (
+      <div className="flex items-center justify-center gap-2 text-sm text-slate-300" data-testid="account-panel">
+        <span>🪪 Signed in as <span className="font-bold text-white">{account.username}</span> ⭐ {account.rating}</span>
+        <button onClick={() => navigate(`/profile/${account.id}`)} className="text-slate-400 hover:text-white underline">
+          Stats
+        </button>
+        <button onClick={() => void logout()} className="text-slate-400 hover:text-white underline">
+          Sign out
+        </button>
+      </div>
+    );
+  }
+
+  if (!isOpen) {
+    return (
+      <div className="flex items-center justify-center gap-2 text-sm text-slate-400" data-testid="account-panel">
+        <span>Playing as a guest</span>
+        <button onClick={() => setIsOpen(true)} className="hover:text-white underline">
+          Sign in
+        </button>
+      </div>
+    );
+  }
+
+  const inputClass = `
+    w-full px-3 py-2
+    bg-[var(--bg-dark)] border border-slate-600
+    rounded-lg text-white text-sm placeholder-slate-500
+    focus:ring-2 focus:ring-[var(--simon-blue)] focus:border-transparent
+  `;
+
+  return (
+    <div className="w-full space-y-2 text-sm" data-testid="account-panel">
+      <input
+        type="text"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        placeholder="Username"
+        autoComplete="username"
+        maxLength={12}
+        className={inputClass}
+      />
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password (leave empty for a magic link)"
+        autoComplete="current-password"
+        className={inputClass}
+      />
+      {password && (
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email (optional, to register for magic links)"
+          autoComplete="email"
+          className={inputClass}
+        />
+      )}
+
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+      {magicLinkSent && !error && (
+        <p className="text-slate-400 text-xs">🔗 If that account has an email address, a sign-in link is on its way</p>
+      )}
+
+      <div className="flex gap-2">
+        {password ? (
+          <>
+            <button
+              onClick={() => void run(() => login(username, password))}
+              disabled={loading}
+              className="flex-1 py-2 rounded-lg font-semibold bg-[var(--simon-blue)] text-white disabled:opacity-50"
+            >
+              Sign in
+            </button>
+            <button
+              onClick={() => void run(() => register(username, password, email.trim() || undefined))}
+              disabled={loading}
+              className="flex-1 py-2 rounded-lg font-semibold border border-slate-600 text-slate-300 hover:text-white disabled:opacity-50"
+            >
+              Register
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => void run(() => requestMagicLink(username))}
+            disabled={loading || !username}
+            className="flex-1 py-2 rounded-lg font-semibold bg-[var(--simon-blue)] text-white disabled:opacity-50"
+          >
+            🔗 Send magic link
+          </button>
+        )}
+        <button
+          onClick={() => setIsOpen(false)}
+          className="px-3 py-2 rounded-lg text-slate-400 hover:text-white"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
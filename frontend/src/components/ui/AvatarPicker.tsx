@@ -0,0 +1,49 @@
+/**
+ * Avatar Picker
+ * 
+ * Grid of the eight avatars players choose from.
+ */
+
+export const AVATAR_EMOJIS = ['😀', '🎮', '🚀', '⚡', '🎨', '🎯', '🏆', '🌟'];
+
+const AVATAR_COLORS = ['var(--simon-red)', 'var(--simon-blue)', 'var(--simon-yellow)', 'var(--simon-green)'];
+
+interface AvatarPickerProps {
+  value: string;
+  onChange: (avatarId: string) => void;
+}
+
+export function AvatarPicker({ value, onChange }: AvatarPickerProps) {
+  return (
+    <div className="grid grid-cols-4 gap-2">
+      {AVATAR_EMOJIS.map((emoji, index) => {
+        const id = String(index + 1);
+        const isSelected = value === id;
+        const borderColor = AVATAR_COLORS[index % 4];
+        
+        return (
+          <button
+            key={id}
+            type="button"
+            onClick={() => onChange(id)}
+            className={`
+              p-3 rounded-xl transition-all duration-150 
+              flex items-center justify-center
+              min-h-[60px]
+              ${isSelected 
+                ? 'bg-slate-700 scale-105' 
+                : 'bg-[var(--bg-dark)] hover:bg-slate-800'}
+            `}
+            style={{ 
+              touchAction: 'manipulation',
+              border: isSelected ? `2px solid ${borderColor}` : '2px solid transparent',
+              boxShadow: isSelected ? `0 0 15px ${borderColor}40` : 'none'
+            }}
+          >
+            <span className="text-2xl sm:text-3xl">{emoji}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
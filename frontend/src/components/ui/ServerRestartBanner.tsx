@@ -0,0 +1,34 @@
+/**
+ * Server Restart Banner
+ * 
+ * Shown while the server restarts; the socket reconnects on its own
+ * and the banner disappears once it's back.
+ */
+
+import { useEffect, useState } from 'react';
+import { useConnectionStore } from '../../store/connectionStore';
+
+export function ServerRestartBanner() {
+  const restartEta = useConnectionStore((state) => state.restartEta);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (restartEta === null) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [restartEta]);
+
+  if (restartEta === null) return null;
+
+  const secondsLeft = Math.max(0, Math.ceil((restartEta - now) / 1000));
+
+  return (
+    <div
+      role="status"
+      className="fixed top-0 inset-x-0 z-50 bg-yellow-500 text-black text-center text-sm sm:text-base font-medium px-4 py-2 shadow-lg"
+    >
+      🔄 Server restarting {secondsLeft > 0 ? `— back in about ${secondsLeft}s` : '— reconnecting…'}
+    </div>
+  );
+}
@@ -8,3 +8,13 @@ createRoot(document.getElementById('root')!).render(
     <App />
   </StrictMode>,
 )
+
+// Cache the app shell so practice mode works offline (production builds only,
+// the dev server's hot reload must not be served from a cache)
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('❌ Service worker registration failed:', error)
+    })
+  })
+}
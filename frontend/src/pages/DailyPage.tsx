@@ -0,0 +1,256 @@
+/**
+ * Daily Page
+ *
+ * Today's challenge: one attempt per day on the same sequence as
+ * everyone else, checked by the server (see dailyStore), plus the
+ * day's leaderboard.
+ */
+
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useDailyStore } from '../store/dailyStore';
+import { useAuthStore } from '../store/authStore';
+import { soundService } from '../services/soundService';
+import { CircularSimonBoard } from '../components/game/CircularSimonBoard';
+import { MuteButton } from '../components/ui/MuteButton';
+import { AvatarPicker, AVATAR_EMOJIS } from '../components/ui/AvatarPicker';
+import { DEFAULT_SIMON_SETTINGS } from '../shared/types';
+
+const RESULT_MESSAGES = {
+  correct: '✅ Correct!',
+  wrong: '❌ Wrong sequence',
+  timeout: "⏰ Time's up",
+} as const;
+
+export function DailyPage() {
+  const navigate = useNavigate();
+  const { session } = useAuthStore();
+  const [displayName, setDisplayName] = useState(session?.displayName ?? '');
+  const [avatarId, setAvatarId] = useState(session?.avatarId ?? '1');
+  const [starting, setStarting] = useState(false);
+  const {
+    challenge,
+    leaderboard,
+    error,
+    round,
+    phase,
+    playerSequence,
+    lastResult,
+    score,
+    secondsRemaining,
+    timerColor,
+    isTimerPulsing,
+    load,
+    start,
+    resume,
+    addColor,
+    submitSequence,
+    quit,
+  } = useDailyStore();
+
+  useEffect(() => {
+    load();
+    // Stop timers when leaving the page
+    return quit;
+  }, [load, quit]);
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStarting(true);
+
+    // 🔊 Initialize sound on user interaction
+    await soundService.init();
+    await start(displayName, avatarId);
+    setStarting(false);
+  };
+
+  const handleResume = async () => {
+    setStarting(true);
+    await soundService.init();
+    await resume();
+    setStarting(false);
+  };
+
+  const handleGoHome = () => {
+    quit();
+    navigate('/');
+  };
+
+  // Playing
+  if (round && phase) {
+    const isInputPhase = phase === 'player_input';
+
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-900 via-purple-900 to-pink-900 flex items-center justify-center p-2 sm:p-4">
+        <MuteButton />
+
+        <div className="flex flex-col items-center w-full max-w-md">
+          {/* Score */}
+          <div className="bg-gray-800 rounded-xl sm:rounded-2xl px-3 py-2 mb-3 w-full flex justify-between text-white text-xs sm:text-sm">
+            <span>📅 {round.date}</span>
+            <span>Score: <span className="font-bold">{score}</span></span>
+          </div>
+
+          <CircularSimonBoard
+            sequence={round.sequence}
+            round={round.round}
+            isShowingSequence={phase === 'showing_sequence'}
+            isInputPhase={isInputPhase}
+            playerSequence={playerSequence}
+            canSubmit={isInputPhase && playerSequence.length === round.sequence.length}
+            lastResult={null}
+            onColorClick={addColor}
+            onSubmit={submitSequence}
+            secondsRemaining={secondsRemaining}
+            timerColor={timerColor}
+            isTimerPulsing={isTimerPulsing}
+            showDurationMs={DEFAULT_SIMON_SETTINGS.showColorDurationMs}
+            showGapMs={DEFAULT_SIMON_SETTINGS.showColorGapMs}
+          />
+
+          {/* Round result */}
+          <div className="mt-6 text-center min-h-[28px]">
+            {phase === 'submitting' && <p className="text-slate-300 text-sm">Checking...</p>}
+            {lastResult && (
+              <p className="text-white text-lg font-medium">{RESULT_MESSAGES[lastResult]}</p>
+            )}
+          </div>
+
+          <button
+            onClick={handleGoHome}
+            className="mt-4 text-slate-300 hover:text-white text-sm underline"
+          >
+            Give up (ends today's attempt)
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Start / results screen with the leaderboard
+  return (
+    <div className="min-h-screen bg-[var(--bg-dark)] flex flex-col items-center justify-center p-4">
+      <MuteButton />
+
+      <div className="flex flex-col items-center max-w-md w-full text-center">
+        <h1 className="text-3xl sm:text-4xl font-black text-white mb-2 tracking-tight">
+          📅 Daily Challenge
+        </h1>
+        <p className="text-slate-400 mb-6 text-sm sm:text-base">
+          {challenge ? `${challenge.date} (UTC)` : 'Loading...'} • Same sequence for everyone, one try each
+        </p>
+
+        {challenge?.result && (
+          <div className="bg-yellow-500/20 border border-yellow-500 rounded-lg px-4 py-2 mb-4 text-yellow-400 font-bold">
+            🏆 You cleared {challenge.result.score} {challenge.result.score === 1 ? 'round' : 'rounds'} • #{challenge.result.rank}
+          </div>
+        )}
+
+        {challenge?.current && (
+          <button
+            onClick={handleResume}
+            disabled={starting}
+            className="
+              w-full py-4 px-6 rounded-xl font-bold text-lg mb-6
+              bg-[var(--simon-green)] text-white
+              border-2 border-[var(--simon-green)]
+              transition-all duration-200
+              hover:bg-transparent hover:text-[var(--simon-green)]
+              btn-glow-green
+              disabled:opacity-50 disabled:cursor-not-allowed
+              active:scale-[0.98]
+            "
+            style={{ touchAction: 'manipulation', minHeight: '56px' }}
+          >
+            Resume Round {challenge.current.round}
+          </button>
+        )}
+
+        {challenge?.hasPlayed && !challenge.result && !challenge.current && (
+          <p className="text-slate-400 mb-4 text-sm">Your attempt is still running. Come back in a minute.</p>
+        )}
+
+        {challenge && !challenge.hasPlayed && (
+          <form onSubmit={handleStart} className="space-y-4 w-full mb-6 text-left">
+            <input
+              type="text"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              placeholder="Enter your name"
+              minLength={3}
+              maxLength={12}
+              required
+              className="
+                w-full px-4 py-3
+                bg-[var(--bg-card)] border border-slate-600
+                rounded-xl text-white placeholder-slate-500
+                focus:ring-2 focus:ring-[var(--simon-blue)] focus:border-transparent
+                transition-all
+              "
+            />
+            <AvatarPicker value={avatarId} onChange={setAvatarId} />
+            <button
+              type="submit"
+              disabled={starting}
+              className="
+                w-full py-4 px-6 rounded-xl font-bold text-lg
+                bg-[var(--simon-green)] text-white
+                border-2 border-[var(--simon-green)]
+                transition-all duration-200
+                hover:bg-transparent hover:text-[var(--simon-green)]
+                btn-glow-green
+                disabled:opacity-50 disabled:cursor-not-allowed
+                active:scale-[0.98]
+              "
+              style={{ touchAction: 'manipulation', minHeight: '56px' }}
+            >
+              Play Today's Challenge
+            </button>
+          </form>
+        )}
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-xl text-sm mb-4 w-full">
+            {error}
+          </div>
+        )}
+
+        {/* Leaderboard */}
+        <div className="bg-gray-800 rounded-xl w-full p-4 mb-6">
+          <h2 className="text-white font-bold mb-3">Leaderboard</h2>
+          {leaderboard.length === 0 ? (
+            <p className="text-slate-400 text-sm">No scores yet today. Be the first!</p>
+          ) : (
+            <ol className="space-y-1">
+              {leaderboard.map((entry) => (
+                <li key={entry.rank} className="flex items-center justify-between text-white text-sm">
+                  <span className="flex items-center gap-2">
+                    <span className="text-slate-400 w-6 text-right">{entry.rank}.</span>
+                    <span>{AVATAR_EMOJIS[parseInt(entry.avatarId) - 1]}</span>
+                    <span>{entry.displayName}</span>
+                  </span>
+                  <span className="font-bold">{entry.score}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <button
+          onClick={handleGoHome}
+          className="
+            w-full py-3 px-6 rounded-xl font-semibold text-base
+            bg-transparent text-slate-400
+            border-2 border-slate-600
+            transition-all duration-200
+            hover:border-slate-400 hover:text-white
+            active:scale-[0.98]
+          "
+          style={{ touchAction: 'manipulation', minHeight: '48px', maxWidth: '280px' }}
+        >
+          Home
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -3,32 +3,73 @@
  * 
  * Modern dark-themed home page with Simon game aesthetics.
  * Name + avatar selection page - first screen players see.
+ * Signing in is optional; guests play exactly as before.
  */
 
 import { useState, useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { createSession, joinGame } from '../services/authService';
+import { createSession, joinGame, spectateGame } from '../services/authService';
+import { joinMatchmaking } from '../services/matchmakingService';
 import { useAuthStore } from '../store/authStore';
+import { useAccountStore } from '../store/accountStore';
 import { SimonLogo } from '../components/ui/SimonLogo';
+import { AvatarPicker } from '../components/ui/AvatarPicker';
+import { AccountPanel } from '../components/ui/AccountPanel';
+
+type EntryMode = 'create' | 'join' | 'spectate' | 'quick';
+
+const MODE_TITLES: Record<EntryMode, string> = {
+  create: 'Create Game',
+  join: 'Join Game',
+  spectate: 'Watch Game',
+  quick: 'Quick Match',
+};
 
 export function EntryPage() {
   const [searchParams] = useSearchParams();
-  const [mode, setMode] = useState<'create' | 'join' | null>(null);
+  const [mode, setMode] = useState<EntryMode | null>(null);
   const [displayName, setDisplayName] = useState('');
   const [gameCode, setGameCode] = useState('');
+  const [challengeCode, setChallengeCode] = useState<string | null>(null);
   const [avatarId, setAvatarId] = useState('1');
+  const [byRating, setByRating] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   
   const { setSession } = useAuthStore();
+  const { account, load: loadAccount, verifyMagicLink } = useAccountStore();
   const navigate = useNavigate();
   
+  // Restore the signed-in account, or follow a magic sign-in link
+  useEffect(() => {
+    const magicToken = searchParams.get('magic');
+    if (magicToken) {
+      void verifyMagicLink(magicToken);
+    } else {
+      void loadAccount();
+    }
+  }, [searchParams, loadAccount, verifyMagicLink]);
+  
+  // Signed-in players start with their username as display name
+  useEffect(() => {
+    if (account) {
+      setDisplayName(name => name || account.username);
+    }
+  }, [account]);
+  
   useEffect(() => {
     const joinCode = searchParams.get('join');
     if (joinCode) {
       setMode('join');
       setGameCode(joinCode.toUpperCase());
     }
+    
+    // "Beat my run" links start a new room from the shared seed
+    const challenge = searchParams.get('challenge');
+    if (challenge) {
+      setMode('create');
+      setChallengeCode(challenge.toUpperCase());
+    }
   }, [searchParams]);
 
   const handleCreateGame = async (e: React.FormEvent) => {
@@ -37,7 +78,7 @@ export function EntryPage() {
     setLoading(true);
 
     try {
-      const response = await createSession(displayName, avatarId);
+      const response = await createSession(displayName, avatarId, challengeCode ?? undefined);
       setSession(response.session);
       navigate('/waiting');
     } catch (err) {
@@ -63,6 +104,47 @@ export function EntryPage() {
     }
   };
 
+  const handleSpectateGame = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const response = await spectateGame(displayName, avatarId, gameCode);
+      setSession(response.session);
+      navigate('/waiting');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to spectate game');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleQuickMatch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      // Rating only applies to signed-in players
+      const response = await joinMatchmaking({ displayName, avatarId, byRating: byRating && !!account });
+      setSession(response.session);
+      navigate('/waiting');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to find a match');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = mode === 'create'
+    ? handleCreateGame
+    : mode === 'join'
+      ? handleJoinGame
+      : mode === 'quick'
+        ? handleQuickMatch
+        : handleSpectateGame;
+
   if (!mode) {
     return (
       <div className="min-h-screen bg-[var(--bg-dark)] flex flex-col items-center justify-center p-4 relative overflow-hidden">
@@ -126,6 +208,86 @@ export function EntryPage() {
             >
               Join Game
             </button>
+            
+            <button
+              onClick={() => setMode('quick')}
+              className="
+                w-full py-3 px-6 rounded-xl font-semibold text-base
+                bg-transparent text-slate-400
+                border-2 border-slate-600
+                transition-all duration-200
+                hover:border-[var(--simon-blue)] hover:text-[var(--simon-blue)]
+                active:scale-[0.98]
+              "
+              style={{ touchAction: 'manipulation', minHeight: '48px' }}
+            >
+              🎯 Quick Match
+            </button>
+            
+            <button
+              onClick={() => navigate('/rooms')}
+              className="
+                w-full py-3 px-6 rounded-xl font-semibold text-base
+                bg-transparent text-slate-400
+                border-2 border-slate-600
+                transition-all duration-200
+                hover:border-[var(--simon-blue)] hover:text-[var(--simon-blue)]
+                active:scale-[0.98]
+              "
+              style={{ touchAction: 'manipulation', minHeight: '48px' }}
+            >
+              🌐 Browse Rooms
+            </button>
+            
+            <button
+              onClick={() => setMode('spectate')}
+              className="
+                w-full py-3 px-6 rounded-xl font-semibold text-base
+                bg-transparent text-slate-400
+                border-2 border-slate-600
+                transition-all duration-200
+                hover:border-[var(--simon-yellow)] hover:text-[var(--simon-yellow)]
+                active:scale-[0.98]
+              "
+              style={{ touchAction: 'manipulation', minHeight: '48px' }}
+            >
+              👀 Watch a Game
+            </button>
+            
+            <button
+              onClick={() => navigate('/practice')}
+              className="
+                w-full py-3 px-6 rounded-xl font-semibold text-base
+                bg-transparent text-slate-400
+                border-2 border-slate-600
+                transition-all duration-200
+                hover:border-[var(--simon-green)] hover:text-[var(--simon-green)]
+                active:scale-[0.98]
+              "
+              style={{ touchAction: 'manipulation', minHeight: '48px' }}
+            >
+              🧠 Practice Solo
+            </button>
+            
+            <button
+              onClick={() => navigate('/daily')}
+              className="
+                w-full py-3 px-6 rounded-xl font-semibold text-base
+                bg-transparent text-slate-400
+                border-2 border-slate-600
+                transition-all duration-200
+                hover:border-[var(--simon-red)] hover:text-[var(--simon-red)]
+                active:scale-[0.98]
+              "
+              style={{ touchAction: 'manipulation', minHeight: '48px' }}
+            >
+              📅 Daily Challenge
+            </button>
+          </div>
+          
+          {/* Optional account */}
+          <div className="w-full px-4 mt-6" style={{ maxWidth: '280px' }}>
+            <AccountPanel />
           </div>
           
           {/* Footer text */}
@@ -167,16 +329,22 @@ export function EntryPage() {
           <SimonLogo size="sm" animate={false} />
           <div>
             <h2 className="text-2xl sm:text-3xl font-bold text-white">
-              {mode === 'create' ? 'Create Game' : 'Join Game'}
+              {MODE_TITLES[mode]}
             </h2>
             <p className="text-slate-400 text-sm">
-              {mode === 'create' ? 'Start a new game room' : 'Enter a game code'}
+              {mode === 'create'
+                ? challengeCode ? `Challenge ${challengeCode}: same sequence as your friend` : 'Start a new game room'
+                : mode === 'join'
+                  ? 'Enter a game code'
+                  : mode === 'quick'
+                    ? 'Play with whoever else is looking for a game'
+                    : 'Spectate without taking a player slot'}
             </p>
           </div>
         </div>
         
         {/* Form */}
-        <form onSubmit={mode === 'create' ? handleCreateGame : handleJoinGame} className="space-y-5">
+        <form onSubmit={handleSubmit} className="space-y-5">
           {/* Display Name */}
           <div>
             <label className="block text-sm font-medium text-slate-300 mb-2">
@@ -200,8 +368,8 @@ export function EntryPage() {
             />
           </div>
           
-          {/* Game Code (Join mode only) */}
-          {mode === 'join' && (
+          {/* Game Code (Join and Watch modes) */}
+          {(mode === 'join' || mode === 'spectate') && (
             <div>
               <label className="block text-sm font-medium text-slate-300 mb-2">
                 Game Code
@@ -234,39 +402,22 @@ export function EntryPage() {
             <label className="block text-sm font-medium text-slate-300 mb-3">
               Choose Avatar
             </label>
-            <div className="grid grid-cols-4 gap-2">
-              {['1', '2', '3', '4', '5', '6', '7', '8'].map((id) => {
-                const emojis = ['😀', '🎮', '🚀', '⚡', '🎨', '🎯', '🏆', '🌟'];
-                const isSelected = avatarId === id;
-                const colors = ['var(--simon-red)', 'var(--simon-blue)', 'var(--simon-yellow)', 'var(--simon-green)'];
-                const borderColor = colors[(parseInt(id) - 1) % 4];
-                
-                return (
-                  <button
-                    key={id}
-                    type="button"
-                    onClick={() => setAvatarId(id)}
-                    className={`
-                      p-3 rounded-xl transition-all duration-150 
-                      flex items-center justify-center
-                      min-h-[60px]
-                      ${isSelected 
-                        ? 'bg-slate-700 scale-105' 
-                        : 'bg-[var(--bg-dark)] hover:bg-slate-800'}
-                    `}
-                    style={{ 
-                      touchAction: 'manipulation',
-                      border: isSelected ? `2px solid ${borderColor}` : '2px solid transparent',
-                      boxShadow: isSelected ? `0 0 15px ${borderColor}40` : 'none'
-                    }}
-                  >
-                    <span className="text-2xl sm:text-3xl">{emojis[parseInt(id) - 1]}</span>
-                  </button>
-                );
-              })}
-            </div>
+            <AvatarPicker value={avatarId} onChange={setAvatarId} />
           </div>
           
+          {/* Rated matching (Quick Match, signed in) */}
+          {mode === 'quick' && account && (
+            <label className="flex items-center gap-3 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={byRating}
+                onChange={(e) => setByRating(e.target.checked)}
+                className="w-4 h-4"
+              />
+              Only match players near my rating (⭐ {account.rating})
+            </label>
+          )}
+          
           {/* Error Message */}
           {error && (
             <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-xl text-sm">
@@ -283,10 +434,11 @@ export function EntryPage() {
               transition-all duration-200
               min-h-[60px]
               ${mode === 'create'
-                ? 'bg-[var(--simon-green)] hover:brightness-110 btn-glow-green'
-                : 'bg-[var(--simon-blue)] hover:brightness-110 btn-glow-blue'
+                ? 'bg-[var(--simon-green)] hover:brightness-110 btn-glow-green text-white'
+                : mode === 'join' || mode === 'quick'
+                  ? 'bg-[var(--simon-blue)] hover:brightness-110 btn-glow-blue text-white'
+                  : 'bg-[var(--simon-yellow)] hover:brightness-110 text-slate-900'
               }
-              text-white
               disabled:opacity-50 disabled:cursor-not-allowed
               active:scale-[0.98]
             `}
@@ -301,7 +453,7 @@ export function EntryPage() {
                 Loading...
               </span>
             ) : (
-              mode === 'create' ? 'Create Game' : 'Join Game'
+              MODE_TITLES[mode]
             )}
           </button>
         </form>
@@ -0,0 +1,136 @@
+/**
+ * Lobby Page
+ *
+ * Public lobby browser: rooms their hosts made public, refreshed every
+ * few seconds. Joining goes through the normal join form with the code
+ * filled in.
+ */
+
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { getPublicRooms } from '../services/roomService';
+import type { PublicRoom } from '../shared/types';
+
+// How often the list refreshes
+const POLL_INTERVAL_MS = 3000;
+
+const GAME_NAMES = {
+  simon: '🧠 Simon',
+  color_race: '⚡ Color Race',
+} as const;
+
+const SIMON_MODE_NAMES = {
+  free_for_all: 'Free-for-all',
+  chain: 'Chain',
+  coop: 'Co-op',
+  teams: '2v2 Teams',
+} as const;
+
+/**
+ * One-line summary of the settings that change how the game plays
+ */
+function describeSettings(room: PublicRoom): string {
+  if (room.gameType !== 'simon') return '';
+
+  const { simon } = room.settings;
+  return `${SIMON_MODE_NAMES[simon.mode]} • ${simon.padCount} pads • ${simon.lives} ${simon.lives === 1 ? 'life' : 'lives'}`;
+}
+
+export function LobbyPage() {
+  const navigate = useNavigate();
+  const [rooms, setRooms] = useState<PublicRoom[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Poll while the page is open
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      getPublicRooms()
+        .then(response => {
+          if (cancelled) return;
+          setRooms(response.rooms);
+          setError(null);
+          setLoaded(true);
+        })
+        .catch(err => {
+          if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load rooms');
+        });
+    };
+
+    load();
+    const interval = setInterval(load, POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-[var(--bg-dark)] flex flex-col items-center justify-center p-4">
+      <div className="flex flex-col items-center max-w-md w-full text-center">
+        <h1 className="text-3xl sm:text-4xl font-black text-white mb-2 tracking-tight">
+          🌐 Public Rooms
+        </h1>
+        <p className="text-slate-400 text-sm mb-6">Join a game waiting for players</p>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-xl text-sm mb-4 w-full">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-gray-800 rounded-xl w-full p-4 mb-6 text-left" data-testid="public-rooms">
+          {rooms.length === 0 ? (
+            <p className="text-slate-400 text-sm">
+              {loaded ? 'No public rooms right now. Create one and make it public!' : 'Loading rooms...'}
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {rooms.map(room => {
+                const isFull = room.playerCount >= room.maxPlayers;
+
+                return (
+                  <li key={room.gameCode} className="flex items-center justify-between gap-3 text-white text-sm">
+                    <span className="flex flex-col min-w-0">
+                      <span className="font-medium truncate">{room.name ?? `${room.hostName}'s room`}</span>
+                      <span className="text-slate-400 text-xs">
+                        {GAME_NAMES[room.gameType]} • 👥 {room.playerCount}/{room.maxPlayers}
+                        {describeSettings(room) && ` • ${describeSettings(room)}`}
+                      </span>
+                    </span>
+                    <button
+                      onClick={() => navigate(`/?join=${room.gameCode}`)}
+                      disabled={isFull}
+                      className="shrink-0 px-3 py-2 rounded-lg font-semibold bg-[var(--simon-blue)] text-white disabled:opacity-50"
+                      style={{ touchAction: 'manipulation' }}
+                    >
+                      {isFull ? 'Full' : 'Join'}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <button
+          onClick={() => navigate('/')}
+          className="
+            w-full py-3 px-6 rounded-xl font-semibold text-base
+            bg-transparent text-slate-400
+            border-2 border-slate-600
+            transition-all duration-200
+            hover:border-slate-400 hover:text-white
+            active:scale-[0.98]
+          "
+          style={{ touchAction: 'manipulation', minHeight: '48px', maxWidth: '280px' }}
+        >
+          Home
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+/**
+ * Practice Page
+ *
+ * Solo Simon without a room: rounds run in the browser (see practiceStore),
+ * so it works offline and never talks to the server.
+ */
+
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { usePracticeStore } from '../store/practiceStore';
+import { soundService } from '../services/soundService';
+import { CircularSimonBoard } from '../components/game/CircularSimonBoard';
+import { MuteButton } from '../components/ui/MuteButton';
+import { DEFAULT_SIMON_SETTINGS } from '../shared/types';
+
+const RESULT_MESSAGES = {
+  correct: '✅ Correct!',
+  wrong: '❌ Wrong sequence',
+  timeout: "⏰ Time's up",
+} as const;
+
+export function PracticePage() {
+  const navigate = useNavigate();
+  const {
+    gameState,
+    playerSequence,
+    lastResult,
+    isGameOver,
+    secondsRemaining,
+    timerColor,
+    isTimerPulsing,
+    score,
+    bestScore,
+    isNewBest,
+    startGame,
+    addColor,
+    submitSequence,
+    quit,
+  } = usePracticeStore();
+
+  // Stop timers when leaving the page
+  useEffect(() => quit, [quit]);
+
+  const handleStart = async () => {
+    // 🔊 Initialize sound on user interaction
+    await soundService.init();
+    startGame();
+  };
+
+  const handleGoHome = () => {
+    quit();
+    navigate('/');
+  };
+
+  // Start / results screen
+  if (!gameState || isGameOver) {
+    return (
+      <div className="min-h-screen bg-[var(--bg-dark)] flex flex-col items-center justify-center p-4">
+        <MuteButton />
+
+        <div className="flex flex-col items-center max-w-md w-full text-center">
+          <h1 className="text-3xl sm:text-4xl font-black text-white mb-2 tracking-tight">
+            {isGameOver ? 'Practice Over' : '🧠 Practice'}
+          </h1>
+          <p className="text-slate-400 mb-6 text-sm sm:text-base">
+            {isGameOver
+              ? `You cleared ${score} ${score === 1 ? 'round' : 'rounds'}`
+              : 'Solo play, no room needed. Works offline too.'}
+          </p>
+
+          {isGameOver && isNewBest && (
+            <div className="bg-yellow-500/20 border border-yellow-500 rounded-lg px-4 py-2 mb-4 text-yellow-400 font-bold">
+              🏆 New best score!
+            </div>
+          )}
+
+          <div className="bg-gray-800 rounded-xl px-6 py-3 mb-6 text-white">
+            Best: <span className="font-bold">{bestScore}</span>
+          </div>
+
+          <div className="flex flex-col gap-3 w-full px-4" style={{ maxWidth: '280px' }}>
+            <button
+              onClick={handleStart}
+              className="
+                w-full py-4 px-6 rounded-xl font-bold text-lg
+                bg-[var(--simon-green)] text-white
+                border-2 border-[var(--simon-green)]
+                transition-all duration-200
+                hover:bg-transparent hover:text-[var(--simon-green)]
+                btn-glow-green
+                active:scale-[0.98]
+              "
+              style={{ touchAction: 'manipulation', minHeight: '56px' }}
+            >
+              {isGameOver ? 'Play Again' : 'Start'}
+            </button>
+
+            <button
+              onClick={handleGoHome}
+              className="
+                w-full py-3 px-6 rounded-xl font-semibold text-base
+                bg-transparent text-slate-400
+                border-2 border-slate-600
+                transition-all duration-200
+                hover:border-slate-400 hover:text-white
+                active:scale-[0.98]
+              "
+              style={{ touchAction: 'manipulation', minHeight: '48px' }}
+            >
+              Home
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const isShowingSequence = gameState.phase === 'showing_sequence';
+  const isInputPhase = gameState.phase === 'player_input';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-900 via-purple-900 to-pink-900 flex items-center justify-center p-2 sm:p-4">
+      <MuteButton />
+
+      <div className="flex flex-col items-center w-full max-w-md">
+        {/* Score */}
+        <div className="bg-gray-800 rounded-xl sm:rounded-2xl px-3 py-2 mb-3 w-full flex justify-between text-white text-xs sm:text-sm">
+          <span>Score: <span className="font-bold">{score}</span></span>
+          <span>Best: <span className="font-bold">{bestScore}</span></span>
+        </div>
+
+        <CircularSimonBoard
+          sequence={gameState.sequence}
+          round={gameState.round}
+          isShowingSequence={isShowingSequence}
+          isInputPhase={isInputPhase}
+          playerSequence={playerSequence}
+          canSubmit={isInputPhase && playerSequence.length === gameState.sequence.length}
+          lastResult={null}
+          onColorClick={addColor}
+          onSubmit={submitSequence}
+          secondsRemaining={secondsRemaining}
+          timerColor={timerColor}
+          isTimerPulsing={isTimerPulsing}
+          showDurationMs={DEFAULT_SIMON_SETTINGS.showColorDurationMs}
+          showGapMs={DEFAULT_SIMON_SETTINGS.showColorGapMs}
+        />
+
+        {/* Round result */}
+        <div className="mt-6 text-center min-h-[28px]">
+          {lastResult && (
+            <p className="text-white text-lg font-medium">{RESULT_MESSAGES[lastResult]}</p>
+          )}
+        </div>
+
+        <button
+          onClick={handleGoHome}
+          className="mt-4 text-slate-300 hover:text-white text-sm underline"
+        >
+          Quit practice
+        </button>
+      </div>
+    </div>
+  );
+}
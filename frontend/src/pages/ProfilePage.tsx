@@ -0,0 +1,139 @@
+/**
+ * Profile Page
+ *
+ * A player's stats (longest sequence, win rate, average reaction time)
+ * and recent matches. The URL holds an account ID for signed-in players
+ * or a room player ID for guests.
+ */
+
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { getPlayerHistory, getPlayerStats } from '../services/historyService';
+import { AVATAR_EMOJIS } from '../components/ui/AvatarPicker';
+import type { PlayerMatch, PlayerStatsResponse } from '../shared/types';
+
+const GAME_NAMES = {
+  simon: 'Simon',
+  color_race: 'Color Race',
+} as const;
+
+/**
+ * Win rate as a percentage, or a dash before any multiplayer match
+ */
+function formatWinRate(winRate: number | null): string {
+  return winRate === null ? '–' : `${Math.round(winRate * 100)}%`;
+}
+
+function formatReaction(averageReactionMs: number | null): string {
+  return averageReactionMs === null ? '–' : `${(averageReactionMs / 1000).toFixed(2)}s`;
+}
+
+export function ProfilePage() {
+  const { playerId = '' } = useParams();
+  const navigate = useNavigate();
+  const [stats, setStats] = useState<PlayerStatsResponse | null>(null);
+  const [matches, setMatches] = useState<PlayerMatch[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([getPlayerStats(playerId), getPlayerHistory(playerId)])
+      .then(([stats, history]) => {
+        setStats(stats);
+        setMatches(history.matches);
+        setError(null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load profile'));
+  }, [playerId]);
+
+  // Most recent name this player used
+  const self = matches[0]?.players.find(p => p.playerId === matches[0].selfPlayerId);
+
+  return (
+    <div className="min-h-screen bg-[var(--bg-dark)] flex flex-col items-center justify-center p-4">
+      <div className="flex flex-col items-center max-w-md w-full text-center">
+        <h1 className="text-3xl sm:text-4xl font-black text-white mb-2 tracking-tight">
+          📊 {self ? `${AVATAR_EMOJIS[parseInt(self.avatarId) - 1] ?? ''} ${self.displayName}` : 'Profile'}
+        </h1>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-xl text-sm mb-4 w-full">
+            {error}
+          </div>
+        )}
+
+        {/* Stats */}
+        {stats && (
+          <div className="grid grid-cols-2 gap-3 w-full mb-6" data-testid="player-stats">
+            <div className="bg-gray-800 rounded-xl p-3">
+              <div className="text-2xl font-bold text-white">{stats.gamesPlayed}</div>
+              <div className="text-gray-400 text-xs">Games</div>
+            </div>
+            <div className="bg-gray-800 rounded-xl p-3">
+              <div className="text-2xl font-bold text-white">{formatWinRate(stats.winRate)}</div>
+              <div className="text-gray-400 text-xs">Win rate ({stats.wins} wins)</div>
+            </div>
+            <div className="bg-gray-800 rounded-xl p-3">
+              <div className="text-2xl font-bold text-white">{stats.longestSequence}</div>
+              <div className="text-gray-400 text-xs">Longest sequence</div>
+            </div>
+            <div className="bg-gray-800 rounded-xl p-3">
+              <div className="text-2xl font-bold text-white">{formatReaction(stats.averageReactionMs)}</div>
+              <div className="text-gray-400 text-xs">Avg. reaction</div>
+            </div>
+          </div>
+        )}
+
+        {/* Match history */}
+        <div className="bg-gray-800 rounded-xl w-full p-4 mb-6 text-left">
+          <h2 className="text-white font-bold mb-3">Recent Matches</h2>
+          {matches.length === 0 ? (
+            <p className="text-slate-400 text-sm">No finished matches yet.</p>
+          ) : (
+            <ol className="space-y-2">
+              {matches.map(match => {
+                const me = match.players.find(p => p.playerId === match.selfPlayerId);
+
+                return (
+                  <li key={match.id} className="flex items-center justify-between text-white text-sm">
+                    <span className="flex flex-col">
+                      <span className="font-medium">
+                        {me?.rank === 1 && match.players.length > 1 ? '🏆 ' : ''}
+                        {GAME_NAMES[match.gameType]} • #{me?.rank} of {match.players.length}
+                      </span>
+                      <span className="text-slate-400 text-xs">
+                        {new Date(match.finishedAt).toLocaleString()} • {match.rounds.length} rounds
+                      </span>
+                    </span>
+                    <span className="flex flex-col items-end">
+                      <span className="font-bold">{me?.score ?? 0} pts</span>
+                      {me && me.ratingChange !== null && (
+                        <span className={`text-xs ${me.ratingChange >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                          ⭐ {me.ratingChange >= 0 ? '+' : ''}{me.ratingChange}
+                        </span>
+                      )}
+                    </span>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+
+        <button
+          onClick={() => navigate('/')}
+          className="
+            w-full py-3 px-6 rounded-xl font-semibold text-base
+            bg-transparent text-slate-400
+            border-2 border-slate-600
+            transition-all duration-200
+            hover:border-slate-400 hover:text-white
+            active:scale-[0.98]
+          "
+          style={{ touchAction: 'manipulation', minHeight: '48px', maxWidth: '280px' }}
+        >
+          Home
+        </button>
+      </div>
+    </div>
+  );
+}
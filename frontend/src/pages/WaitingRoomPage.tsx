@@ -2,20 +2,45 @@
  * Waiting Room / Game Page
  * 
  * Combined page that shows:
- * - Waiting room before game starts
- * - Simon game board during gameplay
+ * - Waiting room before game starts (host picks the game)
+ * - Simon or Color Race board during gameplay
  */
 
 import { useEffect, useState, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../store/authStore';
 import { useSimonStore } from '../store/simonStore';
+import { useColorRaceStore } from '../store/colorRaceStore';
 import { socketService } from '../services/socketService';
 import { soundService } from '../services/soundService';
 import { CircularSimonBoard } from '../components/game/CircularSimonBoard';
+import { ColorRaceBoard } from '../components/game/ColorRaceBoard';
 import { GameOverScreen } from '../components/game/GameOverScreen';
+import { RoomSettingsPanel } from '../components/game/RoomSettingsPanel';
+import { RoomListingPanel } from '../components/game/RoomListingPanel';
 import { Toast } from '../components/ui/Toast';
 import { MuteButton } from '../components/ui/MuteButton';
+import { DEFAULT_ROOM_SETTINGS, BOT_DIFFICULTIES, TEAM_IDS } from '../shared/types';
+import type { BotDifficulty, GameType, PublicPlayer, RoomListingUpdate, RoomMatchmaking, RoomSettingsUpdate, RoomSettingsView, RoomStatus, RoomView, SocketError, TeamId } from '../shared/types';
+
+// Game picker options shown to the host in the lobby
+const GAME_OPTIONS: Array<{ type: GameType; label: string; description: string }> = [
+  { type: 'simon', label: '🧠 Simon', description: 'Repeat the growing sequence' },
+  { type: 'color_race', label: '⚡ Color Race', description: 'Click the color first' },
+];
+
+// Settings shown until the server sends the room's own
+const DEFAULT_SETTINGS: RoomSettingsView = {
+  maxPlayers: DEFAULT_ROOM_SETTINGS.maxPlayers,
+  simon: DEFAULT_ROOM_SETTINGS.simon,
+  hasChallenge: false,
+};
+
+// Team badge colors (team mode)
+const TEAM_BADGE_CLASSES: Record<TeamId, string> = {
+  A: 'bg-orange-100 text-orange-700',
+  B: 'bg-cyan-100 text-cyan-700',
+};
 
 export function WaitingRoomPage() {
   const navigate = useNavigate();
@@ -27,10 +52,17 @@ export function WaitingRoomPage() {
     isGameActive, 
     currentSequence, 
     currentRound, 
+    variant,
+    palette,
+    activePlayerId,
+    slice,
+    showColorDurationMs,
+    showColorGapMs,
     isShowingSequence,
     isInputPhase,
     playerSequence,
     canSubmit,
+    isChoosingColor,
     lastResult,
     message,
     secondsRemaining,
@@ -38,24 +70,53 @@ export function WaitingRoomPage() {
     isTimerPulsing,
     isEliminated,
     scores,
+    lives,
     submittedPlayers,
     isGameOver,
     gameWinner,
     finalScores,
+    challengeCode,
+    roundHistory,
+    teams,
+    winningTeamId,
+    ratingChanges,
     initializeListeners,
     cleanup,
     addColorToSequence,
     submitSequence,
+    appendColor,
     resetGame,
   } = useSimonStore();
   
-  const [roomStatus, setRoomStatus] = useState<'waiting' | 'countdown' | 'active'>('waiting');
+  const colorRace = useColorRaceStore();
+  
+  const [roomStatus, setRoomStatus] = useState<RoomStatus>('waiting');
   const [countdownValue, setCountdownValue] = useState<number | null>(null);
   const [isHost, setIsHost] = useState(session?.isHost || false);
-  const [players, setPlayers] = useState<any[]>([]);
+  const [gameType, setGameType] = useState<GameType>('simon');
+  const [settings, setSettings] = useState<RoomSettingsView>(DEFAULT_SETTINGS);
+  const [matchmaking, setMatchmaking] = useState<RoomMatchmaking | null>(null);
+  const [listing, setListing] = useState<RoomListingUpdate>({ isPublic: false, name: null });
+  const [now, setNow] = useState(Date.now());
+  const [players, setPlayers] = useState<PublicPlayer[]>([]);
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>('medium');
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
   const lastCountdownValue = useRef<number | null>(null);
   
+  // Tick the quick match wait timer
+  useEffect(() => {
+    if (!matchmaking?.startsAt) return;
+    
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [matchmaking?.startsAt]);
+  
+  // Spectators watch the room but never take a player slot
+  const isSpectator = session?.role === 'spectator';
+  const activePlayers = players.filter(p => p.role !== 'spectator');
+  const spectators = players.filter(p => p.role === 'spectator');
+  const isTeamGame = gameType === 'simon' && settings.simon.mode === 'teams';
+  
   // Initialize on mount
   useEffect(() => {
     console.log('🎮 WaitingRoomPage mounted');
@@ -64,8 +125,9 @@ export function WaitingRoomPage() {
     const socket = socketService.connect();
     console.log('✅ Socket connected:', socket.connected);
     
-    // Initialize Simon listeners AFTER socket is connected
-    initializeListeners();
+    // Initialize game listeners AFTER socket is connected
+    initializeListeners(playerId);
+    useColorRaceStore.getState().initializeListeners();
     
     // Join room via socket
     if (gameCode && playerId) {
@@ -73,32 +135,40 @@ export function WaitingRoomPage() {
     }
     
     // Listen for initial room state (ONCE to avoid race condition)
-    socket.once('room_state', (room: any) => {
+    socket.once('room_state', (room: RoomView) => {
       console.log('📦 Initial room state:', room);
       setPlayers(room.players || []);
       setRoomStatus(room.status);
+      setGameType(room.gameType || 'simon');
+      setSettings(room.settings || DEFAULT_SETTINGS);
+      setMatchmaking(room.matchmaking ?? null);
+      setListing({ isPublic: room.isPublic ?? false, name: room.name ?? null });
       
       // Check if we're the host
-      const me = room.players?.find((p: any) => p.id === playerId);
+      const me = room.players?.find(p => p.id === playerId);
       const isHostPlayer = me?.isHost || false;
       console.log('🎮 isHost check:', { playerId, me, isHostPlayer });
       setIsHost(isHostPlayer);
     });
     
     // Listen for room state updates (when players join/leave)
-    socket.on('room_state_update', (room: any) => {
+    socket.on('room_state_update', (room: RoomView) => {
       console.log('🔄 Room state updated:', room);
       setPlayers(room.players || []);
       setRoomStatus(room.status);
+      setGameType(room.gameType || 'simon');
+      setSettings(room.settings || DEFAULT_SETTINGS);
+      setMatchmaking(room.matchmaking ?? null);
+      setListing({ isPublic: room.isPublic ?? false, name: room.name ?? null });
       
       // Check if we're the host
-      const me = room.players?.find((p: any) => p.id === playerId);
+      const me = room.players?.find(p => p.id === playerId);
       setIsHost(me?.isHost || false);
     });
     
     // Listen for errors
-    socket.on('error', (data: { message: string }) => {
-      console.error('❌ Server error:', data.message);
+    socket.on('error', (data: SocketError) => {
+      console.error(`❌ Server error [${data.code}]:`, data.message);
       setToast({ message: data.message, type: 'error' });
     });
     
@@ -122,7 +192,7 @@ export function WaitingRoomPage() {
     });
     
     // Listen for player joined (for real-time feedback)
-    socket.on('player_joined', (player: any) => {
+    socket.on('player_joined', (player: PublicPlayer) => {
       console.log('👋 Player joined:', player);
       // Don't modify state here - wait for room_state_update
     });
@@ -138,6 +208,7 @@ export function WaitingRoomPage() {
       console.log('🔄 Game restarted:', data.gameCode);
       // Reset local state to waiting room
       resetGame();
+      useColorRaceStore.getState().resetGame();
       setRoomStatus('waiting');
       lastCountdownValue.current = null;
     });
@@ -145,6 +216,7 @@ export function WaitingRoomPage() {
     // Cleanup on unmount
     return () => {
       cleanup();
+      useColorRaceStore.getState().cleanup();
       socket.off('room_state');
       socket.off('room_state_update');
       socket.off('error');
@@ -186,6 +258,56 @@ export function WaitingRoomPage() {
     socket.emit('start_game', { gameCode, playerId });
   };
   
+  // Handle game selection (host only)
+  const handleSelectGame = (selected: GameType) => {
+    if (selected === gameType) return;
+    
+    const socket = socketService.getSocket();
+    if (!socket || !gameCode || !playerId) return;
+    
+    socket.emit('select_game', { gameCode, playerId, gameType: selected });
+  };
+  
+  // Handle settings change (host only)
+  const handleSettingsChange = (update: RoomSettingsUpdate) => {
+    const socket = socketService.getSocket();
+    if (!socket || !gameCode || !playerId) return;
+    
+    socket.emit('update_settings', { gameCode, playerId, settings: update });
+  };
+  
+  // List the room in the lobby browser, or hide it (host only)
+  const handleListingChange = (update: RoomListingUpdate) => {
+    const socket = socketService.getSocket();
+    if (!socket || !gameCode || !playerId) return;
+    
+    socket.emit('update_listing', { gameCode, playerId, ...update });
+  };
+  
+  // Fill a seat with a bot (host only)
+  const handleAddBot = () => {
+    const socket = socketService.getSocket();
+    if (!socket || !gameCode || !playerId) return;
+    
+    socket.emit('add_bot', { gameCode, playerId, difficulty: botDifficulty });
+  };
+  
+  // Remove a bot from the lobby (host only)
+  const handleRemoveBot = (botId: string) => {
+    const socket = socketService.getSocket();
+    if (!socket || !gameCode || !playerId) return;
+    
+    socket.emit('remove_bot', { gameCode, playerId, botId });
+  };
+  
+  // Move a player to the other team (host: anyone, players: themselves)
+  const handleSwitchTeam = (targetId: string, team: TeamId) => {
+    const socket = socketService.getSocket();
+    if (!socket || !gameCode || !playerId) return;
+    
+    socket.emit('set_team', { gameCode, playerId, targetId, team: team === 'A' ? 'B' : 'A' });
+  };
+  
   // Copy game code to clipboard
   const copyGameCode = async () => {
     if (!gameCode) return;
@@ -216,6 +338,7 @@ export function WaitingRoomPage() {
   const handlePlayAgain = () => {
     // Reset local game state
     resetGame();
+    colorRace.resetGame();
     setRoomStatus('waiting');
     
     // Emit restart_game to reset room on server
@@ -229,10 +352,20 @@ export function WaitingRoomPage() {
   // Handle Go Home
   const handleGoHome = () => {
     cleanup();
+    colorRace.cleanup();
     clearSession();
     navigate('/');
   };
 
+  // Leave the room for the player's profile (account, or this room's player ID for guests)
+  const handleViewStats = () => {
+    const profileId = session?.accountId ?? playerId;
+    cleanup();
+    colorRace.cleanup();
+    clearSession();
+    navigate(`/profile/${profileId}`);
+  };
+
   // Share game using native share API (mobile-friendly)
   const shareGame = async () => {
     if (!gameCode) return;
@@ -270,14 +403,97 @@ export function WaitingRoomPage() {
           finalScores={finalScores}
           currentPlayerId={playerId || ''}
           roundsPlayed={currentRound}
-          onPlayAgain={handlePlayAgain}
+          onPlayAgain={isSpectator ? undefined : handlePlayAgain}
+          onGoHome={handleGoHome}
+          onViewStats={isSpectator ? undefined : handleViewStats}
+          gameCode={gameCode || ''}
+          challengeCode={challengeCode}
+          roundHistory={roundHistory}
+          teams={teams}
+          winningTeamId={winningTeamId}
+          ratingChanges={ratingChanges}
+        />
+      </>
+    );
+  }
+
+  // Render Color Race results
+  if (gameType === 'color_race' && colorRace.phase === 'finished') {
+    const colorRaceScores = activePlayers
+      .map(player => ({
+        playerId: player.id,
+        name: player.displayName,
+        score: colorRace.scores[player.id] || 0,
+      }))
+      .sort((a, b) => b.score - a.score);
+    
+    return (
+      <>
+        <MuteButton />
+        <GameOverScreen
+          winner={colorRace.gameWinner ? {
+            playerId: colorRace.gameWinner.playerId,
+            name: colorRace.gameWinner.displayName,
+            score: colorRace.gameWinner.score,
+          } : null}
+          finalScores={colorRaceScores}
+          currentPlayerId={playerId || ''}
+          roundsPlayed={colorRace.totalRounds}
+          onPlayAgain={isSpectator ? undefined : handlePlayAgain}
           onGoHome={handleGoHome}
+          onViewStats={isSpectator ? undefined : handleViewStats}
           gameCode={gameCode || ''}
+          challengeCode={colorRace.challengeCode}
         />
       </>
     );
   }
 
+  // Render Color Race board if active
+  if (roomStatus === 'active' && gameType === 'color_race') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-900 via-purple-900 to-pink-900 flex items-center justify-center p-2 sm:p-4">
+        <MuteButton />
+        
+        <div className="flex flex-col items-center w-full max-w-md">
+          {/* Scoreboard */}
+          <div className="bg-gray-800 rounded-xl sm:rounded-2xl p-2 sm:p-3 mb-3 w-full">
+            <div className="space-y-1">
+              {activePlayers.map((player) => (
+                <div
+                  key={player.id}
+                  className={`flex items-center justify-between px-2 sm:px-3 py-1.5 sm:py-2 rounded ${
+                    player.id === playerId ? 'bg-blue-600' : 'bg-gray-700'
+                  }`}
+                >
+                  <span className="text-white text-xs sm:text-sm">{player.displayName}</span>
+                  <span className="text-white text-xs sm:text-sm font-bold">
+                    {colorRace.scores[player.id] || 0} pts
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+          
+          <ColorRaceBoard
+            phase={colorRace.phase}
+            currentColor={colorRace.currentColor}
+            round={colorRace.round}
+            totalRounds={colorRace.totalRounds}
+            roundWinner={colorRace.roundWinner}
+            hasAnswered={colorRace.hasAnswered || isSpectator}
+            currentPlayerId={playerId || ''}
+            onColorClick={(color) => {
+              if (gameCode && playerId) {
+                colorRace.submitAnswer(gameCode, playerId, color);
+              }
+            }}
+          />
+        </div>
+      </div>
+    );
+  }
+
   // Render game board if active
   if (roomStatus === 'active' && isGameActive) {
     return (
@@ -290,23 +506,38 @@ export function WaitingRoomPage() {
           {isGameActive && Object.keys(scores).length > 0 && (
             <div className="bg-gray-800 rounded-xl sm:rounded-2xl p-2 sm:p-3 mb-3 w-full">
               <div className="space-y-1">
-                {players.map((player) => {
+                {activePlayers.map((player) => {
                   const score = scores[player.id] || 0;
+                  const livesLeft = lives[player.id] ?? settings.simon.lives;
                   const hasSubmitted = submittedPlayers.includes(player.id);
                   const isCurrentPlayer = player.id === playerId;
+                  const isTheirTurn = player.id === activePlayerId;
                   
                   return (
                     <div
                       key={player.id}
+                      data-testid={isTheirTurn ? 'active-turn' : undefined}
                       className={`flex items-center justify-between px-2 sm:px-3 py-1.5 sm:py-2 rounded ${
                         isCurrentPlayer ? 'bg-blue-600' : 'bg-gray-700'
-                      }`}
+                      } ${isTheirTurn ? 'ring-2 ring-yellow-400' : ''}`}
                     >
                       <span className="text-white text-xs sm:text-sm flex items-center gap-1 sm:gap-2">
-                        <span>{player.avatar}</span>
                         <span>{player.displayName}</span>
+                        {isTeamGame && player.team && (
+                          <span className={`text-xs font-bold px-1.5 rounded ${TEAM_BADGE_CLASSES[player.team as TeamId]}`}>
+                            {player.team}
+                          </span>
+                        )}
+                        {/* Chain mode: whose turn it is */}
+                        {isTheirTurn && <span className="text-yellow-400 text-xs">🎯 Turn</span>}
                       </span>
                       <div className="flex items-center gap-2">
+                        {/* Lives (only when the room allows more than one) */}
+                        {settings.simon.lives > 1 && (
+                          <span className="text-xs" title={`${livesLeft} ${livesLeft === 1 ? 'life' : 'lives'} left`}>
+                            {'❤️'.repeat(livesLeft)}{'🖤'.repeat(Math.max(0, settings.simon.lives - livesLeft))}
+                          </span>
+                        )}
                         <span className="text-white text-xs sm:text-sm font-bold">
                           {score} pts
                         </span>
@@ -339,16 +570,33 @@ export function WaitingRoomPage() {
             playerSequence={playerSequence}
             canSubmit={canSubmit}
             lastResult={lastResult}
-            onColorClick={addColorToSequence}
+            onColorClick={(color) => {
+              if (isChoosingColor) {
+                if (gameCode && playerId) appendColor(gameCode, playerId, color);
+              } else {
+                addColorToSequence(color);
+              }
+            }}
             onSubmit={() => {
               if (gameCode && playerId) {
                 submitSequence(gameCode, playerId);
               }
             }}
-            disabled={isEliminated}
+            disabled={isEliminated || isSpectator}
             secondsRemaining={secondsRemaining}
             timerColor={timerColor}
             isTimerPulsing={isTimerPulsing}
+            showDurationMs={showColorDurationMs}
+            showGapMs={showColorGapMs}
+            variant={variant}
+            palette={palette}
+            isChoosingColor={isChoosingColor}
+            slice={slice}
+            turnPlayerName={
+              activePlayerId && activePlayerId !== playerId
+                ? players.find(p => p.id === activePlayerId)?.displayName ?? null
+                : null
+            }
           />
           
           {/* Message Display */}
@@ -360,12 +608,17 @@ export function WaitingRoomPage() {
           <div className="mt-8 bg-white/10 backdrop-blur rounded-2xl p-4">
             <h3 className="text-white font-bold mb-2">Players</h3>
             <div className="grid grid-cols-2 gap-2">
-              {players.map(player => (
+              {activePlayers.map(player => (
                 <div key={player.id} className="text-white/80 text-sm">
                   {player.displayName} {player.isHost && '👑'}
                 </div>
               ))}
             </div>
+            {spectators.length > 0 && (
+              <p className="mt-2 text-white/60 text-xs">
+                👀 {spectators.length} watching
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -399,6 +652,16 @@ export function WaitingRoomPage() {
       <div className="bg-white rounded-2xl sm:rounded-3xl shadow-2xl p-4 sm:p-6 md:p-8 max-w-md sm:max-w-xl md:max-w-2xl w-full">
         <h1 className="text-2xl sm:text-3xl font-bold text-center mb-2">Waiting Room</h1>
         
+        {/* Quick match status */}
+        {matchmaking && (
+          <p className="text-center text-blue-700 bg-blue-50 rounded-lg py-2 mb-4 text-sm sm:text-base" data-testid="matchmaking-status">
+            🎯 Finding players… ({activePlayers.length}/{settings.maxPlayers})
+            {matchmaking.startsAt && (
+              <span className="font-semibold"> • Starting in {Math.max(0, Math.ceil((matchmaking.startsAt - now) / 1000))}s</span>
+            )}
+          </p>
+        )}
+        
         {/* Game Code Display with Share Buttons */}
         <div className="mb-6 sm:mb-8">
           <p className="text-center text-gray-600 mb-3 text-sm sm:text-base">
@@ -438,27 +701,148 @@ export function WaitingRoomPage() {
         
         {/* Players List */}
         <div className="mb-6 sm:mb-8">
-          <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">Players ({players.length})</h2>
+          <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">Players ({activePlayers.length}/{settings.maxPlayers})</h2>
           <div className="space-y-2">
-            {players.map(player => (
+            {activePlayers.map(player => (
               <div 
                 key={player.id} 
                 className="bg-gray-100 rounded-lg p-3 flex items-center justify-between"
               >
                 <span className="font-medium">
+                  {player.isBot && '🤖 '}
                   {player.displayName}
                   {player.id === playerId && ' (You)'}
+                  {player.isBot && (
+                    <span className="ml-2 text-xs text-gray-500 capitalize">{player.botDifficulty}</span>
+                  )}
+                  {typeof player.rating === 'number' && (
+                    <span className="ml-2 text-xs text-gray-500" title="Skill rating">⭐ {player.rating}</span>
+                  )}
                 </span>
+                {isTeamGame && player.team && (
+                  <button
+                    onClick={() => handleSwitchTeam(player.id, player.team as TeamId)}
+                    disabled={!isHost && player.id !== playerId}
+                    className={`text-xs font-bold px-2 py-1 rounded min-h-[32px] ${TEAM_BADGE_CLASSES[player.team as TeamId]} disabled:cursor-default`}
+                    style={{ touchAction: 'manipulation' }}
+                    title={isHost || player.id === playerId ? 'Switch team' : undefined}
+                  >
+                    Team {player.team}
+                  </button>
+                )}
                 {player.isHost && <span className="text-yellow-500">👑 Host</span>}
+                {player.isBot && isHost && (
+                  <button
+                    onClick={() => handleRemoveBot(player.id)}
+                    className="text-gray-400 hover:text-red-500 text-sm px-2"
+                    style={{ touchAction: 'manipulation' }}
+                    title="Remove bot"
+                  >
+                    ✕
+                  </button>
+                )}
               </div>
             ))}
           </div>
+          
+          {/* Team mode needs a player on each team */}
+          {isTeamGame && TEAM_IDS.some(team => !activePlayers.some(p => p.team === team)) && (
+            <p className="mt-2 text-sm text-orange-600">Each team needs at least one player to start.</p>
+          )}
+          
+          {/* Add Bot (host only, while a seat is free) */}
+          {isHost && activePlayers.length < settings.maxPlayers && (
+            <div className="mt-3 flex gap-2">
+              <select
+                value={botDifficulty}
+                onChange={(e) => setBotDifficulty(e.target.value as BotDifficulty)}
+                className="bg-gray-100 rounded-lg px-3 text-sm capitalize min-h-[44px]"
+              >
+                {BOT_DIFFICULTIES.map(difficulty => (
+                  <option key={difficulty} value={difficulty}>{difficulty}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleAddBot}
+                className="flex-1 bg-purple-100 hover:bg-purple-200 active:bg-purple-300 active:scale-95 text-purple-700 font-medium py-2 px-4 rounded-lg transition-all duration-75 text-sm sm:text-base min-h-[44px]"
+                style={{ touchAction: 'manipulation' }}
+              >
+                🤖 Add Bot
+              </button>
+            </div>
+          )}
+        </div>
+        
+        {/* Spectators List */}
+        {spectators.length > 0 && (
+          <div className="mb-6 sm:mb-8">
+            <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">👀 Watching ({spectators.length})</h2>
+            <div className="flex flex-wrap gap-2">
+              {spectators.map(spectator => (
+                <span key={spectator.id} className="bg-gray-100 rounded-full px-3 py-1 text-sm text-gray-600">
+                  {spectator.displayName}
+                  {spectator.id === playerId && ' (You)'}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        {/* Game Selection */}
+        <div className="mb-6 sm:mb-8">
+          <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">Game</h2>
+          <div className="grid grid-cols-2 gap-2">
+            {GAME_OPTIONS.map(option => {
+              const isSelected = option.type === gameType;
+              
+              return (
+                <button
+                  key={option.type}
+                  onClick={() => handleSelectGame(option.type)}
+                  disabled={!isHost}
+                  className={`rounded-lg p-3 text-left transition-all duration-75 min-h-[56px] border-2 ${
+                    isSelected
+                      ? 'border-purple-600 bg-purple-50'
+                      : 'border-gray-200 bg-gray-100'
+                  } ${isHost ? 'hover:border-purple-400 active:scale-95' : 'cursor-default'} ${
+                    !isHost && !isSelected ? 'opacity-50' : ''
+                  }`}
+                  style={{ touchAction: 'manipulation' }}
+                >
+                  <div className="font-bold text-sm sm:text-base">{option.label}</div>
+                  <div className="text-xs text-gray-500">{option.description}</div>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+        
+        {/* Room Settings */}
+        <div className="mb-6 sm:mb-8">
+          <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">Settings</h2>
+          <RoomSettingsPanel
+            settings={settings}
+            isHost={isHost}
+            playerCount={activePlayers.length}
+            onChange={handleSettingsChange}
+          />
+        </div>
+        
+        {/* Public listing */}
+        <div className="mb-6 sm:mb-8">
+          <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">Visibility</h2>
+          <RoomListingPanel
+            isPublic={listing.isPublic}
+            name={listing.name}
+            isHost={isHost}
+            onChange={handleListingChange}
+          />
         </div>
         
         {/* Start Button (host only, or solo player) */}
-        {(isHost || players.length === 1) && (
+        {!isSpectator && (isHost || activePlayers.length === 1) && (
           <>
-            {players.length === 1 && (
+            {activePlayers.length === 1 && (
               <p className="text-center text-sm text-gray-500 mb-2">
                 💡 You can start solo or wait for others to join
               </p>
@@ -468,12 +852,16 @@ export function WaitingRoomPage() {
               className="w-full bg-green-500 hover:bg-green-600 active:bg-green-700 active:scale-98 text-white font-bold py-3 sm:py-4 px-6 rounded-lg sm:rounded-xl transition-all duration-75 text-base sm:text-lg min-h-[56px]"
               style={{ touchAction: 'manipulation' }}
             >
-              🎮 {players.length === 1 ? 'Start Solo Game' : 'Start Game'}
+              🎮 {activePlayers.length === 1 ? 'Start Solo Game' : 'Start Game'}
             </button>
           </>
         )}
         
-        {!isHost && players.length > 1 && (
+        {isSpectator ? (
+          <p className="text-center text-gray-500 text-sm sm:text-base">
+            👀 You're watching - the game will appear here when it starts
+          </p>
+        ) : !isHost && activePlayers.length > 1 && (
           <p className="text-center text-gray-500 text-sm sm:text-base">
             Waiting for host to start the game...
           </p>
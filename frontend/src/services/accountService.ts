@@ -0,0 +1,85 @@
+/**
+ * Account Service
+ * 
+ * HTTP API calls for optional player accounts.
+ */
+
+import type { AccountResponse, MagicLinkResponse } from '../shared/types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+
+/**
+ * POST JSON to an account endpoint, throwing the server's error message
+ */
+async function postAccount<T>(path: string, body: unknown, fallbackError: string): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}/api/accounts${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include', // CRITICAL: Send/receive cookies
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || fallbackError);
+  }
+
+  return response.json();
+}
+
+/**
+ * Create a password account and sign in
+ * (an email address lets the account sign in with magic links)
+ */
+export function register(username: string, password: string, email?: string): Promise<AccountResponse> {
+  return postAccount('/register', { username, password, email }, 'Failed to register');
+}
+
+/**
+ * Sign in with username and password
+ */
+export function login(username: string, password: string): Promise<AccountResponse> {
+  return postAccount('/login', { username, password }, 'Failed to sign in');
+}
+
+/**
+ * Ask for a magic sign-in link (sent to the account's email address)
+ */
+export function requestMagicLink(username: string): Promise<MagicLinkResponse> {
+  return postAccount('/magic-link', { username }, 'Failed to send link');
+}
+
+/**
+ * Follow a magic link and sign in
+ */
+export function verifyMagicLink(token: string): Promise<AccountResponse> {
+  return postAccount('/magic-link/verify', { token }, 'Invalid or expired link');
+}
+
+/**
+ * The signed-in account (null for guests)
+ */
+export async function getCurrentAccount(): Promise<AccountResponse> {
+  const response = await fetch(`${API_BASE_URL}/api/accounts/me`, {
+    method: 'GET',
+    credentials: 'include', // CRITICAL: Send cookies
+  });
+
+  if (!response.ok) {
+    return { account: null };
+  }
+
+  return response.json();
+}
+
+/**
+ * Sign out of the account (room sessions are kept)
+ */
+export async function logoutAccount(): Promise<void> {
+  await fetch(`${API_BASE_URL}/api/accounts/logout`, {
+    method: 'POST',
+    credentials: 'include',
+  });
+}
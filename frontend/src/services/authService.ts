@@ -17,7 +17,8 @@ const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
  */
 export async function createSession(
   displayName: string,
-  avatarId: string
+  avatarId: string,
+  challengeCode?: string
 ): Promise<CreateSessionResponse> {
   const response = await fetch(`${API_BASE_URL}/api/auth/create-session`, {
     method: 'POST',
@@ -25,7 +26,7 @@ export async function createSession(
       'Content-Type': 'application/json',
     },
     credentials: 'include', // CRITICAL: Send/receive cookies
-    body: JSON.stringify({ displayName, avatarId }),
+    body: JSON.stringify({ displayName, avatarId, challengeCode }),
   });
 
   if (!response.ok) {
@@ -61,6 +62,31 @@ export async function joinGame(
   return response.json();
 }
 
+/**
+ * Watch an existing game as a spectator
+ */
+export async function spectateGame(
+  displayName: string,
+  avatarId: string,
+  gameCode: string
+): Promise<JoinGameResponse> {
+  const response = await fetch(`${API_BASE_URL}/api/auth/spectate`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include', // CRITICAL: Send/receive cookies
+    body: JSON.stringify({ displayName, avatarId, gameCode }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to spectate game');
+  }
+
+  return response.json();
+}
+
 /**
  * Verify if session is valid (on page load)
  */
@@ -0,0 +1,91 @@
+/**
+ * Daily Service
+ * 
+ * HTTP API calls for the daily challenge.
+ */
+
+import type {
+  Color,
+  DailyChallengeResponse,
+  DailyLeaderboardResponse,
+  DailyRound,
+  SubmitDailyRoundResponse,
+} from '../shared/types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+
+/**
+ * Today's challenge and whether this browser has played it
+ */
+export async function getDailyChallenge(): Promise<DailyChallengeResponse> {
+  const response = await fetch(`${API_BASE_URL}/api/daily`, {
+    method: 'GET',
+    credentials: 'include', // CRITICAL: Send the daily cookie
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to load daily challenge');
+  }
+
+  return response.json();
+}
+
+/**
+ * Start today's attempt, returns round 1
+ */
+export async function startDaily(displayName: string, avatarId: string): Promise<DailyRound> {
+  const response = await fetch(`${API_BASE_URL}/api/daily/start`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include', // CRITICAL: Send/receive cookies
+    body: JSON.stringify({ displayName, avatarId }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to start daily challenge');
+  }
+
+  return response.json();
+}
+
+/**
+ * Submit the sequence for the current round (empty = timed out)
+ */
+export async function submitDailyRound(sequence: Color[]): Promise<SubmitDailyRoundResponse> {
+  const response = await fetch(`${API_BASE_URL}/api/daily/submit`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include', // CRITICAL: Send cookies
+    body: JSON.stringify({ sequence }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to submit round');
+  }
+
+  return response.json();
+}
+
+/**
+ * Today's leaderboard
+ */
+export async function getDailyLeaderboard(): Promise<DailyLeaderboardResponse> {
+  const response = await fetch(`${API_BASE_URL}/api/daily/leaderboard`, {
+    method: 'GET',
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to load leaderboard');
+  }
+
+  return response.json();
+}
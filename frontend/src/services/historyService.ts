@@ -0,0 +1,43 @@
+/**
+ * History Service
+ * 
+ * HTTP API calls for match history and player stats.
+ */
+
+import type { PlayerHistoryResponse, PlayerStatsResponse } from '../shared/types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+
+/**
+ * A player's most recent matches (account ID or room player ID)
+ */
+export async function getPlayerHistory(playerId: string): Promise<PlayerHistoryResponse> {
+  const response = await fetch(`${API_BASE_URL}/api/players/${encodeURIComponent(playerId)}/history`, {
+    method: 'GET',
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to load match history');
+  }
+
+  return response.json();
+}
+
+/**
+ * A player's stats across every stored match
+ */
+export async function getPlayerStats(playerId: string): Promise<PlayerStatsResponse> {
+  const response = await fetch(`${API_BASE_URL}/api/players/${encodeURIComponent(playerId)}/stats`, {
+    method: 'GET',
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to load stats');
+  }
+
+  return response.json();
+}
@@ -0,0 +1,30 @@
+/**
+ * Matchmaking Service
+ * 
+ * HTTP API calls for quick match.
+ */
+
+import type { JoinGameResponse, MatchmakingJoinRequest } from '../shared/types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+
+/**
+ * Join the quick match queue (seats the player in a matchmaking room)
+ */
+export async function joinMatchmaking(request: MatchmakingJoinRequest): Promise<JoinGameResponse> {
+  const response = await fetch(`${API_BASE_URL}/api/matchmaking/join`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include', // CRITICAL: Send/receive cookies
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to find a match');
+  }
+
+  return response.json();
+}
@@ -0,0 +1,26 @@
+/**
+ * Room Service
+ * 
+ * HTTP API calls for the public lobby browser.
+ */
+
+import type { PublicRoomsResponse } from '../shared/types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+
+/**
+ * Public rooms waiting for players, newest first
+ */
+export async function getPublicRooms(): Promise<PublicRoomsResponse> {
+  const response = await fetch(`${API_BASE_URL}/api/rooms`, {
+    method: 'GET',
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to load rooms');
+  }
+
+  return response.json();
+}
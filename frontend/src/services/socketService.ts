@@ -5,15 +5,22 @@
  */
 
 import { io, Socket } from 'socket.io-client';
+import type { ClientToServerEvents, ServerToClientEvents, SocketError } from '../shared/types';
+import { useConnectionStore } from '../store/connectionStore';
+
+/**
+ * Client socket typed with the shared event maps
+ */
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3000';
 
-let socket: Socket | null = null;
+let socket: GameSocket | null = null;
 
 /**
  * Connect to WebSocket server
  */
-export function connect(): Socket {
+export function connect(): GameSocket {
   if (!socket) {
     socket = io(SOCKET_URL, {
       withCredentials: true, // CRITICAL: Send cookies with WebSocket
@@ -22,14 +29,26 @@ export function connect(): Socket {
 
     socket.on('connect', () => {
       console.log('🔌 Socket connected:', socket?.id);
+      useConnectionStore.getState().clearRestarting();
+    });
+
+    socket.on('disconnect', (reason) => {
+      console.log('🔌 Socket disconnected:', reason);
+
+      // socket.io doesn't retry server-initiated disconnects; after an
+      // announced restart, reconnect and let the manager retry until it's back
+      if (reason === 'io server disconnect' && useConnectionStore.getState().restartEta !== null) {
+        socket?.connect();
+      }
     });
 
-    socket.on('disconnect', () => {
-      console.log('🔌 Socket disconnected');
+    socket.on('server_restarting', ({ etaSeconds }) => {
+      console.log(`🔄 Server restarting, back in ~${etaSeconds}s`);
+      useConnectionStore.getState().setRestarting(etaSeconds);
     });
 
-    socket.on('error', (error: { message: string }) => {
-      console.error('❌ Socket error:', error.message);
+    socket.on('error', (error: SocketError) => {
+      console.error(`❌ Socket error [${error.code}]:`, error.message);
     });
   }
 
@@ -39,7 +58,7 @@ export function connect(): Socket {
 /**
  * Get current socket instance
  */
-export function getSocket(): Socket | null {
+export function getSocket(): GameSocket | null {
   return socket;
 }
 
@@ -56,28 +75,32 @@ export function disconnect(): void {
 /**
  * Emit an event
  */
-export function emit(event: string, data: unknown): void {
+export function emit<E extends keyof ClientToServerEvents>(
+  event: E,
+  ...args: Parameters<ClientToServerEvents[E]>
+): void {
   if (socket) {
-    socket.emit(event, data);
+    socket.emit(event, ...args);
   }
 }
 
 /**
  * Listen to an event
  */
-export function on(event: string, callback: (...args: any[]) => void): void {
+export function on<E extends keyof ServerToClientEvents>(event: E, callback: ServerToClientEvents[E]): void {
   if (socket) {
-    socket.on(event, callback);
+    // socket.io's conditional listener type can't be resolved for a generic event
+    socket.on(event, callback as never);
   }
 }
 
 /**
  * Remove event listener
  */
-export function off(event: string, callback?: (...args: any[]) => void): void {
+export function off<E extends keyof ServerToClientEvents>(event: E, callback?: ServerToClientEvents[E]): void {
   if (socket) {
     if (callback) {
-      socket.off(event, callback);
+      socket.off(event, callback as never);
     } else {
       socket.off(event);
     }
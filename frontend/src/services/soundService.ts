@@ -7,6 +7,7 @@
  * - RED: 329.63 Hz (E4)
  * - YELLOW: 440.00 Hz (A4)
  * - BLUE: 277.18 Hz (C#4)
+ * Extra pads on larger boards get their own notes in between.
  */
 
 import type { Color } from '../shared/types';
@@ -34,6 +35,10 @@ const COLOR_FREQUENCIES: Record<Color, number> = {
   red: 329.63,    // E4 - Low
   yellow: 440.00, // A4 - Medium-high
   blue: 277.18,   // C#4 - Medium-low
+  purple: 392.00, // G4
+  orange: 523.25, // C5
+  white: 783.99,  // G5
+  brown: 220.00,  // A3
 };
 
 // Sound configs for different events
@@ -0,0 +1,85 @@
+/**
+ * Account Store
+ * 
+ * Optional signed-in account. Guests never touch this store; the
+ * server reads the account cookie when a room session is created.
+ */
+
+import { create } from 'zustand';
+import type { Account } from '../shared/types';
+import {
+  getCurrentAccount,
+  login,
+  logoutAccount,
+  register,
+  requestMagicLink,
+  verifyMagicLink,
+} from '../services/accountService';
+
+interface AccountState {
+  account: Account | null;
+  error: string | null;
+  magicLinkSent: boolean;
+
+  // Actions
+  load: () => Promise<void>;
+  register: (username: string, password: string, email?: string) => Promise<void>;
+  login: (username: string, password: string) => Promise<void>;
+  requestMagicLink: (username: string) => Promise<void>;
+  verifyMagicLink: (token: string) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+export const useAccountStore = create<AccountState>()((set, get) => {
+  /**
+   * Run a sign-in call, keeping its error for the form
+   */
+  const signIn = async (call: () => Promise<{ account: Account | null }>) => {
+    set({ error: null });
+
+    try {
+      const { account } = await call();
+      set({ account, magicLinkSent: false });
+    } catch (err) {
+      set({ error: err instanceof Error ? err.message : 'Failed to sign in' });
+    }
+  };
+
+  return {
+    account: null,
+    error: null,
+    magicLinkSent: false,
+
+    load: async () => {
+      const { account } = await getCurrentAccount();
+      set({ account });
+    },
+
+    register: (username, password, email) => signIn(() => register(username, password, email)),
+
+    login: (username, password) => signIn(() => login(username, password)),
+
+    requestMagicLink: async (username) => {
+      set({ error: null });
+
+      try {
+        const { devToken } = await requestMagicLink(username);
+        set({ magicLinkSent: true });
+
+        // Only when the server opted in for local testing without mail
+        if (devToken) {
+          await get().verifyMagicLink(devToken);
+        }
+      } catch (err) {
+        set({ error: err instanceof Error ? err.message : 'Failed to send link' });
+      }
+    },
+
+    verifyMagicLink: (token) => signIn(() => verifyMagicLink(token)),
+
+    logout: async () => {
+      await logoutAccount();
+      set({ account: null, error: null, magicLinkSent: false });
+    },
+  };
+});
@@ -7,6 +7,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { Session } from '../shared/types';
+import { socketService } from '../services/socketService';
 
 interface AuthState {
   session: Session | null;
@@ -18,8 +19,16 @@ export const useAuthStore = create<AuthState>()(
   persist(
     (set) => ({
       session: null,
-      setSession: (session) => set({ session }),
-      clearSession: () => set({ session: null }),
+      // The server pins the socket's identity at handshake, so a new
+      // session needs a fresh connection carrying the new cookie
+      setSession: (session) => {
+        socketService.disconnect();
+        set({ session });
+      },
+      clearSession: () => {
+        socketService.disconnect();
+        set({ session: null });
+      },
     }),
     {
       name: 'simon-auth-storage', // LocalStorage key
@@ -1,11 +1,13 @@
 /**
  * Color Race Game Store
  * 
- * Manages Color Race game state using Zustand.
+ * Manages Color Race game state and WebSocket event handling.
  */
 
 import { create } from 'zustand';
 import type { Color } from '../shared/types';
+import { socketService } from '../services/socketService';
+import { soundService } from '../services/soundService';
 
 export type GamePhase = 'waiting' | 'countdown' | 'playing' | 'round_result' | 'finished';
 
@@ -29,20 +31,29 @@ interface ColorRaceState {
     displayName: string;
     score: number;
   } | null;
+  challengeCode: string | null; // Replays this game's colors
   
   // Player's answer status
   hasAnswered: boolean;
   
   // Actions
+  initializeListeners: () => void;
+  cleanup: () => void;
+  submitAnswer: (gameCode: string, playerId: string, color: Color) => void;
   setCountdown: (count: number) => void;
   setCurrentColor: (color: Color, round: number, totalRounds: number) => void;
   setRoundResult: (winnerId: string | null, winnerName: string | null, scores: Record<string, number>) => void;
-  setGameFinished: (winnerId: string, winnerName: string, scores: Record<string, number>) => void;
+  setGameFinished: (
+    winnerId: string | null,
+    winnerName: string | null,
+    scores: Record<string, number>,
+    challengeCode?: string | null
+  ) => void;
   markAnswered: () => void;
   resetGame: () => void;
 }
 
-export const useColorRaceStore = create<ColorRaceState>((set) => ({
+export const useColorRaceStore = create<ColorRaceState>((set, get) => ({
   // Initial state
   phase: 'waiting',
   currentColor: null,
@@ -51,8 +62,74 @@ export const useColorRaceStore = create<ColorRaceState>((set) => ({
   scores: {},
   roundWinner: null,
   gameWinner: null,
+  challengeCode: null,
   hasAnswered: false,
   
+  /**
+   * Initialize WebSocket listeners for Color Race events
+   */
+  initializeListeners: () => {
+    const socket = socketService.getSocket();
+    if (!socket) {
+      console.error('❌ Socket not available');
+      return;
+    }
+    
+    // New round - show the color to click
+    socket.on('color_race:new_round', (data: { round: number; color: Color; totalRounds: number }) => {
+      console.log('🎨 Color Race round:', data);
+      get().setCurrentColor(data.color, data.round, data.totalRounds);
+    });
+    
+    // Round result - who clicked first
+    socket.on('color_race:round_result', (data: { winnerId: string | null; winnerName: string | null; scores: Record<string, number> }) => {
+      console.log('🏁 Color Race round result:', data);
+      
+      if (data.winnerId) {
+        soundService.playSuccess();
+      }
+      
+      get().setRoundResult(data.winnerId, data.winnerName, data.scores);
+    });
+    
+    // Game finished
+    socket.on('color_race:game_finished', (data: { winnerId: string | null; winnerName: string | null; finalScores: Record<string, number>; challengeCode: string }) => {
+      console.log('🏆 Color Race finished:', data);
+      get().setGameFinished(data.winnerId, data.winnerName, data.finalScores, data.challengeCode);
+    });
+  },
+  
+  /**
+   * Cleanup listeners and reset state
+   */
+  cleanup: () => {
+    const socket = socketService.getSocket();
+    if (socket) {
+      socket.off('color_race:new_round');
+      socket.off('color_race:round_result');
+      socket.off('color_race:game_finished');
+    }
+    
+    get().resetGame();
+  },
+  
+  /**
+   * Send the player's answer for the current round
+   */
+  submitAnswer: (gameCode, playerId, color) => {
+    const { phase, hasAnswered } = get();
+    if (phase !== 'playing' || hasAnswered) return;
+    
+    const socket = socketService.getSocket();
+    if (!socket) {
+      console.error('No socket connection');
+      return;
+    }
+    
+    socket.emit('color_race:submit_answer', { gameCode, playerId, color });
+    set({ hasAnswered: true });
+  },
+  
   // Set countdown
   setCountdown: (count) => set({
     phase: count > 0 ? 'countdown' : 'waiting',
@@ -76,10 +153,13 @@ export const useColorRaceStore = create<ColorRaceState>((set) => ({
   }),
   
   // Set game finished
-  setGameFinished: (winnerId, winnerName, scores) => set({
+  setGameFinished: (winnerId, winnerName, scores, challengeCode = null) => set({
     phase: 'finished',
-    gameWinner: { playerId: winnerId, displayName: winnerName, score: scores[winnerId] },
+    gameWinner: winnerId
+      ? { playerId: winnerId, displayName: winnerName || 'Unknown', score: scores[winnerId] }
+      : null,
     scores,
+    challengeCode,
   }),
   
   // Mark that player answered
@@ -94,6 +174,7 @@ export const useColorRaceStore = create<ColorRaceState>((set) => ({
     scores: {},
     roundWinner: null,
     gameWinner: null,
+    challengeCode: null,
     hasAnswered: false,
   }),
 }));
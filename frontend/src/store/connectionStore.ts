@@ -0,0 +1,28 @@
+/**
+ * Connection Store
+ * 
+ * Tracks server restarts announced over the socket.
+ */
+
+import { create } from 'zustand';
+
+interface ConnectionState {
+  // When the server expects to be back (epoch ms), null when no restart is pending
+  restartEta: number | null;
+  
+  // Actions
+  setRestarting: (etaSeconds: number) => void;
+  clearRestarting: () => void;
+}
+
+export const useConnectionStore = create<ConnectionState>((set) => ({
+  restartEta: null,
+  
+  setRestarting: (etaSeconds) => {
+    set({ restartEta: Date.now() + etaSeconds * 1000 });
+  },
+  
+  clearRestarting: () => {
+    set({ restartEta: null });
+  },
+}));
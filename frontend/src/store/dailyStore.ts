@@ -0,0 +1,278 @@
+/**
+ * Daily Store
+ *
+ * Plays the daily challenge. Unlike practice, the rounds come from the
+ * server one at a time and every submission is checked there, so this
+ * store only runs the animation/input timers and relays the answers.
+ */
+
+import { create } from 'zustand';
+import type {
+  Color,
+  DailyChallengeResponse,
+  DailyLeaderboardEntry,
+  DailyResult,
+  DailyRound,
+} from '../shared/types';
+import { DEFAULT_SIMON_SETTINGS } from '../shared/types';
+import { calculateShowDurationMs, calculateTimeoutMs, calculateTimeoutSeconds } from '../shared/simon';
+import {
+  getDailyChallenge,
+  getDailyLeaderboard,
+  startDaily,
+  submitDailyRound,
+} from '../services/dailyService';
+import { soundService } from '../services/soundService';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const SETTINGS = DEFAULT_SIMON_SETTINGS;
+
+// Same pacing as the server: lead-in before the animation, pause after it
+const SEQUENCE_LEAD_IN_MS = 500;
+const SEQUENCE_PAUSE_MS = 500;
+const ROUND_RESULT_MS = 1500;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type DailyPhase = 'showing_sequence' | 'player_input' | 'submitting' | 'round_result';
+
+export type DailyRoundResult = 'correct' | 'wrong' | 'timeout';
+
+interface DailyState {
+  // Today's challenge and leaderboard
+  challenge: DailyChallengeResponse | null;
+  leaderboard: DailyLeaderboardEntry[];
+  error: string | null;
+
+  // Attempt in progress (null when not playing)
+  round: DailyRound | null;
+  phase: DailyPhase | null;
+  playerSequence: Color[];
+  lastResult: DailyRoundResult | null;
+  score: number;
+
+  // Timer
+  secondsRemaining: number;
+  timerColor: 'green' | 'yellow' | 'red';
+  isTimerPulsing: boolean;
+
+  // Actions
+  load: () => Promise<void>;
+  start: (displayName: string, avatarId: string) => Promise<void>;
+  resume: () => Promise<void>;
+  addColor: (color: Color) => void;
+  submitSequence: () => void;
+  quit: () => void;
+}
+
+// =============================================================================
+// STORE
+// =============================================================================
+
+// Pending phase change and the input countdown
+let phaseTimer: number | null = null;
+let timerInterval: number | null = null;
+let lastBeepSecond: number | null = null;
+
+// When the current round closes on the server (local clock)
+let roundClosesAt = 0;
+
+function clearTimers(): void {
+  if (phaseTimer) {
+    clearTimeout(phaseTimer);
+    phaseTimer = null;
+  }
+  if (timerInterval) {
+    clearInterval(timerInterval);
+    timerInterval = null;
+  }
+  lastBeepSecond = null;
+}
+
+export const useDailyStore = create<DailyState>()((set, get) => {
+  /**
+   * Play a round's sequence, then open the input phase
+   */
+  const showRound = (round: DailyRound) => {
+    roundClosesAt = Date.now() + round.timeLeftMs;
+    set({ round, phase: 'showing_sequence', playerSequence: [], lastResult: null });
+
+    const totalTime = calculateShowDurationMs(round.sequence.length, SETTINGS);
+    phaseTimer = window.setTimeout(startInput, SEQUENCE_LEAD_IN_MS + totalTime + SEQUENCE_PAUSE_MS);
+  };
+
+  /**
+   * Start the input timeout and its on-screen countdown
+   */
+  const startInput = () => {
+    const { round } = get();
+    if (!round) return;
+
+    // A resumed round keeps its original deadline
+    const timeoutMs = Math.max(0, Math.min(
+      calculateTimeoutMs(round.sequence.length, SETTINGS),
+      roundClosesAt - Date.now()
+    ));
+    const timeoutAt = Date.now() + timeoutMs;
+
+    set({
+      phase: 'player_input',
+      secondsRemaining: Math.min(
+        calculateTimeoutSeconds(round.sequence.length, SETTINGS),
+        Math.floor(timeoutMs / 1000)
+      ),
+      timerColor: 'green',
+      isTimerPulsing: false,
+    });
+
+    timerInterval = window.setInterval(() => {
+      const remaining = Math.max(0, Math.floor((timeoutAt - Date.now()) / 1000));
+
+      // 🔊 Warning beeps, as in multiplayer
+      if ([5, 3, 2, 1].includes(remaining) && lastBeepSecond !== remaining) {
+        soundService.playBeep();
+        lastBeepSecond = remaining;
+      }
+
+      set({
+        secondsRemaining: remaining,
+        timerColor: remaining <= 5 ? 'red' : remaining <= 10 ? 'yellow' : 'green',
+        isTimerPulsing: remaining <= 3,
+      });
+    }, 100);
+
+    phaseTimer = window.setTimeout(() => void submit([]), timeoutMs);
+  };
+
+  /**
+   * Send the round to the server, then continue or show the final result
+   */
+  const submit = async (sequence: Color[]) => {
+    if (get().phase !== 'player_input') return;
+
+    clearTimers();
+    set({ phase: 'submitting', secondsRemaining: 0 });
+
+    try {
+      const response = await submitDailyRound(sequence);
+      if (get().phase !== 'submitting') return; // Quit while waiting
+
+      set({
+        phase: 'round_result',
+        score: response.score,
+        lastResult: response.isCorrect ? 'correct' : sequence.length === 0 ? 'timeout' : 'wrong',
+      });
+
+      phaseTimer = window.setTimeout(() => {
+        phaseTimer = null;
+
+        if (response.next) {
+          showRound(response.next);
+        } else {
+          finish(response.result);
+        }
+      }, ROUND_RESULT_MS);
+    } catch (err) {
+      set({ round: null, phase: null, error: err instanceof Error ? err.message : 'Failed to submit round' });
+    }
+  };
+
+  /**
+   * Leave the board and show the result with the updated leaderboard
+   */
+  const finish = (result: DailyResult | null) => {
+    const { challenge } = get();
+
+    set({
+      round: null,
+      phase: null,
+      challenge: challenge && { ...challenge, hasPlayed: true, result },
+    });
+    void get().load();
+  };
+
+  return {
+    challenge: null,
+    leaderboard: [],
+    error: null,
+    round: null,
+    phase: null,
+    playerSequence: [],
+    lastResult: null,
+    score: 0,
+    secondsRemaining: 0,
+    timerColor: 'green',
+    isTimerPulsing: false,
+
+    load: async () => {
+      try {
+        const [challenge, leaderboard] = await Promise.all([getDailyChallenge(), getDailyLeaderboard()]);
+        set({ challenge, leaderboard: leaderboard.entries, error: null });
+      } catch (err) {
+        set({ error: err instanceof Error ? err.message : 'Failed to load daily challenge' });
+      }
+    },
+
+    start: async (displayName, avatarId) => {
+      clearTimers();
+      set({ error: null, score: 0 });
+
+      try {
+        showRound(await startDaily(displayName, avatarId));
+      } catch (err) {
+        set({ error: err instanceof Error ? err.message : 'Failed to start daily challenge' });
+        void get().load();
+      }
+    },
+
+    resume: async () => {
+      clearTimers();
+      set({ error: null });
+
+      try {
+        // Fetch again: the round's time left counts from this response
+        const challenge = await getDailyChallenge();
+        set({ challenge });
+
+        if (challenge.current) {
+          set({ score: challenge.current.round - 1 });
+          showRound(challenge.current);
+        }
+      } catch (err) {
+        set({ error: err instanceof Error ? err.message : 'Failed to resume daily challenge' });
+      }
+    },
+
+    addColor: (color) => {
+      const { round, phase, playerSequence } = get();
+      if (!round || phase !== 'player_input') return;
+      if (playerSequence.length >= round.sequence.length) return;
+
+      set({ playerSequence: [...playerSequence, color] });
+    },
+
+    submitSequence: () => {
+      const { round, phase, playerSequence } = get();
+      if (!round || phase !== 'player_input') return;
+      if (playerSequence.length !== round.sequence.length) return;
+
+      void submit(playerSequence);
+    },
+
+    quit: () => {
+      clearTimers();
+      set({
+        round: null,
+        phase: null,
+        playerSequence: [],
+        lastResult: null,
+        secondsRemaining: 0,
+      });
+    },
+  };
+});
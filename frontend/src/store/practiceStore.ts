@@ -0,0 +1,251 @@
+/**
+ * Practice Store
+ *
+ * Solo Simon played entirely in the browser. The shared game rules
+ * drive each round, so practice needs no room, socket or server and
+ * keeps working offline. The best score is kept in localStorage.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Color, SimonGameState } from '../shared/types';
+import { DEFAULT_SIMON_SETTINGS } from '../shared/types';
+import {
+  initializeSimonGame,
+  validateSequence,
+  processRoundSubmissions,
+  shouldGameEnd,
+  advanceToNextRound,
+  calculateShowDurationMs,
+  calculateTimeoutMs,
+  calculateTimeoutSeconds,
+} from '../shared/simon';
+import { soundService } from '../services/soundService';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const PRACTICE_PLAYER_ID = 'practice';
+const SETTINGS = DEFAULT_SIMON_SETTINGS;
+
+// Same pacing as the server: lead-in before the animation, pause after it
+const SEQUENCE_LEAD_IN_MS = 500;
+const SEQUENCE_PAUSE_MS = 500;
+const ROUND_RESULT_MS = 1500;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type PracticeResult = 'correct' | 'wrong' | 'timeout';
+
+interface PracticeState {
+  // Game state (null before the first game)
+  gameState: SimonGameState | null;
+  playerSequence: Color[];
+  lastResult: PracticeResult | null;
+  isGameOver: boolean;
+
+  // Timer
+  secondsRemaining: number;
+  timerColor: 'green' | 'yellow' | 'red';
+  isTimerPulsing: boolean;
+
+  // Scores
+  score: number;
+  bestScore: number;
+  isNewBest: boolean;
+
+  // Actions
+  startGame: () => void;
+  addColor: (color: Color) => void;
+  submitSequence: () => void;
+  quit: () => void;
+}
+
+// =============================================================================
+// STORE
+// =============================================================================
+
+// Pending phase change and the input countdown
+let phaseTimer: number | null = null;
+let timerInterval: number | null = null;
+let lastBeepSecond: number | null = null;
+
+function clearTimers(): void {
+  if (phaseTimer) {
+    clearTimeout(phaseTimer);
+    phaseTimer = null;
+  }
+  if (timerInterval) {
+    clearInterval(timerInterval);
+    timerInterval = null;
+  }
+  lastBeepSecond = null;
+}
+
+export const usePracticeStore = create<PracticeState>()(
+  persist(
+    (set, get) => {
+      /**
+       * Play the current sequence, then open the input phase
+       */
+      const showSequence = () => {
+        const { gameState } = get();
+        if (!gameState) return;
+
+        const totalTime = calculateShowDurationMs(gameState.sequence.length, SETTINGS);
+        phaseTimer = window.setTimeout(startInput, SEQUENCE_LEAD_IN_MS + totalTime + SEQUENCE_PAUSE_MS);
+      };
+
+      /**
+       * Start the input timeout and its on-screen countdown
+       */
+      const startInput = () => {
+        const { gameState } = get();
+        if (!gameState) return;
+
+        const now = Date.now();
+        const timeoutMs = calculateTimeoutMs(gameState.sequence.length, SETTINGS);
+        const timeoutAt = now + timeoutMs;
+
+        set({
+          gameState: { ...gameState, phase: 'player_input', timeoutAt, timerStartedAt: now },
+          playerSequence: [],
+          secondsRemaining: calculateTimeoutSeconds(gameState.sequence.length, SETTINGS),
+          timerColor: 'green',
+          isTimerPulsing: false,
+        });
+
+        timerInterval = window.setInterval(() => {
+          const remaining = Math.max(0, Math.floor((timeoutAt - Date.now()) / 1000));
+
+          // 🔊 Warning beeps, as in multiplayer
+          if ([5, 3, 2, 1].includes(remaining) && lastBeepSecond !== remaining) {
+            soundService.playBeep();
+            lastBeepSecond = remaining;
+          }
+
+          set({
+            secondsRemaining: remaining,
+            timerColor: remaining <= 5 ? 'red' : remaining <= 10 ? 'yellow' : 'green',
+            isTimerPulsing: remaining <= 3,
+          });
+        }, 100);
+
+        phaseTimer = window.setTimeout(() => endRound([], false), timeoutMs);
+      };
+
+      /**
+       * Score the round with the shared rules, then continue or end the game
+       */
+      const endRound = (sequence: Color[], isCorrect: boolean) => {
+        const { gameState, bestScore } = get();
+        if (!gameState || gameState.phase !== 'player_input') return;
+
+        clearTimers();
+
+        const { gameState: processed } = processRoundSubmissions({
+          ...gameState,
+          submissions: {
+            [PRACTICE_PLAYER_ID]: {
+              playerId: PRACTICE_PLAYER_ID,
+              sequence,
+              timestamp: Date.now(),
+              isCorrect,
+            },
+          },
+        });
+        const score = processed.scores[PRACTICE_PLAYER_ID] ?? 0;
+
+        set({
+          gameState: { ...processed, phase: 'round_result', timeoutAt: null },
+          lastResult: isCorrect ? 'correct' : sequence.length === 0 ? 'timeout' : 'wrong',
+          secondsRemaining: 0,
+          score,
+        });
+
+        phaseTimer = window.setTimeout(() => {
+          phaseTimer = null;
+
+          if (shouldGameEnd(processed)) {
+            const isNewBest = score > bestScore;
+            set({
+              gameState: { ...processed, phase: 'finished', winnerId: PRACTICE_PLAYER_ID },
+              isGameOver: true,
+              isNewBest,
+              bestScore: Math.max(score, bestScore),
+            });
+            return;
+          }
+
+          set({ gameState: advanceToNextRound(processed), lastResult: null });
+          showSequence();
+        }, ROUND_RESULT_MS);
+      };
+
+      return {
+        gameState: null,
+        playerSequence: [],
+        lastResult: null,
+        isGameOver: false,
+        secondsRemaining: 0,
+        timerColor: 'green',
+        isTimerPulsing: false,
+        score: 0,
+        bestScore: 0,
+        isNewBest: false,
+
+        startGame: () => {
+          clearTimers();
+
+          set({
+            gameState: initializeSimonGame([{ id: PRACTICE_PLAYER_ID }], SETTINGS),
+            playerSequence: [],
+            lastResult: null,
+            isGameOver: false,
+            secondsRemaining: 0,
+            score: 0,
+            isNewBest: false,
+          });
+
+          showSequence();
+        },
+
+        addColor: (color) => {
+          const { gameState, playerSequence } = get();
+          if (gameState?.phase !== 'player_input') return;
+          if (playerSequence.length >= gameState.sequence.length) return;
+
+          set({ playerSequence: [...playerSequence, color] });
+        },
+
+        submitSequence: () => {
+          const { gameState, playerSequence } = get();
+          if (gameState?.phase !== 'player_input') return;
+          if (playerSequence.length !== gameState.sequence.length) return;
+
+          endRound(playerSequence, validateSequence(gameState, playerSequence));
+        },
+
+        quit: () => {
+          clearTimers();
+          set({
+            gameState: null,
+            playerSequence: [],
+            lastResult: null,
+            isGameOver: false,
+            secondsRemaining: 0,
+            score: 0,
+            isNewBest: false,
+          });
+        },
+      };
+    },
+    {
+      name: 'simon-practice-storage', // LocalStorage key
+      partialize: (state) => ({ bestScore: state.bestScore }),
+    }
+  )
+);
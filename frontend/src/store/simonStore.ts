@@ -5,7 +5,20 @@
  */
 
 import { create } from 'zustand';
-import type { Color, SimonGameState } from '../shared/types';
+import { CLASSIC_COLORS, DEFAULT_SIMON_SETTINGS } from '../shared/types';
+import type {
+  Color,
+  GameSnapshot,
+  RatingChange,
+  RoundScore,
+  SequenceSlice,
+  ServerToClientEvents,
+  SimonGameState,
+  SimonRoundBreakdown,
+  SimonTeamResult,
+  SimonVariant,
+  TeamId,
+} from '../shared/types';
 import { socketService } from '../services/socketService';
 import { soundService } from '../services/soundService';
 
@@ -13,17 +26,27 @@ import { soundService } from '../services/soundService';
 // TYPES
 // =============================================================================
 
+/** Payload the server sends with an event */
+type ServerPayload<E extends keyof ServerToClientEvents> = Parameters<ServerToClientEvents[E]>[0];
+
 interface SimonStore {
   // Game state
   gameState: SimonGameState | null;
   isShowingSequence: boolean;
   currentSequence: Color[];
   currentRound: number;
+  variant: SimonVariant; // How the sequence must be entered
+  palette: Color[];      // Pads on the board
+  activePlayerId: string | null; // Chain mode: whose turn it is
+  slice: SequenceSlice | null;   // Team modes: the colors this player enters
+  showColorDurationMs: number;
+  showColorGapMs: number;
   
   // Input phase state
   isInputPhase: boolean;
   playerSequence: Color[];
   canSubmit: boolean;
+  isChoosingColor: boolean; // Chain mode: this player picks the next color
   
   // Timer state (Step 3)
   timeoutAt: number | null;
@@ -35,17 +58,25 @@ interface SimonStore {
   // Step 4: Competitive Multiplayer
   scores: Record<string, number>;
   playerStatuses: Record<string, 'playing' | 'eliminated' | 'spectating'>;
+  lives: Record<string, number>; // Wrong answers left per player
   submittedPlayers: string[]; // Players who submitted this round
   isEliminated: boolean;
   roundResult: {
     roundWinner: { playerId: string; name: string } | null;
     eliminations: Array<{ playerId: string; name: string; reason: string }>;
+    livesLost: Array<{ playerId: string; name: string; reason: string }>;
+    roundScores: RoundScore[];
   } | null;
   
   // Game Over state
   isGameOver: boolean;
   gameWinner: { playerId: string; name: string; score: number } | null;
   finalScores: Array<{ playerId: string; name: string; score: number; isEliminated?: boolean }>;
+  challengeCode: string | null; // Replays this game's sequence
+  roundHistory: SimonRoundBreakdown[]; // Points earned each round
+  teams: SimonTeamResult[];            // Co-op and team modes, best first
+  winningTeamId: TeamId | null;
+  ratingChanges: RatingChange[];       // Signed-in players' new ratings
   
   // Result state
   lastResult: {
@@ -58,11 +89,13 @@ interface SimonStore {
   isGameActive: boolean;
   
   // Actions
-  initializeListeners: () => void;
+  initializeListeners: (playerId?: string) => void;
+  hydrateFromSnapshot: (snapshot: GameSnapshot, playerId?: string) => void;
   cleanup: () => void;
   resetGame: () => void;
   addColorToSequence: (color: Color) => void;
   submitSequence: (gameCode: string, playerId: string) => void;
+  appendColor: (gameCode: string, playerId: string, color: Color) => void;
   clearPlayerSequence: () => void;
   startTimer: (timeoutAt: number, timeoutSeconds: number) => void;
   stopTimer: () => void;
@@ -82,9 +115,16 @@ export const useSimonStore = create<SimonStore>((set, get) => ({
   isShowingSequence: false,
   currentSequence: [],
   currentRound: 1,
+  variant: DEFAULT_SIMON_SETTINGS.variant,
+  palette: CLASSIC_COLORS,
+  activePlayerId: null,
+  slice: null,
+  showColorDurationMs: DEFAULT_SIMON_SETTINGS.showColorDurationMs,
+  showColorGapMs: DEFAULT_SIMON_SETTINGS.showColorGapMs,
   isInputPhase: false,
   playerSequence: [],
   canSubmit: false,
+  isChoosingColor: false,
   timeoutAt: null,
   timeoutSeconds: 0,
   secondsRemaining: 0,
@@ -92,12 +132,18 @@ export const useSimonStore = create<SimonStore>((set, get) => ({
   isTimerPulsing: false,
   scores: {},
   playerStatuses: {},
+  lives: {},
   submittedPlayers: [],
   isEliminated: false,
   roundResult: null,
   isGameOver: false,
   gameWinner: null,
   finalScores: [],
+  challengeCode: null,
+  roundHistory: [],
+  teams: [],
+  winningTeamId: null,
+  ratingChanges: [],
   lastResult: null,
   message: 'Waiting for game to start...',
   isGameActive: false,
@@ -109,7 +155,7 @@ export const useSimonStore = create<SimonStore>((set, get) => ({
   /**
    * Initialize WebSocket listeners for Simon events
    */
-  initializeListeners: () => {
+  initializeListeners: (playerId?: string) => {
     console.log('🎮 Initializing Simon listeners');
     
     // Get socket (it should be connected by now)
@@ -124,7 +170,7 @@ export const useSimonStore = create<SimonStore>((set, get) => ({
       // Wait for socket to connect, then initialize
       socket.once('connect', () => {
         console.log('✅ Socket connected, now initializing Simon listeners');
-        get().initializeListeners();
+        get().initializeListeners(playerId);
       });
       return;
     }
@@ -137,14 +183,40 @@ export const useSimonStore = create<SimonStore>((set, get) => ({
       console.log(`📨 Received event: ${eventName}`, args);
     });
     
+    // Listen for state resync after a reconnect
+    socket.on('game_snapshot', (snapshot: GameSnapshot) => {
+      console.log('📸 Received game snapshot:', snapshot);
+      get().hydrateFromSnapshot(snapshot, playerId);
+    });
+    
     // Listen for sequence display
-    socket.on('simon:show_sequence', (data: { round: number; sequence: Color[] }) => {
+    socket.on('simon:show_sequence', (data: {
+      round: number;
+      sequence: Color[];
+      sequenceLengths: Record<string, number>;
+      activePlayerId: string | null;
+      slices: Record<string, SequenceSlice>;
+      variant: SimonVariant;
+      palette: Color[];
+      showColorDurationMs: number;
+      showColorGapMs: number;
+    }) => {
       console.log('🎨🎨🎨 Received show_sequence:', data);
       
+      // Players replaying a round after losing a life repeat fewer colors
+      const sequenceLength = playerId ? data.sequenceLengths?.[playerId] : undefined;
+      
       set({
         currentRound: data.round,
-        currentSequence: data.sequence,
+        currentSequence: sequenceLength === undefined ? data.sequence : data.sequence.slice(0, sequenceLength),
+        variant: data.variant,
+        palette: data.palette,
+        activePlayerId: data.activePlayerId,
+        slice: (playerId && data.slices?.[playerId]) || null,
+        showColorDurationMs: data.showColorDurationMs,
+        showColorGapMs: data.showColorGapMs,
         isShowingSequence: true,
+        isChoosingColor: false,
         message: `Round ${data.round} - Watch the sequence!`,
         isGameActive: true,
       });
@@ -164,6 +236,22 @@ export const useSimonStore = create<SimonStore>((set, get) => ({
     socket.on('simon:input_phase', (data: { round: number; timeoutAt: number; timeoutSeconds: number }) => {
       console.log('🎮 Input phase started:', data);
       
+      // Chain mode: everyone else watches the active player's turn
+      const { activePlayerId } = get();
+      if (activePlayerId && activePlayerId !== playerId) {
+        set({ isInputPhase: false, playerSequence: [], canSubmit: false, message: "Waiting for this turn's player..." });
+        get().startTimer(data.timeoutAt, data.timeoutSeconds);
+        return;
+      }
+      
+      // Team modes: short sequences leave some teammates without colors
+      const { slice } = get();
+      if (slice && slice.end === slice.start) {
+        set({ isInputPhase: false, playerSequence: [], canSubmit: false, message: '🤝 Your teammates have this one' });
+        get().startTimer(data.timeoutAt, data.timeoutSeconds);
+        return;
+      }
+      
       set({
         isInputPhase: true,
         playerSequence: [],
@@ -177,30 +265,27 @@ export const useSimonStore = create<SimonStore>((set, get) => ({
       store.startTimer(data.timeoutAt, data.timeoutSeconds);
     });
     
-    // Listen for result (Step 2 & Step 3)
-    socket.on('simon:result', (data: { playerId: string; playerName: string; isCorrect: boolean; correctSequence: Color[] }) => {
-      console.log('📊 Result received:', data);
-      
-      // Step 3: Stop timer
-      const store = get();
-      store.stopTimer();
+    // Listen for the chain mode color choice
+    socket.on('simon:choose_color', (data: { playerId: string; playerName: string; timeoutAt: number; timeoutSeconds: number }) => {
+      console.log('🔗 Choose color:', data);
       
-      // 🔊 Play success or error sound
-      if (data.isCorrect) {
-        soundService.playSuccess();
-      } else {
-        soundService.playError();
-      }
+      const isMine = data.playerId === playerId;
+      set({
+        isChoosingColor: isMine,
+        message: isMine ? '🔗 Your pick! Add the next color' : `🔗 ${data.playerName} is choosing the next color...`,
+      });
+      get().startTimer(data.timeoutAt, data.timeoutSeconds);
+    });
+    
+    socket.on('simon:color_appended', (data: { playerId: string; playerName: string; color: Color; autoPicked: boolean }) => {
+      console.log('🔗 Color appended:', data);
       
+      get().stopTimer();
       set({
-        isInputPhase: false,
-        lastResult: {
-          isCorrect: data.isCorrect,
-          playerName: data.playerName,
-        },
-        message: data.isCorrect 
-          ? `✅ ${data.playerName} got it correct! Next round coming...`
-          : `❌ ${data.playerName} got it wrong. Correct: ${data.correctSequence.join(', ')}`,
+        isChoosingColor: false,
+        message: data.autoPicked
+          ? `⏰ ${data.playerName} ran out of time - a random color was added`
+          : `🔗 ${data.playerName} added a color`,
       });
     });
     
@@ -236,7 +321,7 @@ export const useSimonStore = create<SimonStore>((set, get) => ({
     });
     
     // Listen for round result (Step 4)
-    socket.on('simon:round_result', (data: any) => {
+    socket.on('simon:round_result', (data: ServerPayload<'simon:round_result'>) => {
       console.log('🏁 Round result:', data);
       
       // Stop timer
@@ -248,29 +333,48 @@ export const useSimonStore = create<SimonStore>((set, get) => ({
         soundService.playSuccess();
       }
       
+      const winnerScore = data.roundScores.find(s => s.playerId === data.roundWinner?.playerId);
+      const winnerPoints = winnerScore?.total ?? 1;
+      
       set({
         isInputPhase: false,
         roundResult: {
           roundWinner: data.roundWinner,
           eliminations: data.eliminations,
+          livesLost: data.livesLost,
+          roundScores: data.roundScores,
         },
         scores: data.scores,
         playerStatuses: data.playerStatuses,
+        lives: data.lives,
         submittedPlayers: [], // Clear for next round
         message: data.roundWinner 
-          ? `🏆 ${data.roundWinner.name} wins the round! +1 pt`
+          ? `🏆 ${data.roundWinner.name} wins the round! +${winnerPoints} ${winnerPoints === 1 ? 'pt' : 'pts'}`
           : '⚠️ No winner this round',
       });
       
+      // Team modes: the round is won or lost together
+      if (data.teamResults.length > 0) {
+        set({
+          message: data.teamResults
+            .map(t => `${t.isCorrect ? '✅' : '❌'} Team ${t.teamId}`)
+            .join('  '),
+        });
+      }
+      
+      // Losing a life means replaying the same sequence next round
+      if (playerId && data.livesLost.some(l => l.playerId === playerId)) {
+        set({ message: `💔 You lost a life! ${data.lives[playerId]} left - replay this round` });
+      }
+      
       // Check if current player was eliminated
-      const playerId = get().gameState?.playerStates ? Object.keys(get().gameState!.playerStates)[0] : null;
       if (playerId && data.playerStatuses[playerId] === 'eliminated') {
         set({ isEliminated: true });
       }
     });
     
     // Listen for game finished (Step 4)
-    socket.on('simon:game_finished', (data: { winner: any; finalScores: any[] }) => {
+    socket.on('simon:game_finished', (data: ServerPayload<'simon:game_finished'>) => {
       console.log('🏆 Game finished:', data);
       
       // Note: Victory sound is played by GameOverScreen component
@@ -280,17 +384,13 @@ export const useSimonStore = create<SimonStore>((set, get) => ({
         isGameActive: false,
         isInputPhase: false,
         isGameOver: true,
-        gameWinner: data.winner ? {
-          playerId: data.winner.playerId || data.winner.id,
-          name: data.winner.name,
-          score: data.winner.score,
-        } : null,
-        finalScores: data.finalScores.map((s: any) => ({
-          playerId: s.playerId || s.id,
-          name: s.name,
-          score: s.score,
-          isEliminated: s.isEliminated,
-        })),
+        gameWinner: data.winner,
+        finalScores: data.finalScores,
+        challengeCode: data.challengeCode,
+        roundHistory: data.roundHistory ?? [],
+        teams: data.teams ?? [],
+        winningTeamId: data.winningTeamId ?? null,
+        ratingChanges: data.ratingChanges ?? [],
         message: `🏆 Game Over!`,
       });
     });
@@ -322,10 +422,12 @@ export const useSimonStore = create<SimonStore>((set, get) => ({
     const socket = socketService.getSocket();
     if (!socket) return;
     
+    socket.off('game_snapshot');
     socket.off('simon:show_sequence');
     socket.off('simon:sequence_complete');
     socket.off('simon:input_phase');
-    socket.off('simon:result');
+    socket.off('simon:choose_color');
+    socket.off('simon:color_appended');
     socket.off('simon:timeout');
     socket.off('simon:player_submitted');
     socket.off('simon:round_result');
@@ -345,9 +447,16 @@ export const useSimonStore = create<SimonStore>((set, get) => ({
       isShowingSequence: false,
       currentSequence: [],
       currentRound: 1,
+      variant: DEFAULT_SIMON_SETTINGS.variant,
+      palette: CLASSIC_COLORS,
+      activePlayerId: null,
+      slice: null,
+      showColorDurationMs: DEFAULT_SIMON_SETTINGS.showColorDurationMs,
+      showColorGapMs: DEFAULT_SIMON_SETTINGS.showColorGapMs,
       isInputPhase: false,
       playerSequence: [],
       canSubmit: false,
+      isChoosingColor: false,
       timeoutAt: null,
       timeoutSeconds: 0,
       secondsRemaining: 0,
@@ -355,18 +464,83 @@ export const useSimonStore = create<SimonStore>((set, get) => ({
       isTimerPulsing: false,
       scores: {},
       playerStatuses: {},
+      lives: {},
       submittedPlayers: [],
       isEliminated: false,
       roundResult: null,
       isGameOver: false,
       gameWinner: null,
       finalScores: [],
+      challengeCode: null,
+      roundHistory: [],
+      teams: [],
+      winningTeamId: null,
+      ratingChanges: [],
       lastResult: null,
       message: 'Waiting for game to start...',
       isGameActive: false,
     });
   },
   
+  /**
+   * Restore the current round from a server snapshot (reconnect mid-game)
+   */
+  hydrateFromSnapshot: (snapshot: GameSnapshot, playerId?: string) => {
+    if (snapshot.gameType !== 'simon') return;
+    
+    const state = get();
+    const isMyTurn = snapshot.activePlayerId === null || snapshot.activePlayerId === playerId;
+    const hasColors = snapshot.slice.end > snapshot.slice.start;
+    const isInputPhase = snapshot.phase === 'player_input' && !snapshot.hasSubmitted && isMyTurn && hasColors;
+    const isChoosingColor = snapshot.phase === 'choosing_color' && isMyTurn;
+    const isSameInput = isInputPhase && state.isInputPhase && state.currentRound === snapshot.round;
+    
+    let message = `Round ${snapshot.round}`;
+    if (snapshot.phase === 'showing_sequence') {
+      message = `Round ${snapshot.round} - Watch the sequence!`;
+    } else if (isInputPhase) {
+      message = 'Your turn! Click the colors in order';
+    } else if (isChoosingColor) {
+      message = '🔗 Your pick! Add the next color';
+    } else if (!isMyTurn) {
+      message = "Waiting for this turn's player...";
+    } else if (snapshot.hasSubmitted) {
+      message = 'Waiting for other players...';
+    }
+    
+    set({
+      currentRound: snapshot.round,
+      currentSequence: snapshot.sequence,
+      variant: snapshot.variant,
+      palette: snapshot.palette,
+      activePlayerId: snapshot.activePlayerId,
+      slice: snapshot.slice,
+      showColorDurationMs: snapshot.showColorDurationMs,
+      showColorGapMs: snapshot.showColorGapMs,
+      isShowingSequence: snapshot.phase === 'showing_sequence',
+      isInputPhase,
+      // Keep colors already entered if this is a duplicate snapshot for the same round
+      playerSequence: isSameInput ? state.playerSequence : [],
+      canSubmit: isSameInput ? state.canSubmit : false,
+      isChoosingColor,
+      scores: snapshot.scores,
+      playerStatuses: snapshot.playerStatuses,
+      lives: snapshot.lives,
+      submittedPlayers: snapshot.submittedPlayers,
+      isEliminated: playerId ? snapshot.playerStatuses[playerId] === 'eliminated' : false,
+      isGameOver: false,
+      isGameActive: true,
+      message,
+    });
+    
+    // Resume the countdown from the server deadline
+    if ((snapshot.phase === 'player_input' || snapshot.phase === 'choosing_color') && snapshot.timeoutAt) {
+      get().startTimer(snapshot.timeoutAt, snapshot.timeoutSeconds);
+    } else {
+      get().stopTimer();
+    }
+  },
+  
   /**
    * Reset game state
    */
@@ -376,9 +550,11 @@ export const useSimonStore = create<SimonStore>((set, get) => ({
       isShowingSequence: false,
       currentSequence: [],
       currentRound: 1,
+      activePlayerId: null,
       isInputPhase: false,
       playerSequence: [],
       canSubmit: false,
+      isChoosingColor: false,
       lastResult: null,
       message: 'Waiting for game to start...',
       isGameActive: false,
@@ -391,14 +567,15 @@ export const useSimonStore = create<SimonStore>((set, get) => ({
   addColorToSequence: (color: Color) => {
     set((state) => {
       const newPlayerSequence = [...state.playerSequence, color];
-      const canSubmit = newPlayerSequence.length === state.currentSequence.length;
+      const inputLength = state.slice ? state.slice.end - state.slice.start : state.currentSequence.length;
+      const canSubmit = newPlayerSequence.length === inputLength;
       
       return {
         playerSequence: newPlayerSequence,
         canSubmit,
         message: canSubmit 
           ? '✅ Sequence complete! Click Submit'
-          : `${newPlayerSequence.length} of ${state.currentSequence.length} colors`,
+          : `${newPlayerSequence.length} of ${inputLength} colors`,
       };
     });
   },
@@ -434,6 +611,28 @@ export const useSimonStore = create<SimonStore>((set, get) => ({
     });
   },
   
+  /**
+   * Chain mode: send the color this player adds to the sequence
+   */
+  appendColor: (gameCode: string, playerId: string, color: Color) => {
+    if (!useSimonStore.getState().isChoosingColor) return;
+    
+    const socket = socketService.getSocket();
+    if (!socket) {
+      console.error('No socket connection');
+      return;
+    }
+    
+    console.log('📤 Adding color:', color);
+    
+    socket.emit('simon:append_color', { gameCode, playerId, color });
+    
+    set({
+      isChoosingColor: false,
+      message: 'Color added! Passing the turn...',
+    });
+  },
+  
   /**
    * Clear the player's sequence
    */
@@ -1,7 +1,41 @@
 import { defineConfig } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+
+/**
+ * Write the built asset list into the service worker (public/sw.js), so it
+ * caches everything practice mode needs on the first visit. The list changes
+ * with every build, which also makes browsers install the new worker.
+ */
+function precacheServiceWorker(): Plugin {
+  let outDir = 'dist'
+
+  return {
+    name: 'precache-service-worker',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir)
+    },
+    writeBundle(_options, bundle) {
+      const assets = Object.keys(bundle)
+        .filter((file) => !file.endsWith('.map'))
+        .map((file) => `/${file}`)
+        .sort()
+      const version = createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 8)
+
+      const file = path.join(outDir, 'sw.js')
+      const source = fs.readFileSync(file, 'utf8')
+        .replace("const CACHE_VERSION = 'dev';", `const CACHE_VERSION = '${version}';`)
+        .replace('const PRECACHE_ASSETS = [];', `const PRECACHE_ASSETS = ${JSON.stringify(assets)};`)
+      fs.writeFileSync(file, source)
+    },
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheServiceWorker()],
 })
@@ -9,6 +9,11 @@ import express from 'express';
 import cors from 'cors';
 import cookieParser from 'cookie-parser';
 import { authRouter } from './controllers/authController';
+import { dailyRouter } from './controllers/dailyController';
+import { accountRouter } from './controllers/accountController';
+import { playerRouter } from './controllers/playerController';
+import { matchmakingRouter } from './controllers/matchmakingController';
+import { roomRouter } from './controllers/roomController';
 
 // =============================================================================
 // APP CONFIGURATION
@@ -54,6 +59,21 @@ app.get('/health', (_req, res) => {
 // Auth routes
 app.use('/api/auth', authRouter);
 
+// Daily challenge routes
+app.use('/api/daily', dailyRouter);
+
+// Account routes
+app.use('/api/accounts', accountRouter);
+
+// Match history and stats routes
+app.use('/api/players', playerRouter);
+
+// Quick match routes
+app.use('/api/matchmaking', matchmakingRouter);
+
+// Public lobby browser routes
+app.use('/api/rooms', roomRouter);
+
 // =============================================================================
 // ERROR HANDLING
 // =============================================================================
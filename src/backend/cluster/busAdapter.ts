@@ -0,0 +1,91 @@
+/**
+ * Bus Adapter
+ *
+ * Socket.io adapter that mirrors every broadcast onto the message bus,
+ * so `io.to(gameCode).emit(...)` reaches sockets connected to any instance.
+ * Only plain broadcasts are shared; acks and fetchSockets stay local.
+ */
+
+import { Adapter } from 'socket.io-adapter';
+import type { BroadcastOptions } from 'socket.io-adapter';
+import type { MessageBus } from './messageBus';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Broadcast as sent over the bus (Sets flattened for JSON)
+ */
+interface BusBroadcast {
+  from: string;
+  packet: unknown;
+  rooms: string[];
+  except: string[];
+  flags: BroadcastOptions['flags'];
+}
+
+// =============================================================================
+// ADAPTER
+// =============================================================================
+
+/**
+ * Adapter that shares broadcasts with other instances over the bus
+ */
+export class BusAdapter extends Adapter {
+  private unsubscribe: () => void;
+
+  constructor(
+    nsp: ConstructorParameters<typeof Adapter>[0],
+    private readonly bus: MessageBus,
+    private readonly instanceId: string
+  ) {
+    super(nsp);
+
+    // Replay broadcasts from other instances to our own sockets
+    this.unsubscribe = bus.subscribe(this.channel, (message) => {
+      const remote = message as BusBroadcast;
+      if (remote.from === instanceId) return;
+
+      super.broadcast(remote.packet, {
+        rooms: new Set(remote.rooms),
+        except: new Set(remote.except),
+        flags: { ...remote.flags, local: true },
+      });
+    });
+  }
+
+  broadcast(packet: unknown, opts: BroadcastOptions): void {
+    if (!opts.flags?.local) {
+      const message: BusBroadcast = {
+        from: this.instanceId,
+        packet,
+        rooms: [...opts.rooms],
+        except: [...(opts.except ?? [])],
+        flags: opts.flags,
+      };
+      this.bus.publish(this.channel, message);
+    }
+
+    super.broadcast(packet, opts);
+  }
+
+  close(): void {
+    this.unsubscribe();
+  }
+
+  private get channel(): string {
+    return `socket.io#${this.nsp.name}`;
+  }
+}
+
+/**
+ * Build the adapter class for `new Server(httpServer, { adapter })`
+ */
+export function createBusAdapter(bus: MessageBus, instanceId: string): typeof Adapter {
+  return class extends BusAdapter {
+    constructor(nsp: ConstructorParameters<typeof Adapter>[0]) {
+      super(nsp, bus, instanceId);
+    }
+  };
+}
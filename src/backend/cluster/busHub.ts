@@ -0,0 +1,133 @@
+/**
+ * Message Bus Hub
+ *
+ * Relay the instances of a cluster connect to with TcpMessageBus.
+ * Each instance id may only be connected once, so two instances can
+ * never both claim the rooms owned under one id.
+ *
+ * Run it on its own: `node dist/backend/cluster/busHub.js`
+ * (listens on CLUSTER_BUS_PORT, default 4000).
+ */
+
+import net from 'net';
+import { readFrames, writeFrame } from './tcpMessageBus';
+import type { ClientFrame } from './tcpMessageBus';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A connected instance
+ */
+interface Peer {
+  instanceId: string | null;  // Set once it said hello
+  channels: Set<string>;
+}
+
+// =============================================================================
+// HUB
+// =============================================================================
+
+export class MessageBusHub {
+  private peers = new Map<net.Socket, Peer>();
+  private server = net.createServer(socket => this.accept(socket));
+
+  /**
+   * Start listening, resolves with the bound port
+   */
+  listen(port: number, host?: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve((this.server.address() as net.AddressInfo).port);
+      });
+    });
+  }
+
+  /**
+   * Disconnect every instance and stop listening
+   */
+  close(): Promise<void> {
+    this.peers.forEach((_peer, socket) => socket.destroy());
+    this.peers.clear();
+
+    return new Promise((resolve) => {
+      this.server.close(() => resolve());
+    });
+  }
+
+  // ===========================================================================
+  // PRIVATE
+  // ===========================================================================
+
+  private accept(socket: net.Socket): void {
+    const peer: Peer = { instanceId: null, channels: new Set() };
+    this.peers.set(socket, peer);
+
+    readFrames(socket, (frame) => this.handleFrame(socket, peer, frame as ClientFrame));
+
+    socket.on('close', () => {
+      this.peers.delete(socket);
+      if (peer.instanceId) {
+        console.log(`🔌 Instance ${peer.instanceId} left the cluster bus`);
+      }
+    });
+
+    // Followed by 'close'
+    socket.on('error', () => {});
+  }
+
+  private handleFrame(socket: net.Socket, peer: Peer, frame: ClientFrame): void {
+    if (frame.type === 'hello') {
+      const taken = [...this.peers.values()].some(
+        other => other !== peer && other.instanceId === frame.instanceId
+      );
+
+      if (taken) {
+        writeFrame(socket, { type: 'rejected', reason: `Instance id already connected: ${frame.instanceId}` });
+        socket.end();
+        return;
+      }
+
+      peer.instanceId = frame.instanceId;
+      writeFrame(socket, { type: 'welcome' });
+      console.log(`🔗 Instance ${frame.instanceId} joined the cluster bus`);
+      return;
+    }
+
+    // Nothing is relayed for a connection that hasn't identified itself
+    if (peer.instanceId === null) return;
+
+    switch (frame.type) {
+      case 'subscribe':
+        peer.channels.add(frame.channel);
+        break;
+
+      case 'unsubscribe':
+        peer.channels.delete(frame.channel);
+        break;
+
+      case 'publish':
+        this.peers.forEach((other, otherSocket) => {
+          if (other.channels.has(frame.channel)) {
+            writeFrame(otherSocket, { type: 'message', channel: frame.channel, message: frame.message });
+          }
+        });
+        break;
+    }
+  }
+}
+
+// Start if run directly
+if (require.main === module) {
+  const port = Number(process.env.CLUSTER_BUS_PORT) || 4000;
+
+  new MessageBusHub().listen(port)
+    .then((bound) => console.log(`📡 Cluster bus hub listening on port ${bound}`))
+    .catch((error) => {
+      console.error('❌ Cluster bus hub failed to start:', error);
+      process.exit(1);
+    });
+}
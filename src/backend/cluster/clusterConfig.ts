@@ -0,0 +1,57 @@
+/**
+ * Cluster Config
+ *
+ * Clustering is on when CLUSTER_BUS_URL points at a bus hub. Instances
+ * then share rooms through the file room store (one directory every
+ * instance mounts) and need their own stable INSTANCE_ID.
+ */
+
+import { InProcessMessageBus } from './messageBus';
+import type { MessageBus } from './messageBus';
+import { TcpMessageBus } from './tcpMessageBus';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ClusterConfig {
+  instanceId: string;
+  busUrl: string | null;       // Null when running a single instance
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+/**
+ * Read and check the cluster settings
+ * Throws when clustering is on without what it needs to be safe.
+ */
+export function readClusterConfig(env: NodeJS.ProcessEnv): ClusterConfig {
+  const busUrl = env.CLUSTER_BUS_URL || null;
+
+  if (!busUrl) {
+    return { instanceId: env.INSTANCE_ID || 'local', busUrl: null };
+  }
+
+  // A shared default would have every instance claim every room
+  if (!env.INSTANCE_ID) {
+    throw new Error('INSTANCE_ID must be set to a unique name for each instance when CLUSTER_BUS_URL is set');
+  }
+
+  // Rooms in memory are invisible to the other instances
+  if (env.ROOM_STORE !== 'file') {
+    throw new Error('ROOM_STORE=file (on a directory shared by every instance) is required when CLUSTER_BUS_URL is set');
+  }
+
+  return { instanceId: env.INSTANCE_ID, busUrl };
+}
+
+/**
+ * Bus for the config: networked when clustered, in-process otherwise
+ */
+export function createMessageBus(config: ClusterConfig): MessageBus {
+  return config.busUrl
+    ? new TcpMessageBus(config.busUrl, config.instanceId)
+    : new InProcessMessageBus();
+}
@@ -0,0 +1,23 @@
+/**
+ * Cluster - Run several server instances that share rooms
+ */
+
+import { readClusterConfig } from './clusterConfig';
+
+export * from './messageBus';
+export * from './tcpMessageBus';
+export * from './busHub';
+export * from './busAdapter';
+export * from './roomRouter';
+export * from './clusterConfig';
+
+/**
+ * Cluster settings of this process (see readClusterConfig)
+ */
+export const CLUSTER_CONFIG = readClusterConfig(process.env);
+
+/**
+ * Identity of this server instance. Rooms remember the instance that owns
+ * them, so it must stay the same across restarts and differ per instance.
+ */
+export const INSTANCE_ID = CLUSTER_CONFIG.instanceId;
@@ -0,0 +1,56 @@
+/**
+ * Message Bus
+ *
+ * Pub/sub transport between server instances. Socket.io broadcasts and
+ * commands for a room's owning instance travel over it. Production
+ * deployments use the networked TcpMessageBus (see ./tcpMessageBus);
+ * the in-process bus connects instances living in the same process.
+ */
+
+import { EventEmitter } from 'events';
+
+// =============================================================================
+// INTERFACE
+// =============================================================================
+
+export type BusHandler = (message: unknown) => void;
+
+export interface MessageBus {
+  /** Deliver a JSON-serializable message to every subscriber of the channel */
+  publish(channel: string, message: unknown): void;
+
+  /** Listen on a channel, returns an unsubscribe function */
+  subscribe(channel: string, handler: BusHandler): () => void;
+}
+
+// =============================================================================
+// IN-PROCESS IMPLEMENTATION
+// =============================================================================
+
+/**
+ * Bus for a single process (default) and for multi-instance tests.
+ * Messages are delivered synchronously and round-tripped through JSON
+ * so they look exactly like they would after crossing the network.
+ */
+export class InProcessMessageBus implements MessageBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One subscription per instance and namespace; don't warn on busy channels
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(channel: string, message: unknown): void {
+    const raw = JSON.stringify(message);
+    this.emitter.emit(channel, raw);
+  }
+
+  subscribe(channel: string, handler: BusHandler): () => void {
+    const listener = (raw: string) => handler(JSON.parse(raw));
+    this.emitter.on(channel, listener);
+
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+}
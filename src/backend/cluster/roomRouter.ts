@@ -0,0 +1,70 @@
+/**
+ * Room Router
+ *
+ * Every room is owned by the instance that created it; only the owner
+ * runs the room's timers and game handlers. Every instance reads and
+ * updates rooms in the shared room store, but forwards the player
+ * actions that need the owner over the message bus.
+ */
+
+import type { GameClientEvents, GameRoom } from '@shared/types';
+import type { MessageBus } from './messageBus';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Work only the owning instance may perform
+ */
+export type OwnerCommand =
+  | {
+      type: 'game_event';
+      gameCode: string;
+      playerId: string;
+      event: keyof GameClientEvents;
+      data: unknown;           // Already validated by the forwarding instance
+    }
+  | {
+      type: 'start_countdown';
+      gameCode: string;
+    }
+  | {
+      type: 'restart_game';
+      gameCode: string;
+    };
+
+export interface RoomRouter {
+  readonly instanceId: string;
+
+  /** Whether this instance runs the room's timers and game handlers */
+  isOwner(room: GameRoom): boolean;
+
+  /** Send a command to the room's owner */
+  forward(room: GameRoom, command: OwnerCommand): void;
+
+  /** Handle commands forwarded to this instance, returns an unsubscribe function */
+  onCommand(handler: (command: OwnerCommand) => void): () => void;
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+export function createRoomRouter(bus: MessageBus, instanceId: string): RoomRouter {
+  const channelFor = (id: string) => `instance#${id}`;
+
+  return {
+    instanceId,
+
+    isOwner: (room) => room.ownerId === instanceId,
+
+    forward: (room, command) => {
+      console.log(`📨 Forwarding ${command.type} for room ${room.gameCode} to ${room.ownerId}`);
+      bus.publish(channelFor(room.ownerId), command);
+    },
+
+    onCommand: (handler) =>
+      bus.subscribe(channelFor(instanceId), (message) => handler(message as OwnerCommand)),
+  };
+}
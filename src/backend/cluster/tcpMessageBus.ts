@@ -0,0 +1,232 @@
+/**
+ * TCP Message Bus
+ *
+ * Networked MessageBus for instances running in separate processes or
+ * on separate hosts. Every instance connects to one hub (see ./busHub),
+ * which relays each message to the instances subscribed to its channel.
+ * Frames are newline-delimited JSON.
+ */
+
+import net from 'net';
+import type { BusHandler, MessageBus } from './messageBus';
+
+// =============================================================================
+// PROTOCOL
+// =============================================================================
+
+/**
+ * Instance → hub
+ */
+export type ClientFrame =
+  | { type: 'hello'; instanceId: string }
+  | { type: 'subscribe'; channel: string }
+  | { type: 'unsubscribe'; channel: string }
+  | { type: 'publish'; channel: string; message: unknown };
+
+/**
+ * Hub → instance
+ */
+export type HubFrame =
+  | { type: 'welcome' }
+  | { type: 'rejected'; reason: string }
+  | { type: 'message'; channel: string; message: unknown };
+
+export function writeFrame(socket: net.Socket, frame: ClientFrame | HubFrame): void {
+  socket.write(`${JSON.stringify(frame)}\n`);
+}
+
+/**
+ * Call onFrame for every complete frame the socket receives.
+ * A peer sending something that isn't JSON is disconnected.
+ */
+export function readFrames(socket: net.Socket, onFrame: (frame: unknown) => void): void {
+  let buffered = '';
+  socket.setEncoding('utf8');
+
+  socket.on('data', (chunk: string) => {
+    buffered += chunk;
+
+    let newline = buffered.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffered.slice(0, newline);
+      buffered = buffered.slice(newline + 1);
+
+      if (line) {
+        try {
+          onFrame(JSON.parse(line));
+        } catch (error) {
+          console.error('❌ Dropping bus peer after a malformed frame:', error);
+          socket.destroy();
+          return;
+        }
+      }
+
+      newline = buffered.indexOf('\n');
+    }
+  });
+}
+
+// Wait before reconnecting to a hub that went away
+const RECONNECT_DELAY_MS = 1000;
+
+// =============================================================================
+// CLIENT
+// =============================================================================
+
+/**
+ * Bus connection of one instance to the hub at tcp://host:port.
+ * Messages published while (re)connecting are sent once connected, and
+ * subscriptions are restored after a reconnect.
+ */
+export class TcpMessageBus implements MessageBus {
+  private handlers = new Map<string, Set<BusHandler>>();
+  private socket: net.Socket | null = null;
+  private connected = false;
+  private closed = false;
+  private pending: ClientFrame[] = [];
+  private reconnectTimer: NodeJS.Timeout | null = null;
+
+  private readonly host: string;
+  private readonly port: number;
+
+  constructor(url: string, private readonly instanceId: string) {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'tcp:' || !parsed.port) {
+      throw new Error(`Invalid bus URL (expected tcp://host:port): ${url}`);
+    }
+
+    this.host = parsed.hostname;
+    this.port = Number(parsed.port);
+  }
+
+  /**
+   * Connect to the hub. Rejects if it can't be reached or another
+   * instance is already connected under the same instance id.
+   */
+  connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.open(resolve, reject);
+    });
+  }
+
+  publish(channel: string, message: unknown): void {
+    const frame: ClientFrame = { type: 'publish', channel, message };
+
+    if (this.connected && this.socket) {
+      writeFrame(this.socket, frame);
+    } else {
+      this.pending.push(frame);
+    }
+  }
+
+  subscribe(channel: string, handler: BusHandler): () => void {
+    let channelHandlers = this.handlers.get(channel);
+    if (!channelHandlers) {
+      channelHandlers = new Set();
+      this.handlers.set(channel, channelHandlers);
+      this.sendIfConnected({ type: 'subscribe', channel });
+    }
+    channelHandlers.add(handler);
+
+    return () => {
+      const current = this.handlers.get(channel);
+      if (!current?.delete(handler) || current.size > 0) return;
+
+      this.handlers.delete(channel);
+      this.sendIfConnected({ type: 'unsubscribe', channel });
+    };
+  }
+
+  /**
+   * Disconnect for good (shutdown and tests)
+   */
+  close(): void {
+    this.closed = true;
+    this.connected = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.socket?.end();
+    this.socket = null;
+  }
+
+  // ===========================================================================
+  // PRIVATE
+  // ===========================================================================
+
+  private open(onWelcome?: () => void, onFailure?: (error: Error) => void): void {
+    const socket = net.connect(this.port, this.host);
+    this.socket = socket;
+    let welcomed = false;
+
+    socket.on('connect', () => {
+      writeFrame(socket, { type: 'hello', instanceId: this.instanceId });
+    });
+
+    readFrames(socket, (raw) => {
+      const frame = raw as HubFrame;
+
+      switch (frame.type) {
+        case 'welcome':
+          welcomed = true;
+          this.connected = true;
+          this.resync(socket);
+          onWelcome?.();
+          break;
+
+        case 'rejected':
+          this.close();
+          console.error(`❌ Cluster bus refused this instance: ${frame.reason}`);
+          onFailure?.(new Error(frame.reason));
+          break;
+
+        case 'message':
+          this.handlers.get(frame.channel)?.forEach(handler => handler(frame.message));
+          break;
+      }
+    });
+
+    socket.on('error', (error) => {
+      if (!welcomed && onFailure) {
+        this.close();
+        onFailure(error);
+      }
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) return;
+
+      this.connected = false;
+      this.socket = null;
+      if (this.closed) return;
+
+      console.warn(`⚠️ Lost cluster bus connection, retrying in ${RECONNECT_DELAY_MS}ms`);
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.open();
+      }, RECONNECT_DELAY_MS);
+    });
+  }
+
+  /**
+   * Restore subscriptions, then send what was published while away
+   */
+  private resync(socket: net.Socket): void {
+    for (const channel of this.handlers.keys()) {
+      writeFrame(socket, { type: 'subscribe', channel });
+    }
+
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(frame => writeFrame(socket, frame));
+  }
+
+  private sendIfConnected(frame: ClientFrame): void {
+    if (this.connected && this.socket) {
+      writeFrame(this.socket, frame);
+    }
+  }
+}
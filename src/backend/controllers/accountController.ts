@@ -0,0 +1,204 @@
+/**
+ * Account Controller
+ *
+ * REST endpoints for optional player accounts.
+ * A signed-in player carries a long-lived "account" cookie next to the
+ * per-room session cookie; create-session and join-game pick it up.
+ */
+
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { accountService } from '../services/accountService';
+import { generateAccountToken, verifyAccountToken, getAccountCookieOptions } from '../utils/auth';
+import {
+  validateAccountCredentials,
+  validateMagicLink,
+  validateRegisterAccount,
+  validateVerifyMagicLink,
+} from '../utils/validation';
+import type { Account, AccountResponse, MagicLinkResponse } from '@shared/types';
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+// Hand magic link tokens back in the response, for local testing without
+// mail delivery. Explicit opt-in, and never in production: anyone could
+// sign in as any account with an email address.
+const returnDevToken = process.env.MAGIC_LINK_DEV_TOKEN === 'true' && process.env.NODE_ENV !== 'production';
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+export const accountRouter = Router();
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Account signed in on this request, or null for a guest
+ */
+export function getRequestAccount(req: Request): Account | null {
+  const token = req.cookies.account;
+  const accountId = token ? verifyAccountToken(token) : null;
+  return accountId ? accountService.getAccount(accountId) : null;
+}
+
+/**
+ * Set the account cookie and send the account
+ */
+function signIn(res: Response, account: Account, status = 200): void {
+  res.cookie('account', generateAccountToken(account.id), getAccountCookieOptions());
+
+  const response: AccountResponse = { account };
+  res.status(status).json(response);
+}
+
+// =============================================================================
+// ENDPOINTS
+// =============================================================================
+
+/**
+ * POST /api/accounts/register
+ *
+ * Create a password account and sign in.
+ */
+accountRouter.post('/register', async (req: Request, res: Response) => {
+  try {
+    const { username, password, email } = validateRegisterAccount(req.body);
+    const account = await accountService.register(username, password, email ?? null);
+
+    console.log(`🪪 Account registered: ${account.username}`);
+
+    signIn(res, account, 201);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/accounts/login
+ *
+ * Sign in with username and password.
+ */
+accountRouter.post('/login', async (req: Request, res: Response) => {
+  try {
+    const { username, password } = validateAccountCredentials(req.body);
+    signIn(res, await accountService.login(username, password));
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/accounts/magic-link
+ *
+ * Email a sign-in link to the account's address (see magicLinkSender).
+ * Answers the same for unknown usernames, accounts without an email and
+ * failed deliveries (those are logged).
+ */
+accountRouter.post('/magic-link', async (req: Request, res: Response) => {
+  try {
+    const { username } = validateMagicLink(req.body);
+    const token = await accountService.requestMagicLink(username, FRONTEND_URL);
+
+    const response: MagicLinkResponse = returnDevToken && token ? { sent: true, devToken: token } : { sent: true };
+    res.json(response);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/accounts/magic-link/verify
+ *
+ * Follow a magic link and sign in.
+ */
+accountRouter.post('/magic-link/verify', (req: Request, res: Response) => {
+  try {
+    const { token } = validateVerifyMagicLink(req.body);
+    signIn(res, accountService.redeemMagicLink(token));
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/accounts/me
+ *
+ * The signed-in account, or null for a guest.
+ */
+accountRouter.get('/me', (req: Request, res: Response) => {
+  try {
+    const account = getRequestAccount(req);
+
+    if (!account && req.cookies.account) {
+      // Expired token or deleted account
+      res.clearCookie('account');
+    }
+
+    const response: AccountResponse = { account };
+    res.json(response);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/accounts/logout
+ *
+ * Sign out (room sessions are left alone).
+ */
+accountRouter.post('/logout', (_req: Request, res: Response) => {
+  res.clearCookie('account');
+  res.json({ success: true });
+});
+
+// =============================================================================
+// ERROR HANDLING
+// =============================================================================
+
+function handleError(error: unknown, res: Response): void {
+  // Validation errors
+  if (error instanceof ZodError) {
+    const details = error.errors.map(e => ({
+      field: e.path.join('.'),
+      message: e.message,
+    }));
+    res.status(400).json({
+      error: 'Validation failed',
+      details,
+    });
+    return;
+  }
+
+  // Known account errors
+  if (error instanceof Error) {
+    const message = error.message;
+
+    if (message === 'Username already taken') {
+      res.status(409).json({ error: message });
+      return;
+    }
+
+    if (message === 'Invalid username or password' || message === 'Invalid or expired link') {
+      res.status(401).json({ error: message });
+      return;
+    }
+
+    if (message === 'Magic links are not available') {
+      res.status(503).json({ error: message });
+      return;
+    }
+
+    // Log unexpected errors
+    console.error('❌ Account controller error:', error);
+  }
+
+  // Generic error
+  res.status(500).json({ error: 'Internal server error' });
+}
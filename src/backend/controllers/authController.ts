@@ -2,15 +2,18 @@
  * Auth Controller
  * 
  * Handles session creation and game joining.
- * No passwords, no registration - just name + avatar.
+ * No passwords, no registration - just name + avatar. A signed-in
+ * account (see accountController) is attached to the session if present.
  */
 
 import { Router, Request, Response } from 'express';
 import { ZodError } from 'zod';
-import { gameService } from '../services/gameService';
+import { gameService, getActivePlayers } from '../services/gameService';
 import { generateToken, verifyToken, getSessionCookieOptions } from '../utils/auth';
 import { validateCreateSession, validateJoinGame } from '../utils/validation';
 import { normalizeGameCode } from '../utils/gameCode';
+import { getRequestAccount } from './accountController';
+import { decodeChallengeCode } from '@shared/random';
 import type { 
   CreateSessionResponse, 
   JoinGameResponse, 
@@ -39,10 +42,23 @@ authRouter.post('/create-session', (req: Request, res: Response) => {
     console.log('🔍 CREATE SESSION - Request body:', JSON.stringify(req.body));
     
     // Validate input
-    const { displayName, avatarId } = validateCreateSession(req.body);
-    
-    // Create room with host
-    const room = gameService.createRoom({ displayName, avatarId });
+    const { displayName, avatarId, challengeCode } = validateCreateSession(req.body);
+    
+    // Create room with host (a challenge code fixes the room's seed and board)
+    const challenge = challengeCode ? decodeChallengeCode(challengeCode) : null;
+    const account = getRequestAccount(req);
+    const room = gameService.createRoom({
+      displayName,
+      avatarId,
+      accountId: account?.id ?? null,
+      rating: account?.rating ?? null,
+    }, challenge?.seed ?? null);
+    if (challenge?.padCount) {
+      gameService.updateSettings(room.gameCode, {
+        ...room.settings,
+        simon: { ...room.settings.simon, padCount: challenge.padCount },
+      });
+    }
     const player = room.players[0];
     
     // Create session
@@ -51,7 +67,9 @@ authRouter.post('/create-session', (req: Request, res: Response) => {
       gameCode: room.gameCode,
       displayName: player.displayName,
       avatarId: player.avatarId,
+      role: 'player',
       isHost: true,
+      accountId: player.accountId,
     };
     
     // Generate JWT token
@@ -89,8 +107,14 @@ authRouter.post('/join-game', (req: Request, res: Response) => {
     // Normalize game code (remove dashes, uppercase)
     const gameCode = normalizeGameCode(rawGameCode);
     
-    // Join room
-    const room = gameService.joinRoom(gameCode, { displayName, avatarId });
+    // Join room (as the signed-in account, if any)
+    const account = getRequestAccount(req);
+    const room = gameService.joinRoom(gameCode, {
+      displayName,
+      avatarId,
+      accountId: account?.id ?? null,
+      rating: account?.rating ?? null,
+    });
     const player = room.players[room.players.length - 1]; // Last added player
     
     // Create session
@@ -99,7 +123,9 @@ authRouter.post('/join-game', (req: Request, res: Response) => {
       gameCode: room.gameCode,
       displayName: player.displayName,
       avatarId: player.avatarId,
+      role: 'player',
       isHost: false,
+      accountId: player.accountId,
     };
     
     // Generate JWT token
@@ -114,7 +140,57 @@ authRouter.post('/join-game', (req: Request, res: Response) => {
       session,
     };
     
-    console.log(`🏠 ${displayName} joined room ${gameCode} (${room.players.length}/4 players)`);
+    console.log(`🏠 ${displayName} joined room ${gameCode} (${getActivePlayers(room).length}/${room.settings.maxPlayers} players)`);
+    
+    res.status(200).json(response);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/auth/spectate
+ * 
+ * Watch an existing game without taking a player slot.
+ * Allowed before or during a game. Returns session and sets JWT cookie.
+ */
+authRouter.post('/spectate', (req: Request, res: Response) => {
+  try {
+    // Validate input (same fields as joining)
+    const { displayName, avatarId, gameCode: rawGameCode } = validateJoinGame(req.body);
+    
+    // Normalize game code (remove dashes, uppercase)
+    const gameCode = normalizeGameCode(rawGameCode);
+    
+    // Join room as spectator
+    const accountId = getRequestAccount(req)?.id ?? null;
+    const room = gameService.spectateRoom(gameCode, { displayName, avatarId, accountId });
+    const spectator = room.players[room.players.length - 1]; // Last added member
+    
+    // Create session
+    const session: Session = {
+      playerId: spectator.id,
+      gameCode: room.gameCode,
+      displayName: spectator.displayName,
+      avatarId: spectator.avatarId,
+      role: 'spectator',
+      isHost: false,
+      accountId: spectator.accountId,
+    };
+    
+    // Generate JWT token
+    const token = generateToken(session);
+    
+    // Set cookie
+    res.cookie('session', token, getSessionCookieOptions());
+    
+    // Return response
+    const response: JoinGameResponse = {
+      playerId: spectator.id,
+      session,
+    };
+    
+    console.log(`👀 ${displayName} is spectating room ${gameCode}`);
     
     res.status(200).json(response);
   } catch (error) {
@@ -171,7 +247,9 @@ authRouter.get('/verify-session', (req: Request, res: Response) => {
       gameCode: room.gameCode,
       displayName: player.displayName,
       avatarId: player.avatarId,
+      role: player.role,
       isHost: player.isHost,
+      accountId: player.accountId,
     };
     
     const response: VerifySessionResponse = { 
@@ -241,7 +319,12 @@ function handleError(error: unknown, res: Response): void {
       return;
     }
     
-    if (message === 'Room is full' || message === 'Game already in progress') {
+    if (message === 'Server is restarting') {
+      res.status(503).json({ error: message });
+      return;
+    }
+    
+    if (message === 'Room is full' || message === 'Game already in progress' || message === 'Too many spectators') {
       res.status(400).json({ error: message });
       return;
     }
@@ -0,0 +1,165 @@
+/**
+ * Daily Controller
+ *
+ * REST endpoints for the daily Simon challenge.
+ * Signed-in players are told apart by their account, so clearing cookies
+ * doesn't buy another attempt. Guests get a long-lived "daily" cookie.
+ */
+
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { dailyService, getUtcDate } from '../services/dailyService';
+import { generateDailyToken, verifyDailyToken, getDailyCookieOptions } from '../utils/auth';
+import { validateStartDaily, validateSubmitDailyRound, validateDailyDate } from '../utils/validation';
+import { getRequestAccount } from './accountController';
+import type { DailyRound, SubmitDailyRoundResponse } from '@shared/types';
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+export const dailyRouter = Router();
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Player ID from the signed-in account or the daily cookie,
+ * or null for a new guest
+ */
+function getDailyPlayerId(req: Request): string | null {
+  const account = getRequestAccount(req);
+  if (account) {
+    return `account:${account.id}`;
+  }
+
+  const token = req.cookies.daily;
+  return token ? verifyDailyToken(token) : null;
+}
+
+// =============================================================================
+// ENDPOINTS
+// =============================================================================
+
+/**
+ * GET /api/daily
+ *
+ * Today's date, whether this player has used their attempt,
+ * and the round to resume if it is still in progress.
+ */
+dailyRouter.get('/', (req: Request, res: Response) => {
+  try {
+    res.json(dailyService.getChallenge(getDailyPlayerId(req)));
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/daily/start
+ *
+ * Start today's only attempt and return round 1.
+ * Sets the daily cookie on a guest's first visit.
+ */
+dailyRouter.post('/start', (req: Request, res: Response) => {
+  try {
+    const { displayName, avatarId } = validateStartDaily(req.body);
+
+    let playerId = getDailyPlayerId(req);
+    if (!playerId) {
+      playerId = uuidv4();
+      res.cookie('daily', generateDailyToken(playerId), getDailyCookieOptions());
+    }
+
+    const response: DailyRound = dailyService.startAttempt(playerId, { displayName, avatarId });
+
+    console.log(`📅 Daily attempt started by ${displayName} (${response.date})`);
+
+    res.status(201).json(response);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/daily/submit
+ *
+ * Submit the sequence for the current round.
+ * Returns the next round, or the final result when the attempt is over.
+ */
+dailyRouter.post('/submit', (req: Request, res: Response) => {
+  try {
+    const { sequence } = validateSubmitDailyRound(req.body);
+
+    const playerId = getDailyPlayerId(req);
+    if (!playerId) {
+      throw new Error('No daily attempt in progress');
+    }
+
+    const response: SubmitDailyRoundResponse = dailyService.submitRound(playerId, sequence);
+
+    if (response.result) {
+      console.log(`🏁 Daily attempt finished: ${response.result.score} rounds, rank ${response.result.rank}`);
+    }
+
+    res.json(response);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/daily/leaderboard?date=YYYY-MM-DD
+ *
+ * Best finished attempts of a day (default: today).
+ */
+dailyRouter.get('/leaderboard', (req: Request, res: Response) => {
+  try {
+    const date = req.query.date === undefined ? getUtcDate() : validateDailyDate(req.query.date);
+    res.json(dailyService.getLeaderboard(date));
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// =============================================================================
+// ERROR HANDLING
+// =============================================================================
+
+function handleError(error: unknown, res: Response): void {
+  // Validation errors
+  if (error instanceof ZodError) {
+    const details = error.errors.map(e => ({
+      field: e.path.join('.'),
+      message: e.message,
+    }));
+    res.status(400).json({
+      error: 'Validation failed',
+      details,
+    });
+    return;
+  }
+
+  // Known daily errors
+  if (error instanceof Error) {
+    const message = error.message;
+
+    if (message === 'Already played today') {
+      res.status(409).json({ error: message });
+      return;
+    }
+
+    if (message === 'No daily attempt in progress') {
+      res.status(400).json({ error: message });
+      return;
+    }
+
+    // Log unexpected errors
+    console.error('❌ Daily controller error:', error);
+  }
+
+  // Generic error
+  res.status(500).json({ error: 'Internal server error' });
+}
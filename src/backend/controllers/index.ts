@@ -3,3 +3,8 @@
  */
 
 export * from './authController';
+export * from './dailyController';
+export * from './accountController';
+export * from './playerController';
+export * from './matchmakingController';
+export * from './roomController';
@@ -0,0 +1,103 @@
+/**
+ * Matchmaking Controller
+ *
+ * Quick match: seats the player in an open matchmaking room (or opens
+ * one) and signs them into it like join-game. The room's lobby then
+ * fills over the socket and starts on its own.
+ */
+
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { getActivePlayers } from '../services/gameService';
+import { matchmakingService } from '../services/matchmakingService';
+import { generateToken, getSessionCookieOptions } from '../utils/auth';
+import { validateMatchmakingJoin } from '../utils/validation';
+import { getRequestAccount } from './accountController';
+import type { JoinGameResponse, Session } from '@shared/types';
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+export const matchmakingRouter = Router();
+
+// =============================================================================
+// ENDPOINTS
+// =============================================================================
+
+/**
+ * POST /api/matchmaking/join
+ *
+ * Join the quick match queue for a game.
+ * Returns session and sets JWT cookie.
+ */
+matchmakingRouter.post('/join', (req: Request, res: Response) => {
+  try {
+    const { displayName, avatarId, gameType, byRating } = validateMatchmakingJoin(req.body);
+
+    // Rated matching uses the signed-in account's rating (guests count as new players)
+    const account = getRequestAccount(req);
+    const { room, player } = matchmakingService.join(
+      { displayName, avatarId, accountId: account?.id ?? null, rating: account?.rating ?? null },
+      { gameType, byRating }
+    );
+
+    const session: Session = {
+      playerId: player.id,
+      gameCode: room.gameCode,
+      displayName: player.displayName,
+      avatarId: player.avatarId,
+      role: 'player',
+      isHost: player.isHost,
+      accountId: player.accountId,
+    };
+
+    res.cookie('session', generateToken(session), getSessionCookieOptions());
+
+    const response: JoinGameResponse = {
+      playerId: player.id,
+      session,
+    };
+
+    console.log(`🎯 ${displayName} quick matched into room ${room.gameCode} (${getActivePlayers(room).length}/${room.settings.maxPlayers} players)`);
+
+    res.json(response);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// =============================================================================
+// ERROR HANDLING
+// =============================================================================
+
+function handleError(error: unknown, res: Response): void {
+  // Validation errors
+  if (error instanceof ZodError) {
+    const details = error.errors.map(e => ({
+      field: e.path.join('.'),
+      message: e.message,
+    }));
+    res.status(400).json({
+      error: 'Validation failed',
+      details,
+    });
+    return;
+  }
+
+  // Known matchmaking errors
+  if (error instanceof Error) {
+    const message = error.message;
+
+    if (message === 'Server is restarting') {
+      res.status(503).json({ error: message });
+      return;
+    }
+
+    // Log unexpected errors
+    console.error('❌ Matchmaking controller error:', error);
+  }
+
+  // Generic error
+  res.status(500).json({ error: 'Internal server error' });
+}
@@ -0,0 +1,83 @@
+/**
+ * Player Controller
+ *
+ * REST endpoints for match history and stats. The ID is an account ID
+ * for signed-in players, or a room player ID for guests.
+ */
+
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { historyService } from '../services/historyService';
+import { validateHistoryLimit, validatePlayerId } from '../utils/validation';
+import type { PlayerHistoryResponse, PlayerStatsResponse } from '@shared/types';
+import { HISTORY_CONSTANTS } from '@shared/types';
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+export const playerRouter = Router();
+
+// =============================================================================
+// ENDPOINTS
+// =============================================================================
+
+/**
+ * GET /api/players/:id/history?limit=20
+ *
+ * A player's most recent finished matches, newest first.
+ */
+playerRouter.get('/:id/history', (req: Request, res: Response) => {
+  try {
+    const playerId = validatePlayerId(req.params.id);
+    const limit = req.query.limit === undefined
+      ? HISTORY_CONSTANTS.DEFAULT_HISTORY_LIMIT
+      : validateHistoryLimit(req.query.limit);
+
+    const response: PlayerHistoryResponse = historyService.getHistory(playerId, limit);
+    res.json(response);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/players/:id/stats
+ *
+ * Longest sequence, win rate and average reaction time.
+ */
+playerRouter.get('/:id/stats', (req: Request, res: Response) => {
+  try {
+    const playerId = validatePlayerId(req.params.id);
+
+    const response: PlayerStatsResponse = historyService.getStats(playerId);
+    res.json(response);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// =============================================================================
+// ERROR HANDLING
+// =============================================================================
+
+function handleError(error: unknown, res: Response): void {
+  // Validation errors
+  if (error instanceof ZodError) {
+    const details = error.errors.map(e => ({
+      field: e.path.join('.'),
+      message: e.message,
+    }));
+    res.status(400).json({
+      error: 'Validation failed',
+      details,
+    });
+    return;
+  }
+
+  // Log unexpected errors
+  console.error('❌ Player controller error:', error);
+
+  // Generic error
+  res.status(500).json({ error: 'Internal server error' });
+}
@@ -0,0 +1,35 @@
+/**
+ * Room Controller
+ *
+ * REST endpoint for the public lobby browser. Only rooms their host made
+ * public are listed, and only while they wait for players.
+ */
+
+import { Router, Request, Response } from 'express';
+import { gameService } from '../services/gameService';
+import type { PublicRoomsResponse } from '@shared/types';
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+export const roomRouter = Router();
+
+// =============================================================================
+// ENDPOINTS
+// =============================================================================
+
+/**
+ * GET /api/rooms
+ *
+ * Public rooms in the lobby, newest first.
+ */
+roomRouter.get('/', (_req: Request, res: Response) => {
+  try {
+    const response: PublicRoomsResponse = { rooms: gameService.getPublicRooms() };
+    res.json(response);
+  } catch (error) {
+    console.error('❌ Room controller error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
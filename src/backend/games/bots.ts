@@ -0,0 +1,113 @@
+/**
+ * Bots
+ *
+ * Server-played players that fill empty seats. A game decides what a
+ * bot does through GameModule.botMove; this file holds the skill model
+ * those moves draw from and schedules them. Moves are sent through the
+ * game's own client event handlers, exactly like a person's.
+ */
+
+import type { BotDifficulty, Color, Player, ServerToClientEvents } from '@shared/types';
+import { CLASSIC_COLORS } from '@shared/types';
+import type { RandomSource } from '@shared/random';
+import { getActivePlayers } from '../services/gameService';
+import type { BotMove, GameContext, GameModule } from './types';
+
+// =============================================================================
+// SKILL MODEL
+// =============================================================================
+
+/**
+ * How a bot of a given difficulty remembers and reacts
+ */
+export interface BotSkill {
+  memoryErrorRate: number;       // Chance of misremembering one color of a short sequence
+  reactionBaseMs: number;        // Time before the first input
+  reactionPerColorMs: number;    // Extra time for each color entered
+  reactionJitter: number;        // Spread of reaction times, as a fraction of the mean
+}
+
+export const BOT_SKILLS: Record<BotDifficulty, BotSkill> = {
+  easy: { memoryErrorRate: 0.06, reactionBaseMs: 1500, reactionPerColorMs: 700, reactionJitter: 0.4 },
+  medium: { memoryErrorRate: 0.03, reactionBaseMs: 1000, reactionPerColorMs: 500, reactionJitter: 0.3 },
+  hard: { memoryErrorRate: 0.01, reactionBaseMs: 600, reactionPerColorMs: 300, reactionJitter: 0.2 },
+};
+
+// Longer sequences strain memory: each color adds 10% to the error rate
+const MEMORY_LOAD_PER_COLOR = 0.1;
+
+// Nobody answers faster than this
+const MIN_REACTION_MS = 200;
+
+/**
+ * Skill of a bot player
+ */
+export function getBotSkill(bot: Player): BotSkill {
+  return BOT_SKILLS[bot.botDifficulty ?? 'medium'];
+}
+
+/**
+ * Chance of getting any one color wrong in a sequence of this length
+ */
+export function getColorErrorChance(skill: BotSkill, sequenceLength: number): number {
+  return Math.min(1, skill.memoryErrorRate * (1 + sequenceLength * MEMORY_LOAD_PER_COLOR));
+}
+
+/**
+ * The sequence as the bot remembers it (possibly with wrong colors from the board)
+ */
+export function recallSequence(
+  sequence: Color[],
+  skill: BotSkill,
+  random: RandomSource = Math.random,
+  palette: Color[] = CLASSIC_COLORS
+): Color[] {
+  const errorChance = getColorErrorChance(skill, sequence.length);
+
+  return sequence.map(color => {
+    if (random() >= errorChance) return color;
+
+    const others = palette.filter(c => c !== color);
+    return others[Math.floor(random() * others.length)];
+  });
+}
+
+/**
+ * How long the bot takes to enter this many colors
+ * Bell-shaped around the skill's mean, never below MIN_REACTION_MS.
+ */
+export function sampleReactionMs(skill: BotSkill, colorCount: number, random: RandomSource = Math.random): number {
+  const mean = skill.reactionBaseMs + skill.reactionPerColorMs * colorCount;
+
+  // Sum of three uniform draws: centered on 0, within ±1.5
+  const spread = random() + random() + random() - 1.5;
+
+  return Math.max(MIN_REACTION_MS, Math.round(mean * (1 + skill.reactionJitter * spread)));
+}
+
+// =============================================================================
+// SCHEDULING
+// =============================================================================
+
+/**
+ * Let every bot in the room react to an event the game just broadcast.
+ * Each bot has one pending move at a time (a phase timer named after it),
+ * so the move is dropped if the room stops playing before it is due.
+ */
+export function scheduleBotMoves(
+  ctx: GameContext,
+  module: GameModule,
+  event: keyof ServerToClientEvents,
+  dispatch: (botId: string, move: BotMove) => void
+): void {
+  if (!module.botMove) return;
+
+  const bots = getActivePlayers(ctx.getRoom()).filter(p => p.isBot);
+
+  for (const bot of bots) {
+    const move = module.botMove(ctx, bot, event);
+    if (!move) continue;
+
+    ctx.setTimer(`bot:${bot.id}`, move.delayMs, () => dispatch(bot.id, move));
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Color Race Game Module
+ *
+ * Runs Color Race on the platform: announces each round's color,
+ * collects answers and declares the winner after the last round.
+ * Pure game rules live in utils/colorRaceLogic.ts.
+ */
+
+import {
+  initializeColorRaceGame,
+  processRound,
+  determineWinner,
+  getLeaderboard,
+} from '../utils/colorRaceLogic';
+import { COLOR_RACE_CONSTANTS } from '@shared/types';
+import { encodeChallengeCode } from '@shared/random';
+import type { ColorRaceGameState, PlayerAnswer, Color, Player, ServerToClientEvents } from '@shared/types';
+import { getActivePlayers } from '../services/gameService';
+import type { BotMove, GameContext, GameModuleFor, MatchSummary } from './types';
+import { getBotSkill, recallSequence, sampleReactionMs } from './bots';
+
+type ColorRaceContext = GameContext<ColorRaceGameState>;
+
+// Track round answers for each game
+const roundAnswers = new Map<string, PlayerAnswer[]>();
+
+// =============================================================================
+// ROUNDS
+// =============================================================================
+
+/**
+ * Announce the current round's color (reaction times count from here)
+ */
+function emitNewRound(ctx: ColorRaceContext): void {
+  const gameState = ctx.getState();
+  if (!gameState.currentColor) return; // Game already finished
+
+  ctx.setState({ ...gameState, roundStartedAt: Date.now() });
+
+  ctx.emit('color_race:new_round', {
+    round: gameState.round,
+    color: gameState.currentColor,
+    totalRounds: gameState.totalRounds,
+  });
+}
+
+/**
+ * Process a Color Race round
+ */
+function processColorRaceRound(ctx: ColorRaceContext, answers: PlayerAnswer[]): void {
+  // Process the round
+  const newState = processRound(ctx.getState(), answers);
+  ctx.setState(newState);
+
+  // Broadcast round result
+  ctx.emit('color_race:round_result', {
+    winnerId: newState.roundWinner,
+    winnerName: newState.roundWinner ? ctx.getPlayerName(newState.roundWinner) : null,
+    scores: newState.scores,
+  });
+
+  // Check if game finished
+  if (newState.phase === 'finished') {
+    ctx.finish();
+  } else {
+    // Start next round after delay
+    ctx.setTimer('next_round', COLOR_RACE_CONSTANTS.ROUND_RESULT_DELAY_MS, emitNewRound);
+  }
+}
+
+// =============================================================================
+// EVENT HANDLERS
+// =============================================================================
+
+/**
+ * Submit answer for the current round
+ */
+function handleSubmitAnswer(ctx: ColorRaceContext, playerId: string, data: { color: Color }): void {
+  const { gameCode } = ctx;
+
+  // Answers count from the announcement, not from guessing the next color
+  if (ctx.getState().roundStartedAt === null) {
+    return;
+  }
+
+  // Check if player already answered this round
+  const answers = roundAnswers.get(gameCode) || [];
+  if (answers.some(a => a.playerId === playerId)) {
+    return; // Already answered
+  }
+
+  // Record answer with server timestamp
+  answers.push({
+    playerId,
+    color: data.color,
+    timestamp: Date.now(),
+  });
+  roundAnswers.set(gameCode, answers);
+
+  // Check if all connected players have answered (spectators don't answer)
+  const connectedPlayers = getActivePlayers(ctx.getRoom()).filter(p => p.connected);
+
+  if (answers.length >= connectedPlayers.length) {
+    // Clear answers for next round
+    roundAnswers.set(gameCode, []);
+
+    processColorRaceRound(ctx, answers);
+  }
+}
+
+// =============================================================================
+// BOTS
+// =============================================================================
+
+/**
+ * Bots tap a color once the round is announced (sometimes the wrong one)
+ */
+function colorRaceBotMove(ctx: ColorRaceContext, bot: Player, event: keyof ServerToClientEvents): BotMove | null {
+  if (event !== 'color_race:new_round') return null;
+
+  const { currentColor } = ctx.getState();
+  if (!currentColor) return null;
+
+  const skill = getBotSkill(bot);
+
+  return {
+    event: 'color_race:submit_answer',
+    data: { color: recallSequence([currentColor], skill)[0] },
+    delayMs: sampleReactionMs(skill, 1),
+  };
+}
+
+// =============================================================================
+// GAME END
+// =============================================================================
+
+/**
+ * Declare the player with the most rounds won
+ */
+function finishColorRaceGame(ctx: ColorRaceContext): void {
+  const gameState = ctx.getState();
+  const winner = determineWinner(gameState);
+  const winnerName = winner ? ctx.getPlayerName(winner.winnerId) : null;
+
+  ctx.emit('color_race:game_finished', {
+    winnerId: winner?.winnerId ?? null,
+    winnerName,
+    finalScores: gameState.scores,
+    challengeCode: encodeChallengeCode(gameState.seed),
+  });
+
+  roundAnswers.delete(ctx.gameCode);
+  console.log(`🏆 Color Race finished in room ${ctx.gameCode} - Winner: ${winnerName}`);
+}
+
+/**
+ * Final leaderboard and every round's answers, for match history
+ */
+function summarizeColorRaceGame(ctx: ColorRaceContext): MatchSummary {
+  const gameState = ctx.getState();
+
+  return {
+    winnerId: determineWinner(gameState)?.winnerId ?? null,
+    standings: getLeaderboard(gameState).map(({ playerId, score }) => ({ playerId, score, eliminatedAtRound: null })),
+    rounds: gameState.rounds,
+  };
+}
+
+// =============================================================================
+// MODULE
+// =============================================================================
+
+export const colorRaceModule: GameModuleFor<'color_race'> = {
+  id: 'color_race',
+
+  // A fixed seed (challenge code) replays the same colors
+  initialize: (players, settings) => initializeColorRaceGame(players, settings.seed ?? undefined),
+
+  onStart: (ctx) => {
+    // Drop answers left over from a previous game in this room
+    roundAnswers.set(ctx.gameCode, []);
+
+    // Start first round
+    emitNewRound(ctx);
+
+    console.log(`🎮 Color Race started in room: ${ctx.gameCode}`);
+  },
+
+  handlers: {
+    'color_race:submit_answer': handleSubmitAnswer,
+  },
+
+  onFinish: finishColorRaceGame,
+
+  summarize: summarizeColorRaceGame,
+
+  onResume: (ctx) => {
+    // Answers in flight were lost with the old process; replay the round
+    roundAnswers.set(ctx.gameCode, []);
+    ctx.setTimer('next_round', COLOR_RACE_CONSTANTS.ROUND_RESULT_DELAY_MS, emitNewRound);
+  },
+
+  botMove: colorRaceBotMove,
+};
@@ -0,0 +1,152 @@
+/**
+ * Game Context
+ *
+ * Builds the GameContext handed to game modules, owns their per-room
+ * phase timers and runs game events (from sockets and from bots).
+ */
+
+import type { Server } from 'socket.io';
+import type { ClientToServerEvents, GameClientEvents, GameType, ServerToClientEvents } from '@shared/types';
+import { gameService, getActivePlayers } from '../services/gameService';
+import { historyService } from '../services/historyService';
+import { getGameModule } from './registry';
+import { scheduleBotMoves } from './bots';
+import type { BaseGameState, GameContext } from './types';
+
+// Track phase timers per room (key: `${gameCode}:${name}`)
+const gameTimers = new Map<string, NodeJS.Timeout>();
+
+// =============================================================================
+// CONTEXT
+// =============================================================================
+
+/**
+ * Create a context for a room that is actively playing the given game.
+ * Returns null if the room is gone, not active, or playing something else.
+ */
+export function createGameContext(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  gameCode: string,
+  gameType: GameType
+): GameContext | null {
+  const room = gameService.getRoom(gameCode);
+  if (!room || room.status !== 'active') return null;
+
+  const state = room.gameState as BaseGameState | null;
+  if (!state || state.gameType !== gameType) return null;
+
+  const module = getGameModule(gameType);
+  if (!module) return null;
+
+  const ctx: GameContext = {
+    gameCode,
+
+    getRoom: () => room,
+
+    getPlayerName: (playerId) =>
+      room.players.find(p => p.id === playerId)?.displayName || 'Unknown',
+
+    getState: () => room.gameState as BaseGameState,
+
+    setState: (newState) => {
+      gameService.updateGameState(gameCode, newState);
+    },
+
+    emit: (event, ...args) => {
+      io.to(gameCode).emit(event, ...args);
+
+      // Bots play the broadcast like everyone else
+      scheduleBotMoves(ctx, module, event, (botId, move) =>
+        dispatchGameEvent(io, gameCode, botId, move.event, move.data)
+      );
+    },
+
+    setTimer: (name, delayMs, callback) => {
+      const key = `${gameCode}:${name}`;
+      clearTimeout(gameTimers.get(key));
+
+      const timeout = setTimeout(() => {
+        gameTimers.delete(key);
+
+        // Re-check the room: it may have been restarted or closed meanwhile
+        const current = createGameContext(io, gameCode, gameType);
+        if (current) {
+          callback(current);
+        }
+      }, delayMs);
+
+      gameTimers.set(key, timeout);
+    },
+
+    clearTimer: (name) => {
+      const key = `${gameCode}:${name}`;
+      clearTimeout(gameTimers.get(key));
+      gameTimers.delete(key);
+    },
+
+    finish: () => {
+      module.onFinish(ctx);
+      if (module.summarize) {
+        historyService.recordMatch(room, gameType, module.summarize(ctx));
+      }
+      clearGameTimers(gameCode);
+      gameService.updateRoomStatus(gameCode, 'finished');
+    },
+  };
+
+  return ctx;
+}
+
+// =============================================================================
+// EVENTS
+// =============================================================================
+
+/**
+ * Pass a validated event to the module playing in the room
+ */
+export function dispatchGameEvent(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  gameCode: string,
+  playerId: string,
+  event: keyof GameClientEvents,
+  data: unknown
+): void {
+  const room = gameService.getRoom(gameCode);
+  const module = room ? getGameModule(room.gameType) : null;
+  const handler = module?.handlers[event] as ((ctx: GameContext, playerId: string, data: unknown) => void) | undefined;
+  if (!module || !handler) return;
+
+  const ctx = createGameContext(io, gameCode, module.id);
+  if (!ctx) return;
+
+  // Spectators and players removed from the room can't play
+  if (!getActivePlayers(ctx.getRoom()).some(p => p.id === playerId)) return;
+
+  handler(ctx, playerId, data);
+}
+
+// =============================================================================
+// TIMERS
+// =============================================================================
+
+/**
+ * Cancel every pending phase timer for a room
+ */
+export function clearGameTimers(gameCode: string): void {
+  const prefix = `${gameCode}:`;
+
+  for (const [key, timeout] of gameTimers.entries()) {
+    if (key.startsWith(prefix)) {
+      clearTimeout(timeout);
+      gameTimers.delete(key);
+    }
+  }
+}
+
+/**
+ * Cancel every pending phase timer in every room (server shutdown)
+ */
+export function clearAllGameTimers(): void {
+  gameTimers.forEach(timeout => clearTimeout(timeout));
+  gameTimers.clear();
+}
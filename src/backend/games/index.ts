@@ -0,0 +1,19 @@
+/**
+ * Games - Register built-in game modules and re-export the module API
+ *
+ * To add a game: implement GameModule in its own file and register it here.
+ */
+
+import { registerGameModule } from './registry';
+import { simonModule } from './simonModule';
+import { colorRaceModule } from './colorRaceModule';
+
+registerGameModule(simonModule);
+registerGameModule(colorRaceModule);
+
+export * from './types';
+export * from './registry';
+export * from './gameContext';
+export * from './bots';
+export { simonModule } from './simonModule';
+export { colorRaceModule } from './colorRaceModule';
@@ -0,0 +1,41 @@
+/**
+ * Game Module Registry
+ *
+ * Lookup of available games by GameType.
+ */
+
+import type { AnyGameModule, GameModule } from './types';
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+// Each module is registered with its own state type
+const modules = new Map<string, AnyGameModule>();
+
+/**
+ * Register a game module
+ */
+export function registerGameModule(module: AnyGameModule): void {
+  if (modules.has(module.id)) {
+    throw new Error(`Game module already registered: ${module.id}`);
+  }
+
+  modules.set(module.id, module);
+}
+
+/**
+ * Get the module for a game type, as the platform drives it.
+ * Its contexts are only built for rooms whose state belongs to that game
+ * (see createGameContext), so the module always sees its own state type.
+ */
+export function getGameModule(gameType: string): GameModule | null {
+  return (modules.get(gameType) as GameModule | undefined) ?? null;
+}
+
+/**
+ * Get all registered modules
+ */
+export function getAllGameModules(): AnyGameModule[] {
+  return Array.from(modules.values());
+}
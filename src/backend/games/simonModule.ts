@@ -0,0 +1,669 @@
+/**
+ * Simon Game Module
+ *
+ * Runs Simon Says on the platform: shows sequences, times player input,
+ * processes submissions and declares the winner.
+ * Pure game rules live in the shared simon package (src/shared/simon).
+ */
+
+import {
+  initializeSimonGame,
+  validateInput,
+  validateSequence,
+  advanceToNextRound,
+  shouldGameEnd,
+  updatePlayerProgress,
+  calculateTimeoutSeconds,
+  calculateTimeoutMs,
+  calculateShowDurationMs,
+  processRoundSubmissions,
+  haveAllPlayersSubmitted,
+  getAnsweringPlayers,
+  isPlayersTurn,
+  appendChainColor,
+  advanceChainTurn,
+  createSimonSnapshot,
+  getExpectedInput,
+  getPlayerSlice,
+  getTeamSetupError,
+  getTeamStandings,
+  getPlayerLives,
+  getScoringStrategy,
+} from '../utils/simonLogic';
+import { encodeChallengeCode } from '@shared/random';
+import { SIMON_CONSTANTS } from '@shared/types';
+import type { SimonGameState, Color, Player, ServerToClientEvents } from '@shared/types';
+import type { BotMove, GameContext, GameModuleFor, MatchSummary } from './types';
+import { getBotSkill, recallSequence, sampleReactionMs } from './bots';
+import { ratingService } from '../services/ratingService';
+
+type SimonContext = GameContext<SimonGameState>;
+
+// Bots submit at least this long before the input deadline
+const BOT_DEADLINE_MARGIN_MS = 250;
+
+// =============================================================================
+// SEQUENCE DISPLAY
+// =============================================================================
+
+/**
+ * Show the Simon sequence to all players
+ */
+function showSimonSequence(ctx: SimonContext): void {
+  const gameState = ctx.getState();
+  const { sequence, round, playerStates, activePlayerId, variant, palette } = gameState;
+  const settings = ctx.getRoom().settings.simon;
+
+  // Emit sequence start event (clients animate at the room's speed,
+  // each player only their own part of it)
+  ctx.emit('simon:show_sequence', {
+    round,
+    sequence,
+    sequenceLengths: Object.fromEntries(
+      Object.entries(playerStates).map(([id, state]) => [id, state.sequenceLength])
+    ),
+    activePlayerId,
+    slices: Object.fromEntries(
+      Object.keys(playerStates).map(id => [id, getPlayerSlice(gameState, id)])
+    ),
+    variant,
+    palette,
+    showColorDurationMs: settings.showColorDurationMs,
+    showColorGapMs: settings.showColorGapMs,
+  });
+
+  console.log(`🎨 Showing sequence for round ${round}: [${sequence.join(', ')}]`);
+  console.log(`📡 Emitted simon:show_sequence to room ${ctx.gameCode}`);
+
+  // Calculate total animation time
+  const totalTime = calculateShowDurationMs(sequence.length, settings);
+
+  // After sequence completes, start input phase (Step 2 & Step 3)
+  ctx.setTimer('sequence', totalTime + 500, (ctx) => {
+    ctx.emit('simon:sequence_complete');
+
+    // Wait 500ms, then enable input
+    ctx.setTimer('sequence', 500, startInputPhase);
+  });
+}
+
+/**
+ * Open the input phase and start the server-side timeout (Step 3)
+ */
+function startInputPhase(ctx: SimonContext): void {
+  const currentState = ctx.getState();
+  const settings = ctx.getRoom().settings.simon;
+
+  // Step 3: Calculate timeout based on sequence length and room settings
+  const timeoutSeconds = calculateTimeoutSeconds(currentState.sequence.length, settings);
+  const timeoutMs = calculateTimeoutMs(currentState.sequence.length, settings);
+  const now = Date.now();
+  const timeoutAt = now + timeoutMs;
+
+  // Update game state with timeout timestamps
+  ctx.setState({
+    ...currentState,
+    phase: 'player_input',
+    timeoutAt,
+    timerStartedAt: now,
+  });
+
+  // Emit input phase with timeout data (Step 3)
+  ctx.emit('simon:input_phase', {
+    round: currentState.round,
+    timeoutAt,
+    timeoutSeconds,
+  });
+
+  console.log(`⏰ Input phase started for round ${currentState.round} - ${timeoutSeconds}s timeout`);
+
+  // Step 3: Set server-side timeout
+  ctx.setTimer('input_timeout', timeoutMs, handleSimonTimeout);
+}
+
+// =============================================================================
+// ROUND PROGRESSION
+// =============================================================================
+
+/**
+ * Advance to next Simon round
+ * In chain mode the turn passes on (the sequence only grows when the
+ * last player chose a color)
+ */
+function advanceSimonRound(ctx: SimonContext): void {
+  // Advance to next round
+  const gameState = ctx.getState();
+  const newState = gameState.mode === 'chain' ? advanceChainTurn(gameState) : advanceToNextRound(gameState);
+  ctx.setState(newState);
+
+  console.log(`⏭️ Advancing to round ${newState.round}`);
+
+  // Show new sequence
+  showSimonSequence(ctx);
+}
+
+/**
+ * Process Simon round - award points, eliminate wrong answers (Step 4)
+ */
+function processSimonRound(ctx: SimonContext): void {
+  const { gameCode } = ctx;
+  const gameState = ctx.getState();
+  const scoring = getScoringStrategy(ctx.getRoom().settings.simon.scoring);
+
+  console.log(`🏁 Processing round ${gameState.round} for room ${gameCode} (${scoring.mode} scoring)...`);
+
+  // Process submissions (score correct answers, take lives, eliminate)
+  const {
+    gameState: processedState,
+    roundWinner,
+    eliminations,
+    livesLost,
+    roundScores,
+    teamResults,
+  } = processRoundSubmissions(gameState, scoring);
+  
+  // Input is closed until the next sequence (reconnecting players must not see a live timer)
+  const newState: SimonGameState = { ...processedState, phase: 'round_result', timeoutAt: null };
+  ctx.setState(newState);
+
+  // Prepare elimination data with player names
+  const eliminationData = eliminations.map(e => ({
+    playerId: e.playerId,
+    name: ctx.getPlayerName(e.playerId),
+    reason: e.reason,
+  }));
+  const livesLostData = livesLost.map(l => ({
+    playerId: l.playerId,
+    name: ctx.getPlayerName(l.playerId),
+    reason: l.reason,
+  }));
+
+  // Prepare round winner data
+  const roundWinnerData = roundWinner ? {
+    playerId: roundWinner.playerId,
+    name: ctx.getPlayerName(roundWinner.playerId),
+  } : null;
+
+  // Broadcast eliminations
+  eliminationData.forEach(elim => {
+    ctx.emit('simon:player_eliminated', {
+      playerId: elim.playerId,
+      playerName: elim.name,
+      reason: elim.reason,
+    });
+  });
+
+  // Broadcast round result (Step 4)
+  ctx.emit('simon:round_result', {
+    roundWinner: roundWinnerData,
+    eliminations: eliminationData,
+    livesLost: livesLostData,
+    scores: newState.scores,
+    playerStatuses: Object.fromEntries(
+      Object.entries(newState.playerStates).map(([id, state]) => [id, state.status])
+    ),
+    lives: getPlayerLives(newState),
+    roundScores,
+    teamResults,
+  });
+
+  console.log(`🏆 Round ${newState.round} complete - Winner: ${roundWinnerData?.name || 'None'}`);
+
+  // Wait briefly, then end the game or advance to the next round
+  // (chain mode: a correct repeat earns the choice of the next color first)
+  if (shouldGameEnd(newState)) {
+    console.log(`🎯 ENDING GAME for ${gameCode}`);
+    ctx.setTimer('round_result', 3000, (ctx) => ctx.finish());
+  } else if (newState.mode === 'chain' && roundWinnerData) {
+    startChooseColorPhase(ctx);
+  } else {
+    console.log(`➡️ ADVANCING to next round for ${gameCode}`);
+    ctx.setTimer('round_result', 3000, advanceSimonRound);
+  }
+}
+
+/**
+ * Handle Simon timeout (Step 3 & 4 - Competitive Multiplayer)
+ */
+function handleSimonTimeout(ctx: SimonContext): void {
+  const gameState = ctx.getState();
+
+  console.log(`⏰ Timeout expired for room ${ctx.gameCode}`);
+
+  // Step 4: Record timeout for all players who didn't submit
+  // (in chain mode only the player whose turn it is answers)
+  getAnsweringPlayers(gameState).forEach(playerState => {
+    if (!gameState.submissions[playerState.playerId]) {
+      const playerName = ctx.getPlayerName(playerState.playerId);
+
+      // Record timeout submission (wrong)
+      gameState.submissions[playerState.playerId] = {
+        playerId: playerState.playerId,
+        sequence: [], // Empty = timeout
+        timestamp: Date.now(),
+        isCorrect: false,
+      };
+
+      console.log(`⏰ ${playerName} timed out`);
+
+      // Emit timeout event
+      ctx.emit('simon:timeout', {
+        playerId: playerState.playerId,
+        playerName,
+        correctSequence: getExpectedInput(gameState, playerState.playerId),
+      });
+    }
+  });
+
+  // Update game state with timeout submissions
+  ctx.setState(gameState);
+
+  // Process the round (Step 4)
+  processSimonRound(ctx);
+}
+
+// =============================================================================
+// CHAIN MODE
+// =============================================================================
+
+/**
+ * Let the active player choose the next color, with a server-side deadline
+ */
+function startChooseColorPhase(ctx: SimonContext): void {
+  const gameState = ctx.getState();
+  const playerId = gameState.activePlayerId;
+  if (!playerId) return;
+
+  const timeoutAt = Date.now() + SIMON_CONSTANTS.CHAIN_APPEND_TIMEOUT_MS;
+  ctx.setState({ ...gameState, phase: 'choosing_color', timeoutAt });
+
+  const playerName = ctx.getPlayerName(playerId);
+  ctx.emit('simon:choose_color', {
+    playerId,
+    playerName,
+    timeoutAt,
+    timeoutSeconds: SIMON_CONSTANTS.CHAIN_APPEND_TIMEOUT_MS / 1000,
+  });
+
+  console.log(`🔗 ${playerName} is choosing the next color`);
+
+  ctx.setTimer('append_timeout', SIMON_CONSTANTS.CHAIN_APPEND_TIMEOUT_MS, (ctx) => finishChainTurn(ctx, null));
+}
+
+/**
+ * Add the chosen color (a random one when time ran out) and pass the turn
+ */
+function finishChainTurn(ctx: SimonContext, color: Color | null): void {
+  const gameState = ctx.getState();
+  const playerId = gameState.activePlayerId;
+  if (!playerId) return;
+
+  const appendedState = appendChainColor(gameState, color);
+  const appendedColor = appendedState.sequence[appendedState.sequence.length - 1];
+  ctx.setState({ ...appendedState, phase: 'round_result', timeoutAt: null });
+
+  const playerName = ctx.getPlayerName(playerId);
+  ctx.emit('simon:color_appended', {
+    playerId,
+    playerName,
+    color: appendedColor,
+    autoPicked: color === null,
+  });
+
+  console.log(`🔗 ${playerName} ${color ? 'added' : 'ran out of time, added'} ${appendedColor}`);
+
+  ctx.setTimer('round_result', 1500, advanceSimonRound);
+}
+
+// =============================================================================
+// EVENT HANDLERS
+// =============================================================================
+
+/**
+ * Submit complete sequence (Step 2, 3 & 4 - Competitive Multiplayer)
+ */
+function handleSubmitSequence(ctx: SimonContext, playerId: string, data: { sequence: Color[] }): void {
+  const { sequence } = data;
+  const gameState = ctx.getState();
+
+  // Verify player is still playing (Step 4: Check status)
+  const playerState = gameState.playerStates[playerId];
+  if (!playerState || playerState.status !== 'playing') {
+    console.log(`⚠️ Player ${playerId} tried to submit but is not active`);
+    return;
+  }
+
+  // Chain mode: only the player whose turn it is answers
+  // (team modes: only players with a slice this round)
+  if (!getAnsweringPlayers(gameState).some(state => state.playerId === playerId)) {
+    console.log(`⚠️ Player ${playerId} tried to submit out of turn`);
+    return;
+  }
+
+  // Check if already submitted
+  if (gameState.submissions[playerId]) {
+    console.log(`⚠️ Player ${playerId} already submitted`);
+    return;
+  }
+
+  // Validate against this player's sequence (shorter when replaying a round)
+  recordSubmission(ctx, playerId, sequence, validateSequence(gameState, sequence, playerId));
+}
+
+/**
+ * Submit input (single color in sequence)
+ * The player's answer is recorded once they get a color wrong or finish
+ * the sequence, and goes through round processing like a full submission
+ * (so a wrong color costs a life rather than eliminating outright).
+ */
+function handleSubmitInput(
+  ctx: SimonContext,
+  playerId: string,
+  data: { color: Color; inputIndex: number }
+): void {
+  const { color, inputIndex } = data;
+  const gameState = ctx.getState();
+
+  // Verify player is still playing and hasn't answered yet
+  const playerState = gameState.playerStates[playerId];
+  if (!playerState || playerState.status !== 'playing' || !isPlayersTurn(gameState, playerId)) {
+    return;
+  }
+  if (gameState.submissions[playerId]) {
+    return;
+  }
+
+  const expected = getExpectedInput(gameState, playerId);
+  const entered = [...expected.slice(0, inputIndex), color];
+
+  // Validate input
+  if (!validateInput(gameState, playerId, color, inputIndex)) {
+    recordSubmission(ctx, playerId, entered, false);
+    return;
+  }
+
+  // Correct input - update progress
+  const newState = updatePlayerProgress(gameState, playerId);
+  ctx.setState(newState);
+
+  // Emit correct feedback
+  ctx.emit('simon:input_correct', {
+    playerId,
+    index: inputIndex,
+  });
+
+  // Player completed the sequence: that's their answer for the round
+  if (newState.playerStates[playerId].currentInputIndex >= expected.length) {
+    console.log(`✅ Player ${playerId} completed round ${newState.round}`);
+    recordSubmission(ctx, playerId, entered, true);
+  }
+}
+
+/**
+ * Record a player's answer for the round (without revealing it),
+ * then process the round once everyone has answered
+ */
+function recordSubmission(ctx: SimonContext, playerId: string, sequence: Color[], isCorrect: boolean): void {
+  const gameState = ctx.getState();
+  const playerName = ctx.getPlayerName(playerId);
+  const timestamp = Date.now();
+
+  // Step 4: Record submission (don't reveal correctness yet)
+  gameState.submissions[playerId] = {
+    playerId,
+    sequence,
+    timestamp,
+    isCorrect,
+  };
+  ctx.setState(gameState);
+
+  console.log(`📝 ${playerName} submitted (${isCorrect ? 'correct' : 'wrong'}) at ${timestamp}`);
+
+  // Broadcast that player submitted (Step 4: Don't reveal correctness)
+  ctx.emit('simon:player_submitted', {
+    playerId,
+    playerName,
+  });
+
+  // Step 4: Check if all active players have submitted
+  if (haveAllPlayersSubmitted(gameState)) {
+    console.log(`✅ All players submitted! Processing round ${gameState.round}...`);
+
+    // Cancel timeout (Step 3)
+    ctx.clearTimer('input_timeout');
+
+    // Process round (Step 4)
+    processSimonRound(ctx);
+  }
+}
+
+/**
+ * Chain mode: the active player adds the next color
+ */
+function handleAppendColor(ctx: SimonContext, playerId: string, data: { color: Color }): void {
+  const gameState = ctx.getState();
+
+  if (gameState.phase !== 'choosing_color' || gameState.activePlayerId !== playerId) {
+    console.log(`⚠️ Player ${playerId} tried to add a color out of turn`);
+    return;
+  }
+
+  if (!gameState.palette.includes(data.color)) {
+    console.log(`⚠️ Player ${playerId} tried to add ${data.color}, which is not on the board`);
+    return;
+  }
+
+  ctx.clearTimer('append_timeout');
+  finishChainTurn(ctx, data.color);
+}
+
+// =============================================================================
+// RESUME
+// =============================================================================
+
+/**
+ * Rebuild Simon's timers for a game restored from storage
+ */
+function resumeSimonGame(ctx: SimonContext): void {
+  const gameState = ctx.getState();
+
+  switch (gameState.phase) {
+    case 'player_input': {
+      // Keep the original deadline; fire immediately if it passed while down
+      const remainingMs = Math.max(0, (gameState.timeoutAt ?? Date.now()) - Date.now());
+      ctx.setTimer('input_timeout', remainingMs, handleSimonTimeout);
+
+      // Reopen the round so bots that hadn't answered yet still do
+      ctx.emit('simon:input_phase', {
+        round: gameState.round,
+        timeoutAt: gameState.timeoutAt ?? Date.now(),
+        timeoutSeconds: Math.ceil(remainingMs / 1000),
+      });
+      console.log(`⏰ Resumed input phase for round ${gameState.round} - ${Math.ceil(remainingMs / 1000)}s left`);
+      break;
+    }
+    case 'choosing_color': {
+      const playerId = gameState.activePlayerId;
+      if (!playerId) break;
+
+      const remainingMs = Math.max(0, (gameState.timeoutAt ?? Date.now()) - Date.now());
+      ctx.setTimer('append_timeout', remainingMs, (ctx) => finishChainTurn(ctx, null));
+
+      // Ask again so a bot whose turn it was still chooses
+      ctx.emit('simon:choose_color', {
+        playerId,
+        playerName: ctx.getPlayerName(playerId),
+        timeoutAt: gameState.timeoutAt ?? Date.now(),
+        timeoutSeconds: Math.ceil(remainingMs / 1000),
+      });
+      console.log(`🔗 Resumed color choice for round ${gameState.round} - ${Math.ceil(remainingMs / 1000)}s left`);
+      break;
+    }
+    case 'round_result':
+      ctx.setTimer('round_result', 3000, (ctx) =>
+        shouldGameEnd(ctx.getState()) ? ctx.finish() : advanceSimonRound(ctx)
+      );
+      break;
+    default:
+      // Interrupted mid-animation: show the sequence again
+      ctx.setTimer('sequence', 500, showSimonSequence);
+  }
+}
+
+// =============================================================================
+// BOTS
+// =============================================================================
+
+/**
+ * Bots answer once input opens: they submit the expected input as they
+ * remember it after their reaction time, always before the deadline.
+ * In chain mode they only answer on their turn, then add a random color.
+ */
+function simonBotMove(ctx: SimonContext, bot: Player, event: keyof ServerToClientEvents): BotMove | null {
+  const gameState = ctx.getState();
+
+  if (event === 'simon:choose_color') {
+    if (gameState.phase !== 'choosing_color' || gameState.activePlayerId !== bot.id) return null;
+
+    const { palette } = gameState;
+    const timeLeftMs = (gameState.timeoutAt ?? Date.now()) - Date.now() - BOT_DEADLINE_MARGIN_MS;
+    return {
+      event: 'simon:append_color',
+      data: { color: palette[Math.floor(Math.random() * palette.length)] },
+      delayMs: Math.max(0, Math.min(sampleReactionMs(getBotSkill(bot), 1), timeLeftMs)),
+    };
+  }
+
+  if (event !== 'simon:input_phase') return null;
+
+  const isAnswering = getAnsweringPlayers(gameState).some(state => state.playerId === bot.id);
+  if (!isAnswering || gameState.submissions[bot.id]) {
+    return null;
+  }
+
+  const skill = getBotSkill(bot);
+  const sequence = getExpectedInput(gameState, bot.id);
+  const timeLeftMs = (gameState.timeoutAt ?? Date.now()) - Date.now() - BOT_DEADLINE_MARGIN_MS;
+
+  return {
+    event: 'simon:submit_sequence',
+    data: { sequence: recallSequence(sequence, skill, Math.random, gameState.palette) },
+    delayMs: Math.max(0, Math.min(sampleReactionMs(skill, sequence.length), timeLeftMs)),
+  };
+}
+
+// =============================================================================
+// GAME END
+// =============================================================================
+
+/**
+ * Players with their names and scores, best first: by team standing
+ * (team modes), then score
+ */
+function getFinalScores(ctx: SimonContext): Array<{ playerId: string; name: string; score: number }> {
+  const teams = getTeamStandings(ctx.getState());
+  const teamRank = (playerId: string) => teams.findIndex(team => team.playerIds.includes(playerId));
+
+  return Object.entries(ctx.getState().scores)
+    .map(([playerId, score]) => ({
+      playerId,
+      name: ctx.getPlayerName(playerId),
+      score,
+    }))
+    .sort((a, b) => teamRank(a.playerId) - teamRank(b.playerId) || b.score - a.score);
+}
+
+/**
+ * Final standings and every round's answers, for match history
+ */
+function summarizeSimonGame(ctx: SimonContext): MatchSummary {
+  const gameState = ctx.getState();
+  const standings = getFinalScores(ctx).map(({ playerId, score }) => ({
+    playerId,
+    score,
+    eliminatedAtRound: gameState.playerStates[playerId]?.eliminatedAtRound ?? null,
+  }));
+
+  return {
+    winnerId: standings[0]?.playerId ?? null,
+    standings,
+    rounds: gameState.roundHistory.map(({ round, submissions }) => ({ round, submissions })),
+    ratingChanges: gameState.ratingChanges,
+  };
+}
+
+/**
+ * Declare winner by highest score (Step 4: Competitive Scoring)
+ * In team mode the last team standing wins; players are listed by team
+ * standing, then score, so the winner is the winning team's top scorer.
+ * Signed-in players' ratings are updated before the result goes out.
+ */
+function finishSimonGame(ctx: SimonContext): void {
+  console.log(`🏁 finishSimonGame called for ${ctx.gameCode}`);
+
+  const gameState = ctx.getState();
+  const teams = getTeamStandings(gameState);
+  const winningTeamId = gameState.mode === 'teams' ? teams[0]?.teamId ?? null : null;
+  const playerScores = getFinalScores(ctx);
+  const winner = playerScores[0];
+
+  // Co-op players win or lose together, so there is nobody to rate against
+  const ratingChanges = gameState.mode === 'coop'
+    ? []
+    : ratingService.rateMatch(ctx.getRoom(), summarizeSimonGame(ctx).standings);
+  ctx.setState({ ...gameState, ratingChanges });
+
+  // Emit game finished with full scoreboard
+  // (chain sequences are chosen by the players, so the seed can't replay them)
+  ctx.emit('simon:game_finished', {
+    winner,
+    finalScores: playerScores,
+    challengeCode: gameState.mode === 'chain' ? null : encodeChallengeCode(gameState.seed, gameState.palette.length),
+    roundHistory: gameState.roundHistory,
+    teams,
+    winningTeamId,
+    ratingChanges,
+  });
+
+  if (winningTeamId) {
+    console.log(`🏆 Simon finished in room ${ctx.gameCode} - Team ${winningTeamId} wins!`);
+  } else {
+    console.log(`🏆 Simon finished in room ${ctx.gameCode} - Winner: ${winner?.name} with ${winner?.score} points!`);
+  }
+}
+
+// =============================================================================
+// MODULE
+// =============================================================================
+
+export const simonModule: GameModuleFor<'simon'> = {
+  id: 'simon',
+
+  validateStart: (players, settings) => getTeamSetupError(players, settings.simon),
+
+  // A fixed seed (challenge code) replays the same sequence
+  initialize: (players, settings) => initializeSimonGame(players, settings.simon, settings.seed ?? undefined),
+
+  onStart: (ctx) => {
+    console.log(`🎮 Simon started in room: ${ctx.gameCode}`);
+
+    // Start showing sequence after brief delay
+    ctx.setTimer('sequence', 500, showSimonSequence);
+  },
+
+  handlers: {
+    'simon:submit_sequence': handleSubmitSequence,
+    'simon:submit_input': handleSubmitInput,
+    'simon:append_color': handleAppendColor,
+  },
+
+  onFinish: finishSimonGame,
+
+  summarize: summarizeSimonGame,
+
+  onResume: resumeSimonGame,
+
+  snapshot: (ctx, playerId) => createSimonSnapshot(ctx.getState(), playerId, ctx.getRoom().settings.simon),
+
+  botMove: simonBotMove,
+};
@@ -0,0 +1,180 @@
+/**
+ * Game Module Types
+ *
+ * Contract between the platform and individual games.
+ * A game plugs in by implementing GameModule and registering it;
+ * the platform handles rooms, countdown, sockets and timers.
+ */
+
+import type {
+  ClientEventPayload,
+  ColorRaceGameState,
+  GameClientEvents,
+  GameRoom,
+  GameSnapshot,
+  GameType,
+  MatchRound,
+  Player,
+  RatingChange,
+  RoomSettings,
+  ServerToClientEvents,
+  SimonGameState,
+} from '@shared/types';
+
+// =============================================================================
+// GAME STATE
+// =============================================================================
+
+/**
+ * Minimum shape of any game state stored on GameRoom.gameState
+ */
+export interface BaseGameState {
+  gameType: GameType;
+}
+
+/**
+ * State type of each game, keyed by GameType
+ */
+export interface GameStates {
+  simon: SimonGameState;
+  color_race: ColorRaceGameState;
+}
+
+// =============================================================================
+// GAME CONTEXT
+// =============================================================================
+
+/**
+ * Platform services available to a game while its room is active
+ */
+export interface GameContext<TState extends BaseGameState = BaseGameState> {
+  /** Room this context belongs to */
+  readonly gameCode: string;
+
+  /** Current room (players, status, settings) */
+  getRoom(): GameRoom;
+
+  /** Display name of a player, or 'Unknown' if they left */
+  getPlayerName(playerId: string): string;
+
+  /** Current game state */
+  getState(): TState;
+
+  /** Replace the game state */
+  setState(state: TState): void;
+
+  /** Broadcast an event to everyone in the room */
+  emit<E extends keyof ServerToClientEvents>(event: E, ...args: Parameters<ServerToClientEvents[E]>): void;
+
+  /**
+   * Schedule a phase timer. Setting a timer with the same name replaces it.
+   * The callback only runs if the room is still playing this game.
+   */
+  setTimer(name: string, delayMs: number, callback: (ctx: GameContext<TState>) => void): void;
+
+  /** Cancel a phase timer */
+  clearTimer(name: string): void;
+
+  /** End the game: emits results via onFinish, records match history and marks the room finished */
+  finish(): void;
+}
+
+// =============================================================================
+// MATCH SUMMARY
+// =============================================================================
+
+/**
+ * How a finished game ended, stored as match history
+ */
+export interface MatchSummary {
+  winnerId: string | null;
+  /** Players best first */
+  standings: Array<{ playerId: string; score: number; eliminatedAtRound: number | null }>;
+  rounds: MatchRound[];
+  /** Rated games only */
+  ratingChanges?: RatingChange[];
+}
+
+// =============================================================================
+// GAME MODULE
+// =============================================================================
+
+/**
+ * Client → server event handler.
+ * Only called while the room is active and playing this module's game,
+ * with a payload that passed the event's schema.
+ */
+export type GameEventHandler<
+  TState extends BaseGameState = BaseGameState,
+  E extends keyof GameClientEvents = keyof GameClientEvents,
+> = (
+  ctx: GameContext<TState>,
+  playerId: string,
+  data: ClientEventPayload<E>
+) => void;
+
+/**
+ * A client event a bot will send, and how long it takes to send it
+ */
+export type BotMove = {
+  [E in keyof GameClientEvents]: {
+    event: E;
+    data: ClientEventPayload<E>;
+    delayMs: number;
+  };
+}[keyof GameClientEvents];
+
+/**
+ * A pluggable game
+ */
+export interface GameModule<TState extends BaseGameState = BaseGameState> {
+  /** Matches GameRoom.gameType */
+  id: GameType;
+
+  /**
+   * Why the room can't start this game yet (e.g. an empty team),
+   * or null when it can
+   */
+  validateStart?(players: Player[], settings: RoomSettings): string | null;
+
+  /** Build the initial state from the players and settings of the room */
+  initialize(players: Player[], settings: RoomSettings): TState;
+
+  /** Called once after the countdown, with the initial state stored */
+  onStart(ctx: GameContext<TState>): void;
+
+  /** Client events this game listens to, keyed by event name */
+  handlers: { [E in keyof GameClientEvents]?: GameEventHandler<TState, E> };
+
+  /** Determine the winner and emit final results */
+  onFinish(ctx: GameContext<TState>): void;
+
+  /** Results of the finished game for match history (games without it aren't recorded) */
+  summarize?(ctx: GameContext<TState>): MatchSummary;
+
+  /**
+   * Reschedule phase timers after the server restarts with a stored game
+   * (timers are not persisted; rebuild them from the state, e.g. timeoutAt)
+   */
+  onResume?(ctx: GameContext<TState>): void;
+
+  /** Current state as seen by one player, sent when they reconnect mid-game */
+  snapshot?(ctx: GameContext<TState>, playerId: string): GameSnapshot;
+
+  /**
+   * How a bot reacts to an event the game just broadcast (see ./bots).
+   * The move goes through the same handler as a client event;
+   * return null to let the bot wait. Games without it can't have bots play.
+   */
+  botMove?(ctx: GameContext<TState>, bot: Player, event: keyof ServerToClientEvents): BotMove | null;
+}
+
+/**
+ * The module for one game type, typed with that game's state
+ */
+export type GameModuleFor<K extends GameType> = GameModule<GameStates[K]> & { id: K };
+
+/**
+ * Any registered game, paired with its own state type
+ */
+export type AnyGameModule = { [K in GameType]: GameModuleFor<K> }[GameType];
@@ -8,7 +8,9 @@
 export * from './app';
 export * from './server';
 export * from './services';
+export * from './repositories';
 export * from './controllers';
 export * from './websocket';
+export * from './games';
 export * from './utils';
 export * from './types';
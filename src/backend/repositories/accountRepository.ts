@@ -0,0 +1,72 @@
+/**
+ * Account Repository
+ *
+ * Storage contract for player accounts. AccountService calls save()
+ * whenever an account is created or changed.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * An account as stored, credentials included
+ */
+export interface StoredAccount {
+  id: string;
+  username: string;
+  passwordHash: string | null;   // null for older magic-link-only accounts
+  email: string | null;          // Where magic links go (never sent to clients)
+  magicLinkNonce: string | null; // The one magic link that may still be redeemed
+  createdAt: number;
+  rating: number;
+}
+
+// =============================================================================
+// INTERFACE
+// =============================================================================
+
+export interface AccountRepository {
+  /** Get an account by ID */
+  get(id: string): StoredAccount | null;
+
+  /** Get an account by username (case-insensitive) */
+  getByUsername(username: string): StoredAccount | null;
+
+  /** Store the current snapshot of an account (insert or replace) */
+  save(account: StoredAccount): void;
+
+  /** Delete every account */
+  clear(): void;
+}
+
+// =============================================================================
+// IN-MEMORY IMPLEMENTATION
+// =============================================================================
+
+/**
+ * Accounts keyed by ID, with a lowercase username index
+ */
+export class InMemoryAccountRepository implements AccountRepository {
+  protected accounts: Map<string, StoredAccount> = new Map();
+  private usernames: Map<string, string> = new Map();
+
+  get(id: string): StoredAccount | null {
+    return this.accounts.get(id) ?? null;
+  }
+
+  getByUsername(username: string): StoredAccount | null {
+    const id = this.usernames.get(username.toLowerCase());
+    return id ? this.get(id) : null;
+  }
+
+  save(account: StoredAccount): void {
+    this.accounts.set(account.id, account);
+    this.usernames.set(account.username.toLowerCase(), account.id);
+  }
+
+  clear(): void {
+    this.accounts.clear();
+    this.usernames.clear();
+  }
+}
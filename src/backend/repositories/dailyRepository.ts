@@ -0,0 +1,77 @@
+/**
+ * Daily Repository
+ *
+ * Storage contract for daily challenge attempts. DailyService calls
+ * save() after every round, so the attempts (and the leaderboard built
+ * from them) can outlive the process.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * One player's attempt at a day's challenge
+ */
+export interface DailyAttempt {
+  date: string;                  // UTC day (YYYY-MM-DD)
+  playerId: string;
+  displayName: string;
+  avatarId: string;
+  round: number;                 // Round being played (or the last one played)
+  score: number;                 // Rounds cleared
+  status: 'playing' | 'finished';
+  roundDeadline: number;         // Latest accepted submission for the current round
+  startedAt: number;
+  finishedAt: number | null;
+}
+
+// =============================================================================
+// INTERFACE
+// =============================================================================
+
+export interface DailyRepository {
+  /** Get a player's attempt for a day */
+  get(date: string, playerId: string): DailyAttempt | null;
+
+  /** Get every attempt for a day */
+  getAll(date: string): DailyAttempt[];
+
+  /** Store the current snapshot of an attempt (insert or replace) */
+  save(attempt: DailyAttempt): void;
+
+  /** Delete every attempt */
+  clear(): void;
+}
+
+// =============================================================================
+// IN-MEMORY IMPLEMENTATION
+// =============================================================================
+
+/**
+ * Attempts keyed by day, then by player
+ */
+export class InMemoryDailyRepository implements DailyRepository {
+  protected days: Map<string, Map<string, DailyAttempt>> = new Map();
+
+  get(date: string, playerId: string): DailyAttempt | null {
+    return this.days.get(date)?.get(playerId) ?? null;
+  }
+
+  getAll(date: string): DailyAttempt[] {
+    return Array.from(this.days.get(date)?.values() ?? []);
+  }
+
+  save(attempt: DailyAttempt): void {
+    let day = this.days.get(attempt.date);
+    if (!day) {
+      day = new Map();
+      this.days.set(attempt.date, day);
+    }
+    day.set(attempt.playerId, attempt);
+  }
+
+  clear(): void {
+    this.days.clear();
+  }
+}
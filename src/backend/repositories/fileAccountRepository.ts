@@ -0,0 +1,75 @@
+/**
+ * File Account Repository
+ *
+ * Persists each account as a JSON file (<dir>/<id>.json). Accounts are
+ * cached in memory; reads pick up files other instances sharing the
+ * directory wrote since, and every save() rewrites that account's file
+ * atomically unless another instance changed it first.
+ */
+
+import { RATING_CONSTANTS } from '@shared/types';
+import type { StoredAccount } from './accountRepository';
+import { InMemoryAccountRepository } from './accountRepository';
+import { JsonDirectoryStore } from './jsonDirectoryStore';
+
+// =============================================================================
+// FILE IMPLEMENTATION
+// =============================================================================
+
+export class FileAccountRepository extends InMemoryAccountRepository {
+  private readonly store: JsonDirectoryStore<StoredAccount>;
+
+  constructor(dir: string) {
+    super();
+    this.store = new JsonDirectoryStore(dir, 'account');
+    this.syncAll();
+
+    console.log(`💾 Loaded ${this.accounts.size} accounts from ${dir}`);
+  }
+
+  get(id: string): StoredAccount | null {
+    this.store.sync(id, account => this.apply(id, account));
+    return super.get(id);
+  }
+
+  getByUsername(username: string): StoredAccount | null {
+    // Another instance may have registered it
+    this.syncAll();
+    return super.getByUsername(username);
+  }
+
+  save(account: StoredAccount): void {
+    this.store.write(account.id, account);
+    super.save(account);
+  }
+
+  clear(): void {
+    this.store.clear();
+    super.clear();
+  }
+
+  // ===========================================================================
+  // PRIVATE
+  // ===========================================================================
+
+  private syncAll(): void {
+    this.store.syncAll((id, account) => this.apply(id, account));
+  }
+
+  /**
+   * Take an account's stored version into the cache
+   */
+  private apply(id: string, account: StoredAccount | null): void {
+    if (!account) {
+      this.accounts.delete(id);
+      return;
+    }
+
+    super.save({
+      ...account,
+      email: account.email ?? null,  // Stored before magic links needed one
+      magicLinkNonce: account.magicLinkNonce ?? null, // Stored before links were single-use
+      rating: account.rating ?? RATING_CONSTANTS.DEFAULT_RATING, // Stored before ratings existed
+    });
+  }
+}
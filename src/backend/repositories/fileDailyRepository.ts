@@ -0,0 +1,69 @@
+/**
+ * File Daily Repository
+ *
+ * Persists each day's attempts as one JSON file (<dir>/<date>.json) so
+ * the leaderboard survives restarts. Days are cached in memory; reads
+ * pick up attempts other instances sharing the directory saved since,
+ * and every save() merges into that day's file under the store lock.
+ */
+
+import type { DailyAttempt } from './dailyRepository';
+import { InMemoryDailyRepository } from './dailyRepository';
+import { JsonDirectoryStore } from './jsonDirectoryStore';
+
+// =============================================================================
+// FILE IMPLEMENTATION
+// =============================================================================
+
+export class FileDailyRepository extends InMemoryDailyRepository {
+  private readonly store: JsonDirectoryStore<DailyAttempt[]>;
+
+  constructor(dir: string) {
+    super();
+    this.store = new JsonDirectoryStore(dir, 'daily');
+    this.store.syncAll((date, attempts) => this.apply(date, attempts));
+
+    console.log(`💾 Loaded ${this.days.size} daily leaderboards from ${dir}`);
+  }
+
+  get(date: string, playerId: string): DailyAttempt | null {
+    this.syncDay(date);
+    return super.get(date, playerId);
+  }
+
+  getAll(date: string): DailyAttempt[] {
+    this.syncDay(date);
+    return super.getAll(date);
+  }
+
+  save(attempt: DailyAttempt): void {
+    // Other players' attempts may come from other instances: merge into
+    // the latest file rather than overwriting it
+    this.store.withLock(() => {
+      this.syncDay(attempt.date);
+      super.save(attempt);
+      this.store.write(attempt.date, super.getAll(attempt.date));
+    });
+  }
+
+  clear(): void {
+    this.store.clear();
+    super.clear();
+  }
+
+  // ===========================================================================
+  // PRIVATE
+  // ===========================================================================
+
+  private syncDay(date: string): void {
+    this.store.sync(date, attempts => this.apply(date, attempts));
+  }
+
+  /**
+   * Take a day's stored attempts into the cache
+   */
+  private apply(date: string, attempts: DailyAttempt[] | null): void {
+    this.days.delete(date);
+    attempts?.forEach(attempt => super.save(attempt));
+  }
+}
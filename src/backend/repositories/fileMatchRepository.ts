@@ -0,0 +1,59 @@
+/**
+ * File Match Repository
+ *
+ * Persists each finished match as a JSON file (<dir>/<id>.json) so
+ * history survives restarts. Matches are cached in memory and written
+ * once, atomically; reads pick up matches other instances sharing the
+ * directory recorded since.
+ */
+
+import type { StoredMatch } from './matchRepository';
+import { InMemoryMatchRepository } from './matchRepository';
+import { JsonDirectoryStore } from './jsonDirectoryStore';
+
+// =============================================================================
+// FILE IMPLEMENTATION
+// =============================================================================
+
+export class FileMatchRepository extends InMemoryMatchRepository {
+  private readonly store: JsonDirectoryStore<StoredMatch>;
+
+  constructor(dir: string) {
+    super();
+    this.store = new JsonDirectoryStore(dir, 'match');
+    this.syncAll();
+
+    console.log(`💾 Loaded ${this.matches.length} matches from ${dir}`);
+  }
+
+  save(match: StoredMatch): void {
+    this.store.write(match.id, match);
+    super.save(match);
+  }
+
+  getForPlayer(playerId: string): StoredMatch[] {
+    this.syncAll();
+    return super.getForPlayer(playerId);
+  }
+
+  clear(): void {
+    this.store.clear();
+    super.clear();
+  }
+
+  // ===========================================================================
+  // PRIVATE
+  // ===========================================================================
+
+  /**
+   * Take matches other instances recorded (or deleted) into the cache
+   */
+  private syncAll(): void {
+    this.store.syncAll((id, match) => {
+      this.matches = this.matches.filter(cached => cached.id !== id);
+      if (match) {
+        super.save(match);
+      }
+    });
+  }
+}
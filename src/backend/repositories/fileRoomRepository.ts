@@ -0,0 +1,135 @@
+/**
+ * File Room Repository
+ *
+ * Persists each room as a JSON file (<dir>/<gameCode>.json) so games in
+ * progress survive a restart or deploy. Instances pointed at the same
+ * directory share their rooms: rooms are cached in memory, reads pick up
+ * files another instance wrote since, and every save() rewrites that
+ * room's file atomically unless another instance changed it first.
+ */
+
+import type { GameRoom, Player } from '@shared/types';
+import { InMemoryRoomRepository } from './roomRepository';
+import { JsonDirectoryStore } from './jsonDirectoryStore';
+
+// =============================================================================
+// SERIALIZATION
+// =============================================================================
+
+/**
+ * Restore a player read from disk
+ */
+function restorePlayer(player: Player): Player {
+  return {
+    ...player,
+    lastActivity: new Date(player.lastActivity),
+    socketInstanceId: player.socketInstanceId ?? null, // Stored before sockets were tracked per instance
+    team: player.team ?? null, // Stored before teams existed
+    accountId: player.accountId ?? null, // Stored before accounts existed
+    rating: player.rating ?? null,
+  };
+}
+
+/**
+ * Restore a room read from disk (JSON stores Dates as strings)
+ */
+function restoreRoom(room: GameRoom): GameRoom {
+  room.createdAt = new Date(room.createdAt);
+  room.matchmaking = room.matchmaking ?? null; // Stored before quick match existed
+  room.isPublic = room.isPublic ?? false; // Stored before the lobby browser existed
+  room.name = room.name ?? null;
+  room.players = room.players.map(restorePlayer);
+  room.leavers = (room.leavers ?? []).map(restorePlayer); // Stored before leavers were kept
+
+  return room;
+}
+
+// =============================================================================
+// FILE IMPLEMENTATION
+// =============================================================================
+
+// Game codes are used as file names; anything else is never a stored room
+const GAME_CODE_PATTERN = /^[A-Z0-9]+$/;
+
+export class FileRoomRepository extends InMemoryRoomRepository {
+  private readonly store: JsonDirectoryStore<GameRoom>;
+
+  constructor(dir: string) {
+    super();
+    this.store = new JsonDirectoryStore(dir, 'room');
+    this.syncAll();
+
+    console.log(`💾 Loaded ${this.rooms.size} rooms from ${dir}`);
+  }
+
+  get(gameCode: string): GameRoom | null {
+    if (!GAME_CODE_PATTERN.test(gameCode)) return null;
+
+    this.store.sync(gameCode, stored => this.apply(gameCode, stored));
+    return super.get(gameCode);
+  }
+
+  getAll(): GameRoom[] {
+    this.syncAll();
+    return super.getAll();
+  }
+
+  getCodes(): Set<string> {
+    this.syncAll();
+    return super.getCodes();
+  }
+
+  count(): number {
+    this.syncAll();
+    return super.count();
+  }
+
+  /**
+   * Throws if another instance saved the room since it was read; the
+   * next get() then returns their version
+   */
+  save(room: GameRoom): void {
+    this.store.write(room.gameCode, room);
+    super.save(room);
+  }
+
+  delete(gameCode: string): boolean {
+    const existed = this.get(gameCode) !== null;
+
+    this.store.delete(gameCode);
+    super.delete(gameCode);
+
+    return existed;
+  }
+
+  clear(): void {
+    this.store.clear();
+    super.clear();
+  }
+
+  // ===========================================================================
+  // PRIVATE
+  // ===========================================================================
+
+  /**
+   * Pick up rooms added, changed or deleted by other instances
+   */
+  private syncAll(): void {
+    this.store.syncAll((gameCode, stored) => this.apply(gameCode, stored));
+  }
+
+  /**
+   * Take a room's stored version into the cache
+   * Changes are copied onto the cached room so holders of it see them.
+   */
+  private apply(gameCode: string, stored: GameRoom | null): void {
+    if (!stored) {
+      this.rooms.delete(gameCode);
+      return;
+    }
+
+    const room = restoreRoom(stored);
+    const cached = this.rooms.get(gameCode);
+    this.rooms.set(gameCode, cached ? Object.assign(cached, room) : room);
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Repositories - Storage backends for the game, daily, account and history services
+ */
+
+import { InMemoryRoomRepository } from './roomRepository';
+import type { RoomRepository } from './roomRepository';
+import { FileRoomRepository } from './fileRoomRepository';
+import { InMemoryDailyRepository } from './dailyRepository';
+import type { DailyRepository } from './dailyRepository';
+import { FileDailyRepository } from './fileDailyRepository';
+import { InMemoryAccountRepository } from './accountRepository';
+import type { AccountRepository } from './accountRepository';
+import { FileAccountRepository } from './fileAccountRepository';
+import { InMemoryMatchRepository } from './matchRepository';
+import type { MatchRepository } from './matchRepository';
+import { FileMatchRepository } from './fileMatchRepository';
+
+export * from './jsonDirectoryStore';
+export * from './roomRepository';
+export * from './fileRoomRepository';
+export * from './dailyRepository';
+export * from './fileDailyRepository';
+export * from './accountRepository';
+export * from './fileAccountRepository';
+export * from './matchRepository';
+export * from './fileMatchRepository';
+
+/**
+ * Pick the storage backend from the environment
+ * ROOM_STORE=file persists rooms under ROOM_STORE_DIR (default: ./data/rooms)
+ */
+export function createRoomRepository(): RoomRepository {
+  if (process.env.ROOM_STORE === 'file') {
+    return new FileRoomRepository(process.env.ROOM_STORE_DIR || 'data/rooms');
+  }
+
+  return new InMemoryRoomRepository();
+}
+
+/**
+ * Pick the daily leaderboard backend from the environment
+ * Persisted under DAILY_STORE_DIR (default: ./data/daily) unless DAILY_STORE=memory
+ */
+export function createDailyRepository(): DailyRepository {
+  if (process.env.DAILY_STORE === 'memory') {
+    return new InMemoryDailyRepository();
+  }
+
+  return new FileDailyRepository(process.env.DAILY_STORE_DIR || 'data/daily');
+}
+
+/**
+ * Pick the account backend from the environment
+ * Persisted under ACCOUNT_STORE_DIR (default: ./data/accounts) unless ACCOUNT_STORE=memory
+ */
+export function createAccountRepository(): AccountRepository {
+  if (process.env.ACCOUNT_STORE === 'memory') {
+    return new InMemoryAccountRepository();
+  }
+
+  return new FileAccountRepository(process.env.ACCOUNT_STORE_DIR || 'data/accounts');
+}
+
+/**
+ * Pick the match history backend from the environment
+ * Persisted under MATCH_STORE_DIR (default: ./data/matches) unless MATCH_STORE=memory
+ */
+export function createMatchRepository(): MatchRepository {
+  if (process.env.MATCH_STORE === 'memory') {
+    return new InMemoryMatchRepository();
+  }
+
+  return new FileMatchRepository(process.env.MATCH_STORE_DIR || 'data/matches');
+}
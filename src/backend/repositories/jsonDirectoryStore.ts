@@ -0,0 +1,213 @@
+/**
+ * JSON Directory Store
+ *
+ * One JSON file per key (<dir>/<key>.json), shared by the file-backed
+ * repositories. Several instances may point at the same directory:
+ * sync() reports files another instance wrote or deleted since this
+ * store last saw them, and write() refuses to overwrite such a change.
+ * Writes go to a temp file that is renamed into place, so a crash never
+ * leaves half a record on disk.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const LOCK_FILE = '.lock';
+const LOCK_RETRY_MS = 5;
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_STALE_MS = 2000;    // A lock this old was left by a crashed process
+
+// Lets a synchronous caller sleep between lock attempts
+const sleeper = new Int32Array(new SharedArrayBuffer(4));
+
+// =============================================================================
+// STORE
+// =============================================================================
+
+export class JsonDirectoryStore<T> {
+  // Version of each file as this store last read or wrote it
+  private versions = new Map<string, string>();
+  private lockDepth = 0;
+
+  /**
+   * @param dir   Directory holding the files (created if missing)
+   * @param label What a file holds, for messages ("account", "match", ...)
+   */
+  constructor(readonly dir: string, private readonly label: string) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  /**
+   * Report a key's value if its file changed since this store last saw it
+   * onChange gets null when the file was deleted or doesn't parse.
+   */
+  sync(key: string, onChange: (value: T | null) => void): void {
+    const file = this.fileFor(key);
+    const version = this.versionOf(file);
+    if (version === (this.versions.get(key) ?? null)) return;
+
+    if (version === null) {
+      this.versions.delete(key);
+      onChange(null);
+      return;
+    }
+
+    this.versions.set(key, version);
+
+    try {
+      onChange(JSON.parse(fs.readFileSync(file, 'utf8')) as T);
+    } catch (error) {
+      console.error(`❌ Skipping unreadable ${this.label} file ${key}.json:`, error);
+      onChange(null);
+    }
+  }
+
+  /**
+   * sync() every key, including keys added or deleted by other instances
+   */
+  syncAll(onChange: (key: string, value: T | null) => void): void {
+    const stored = new Set(
+      fs.readdirSync(this.dir)
+        .filter(name => name.endsWith('.json'))
+        .map(name => name.slice(0, -'.json'.length))
+    );
+
+    for (const key of this.versions.keys()) {
+      if (!stored.has(key)) {
+        this.versions.delete(key);
+        onChange(key, null);
+      }
+    }
+
+    stored.forEach(key => this.sync(key, value => onChange(key, value)));
+  }
+
+  /**
+   * Replace the value stored under a key
+   * Throws if another instance changed the file since this store last
+   * read or wrote it; sync() the key to pick up their version instead.
+   */
+  write(key: string, value: T): void {
+    this.withLock(() => {
+      const file = this.fileFor(key);
+      if (this.versionOf(file) !== (this.versions.get(key) ?? null)) {
+        throw new Error(`Stale ${this.label} ${key}: changed by another instance`);
+      }
+
+      const tmp = `${file}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(value));
+      fs.renameSync(tmp, file);
+
+      const version = this.versionOf(file);
+      if (version) {
+        this.versions.set(key, version);
+      }
+    });
+  }
+
+  /**
+   * Delete the value stored under a key
+   */
+  delete(key: string): void {
+    this.withLock(() => {
+      fs.rmSync(this.fileFor(key), { force: true });
+      this.versions.delete(key);
+    });
+  }
+
+  /**
+   * Delete every stored value
+   */
+  clear(): void {
+    this.withLock(() => {
+      for (const name of fs.readdirSync(this.dir)) {
+        if (name.endsWith('.json')) {
+          fs.rmSync(path.join(this.dir, name), { force: true });
+        }
+      }
+      this.versions.clear();
+    });
+  }
+
+  /**
+   * Run fn holding the directory lock, so a read-modify-write can't
+   * interleave with another instance's write (re-entrant)
+   */
+  withLock<R>(fn: () => R): R {
+    if (this.lockDepth === 0) {
+      this.acquireLock();
+    }
+
+    this.lockDepth++;
+    try {
+      return fn();
+    } finally {
+      this.lockDepth--;
+      if (this.lockDepth === 0) {
+        fs.rmSync(this.lockFile(), { force: true });
+      }
+    }
+  }
+
+  // ===========================================================================
+  // PRIVATE
+  // ===========================================================================
+
+  private acquireLock(): void {
+    const lock = this.lockFile();
+    const giveUpAt = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(lock, 'wx'));
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      // Break a lock its holder never released
+      const heldSince = this.mtimeOf(lock);
+      if (heldSince !== null && Date.now() - heldSince > LOCK_STALE_MS) {
+        fs.rmSync(lock, { force: true });
+        continue;
+      }
+
+      if (Date.now() > giveUpAt) {
+        throw new Error(`Timed out waiting for the ${this.label} store lock`);
+      }
+      Atomics.wait(sleeper, 0, 0, LOCK_RETRY_MS);
+    }
+  }
+
+  /**
+   * Identifies one write of a file (each write renames a new file into place)
+   */
+  private versionOf(file: string): string | null {
+    try {
+      const stat = fs.statSync(file);
+      return `${stat.ino}:${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      return null;
+    }
+  }
+
+  private mtimeOf(file: string): number | null {
+    try {
+      return fs.statSync(file).mtimeMs;
+    } catch {
+      return null;
+    }
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  private lockFile(): string {
+    return path.join(this.dir, LOCK_FILE);
+  }
+}
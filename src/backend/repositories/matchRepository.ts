@@ -0,0 +1,77 @@
+/**
+ * Match Repository
+ *
+ * Storage contract for finished matches. HistoryService saves each
+ * match once, when its game ends; matches never change afterwards.
+ */
+
+import type { MatchPlayer, MatchRecord } from '@shared/types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A match player as stored, account included
+ */
+export interface StoredMatchPlayer extends MatchPlayer {
+  accountId: string | null;
+}
+
+/**
+ * A match as stored
+ */
+export interface StoredMatch extends Omit<MatchRecord, 'players'> {
+  players: StoredMatchPlayer[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Whether a match player is the given player (account ID or room player ID)
+ */
+export function isMatchPlayer(player: StoredMatchPlayer, playerId: string): boolean {
+  return player.accountId === playerId || player.playerId === playerId;
+}
+
+// =============================================================================
+// INTERFACE
+// =============================================================================
+
+export interface MatchRepository {
+  /** Store a finished match */
+  save(match: StoredMatch): void;
+
+  /** Every match a player took part in, newest first */
+  getForPlayer(playerId: string): StoredMatch[];
+
+  /** Delete every match */
+  clear(): void;
+}
+
+// =============================================================================
+// IN-MEMORY IMPLEMENTATION
+// =============================================================================
+
+/**
+ * Matches in the order they finished
+ */
+export class InMemoryMatchRepository implements MatchRepository {
+  protected matches: StoredMatch[] = [];
+
+  save(match: StoredMatch): void {
+    this.matches.push(match);
+  }
+
+  getForPlayer(playerId: string): StoredMatch[] {
+    return this.matches
+      .filter(match => match.players.some(player => isMatchPlayer(player, playerId)))
+      .sort((a, b) => b.finishedAt - a.finishedAt);
+  }
+
+  clear(): void {
+    this.matches = [];
+  }
+}
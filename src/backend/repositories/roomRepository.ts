@@ -0,0 +1,75 @@
+/**
+ * Room Repository
+ *
+ * Storage contract for game rooms. GameService keeps rooms as live
+ * objects and calls save() after every change, so an implementation
+ * can persist each snapshot and hand the rooms back on startup.
+ */
+
+import type { GameRoom } from '@shared/types';
+
+// =============================================================================
+// INTERFACE
+// =============================================================================
+
+export interface RoomRepository {
+  /** Get a room by game code */
+  get(gameCode: string): GameRoom | null;
+
+  /** Get every stored room */
+  getAll(): GameRoom[];
+
+  /** Codes of every stored room (for collision checks) */
+  getCodes(): Set<string>;
+
+  /** Store the current snapshot of a room (insert or replace) */
+  save(room: GameRoom): void;
+
+  /** Delete a room, returns true if it existed */
+  delete(gameCode: string): boolean;
+
+  /** Number of stored rooms */
+  count(): number;
+
+  /** Delete every room */
+  clear(): void;
+}
+
+// =============================================================================
+// IN-MEMORY IMPLEMENTATION
+// =============================================================================
+
+/**
+ * Default storage: rooms live only as long as the process
+ */
+export class InMemoryRoomRepository implements RoomRepository {
+  protected rooms: Map<string, GameRoom> = new Map();
+
+  get(gameCode: string): GameRoom | null {
+    return this.rooms.get(gameCode) ?? null;
+  }
+
+  getAll(): GameRoom[] {
+    return Array.from(this.rooms.values());
+  }
+
+  getCodes(): Set<string> {
+    return new Set(this.rooms.keys());
+  }
+
+  save(room: GameRoom): void {
+    this.rooms.set(room.gameCode, room);
+  }
+
+  delete(gameCode: string): boolean {
+    return this.rooms.delete(gameCode);
+  }
+
+  count(): number {
+    return this.rooms.size;
+  }
+
+  clear(): void {
+    this.rooms.clear();
+  }
+}
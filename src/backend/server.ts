@@ -7,7 +7,9 @@
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import { app } from './app';
-import { initializeGameHandlers } from './websocket/gameHandler';
+import { initializeGameHandlers, resumeStoredRooms, shutdownGameHandlers } from './websocket/gameHandler';
+import { CLUSTER_CONFIG, INSTANCE_ID, TcpMessageBus, createBusAdapter, createMessageBus, createRoomRouter } from './cluster';
+import type { ClientToServerEvents, ServerToClientEvents } from '@shared/types';
 
 // =============================================================================
 // CONFIGURATION
@@ -24,23 +26,37 @@ const isProduction = process.env.NODE_ENV === 'production';
 // Create HTTP server
 const httpServer = createServer(app);
 
+// Pub/sub between instances: the cluster hub when CLUSTER_BUS_URL is set
+const bus = createMessageBus(CLUSTER_CONFIG);
+const router = createRoomRouter(bus, INSTANCE_ID);
+
 // Create Socket.io server
-const io = new Server(httpServer, {
+const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, {
   cors: {
     origin: FRONTEND_URL,
     credentials: true,  // CRITICAL: Allows cookies
   },
   transports: ['websocket', 'polling'],
+  adapter: createBusAdapter(bus, INSTANCE_ID),
 });
 
 // Initialize WebSocket handlers
-initializeGameHandlers(io);
+initializeGameHandlers(io, router);
+
+// Pick up games that were in progress before a restart (file-backed store)
+resumeStoredRooms(io, router);
 
 // =============================================================================
 // START SERVER
 // =============================================================================
 
-export function startServer(): void {
+export async function startServer(): Promise<void> {
+  // Join the cluster first; fails if another instance already uses our id
+  if (bus instanceof TcpMessageBus) {
+    await bus.connect();
+    console.log(`🔗 Connected to cluster bus ${CLUSTER_CONFIG.busUrl}`);
+  }
+  
   httpServer.listen(PORT, () => {
     console.log('');
     console.log('🎮 ═══════════════════════════════════════════');
@@ -50,15 +66,60 @@ export function startServer(): void {
     console.log(`   🔌 WebSocket: ws://localhost:${PORT}`);
     console.log(`   🎯 Frontend:  ${FRONTEND_URL}`);
     console.log(`   📦 Mode:      ${isProduction ? 'production' : 'development'}`);
+    console.log(`   🖥️  Instance:  ${INSTANCE_ID}`);
     console.log('═══════════════════════════════════════════════');
     console.log('');
   });
 }
 
+// =============================================================================
+// GRACEFUL SHUTDOWN
+// =============================================================================
+
+let shutdownStarted = false;
+
+/**
+ * Drain games, then close sockets and the HTTP server.
+ * Clients were told to expect a restart and reconnect on their own.
+ */
+export async function shutdownServer(signal: string): Promise<void> {
+  if (shutdownStarted) return;
+  shutdownStarted = true;
+  
+  console.log(`🛑 ${signal} received, shutting down`);
+  
+  await shutdownGameHandlers(io);
+  
+  // Disconnects every socket and closes the underlying HTTP server
+  await new Promise<void>((resolve) => {
+    io.close(() => resolve());
+  });
+  
+  if (bus instanceof TcpMessageBus) {
+    bus.close();
+  }
+  
+  console.log('👋 Server closed');
+}
+
 // Export for testing
 export { httpServer, io };
 
 // Start if run directly
 if (require.main === module) {
-  startServer();
+  startServer().catch((error) => {
+    console.error('❌ Server failed to start:', error);
+    process.exit(1);
+  });
+  
+  for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    process.on(signal, () => {
+      shutdownServer(signal)
+        .then(() => process.exit(0))
+        .catch((error) => {
+          console.error('❌ Shutdown failed:', error);
+          process.exit(1);
+        });
+    });
+  }
 }
@@ -0,0 +1,163 @@
+/**
+ * Account Service
+ *
+ * Optional player accounts on top of the guest sessions. An account is
+ * a local username + password (scrypt hash); one registered with an
+ * email address can also sign in by following a magic link sent there.
+ * Room sessions carry the account ID; nothing else about guest play
+ * changes.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Account } from '@shared/types';
+import { RATING_CONSTANTS } from '@shared/types';
+import { generateMagicLinkToken, hashPassword, verifyMagicLinkToken, verifyPassword } from '../utils/auth';
+import { InMemoryAccountRepository, createAccountRepository } from '../repositories';
+import type { AccountRepository, StoredAccount } from '../repositories';
+import { createMagicLinkSender } from './magicLinkSender';
+import type { MagicLinkSender } from './magicLinkSender';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Public view of a stored account
+ */
+function toAccount(stored: StoredAccount): Account {
+  return { id: stored.id, username: stored.username, createdAt: stored.createdAt, rating: stored.rating };
+}
+
+// =============================================================================
+// SERVICE CLASS
+// =============================================================================
+
+export class AccountService {
+  constructor(
+    private readonly repository: AccountRepository = new InMemoryAccountRepository(),
+    private readonly sendMagicLink: MagicLinkSender | null = null
+  ) {}
+
+  /**
+   * Create a password account, optionally with an email address for
+   * magic links
+   */
+  async register(
+    username: string,
+    password: string,
+    email: string | null = null,
+    now: number = Date.now()
+  ): Promise<Account> {
+    const passwordHash = await hashPassword(password);
+
+    // Checked after hashing so two registrations can't both claim the name
+    if (this.repository.getByUsername(username)) {
+      throw new Error('Username already taken');
+    }
+
+    const stored: StoredAccount = {
+      id: uuidv4(),
+      username,
+      passwordHash,
+      email,
+      magicLinkNonce: null,
+      createdAt: now,
+      rating: RATING_CONSTANTS.DEFAULT_RATING,
+    };
+    this.repository.save(stored);
+
+    return toAccount(stored);
+  }
+
+  /**
+   * Sign in with a password
+   * Same error for an unknown user and a wrong password.
+   */
+  async login(username: string, password: string): Promise<Account> {
+    const stored = this.repository.getByUsername(username);
+
+    if (!stored?.passwordHash || !(await verifyPassword(password, stored.passwordHash))) {
+      throw new Error('Invalid username or password');
+    }
+
+    return toAccount(stored);
+  }
+
+  /**
+   * Send a magic link to the account's email address, returns its token.
+   * Unknown usernames, accounts without an email and failed deliveries
+   * get null rather than an error, so the endpoint can't be used to find
+   * out who has an account or an email. Only the latest link works.
+   */
+  async requestMagicLink(username: string, linkBaseUrl: string): Promise<string | null> {
+    if (!this.sendMagicLink) {
+      throw new Error('Magic links are not available');
+    }
+
+    const stored = this.repository.getByUsername(username);
+    if (!stored?.email) {
+      return null;
+    }
+
+    const nonce = uuidv4();
+    this.repository.save({ ...stored, magicLinkNonce: nonce });
+
+    const token = generateMagicLinkToken(stored.id, nonce);
+    try {
+      await this.sendMagicLink({ to: stored.email, username: stored.username, link: `${linkBaseUrl}/?magic=${token}` });
+    } catch (error) {
+      console.error(`❌ Magic link delivery failed for ${stored.username}:`, error);
+      return null;
+    }
+
+    return token;
+  }
+
+  /**
+   * Follow a magic link (each link signs in once)
+   */
+  redeemMagicLink(token: string): Account {
+    const link = verifyMagicLinkToken(token);
+    const stored = link ? this.repository.get(link.accountId) : null;
+
+    if (!link || !stored || stored.magicLinkNonce !== link.nonce) {
+      throw new Error('Invalid or expired link');
+    }
+
+    this.repository.save({ ...stored, magicLinkNonce: null });
+    return toAccount(stored);
+  }
+
+  /**
+   * Get an account by ID
+   */
+  getAccount(id: string): Account | null {
+    const stored = this.repository.get(id);
+    return stored ? toAccount(stored) : null;
+  }
+
+  /**
+   * Store an account's new skill rating
+   */
+  setRating(id: string, rating: number): Account | null {
+    const stored = this.repository.get(id);
+    if (!stored) return null;
+
+    const updated: StoredAccount = { ...stored, rating };
+    this.repository.save(updated);
+    return toAccount(updated);
+  }
+
+  /**
+   * Clear all accounts (for testing)
+   */
+  clearAll(): void {
+    this.repository.clear();
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+export const accountService = new AccountService(createAccountRepository(), createMagicLinkSender());
@@ -0,0 +1,291 @@
+/**
+ * Daily Service
+ *
+ * Runs the daily Simon challenge. The day's sequence comes from a seed
+ * derived on the server (HMAC of the UTC date), so everyone plays the
+ * same colors and nobody can compute tomorrow's run. Rounds are handed
+ * out one at a time and every submission is checked here, so a score on
+ * the leaderboard is always the round the player really reached.
+ */
+
+import crypto from 'crypto';
+import type {
+  Color,
+  DailyChallengeResponse,
+  DailyLeaderboardEntry,
+  DailyLeaderboardResponse,
+  DailyResult,
+  DailyRound,
+  PlayerInfo,
+  SubmitDailyRoundResponse,
+} from '@shared/types';
+import { DAILY_CONSTANTS, DEFAULT_SIMON_SETTINGS } from '@shared/types';
+import { createSeededRandom } from '@shared/random';
+import { generateSequence, calculateShowDurationMs, calculateTimeoutMs } from '@shared/simon';
+import { InMemoryDailyRepository, createDailyRepository } from '../repositories';
+import type { DailyAttempt, DailyRepository } from '../repositories';
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const DAILY_SECRET = process.env.DAILY_SECRET || process.env.JWT_SECRET || 'dev-secret-change-in-production';
+
+// Everyone plays the default rules
+const SETTINGS = DEFAULT_SIMON_SETTINGS;
+
+// Same pacing as a room: lead-in before the animation, pause after it
+const SEQUENCE_LEAD_IN_MS = 500;
+const SEQUENCE_PAUSE_MS = 500;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * UTC day of a timestamp (YYYY-MM-DD)
+ */
+export function getUtcDate(now: number = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+/**
+ * Seed for a day's sequence, unguessable without the server secret
+ */
+export function deriveDailySeed(date: string, secret: string): number {
+  return crypto.createHmac('sha256', secret).update(date).digest().readUInt32BE(0);
+}
+
+/**
+ * Best score first; on a tie, whoever finished earlier
+ */
+function compareAttempts(a: DailyAttempt, b: DailyAttempt): number {
+  return b.score - a.score || (a.finishedAt ?? 0) - (b.finishedAt ?? 0);
+}
+
+// =============================================================================
+// SERVICE CLASS
+// =============================================================================
+
+export class DailyService {
+  constructor(
+    private readonly repository: DailyRepository = new InMemoryDailyRepository(),
+    private readonly secret: string = DAILY_SECRET
+  ) {}
+
+  // ===========================================================================
+  // SEQUENCE
+  // ===========================================================================
+
+  /**
+   * The day's sequence as played in a given round
+   * Each round replays the same stream one color further.
+   */
+  getSequence(date: string, round: number): Color[] {
+    const length = SETTINGS.initialSequenceLength + round - 1;
+    return generateSequence(length, createSeededRandom(deriveDailySeed(date, this.secret)).next);
+  }
+
+  // ===========================================================================
+  // ATTEMPTS
+  // ===========================================================================
+
+  /**
+   * Today's challenge for a player (null if they have never played)
+   * An attempt still in progress comes back with its current round, so a
+   * player who reloaded can pick it up where they left (same deadline).
+   */
+  getChallenge(playerId: string | null, now: number = Date.now()): DailyChallengeResponse {
+    const date = getUtcDate(now);
+    const attempt = playerId ? this.getAttempt(date, playerId, now) : null;
+    const playing = playerId ? this.findPlayingAttempt(playerId, now) : null;
+
+    return {
+      date,
+      hasPlayed: attempt !== null,
+      result: attempt?.status === 'finished' ? this.getResult(attempt) : null,
+      current: playing && this.expire(playing, now).status === 'playing' ? this.toRound(playing, now) : null,
+    };
+  }
+
+  /**
+   * Start a player's only attempt of the day and deal round 1
+   */
+  startAttempt(playerId: string, playerInfo: PlayerInfo, now: number = Date.now()): DailyRound {
+    const date = getUtcDate(now);
+
+    if (this.repository.get(date, playerId)) {
+      throw new Error('Already played today');
+    }
+
+    const attempt: DailyAttempt = {
+      date,
+      playerId,
+      displayName: playerInfo.displayName,
+      avatarId: playerInfo.avatarId,
+      round: 1,
+      score: 0,
+      status: 'playing',
+      roundDeadline: 0,
+      startedAt: now,
+      finishedAt: null,
+    };
+
+    return this.dealRound(attempt, now);
+  }
+
+  /**
+   * Check the sequence entered for the current round
+   * A wrong, late or empty (timed out) sequence ends the attempt.
+   */
+  submitRound(playerId: string, sequence: Color[], now: number = Date.now()): SubmitDailyRoundResponse {
+    const attempt = this.findPlayingAttempt(playerId, now);
+    if (!attempt) {
+      throw new Error('No daily attempt in progress');
+    }
+
+    const expected = this.getSequence(attempt.date, attempt.round);
+    const isCorrect = now <= attempt.roundDeadline &&
+      sequence.length === expected.length &&
+      sequence.every((color, i) => color === expected[i]);
+
+    if (!isCorrect) {
+      this.finish(attempt, now);
+      return { isCorrect, score: attempt.score, next: null, result: this.getResult(attempt) };
+    }
+
+    attempt.score += 1;
+    attempt.round += 1;
+
+    return { isCorrect, score: attempt.score, next: this.dealRound(attempt, now), result: null };
+  }
+
+  // ===========================================================================
+  // LEADERBOARD
+  // ===========================================================================
+
+  /**
+   * Finished attempts of a day, best first
+   */
+  getLeaderboard(
+    date: string = getUtcDate(),
+    limit: number = DAILY_CONSTANTS.LEADERBOARD_SIZE,
+    now: number = Date.now()
+  ): DailyLeaderboardResponse {
+    const entries: DailyLeaderboardEntry[] = this.getFinishedAttempts(date, now)
+      .slice(0, limit)
+      .map((attempt, index) => ({
+        rank: index + 1,
+        displayName: attempt.displayName,
+        avatarId: attempt.avatarId,
+        score: attempt.score,
+        finishedAt: attempt.finishedAt ?? attempt.startedAt,
+      }));
+
+    return { date, entries };
+  }
+
+  /**
+   * Clear all attempts (for testing)
+   */
+  clearAll(): void {
+    this.repository.clear();
+  }
+
+  // ===========================================================================
+  // INTERNAL
+  // ===========================================================================
+
+  /**
+   * Set the deadline for the attempt's current round and store it
+   */
+  private dealRound(attempt: DailyAttempt, now: number): DailyRound {
+    const sequence = this.getSequence(attempt.date, attempt.round);
+
+    attempt.roundDeadline = now +
+      SEQUENCE_LEAD_IN_MS +
+      calculateShowDurationMs(sequence.length, SETTINGS) +
+      SEQUENCE_PAUSE_MS +
+      calculateTimeoutMs(sequence.length, SETTINGS) +
+      DAILY_CONSTANTS.SUBMIT_GRACE_MS;
+    this.repository.save(attempt);
+
+    return this.toRound(attempt, now);
+  }
+
+  /**
+   * The attempt's current round as sent to the player
+   */
+  private toRound(attempt: DailyAttempt, now: number): DailyRound {
+    return {
+      date: attempt.date,
+      round: attempt.round,
+      sequence: this.getSequence(attempt.date, attempt.round),
+      timeLeftMs: Math.max(0, attempt.roundDeadline - DAILY_CONSTANTS.SUBMIT_GRACE_MS - now),
+    };
+  }
+
+  /**
+   * A player's attempt, ending it first if its round deadline has passed
+   */
+  private getAttempt(date: string, playerId: string, now: number): DailyAttempt | null {
+    const attempt = this.repository.get(date, playerId);
+    if (attempt) {
+      this.expire(attempt, now);
+    }
+    return attempt;
+  }
+
+  /**
+   * The attempt a player is still playing (it may have started yesterday)
+   */
+  private findPlayingAttempt(playerId: string, now: number): DailyAttempt | null {
+    const today = getUtcDate(now);
+    const yesterday = getUtcDate(now - 24 * 60 * 60 * 1000);
+
+    for (const date of [today, yesterday]) {
+      const attempt = this.repository.get(date, playerId);
+      if (attempt?.status === 'playing') {
+        return attempt;
+      }
+    }
+    return null;
+  }
+
+  private getFinishedAttempts(date: string, now: number): DailyAttempt[] {
+    return this.repository.getAll(date)
+      .map(attempt => this.expire(attempt, now))
+      .filter(attempt => attempt.status === 'finished')
+      .sort(compareAttempts);
+  }
+
+  /**
+   * End an abandoned attempt once its round can no longer be submitted
+   */
+  private expire(attempt: DailyAttempt, now: number): DailyAttempt {
+    if (attempt.status === 'playing' && now > attempt.roundDeadline) {
+      this.finish(attempt, attempt.roundDeadline);
+    }
+    return attempt;
+  }
+
+  private finish(attempt: DailyAttempt, finishedAt: number): void {
+    attempt.status = 'finished';
+    attempt.finishedAt = finishedAt;
+    this.repository.save(attempt);
+  }
+
+  private getResult(attempt: DailyAttempt): DailyResult {
+    const rank = this.repository.getAll(attempt.date)
+      .filter(other => other.status === 'finished' && compareAttempts(other, attempt) < 0)
+      .length + 1;
+
+    return { score: attempt.score, rank };
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+export const dailyService = new DailyService(createDailyRepository());
@@ -9,20 +9,116 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import type { 
+  BotDifficulty,
   GameRoom, 
+  GameType,
   Player, 
   PlayerInfo, 
+  PublicPlayer,
+  PublicRoom,
+  RoomListingUpdate,
+  RoomMatchmaking,
+  RoomSettings,
   RoomStatus,
+  RoomView,
+  TeamId,
 } from '@shared/types';
-import { PLATFORM_CONSTANTS } from '@shared/types';
+import { PLATFORM_CONSTANTS, DEFAULT_ROOM_SETTINGS, TEAM_IDS } from '@shared/types';
 import { generateGameCode } from '../utils/gameCode';
+import { InMemoryRoomRepository, createRoomRepository } from '../repositories';
+import type { RoomRepository } from '../repositories';
+import { INSTANCE_ID } from '../cluster';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Members who play (spectators excluded)
+ */
+export function getActivePlayers(room: GameRoom): Player[] {
+  return room.players.filter(p => p.role === 'player');
+}
+
+/**
+ * Members who only watch
+ */
+export function getSpectators(room: GameRoom): Player[] {
+  return room.players.filter(p => p.role === 'spectator');
+}
+
+/**
+ * Members played by people (bots excluded)
+ */
+export function getHumanPlayers(room: GameRoom): Player[] {
+  return room.players.filter(p => !p.isBot);
+}
+
+/**
+ * Team with the fewest players, where the next player goes
+ */
+export function getSmallestTeam(room: GameRoom): TeamId {
+  const sizes = TEAM_IDS.map(team => getActivePlayers(room).filter(p => p.team === team).length);
+  return TEAM_IDS[sizes.indexOf(Math.min(...sizes))];
+}
+
+/**
+ * What other members see of a player
+ * Copies only the fields PublicPlayer allows, so no account or socket leaks.
+ */
+export function toPublicPlayer(player: Player): PublicPlayer {
+  return {
+    id: player.id,
+    displayName: player.displayName,
+    avatarId: player.avatarId,
+    role: player.role,
+    isHost: player.isHost,
+    connected: player.connected,
+    isBot: player.isBot,
+    botDifficulty: player.botDifficulty,
+    team: player.team,
+    rating: player.rating,
+  };
+}
+
+// Game state fields that would let clients draw every upcoming color
+const SECRET_STATE_FIELDS = ['seed', 'rngState'];
+
+/**
+ * What room members are sent of a room
+ * Copies the room without seeds or generator state, so no client can
+ * work out the colors still to come, and players as PublicPlayer.
+ */
+export function toRoomView(room: GameRoom): RoomView {
+  const { leavers, ...shared } = room;
+  const { seed, ...settings } = room.settings;
+  const gameState = room.gameState && typeof room.gameState === 'object'
+    ? Object.fromEntries(Object.entries(room.gameState).filter(([key]) => !SECRET_STATE_FIELDS.includes(key)))
+    : room.gameState;
+
+  return {
+    ...shared,
+    players: room.players.map(toPublicPlayer),
+    settings: { ...settings, hasChallenge: seed !== null },
+    gameState,
+  };
+}
+
+// Names given to bots, in order of arrival
+const BOT_NAMES = ['Robo', 'Beep', 'Chip', 'Bolt', 'Gizmo', 'Pixel', 'Servo', 'Sprocket'];
 
 // =============================================================================
 // SERVICE CLASS
 // =============================================================================
 
 export class GameService {
-  private rooms: Map<string, GameRoom> = new Map();
+  // Cleared when the server starts shutting down
+  private acceptingRooms = true;
+
+  constructor(
+    private readonly repository: RoomRepository = new InMemoryRoomRepository(),
+    private readonly instanceId: string = INSTANCE_ID
+  ) {}
 
   // ===========================================================================
   // ROOM MANAGEMENT
@@ -30,19 +126,32 @@ export class GameService {
 
   /**
    * Create a new game room with the host player
+   * A seed (from a challenge code) makes every game in the room replay it.
    */
-  createRoom(hostInfo: PlayerInfo): GameRoom {
-    const existingCodes = new Set(this.rooms.keys());
+  createRoom(hostInfo: PlayerInfo, seed: number | null = null): GameRoom {
+    if (!this.acceptingRooms) {
+      throw new Error('Server is restarting');
+    }
+    
+    const existingCodes = this.repository.getCodes();
     const gameCode = generateGameCode(existingCodes);
     
     const host: Player = {
       id: uuidv4(),
       displayName: hostInfo.displayName,
       avatarId: hostInfo.avatarId,
+      role: 'player',
       isHost: true,
       socketId: null,
+      socketInstanceId: null,
       connected: false,
+      disconnectTimeoutAt: null,
       lastActivity: new Date(),
+      isBot: false,
+      botDifficulty: null,
+      team: TEAM_IDS[0],
+      accountId: hostInfo.accountId ?? null,
+      rating: hostInfo.rating ?? null,
     };
 
     const room: GameRoom = {
@@ -50,10 +159,21 @@ export class GameService {
       players: [host],
       status: 'waiting',
       createdAt: new Date(),
+      gameType: 'simon',
+      settings: {
+        ...DEFAULT_ROOM_SETTINGS,
+        simon: { ...DEFAULT_ROOM_SETTINGS.simon },
+        seed,
+      },
       gameState: null,
+      ownerId: this.instanceId,
+      matchmaking: null,
+      isPublic: false,
+      name: null,
+      leavers: [],
     };
 
-    this.rooms.set(gameCode, room);
+    this.repository.save(room);
     
     return room;
   }
@@ -62,31 +182,114 @@ export class GameService {
    * Get a room by game code
    */
   getRoom(gameCode: string): GameRoom | null {
-    return this.rooms.get(gameCode) ?? null;
+    return this.repository.get(gameCode);
   }
 
   /**
    * Get all rooms (for debugging/admin)
    */
   getAllRooms(): GameRoom[] {
-    return Array.from(this.rooms.values());
+    return this.repository.getAll();
+  }
+
+  /**
+   * Public rooms still in the lobby, newest first (for the lobby browser)
+   * Copies only the fields PublicRoom allows, so nothing private leaks.
+   */
+  getPublicRooms(): PublicRoom[] {
+    return this.repository.getAll()
+      .filter(room => room.isPublic && room.status === 'waiting')
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(room => ({
+        gameCode: room.gameCode,
+        name: room.name,
+        hostName: room.players.find(p => p.isHost)?.displayName ?? '',
+        playerCount: getActivePlayers(room).length,
+        maxPlayers: room.settings.maxPlayers,
+        gameType: room.gameType,
+        settings: {
+          maxPlayers: room.settings.maxPlayers,
+          simon: { ...room.settings.simon },
+        },
+        createdAt: room.createdAt.getTime(),
+      }));
   }
 
   /**
    * Delete a room
    */
   deleteRoom(gameCode: string): boolean {
-    return this.rooms.delete(gameCode);
+    return this.repository.delete(gameCode);
   }
 
   /**
    * Update room status
    */
   updateRoomStatus(gameCode: string, status: RoomStatus): GameRoom | null {
-    const room = this.rooms.get(gameCode);
+    const room = this.repository.get(gameCode);
     if (!room) return null;
     
     room.status = status;
+    
+    // The next game starts without the last one's leavers
+    if (status === 'waiting' || status === 'countdown') {
+      room.leavers = [];
+    }
+    
+    this.repository.save(room);
+    return room;
+  }
+
+  /**
+   * Update the game the room will play
+   */
+  updateGameType(gameCode: string, gameType: GameType): GameRoom | null {
+    const room = this.repository.get(gameCode);
+    if (!room) return null;
+    
+    room.gameType = gameType;
+    this.repository.save(room);
+    return room;
+  }
+
+  /**
+   * Replace the room settings (validated by the caller)
+   */
+  updateSettings(gameCode: string, settings: RoomSettings): GameRoom | null {
+    const room = this.repository.get(gameCode);
+    if (!room) return null;
+    
+    if (settings.maxPlayers < getActivePlayers(room).length) {
+      throw new Error('Max players is below current player count');
+    }
+    
+    room.settings = settings;
+    this.repository.save(room);
+    return room;
+  }
+
+  /**
+   * List the room in the lobby browser (or hide it) and name it
+   */
+  updateListing(gameCode: string, listing: RoomListingUpdate): GameRoom | null {
+    const room = this.repository.get(gameCode);
+    if (!room) return null;
+    
+    room.isPublic = listing.isPublic;
+    room.name = listing.name;
+    this.repository.save(room);
+    return room;
+  }
+
+  /**
+   * Open the room to quick match, update its wait timer, or close it
+   */
+  updateMatchmaking(gameCode: string, matchmaking: RoomMatchmaking | null): GameRoom | null {
+    const room = this.repository.get(gameCode);
+    if (!room) return null;
+    
+    room.matchmaking = matchmaking;
+    this.repository.save(room);
     return room;
   }
 
@@ -94,10 +297,11 @@ export class GameService {
    * Update room game state
    */
   updateGameState(gameCode: string, gameState: unknown): GameRoom | null {
-    const room = this.rooms.get(gameCode);
+    const room = this.repository.get(gameCode);
     if (!room) return null;
     
     room.gameState = gameState;
+    this.repository.save(room);
     return room;
   }
 
@@ -109,7 +313,7 @@ export class GameService {
    * Add a player to a room
    */
   joinRoom(gameCode: string, playerInfo: PlayerInfo): GameRoom {
-    const room = this.rooms.get(gameCode);
+    const room = this.repository.get(gameCode);
     
     if (!room) {
       throw new Error('Room not found');
@@ -119,7 +323,7 @@ export class GameService {
       throw new Error('Game already in progress');
     }
     
-    if (room.players.length >= PLATFORM_CONSTANTS.MAX_PLAYERS) {
+    if (getActivePlayers(room).length >= room.settings.maxPlayers) {
       throw new Error('Room is full');
     }
 
@@ -127,22 +331,153 @@ export class GameService {
       id: uuidv4(),
       displayName: playerInfo.displayName,
       avatarId: playerInfo.avatarId,
+      role: 'player',
       isHost: false,
       socketId: null,
+      socketInstanceId: null,
       connected: false,
+      disconnectTimeoutAt: null,
       lastActivity: new Date(),
+      isBot: false,
+      botDifficulty: null,
+      team: getSmallestTeam(room),
+      accountId: playerInfo.accountId ?? null,
+      rating: playerInfo.rating ?? null,
     };
 
     room.players.push(player);
+    this.repository.save(room);
     
     return room;
   }
 
+  /**
+   * Add a spectator to a room (allowed at any stage, no player slot used)
+   */
+  spectateRoom(gameCode: string, spectatorInfo: PlayerInfo): GameRoom {
+    const room = this.repository.get(gameCode);
+    
+    if (!room) {
+      throw new Error('Room not found');
+    }
+    
+    if (getSpectators(room).length >= PLATFORM_CONSTANTS.MAX_SPECTATORS) {
+      throw new Error('Too many spectators');
+    }
+
+    const spectator: Player = {
+      id: uuidv4(),
+      displayName: spectatorInfo.displayName,
+      avatarId: spectatorInfo.avatarId,
+      role: 'spectator',
+      isHost: false,
+      socketId: null,
+      socketInstanceId: null,
+      connected: false,
+      disconnectTimeoutAt: null,
+      lastActivity: new Date(),
+      isBot: false,
+      botDifficulty: null,
+      team: null,
+      accountId: spectatorInfo.accountId ?? null,
+      rating: spectatorInfo.rating ?? null,
+    };
+
+    room.players.push(spectator);
+    this.repository.save(room);
+    
+    return room;
+  }
+
+  /**
+   * Add a server-played bot to a room's lobby
+   * Bots take a player slot but have no socket and are always connected.
+   */
+  addBot(gameCode: string, difficulty: BotDifficulty): Player {
+    const room = this.repository.get(gameCode);
+    
+    if (!room) {
+      throw new Error('Room not found');
+    }
+    
+    if (room.status !== 'waiting') {
+      throw new Error('Game already in progress');
+    }
+    
+    if (getActivePlayers(room).length >= room.settings.maxPlayers) {
+      throw new Error('Room is full');
+    }
+
+    const takenNames = new Set(room.players.map(p => p.displayName));
+    const botCount = room.players.filter(p => p.isBot).length;
+    const displayName = BOT_NAMES.find(name => !takenNames.has(name)) ?? `Bot ${botCount + 1}`;
+
+    const bot: Player = {
+      id: uuidv4(),
+      displayName,
+      avatarId: PLATFORM_CONSTANTS.VALID_AVATAR_IDS[botCount % PLATFORM_CONSTANTS.VALID_AVATAR_IDS.length],
+      role: 'player',
+      isHost: false,
+      socketId: null,
+      socketInstanceId: null,
+      connected: true,
+      disconnectTimeoutAt: null,
+      lastActivity: new Date(),
+      isBot: true,
+      botDifficulty: difficulty,
+      team: getSmallestTeam(room),
+      accountId: null,
+      rating: null,
+    };
+
+    room.players.push(bot);
+    this.repository.save(room);
+    
+    return bot;
+  }
+
+  /**
+   * Remove a bot from a room's lobby
+   * Returns true if the bot was removed
+   */
+  removeBot(gameCode: string, botId: string): boolean {
+    const room = this.repository.get(gameCode);
+    if (!room) return false;
+    
+    if (room.status !== 'waiting') {
+      throw new Error('Game already in progress');
+    }
+
+    const bot = room.players.find(p => p.id === botId);
+    if (!bot?.isBot) return false;
+
+    return this.removePlayer(gameCode, botId);
+  }
+
+  /**
+   * Move a player to another team in the lobby
+   */
+  setPlayerTeam(gameCode: string, playerId: string, team: TeamId): GameRoom | null {
+    const room = this.repository.get(gameCode);
+    if (!room) return null;
+
+    if (room.status !== 'waiting') {
+      throw new Error('Game already in progress');
+    }
+
+    const player = room.players.find(p => p.id === playerId);
+    if (!player || player.role === 'spectator') return null;
+
+    player.team = team;
+    this.repository.save(room);
+    return room;
+  }
+
   /**
    * Get a player from a room
    */
   getPlayer(gameCode: string, playerId: string): Player | null {
-    const room = this.rooms.get(gameCode);
+    const room = this.repository.get(gameCode);
     if (!room) return null;
     
     return room.players.find(p => p.id === playerId) ?? null;
@@ -156,24 +491,27 @@ export class GameService {
     playerId: string, 
     socketId: string
   ): GameRoom | null {
-    const room = this.rooms.get(gameCode);
+    const room = this.repository.get(gameCode);
     if (!room) return null;
 
     const player = room.players.find(p => p.id === playerId);
     if (!player) return null;
 
     player.socketId = socketId;
+    player.socketInstanceId = this.instanceId;
     player.connected = true;
+    player.disconnectTimeoutAt = null;
     player.lastActivity = new Date();
+    this.repository.save(room);
 
     return room;
   }
 
   /**
-   * Mark a player as disconnected
+   * Mark a player as disconnected, to be removed at removeAt (epoch ms)
    */
-  markPlayerDisconnected(gameCode: string, playerId: string): void {
-    const room = this.rooms.get(gameCode);
+  markPlayerDisconnected(gameCode: string, playerId: string, removeAt: number | null = null): void {
+    const room = this.repository.get(gameCode);
     if (!room) return;
 
     const player = room.players.find(p => p.id === playerId);
@@ -181,13 +519,16 @@ export class GameService {
 
     player.connected = false;
     player.socketId = null;
+    player.socketInstanceId = null;
+    player.disconnectTimeoutAt = removeAt;
+    this.repository.save(room);
   }
 
   /**
    * Remove a player if still disconnected
    */
   removeIfStillDisconnected(gameCode: string, playerId: string): boolean {
-    const room = this.rooms.get(gameCode);
+    const room = this.repository.get(gameCode);
     if (!room) return false;
 
     const player = room.players.find(p => p.id === playerId);
@@ -205,13 +546,14 @@ export class GameService {
    * Update player's last activity timestamp
    */
   updatePlayerActivity(gameCode: string, playerId: string): void {
-    const room = this.rooms.get(gameCode);
+    const room = this.repository.get(gameCode);
     if (!room) return;
 
     const player = room.players.find(p => p.id === playerId);
     if (!player) return;
 
     player.lastActivity = new Date();
+    this.repository.save(room);
   }
 
   /**
@@ -219,7 +561,7 @@ export class GameService {
    * Returns true if player was removed
    */
   removePlayer(gameCode: string, playerId: string): boolean {
-    const room = this.rooms.get(gameCode);
+    const room = this.repository.get(gameCode);
     if (!room) return false;
 
     const playerIndex = room.players.findIndex(p => p.id === playerId);
@@ -228,20 +570,47 @@ export class GameService {
     const removedPlayer = room.players[playerIndex];
     room.players.splice(playerIndex, 1);
 
-    // If room is empty, delete it
-    if (room.players.length === 0) {
-      this.rooms.delete(gameCode);
+    // Someone leaving mid-game still finishes it (last), for results and ratings
+    if (room.status === 'active' && removedPlayer.role === 'player') {
+      room.leavers.push(removedPlayer);
+    }
+
+    // If no people are left to play, delete it (spectators or bots alone don't keep a room)
+    const remainingPlayers = getActivePlayers(room).filter(p => !p.isBot);
+    if (remainingPlayers.length === 0) {
+      this.repository.delete(gameCode);
       return true;
     }
 
-    // If removed player was host, transfer host to next player
-    if (removedPlayer.isHost && room.players.length > 0) {
-      room.players[0].isHost = true;
+    // If removed player was host, transfer host to next player (never a bot)
+    if (removedPlayer.isHost) {
+      remainingPlayers[0].isHost = true;
     }
 
+    this.repository.save(room);
     return true;
   }
 
+  // ===========================================================================
+  // SHUTDOWN
+  // ===========================================================================
+
+  /**
+   * Allow or refuse new rooms (refused while the server drains for a restart)
+   */
+  setAcceptingRooms(accepting: boolean): void {
+    this.acceptingRooms = accepting;
+  }
+
+  /**
+   * Whether any room owned by this instance is counting down or mid-game
+   */
+  hasRunningGames(): boolean {
+    return this.repository.getAll().some(
+      room => room.ownerId === this.instanceId && (room.status === 'countdown' || room.status === 'active')
+    );
+  }
+
   // ===========================================================================
   // CLEANUP
   // ===========================================================================
@@ -253,26 +622,29 @@ export class GameService {
     const now = new Date();
     let cleaned = 0;
 
-    for (const [gameCode, room] of this.rooms.entries()) {
+    for (const room of this.repository.getAll()) {
+      const { gameCode } = room;
+
       // Remove rooms older than max age
       const roomAge = now.getTime() - room.createdAt.getTime();
       if (roomAge > PLATFORM_CONSTANTS.ROOM_MAX_AGE_MS) {
-        this.rooms.delete(gameCode);
+        this.repository.delete(gameCode);
         cleaned++;
         continue;
       }
 
-      // Remove rooms where all players are disconnected
-      const allDisconnected = room.players.every(p => !p.connected);
-      if (allDisconnected && room.players.length > 0) {
+      // Remove rooms where all people are disconnected (bots never disconnect)
+      const humans = getHumanPlayers(room);
+      const allDisconnected = humans.every(p => !p.connected);
+      if (allDisconnected && humans.length > 0) {
         // Check if any player has been disconnected for too long
         const oldestActivity = Math.min(
-          ...room.players.map(p => p.lastActivity.getTime())
+          ...humans.map(p => p.lastActivity.getTime())
         );
         const disconnectAge = now.getTime() - oldestActivity;
         
         if (disconnectAge > PLATFORM_CONSTANTS.DISCONNECT_GRACE_MS) {
-          this.rooms.delete(gameCode);
+          this.repository.delete(gameCode);
           cleaned++;
         }
       }
@@ -285,14 +657,14 @@ export class GameService {
    * Get count of active rooms
    */
   getRoomCount(): number {
-    return this.rooms.size;
+    return this.repository.count();
   }
 
   /**
    * Clear all rooms (for testing)
    */
   clearAllRooms(): void {
-    this.rooms.clear();
+    this.repository.clear();
   }
 }
 
@@ -300,4 +672,4 @@ export class GameService {
 // SINGLETON INSTANCE
 // =============================================================================
 
-export const gameService = new GameService();
+export const gameService = new GameService(createRoomRepository());
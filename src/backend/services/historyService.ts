@@ -0,0 +1,149 @@
+/**
+ * History Service
+ *
+ * Stores every finished match (players, rounds, answers and results)
+ * and derives per-player stats from them. Signed-in players are found
+ * by account ID across rooms; guests only by their room player ID.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { GameRoom, GameType, MatchRecord, PlayerHistoryResponse, PlayerMatch, PlayerStatsResponse } from '@shared/types';
+import { HISTORY_CONSTANTS } from '@shared/types';
+import { InMemoryMatchRepository, createMatchRepository, isMatchPlayer } from '../repositories';
+import type { MatchRepository, StoredMatch } from '../repositories';
+import type { MatchSummary } from '../games/types';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Public view of a stored match (no account IDs)
+ */
+function toMatchRecord(stored: StoredMatch): MatchRecord {
+  return {
+    ...stored,
+    players: stored.players.map(player => ({
+      playerId: player.playerId,
+      displayName: player.displayName,
+      avatarId: player.avatarId,
+      isBot: player.isBot,
+      score: player.score,
+      rank: player.rank,
+      eliminatedAtRound: player.eliminatedAtRound,
+      ratingChange: player.ratingChange ?? null, // Stored before rating changes were kept
+    })),
+  };
+}
+
+// =============================================================================
+// SERVICE CLASS
+// =============================================================================
+
+export class HistoryService {
+  constructor(private readonly repository: MatchRepository = new InMemoryMatchRepository()) {}
+
+  /**
+   * Store a finished game with the room's players
+   */
+  recordMatch(room: GameRoom, gameType: GameType, summary: MatchSummary, now: number = Date.now()): MatchRecord {
+    const match: StoredMatch = {
+      id: uuidv4(),
+      gameCode: room.gameCode,
+      gameType,
+      finishedAt: now,
+      winnerId: summary.winnerId,
+      players: summary.standings.map((standing, index) => {
+        const player = [...room.players, ...room.leavers].find(p => p.id === standing.playerId);
+
+        return {
+          playerId: standing.playerId,
+          accountId: player?.accountId ?? null,
+          displayName: player?.displayName ?? 'Unknown',
+          avatarId: player?.avatarId ?? '1',
+          isBot: player?.isBot ?? false,
+          score: standing.score,
+          rank: index + 1,
+          eliminatedAtRound: standing.eliminatedAtRound,
+          ratingChange: summary.ratingChanges?.find(change => change.playerId === standing.playerId)?.delta ?? null,
+        };
+      }),
+      rounds: summary.rounds,
+    };
+
+    this.repository.save(match);
+    return toMatchRecord(match);
+  }
+
+  /**
+   * A player's most recent matches
+   */
+  getHistory(playerId: string, limit: number = HISTORY_CONSTANTS.DEFAULT_HISTORY_LIMIT): PlayerHistoryResponse {
+    const matches = this.repository.getForPlayer(playerId).slice(0, limit).map((stored): PlayerMatch => ({
+      ...toMatchRecord(stored),
+      selfPlayerId: stored.players.find(player => isMatchPlayer(player, playerId))?.playerId ?? playerId,
+    }));
+
+    return { playerId, matches };
+  }
+
+  /**
+   * A player's stats across every stored match
+   * Win rate only counts matches against someone else.
+   */
+  getStats(playerId: string): PlayerStatsResponse {
+    const matches = this.repository.getForPlayer(playerId);
+    let multiplayerGames = 0;
+    let wins = 0;
+    let longestSequence = 0;
+    let reactionTotal = 0;
+    let reactionCount = 0;
+
+    matches.forEach(match => {
+      // Room player ID in this match (the lookup ID may be an account)
+      const self = match.players.find(player => isMatchPlayer(player, playerId));
+      if (!self) return;
+
+      if (match.players.length > 1) {
+        multiplayerGames++;
+        if (match.winnerId === self.playerId) wins++;
+      }
+
+      match.rounds.forEach(round => {
+        round.submissions
+          .filter(submission => submission.playerId === self.playerId)
+          .forEach(submission => {
+            if (submission.isCorrect) {
+              longestSequence = Math.max(longestSequence, submission.sequenceLength);
+            }
+            if (submission.reactionMs !== null) {
+              reactionTotal += submission.reactionMs;
+              reactionCount++;
+            }
+          });
+      });
+    });
+
+    return {
+      playerId,
+      gamesPlayed: matches.length,
+      wins,
+      winRate: multiplayerGames > 0 ? wins / multiplayerGames : null,
+      longestSequence,
+      averageReactionMs: reactionCount > 0 ? Math.round(reactionTotal / reactionCount) : null,
+    };
+  }
+
+  /**
+   * Clear all matches (for testing)
+   */
+  clearAll(): void {
+    this.repository.clear();
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+export const historyService = new HistoryService(createMatchRepository());
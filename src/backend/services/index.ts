@@ -3,3 +3,9 @@
  */
 
 export * from './gameService';
+export * from './dailyService';
+export * from './accountService';
+export * from './magicLinkSender';
+export * from './historyService';
+export * from './ratingService';
+export * from './matchmakingService';
@@ -0,0 +1,67 @@
+/**
+ * Magic Link Delivery
+ *
+ * How sign-in links reach a player. The server doesn't send mail itself:
+ * set MAGIC_LINK_WEBHOOK_URL and every link is POSTed there as JSON
+ * ({ to, username, link }) for a mail service or relay to deliver.
+ * Without a webhook, links are only logged, which is allowed outside
+ * production for local testing.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * One sign-in link to deliver
+ */
+export interface MagicLinkMessage {
+  to: string;          // Email address on the account
+  username: string;
+  link: string;        // Full URL the player follows
+}
+
+/**
+ * Delivers a link; rejects if it couldn't be handed off
+ */
+export type MagicLinkSender = (message: MagicLinkMessage) => Promise<void>;
+
+// =============================================================================
+// SENDERS
+// =============================================================================
+
+/**
+ * POST each link to a webhook
+ */
+export function createWebhookSender(url: string): MagicLinkSender {
+  return async (message) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Magic link webhook responded with ${response.status}`);
+    }
+  };
+}
+
+/**
+ * Log each link (development only)
+ */
+export const logMagicLink: MagicLinkSender = async ({ to, username, link }) => {
+  console.log(`🔗 Magic link for ${username} <${to}>: ${link}`);
+};
+
+/**
+ * Pick the delivery from the environment
+ * Null in production without a webhook: magic links are unavailable then.
+ */
+export function createMagicLinkSender(): MagicLinkSender | null {
+  if (process.env.MAGIC_LINK_WEBHOOK_URL) {
+    return createWebhookSender(process.env.MAGIC_LINK_WEBHOOK_URL);
+  }
+
+  return process.env.NODE_ENV === 'production' ? null : logMagicLink;
+}
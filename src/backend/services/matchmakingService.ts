@@ -0,0 +1,277 @@
+/**
+ * Matchmaking Service
+ *
+ * Quick match for players without a game code. Each player is seated in
+ * the fullest open matchmaking room for their game (within the room's
+ * rating window if they asked to be matched by rating; the window widens
+ * the longer the room waits), or opens a new one. The queue is the set
+ * of open rooms, so it survives a restart with them.
+ *
+ * Players are seated over HTTP and have CONNECT_TIMEOUT_MS to join with
+ * their socket before the seat is given back (see onSeatReleased).
+ *
+ * A room starts as soon as it is full, or when its wait timer runs out
+ * once at least MIN_PLAYERS have joined, but never before every seated
+ * player is connected. Starting the countdown is left to the socket
+ * layer (see onRoomReady).
+ */
+
+import type { GameRoom, GameType, Player, PlayerInfo, RoomMatchmaking } from '@shared/types';
+import { MATCHMAKING_CONSTANTS, RATING_CONSTANTS } from '@shared/types';
+import { GameService, gameService, getActivePlayers } from './gameService';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface MatchmakingOptions {
+  gameType: GameType;
+  byRating: boolean;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Rating gap a room accepts after waiting this long
+ */
+function getRatingWindow(waitedMs: number): number {
+  const steps = Math.floor(Math.max(0, waitedMs) / MATCHMAKING_CONSTANTS.RATING_WINDOW_GROWTH_MS);
+
+  return Math.min(
+    MATCHMAKING_CONSTANTS.MAX_RATING_WINDOW,
+    MATCHMAKING_CONSTANTS.RATING_WINDOW + steps * MATCHMAKING_CONSTANTS.RATING_WINDOW_GROWTH
+  );
+}
+
+/**
+ * Whether a player may be seated in an open room
+ * Rated and unrated players are kept in separate rooms.
+ */
+function isCompatible(matchmaking: RoomMatchmaking, byRating: boolean, rating: number, ratingWindow: number): boolean {
+  if (!byRating) return matchmaking.rating === null;
+
+  return matchmaking.rating !== null
+    && Math.abs(matchmaking.rating - rating) <= ratingWindow;
+}
+
+/**
+ * Whether every seated player's socket has joined (bots always are)
+ */
+function isEveryoneConnected(room: GameRoom): boolean {
+  return getActivePlayers(room).every(player => player.connected);
+}
+
+// =============================================================================
+// SERVICE CLASS
+// =============================================================================
+
+export class MatchmakingService {
+  // Wait timers by game code
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  // Connect deadlines of newly seated players, by "<gameCode>:<playerId>"
+  private seatTimers = new Map<string, NodeJS.Timeout>();
+
+  // Starts the countdown for a room that is ready
+  private readyHandler: ((gameCode: string) => void) | null = null;
+
+  // Tells the room a seat was given back
+  private releaseHandler: ((gameCode: string, playerId: string) => void) | null = null;
+
+  constructor(private readonly games: GameService = new GameService()) {}
+
+  /**
+   * Register what happens when a room is ready to start
+   */
+  onRoomReady(handler: (gameCode: string) => void): void {
+    this.readyHandler = handler;
+  }
+
+  /**
+   * Register what happens when a player who never connected loses their seat
+   */
+  onSeatReleased(handler: (gameCode: string, playerId: string) => void): void {
+    this.releaseHandler = handler;
+  }
+
+  /**
+   * Seat a player in an open room, opening one if none fits
+   */
+  join(info: PlayerInfo, options: MatchmakingOptions, now: number = Date.now()): { room: GameRoom; player: Player } {
+    const rating = info.rating ?? RATING_CONSTANTS.DEFAULT_RATING;
+
+    // Fill the fullest room first, then the oldest
+    const [open] = this.getOpenRooms(options.gameType)
+      .filter(room => room.matchmaking && isCompatible(
+        room.matchmaking,
+        options.byRating,
+        rating,
+        getRatingWindow(now - room.createdAt.getTime())
+      ))
+      .sort((a, b) =>
+        getActivePlayers(b).length - getActivePlayers(a).length
+        || a.createdAt.getTime() - b.createdAt.getTime()
+      );
+
+    let room: GameRoom;
+    if (open) {
+      room = this.games.joinRoom(open.gameCode, info);
+    } else {
+      room = this.games.createRoom(info);
+      this.games.updateGameType(room.gameCode, options.gameType);
+      this.games.updateMatchmaking(room.gameCode, {
+        rating: options.byRating ? rating : null,
+        startsAt: null,
+      });
+    }
+
+    const player = room.players[room.players.length - 1]; // Last added player
+
+    // The seat is only held until the player's socket joins
+    this.games.markPlayerDisconnected(room.gameCode, player.id, now + MATCHMAKING_CONSTANTS.CONNECT_TIMEOUT_MS);
+    this.holdSeat(room.gameCode, player.id, MATCHMAKING_CONSTANTS.CONNECT_TIMEOUT_MS);
+
+    this.refresh(room.gameCode, now);
+
+    return { room, player };
+  }
+
+  /**
+   * Start, schedule or cancel a room's wait timer after its players change
+   * or connect (or after a restart, from the stored deadline)
+   */
+  refresh(gameCode: string, now: number = Date.now()): void {
+    const room = this.games.getRoom(gameCode);
+
+    if (!room?.matchmaking) {
+      this.clearTimer(gameCode);
+      return;
+    }
+
+    // Started by the host before the queue filled it
+    if (room.status !== 'waiting') {
+      this.clearTimer(gameCode);
+      this.games.updateMatchmaking(gameCode, null);
+      return;
+    }
+
+    const playerCount = getActivePlayers(room).length;
+
+    if (playerCount >= room.settings.maxPlayers) {
+      this.startWhenConnected(gameCode);
+      return;
+    }
+
+    // Not enough players to start: stop the clock until someone else joins
+    if (playerCount < MATCHMAKING_CONSTANTS.MIN_PLAYERS) {
+      this.clearTimer(gameCode);
+      if (room.matchmaking.startsAt !== null) {
+        this.games.updateMatchmaking(gameCode, { ...room.matchmaking, startsAt: null });
+      }
+      return;
+    }
+
+    const startsAt = room.matchmaking.startsAt ?? now + MATCHMAKING_CONSTANTS.WAIT_MS;
+    if (room.matchmaking.startsAt === null) {
+      this.games.updateMatchmaking(gameCode, { ...room.matchmaking, startsAt });
+    }
+
+    // Already over: the start was held up by a player connecting, or the
+    // deadline passed while the server restarted
+    if (startsAt <= now) {
+      this.startWhenConnected(gameCode);
+      return;
+    }
+
+    if (!this.timers.has(gameCode)) {
+      const timer = setTimeout(() => this.startWhenConnected(gameCode), startsAt - now);
+      this.timers.set(gameCode, timer);
+    }
+  }
+
+  /**
+   * Cancel every wait timer (shutdown and tests)
+   */
+  stopTimers(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.seatTimers.forEach(timer => clearTimeout(timer));
+    this.seatTimers.clear();
+  }
+
+  // ===========================================================================
+  // PRIVATE
+  // ===========================================================================
+
+  /**
+   * Rooms still taking quick match players for a game
+   */
+  private getOpenRooms(gameType: GameType): GameRoom[] {
+    return this.games.getAllRooms().filter(room =>
+      room.matchmaking !== null
+      && room.status === 'waiting'
+      && room.gameType === gameType
+      && getActivePlayers(room).length < room.settings.maxPlayers
+    );
+  }
+
+  /**
+   * Start the room unless someone's socket hasn't joined yet; refresh()
+   * tries again once they connect or their seat is released
+   */
+  private startWhenConnected(gameCode: string): void {
+    this.clearTimer(gameCode);
+
+    const room = this.games.getRoom(gameCode);
+    if (!room || !isEveryoneConnected(room)) {
+      return;
+    }
+
+    this.startRoom(gameCode);
+  }
+
+  /**
+   * Close the room to quick match and hand it over to be started
+   */
+  private startRoom(gameCode: string): void {
+    this.clearTimer(gameCode);
+    this.games.updateMatchmaking(gameCode, null);
+
+    console.log(`🎯 Quick match room ${gameCode} is ready`);
+    this.readyHandler?.(gameCode);
+  }
+
+  /**
+   * Give the seat back if the player still hasn't connected when time is up
+   */
+  private holdSeat(gameCode: string, playerId: string, delayMs: number): void {
+    const key = `${gameCode}:${playerId}`;
+
+    const timer = setTimeout(() => {
+      this.seatTimers.delete(key);
+      if (!this.games.removeIfStillDisconnected(gameCode, playerId)) return;
+
+      console.log(`🪑 Released quick match seat in room ${gameCode}: the player never connected`);
+      this.refresh(gameCode);
+      this.releaseHandler?.(gameCode, playerId);
+    }, delayMs);
+
+    this.seatTimers.set(key, timer);
+  }
+
+  private clearTimer(gameCode: string): void {
+    const timer = this.timers.get(gameCode);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(gameCode);
+    }
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+export const matchmakingService = new MatchmakingService(gameService);
@@ -0,0 +1,79 @@
+/**
+ * Rating Service
+ *
+ * Updates signed-in players' Elo ratings after a multiplayer game.
+ * Guests take part at the default rating so beating them still counts,
+ * but only account ratings are stored. Bots don't count: beating an easy
+ * bot says nothing about a player. Players who left mid-game finish last.
+ */
+
+import type { GameRoom, RatingChange } from '@shared/types';
+import { RATING_CONSTANTS } from '@shared/types';
+import { calculateRatingDeltas } from '../utils/ratingLogic';
+import type { RatedResult } from '../utils/ratingLogic';
+import { AccountService, accountService } from './accountService';
+import type { MatchSummary } from '../games/types';
+
+// =============================================================================
+// SERVICE CLASS
+// =============================================================================
+
+export class RatingService {
+  constructor(private readonly accounts: AccountService = new AccountService()) {}
+
+  /**
+   * Rate a finished game and store the new account ratings
+   * Also updates the room's players so the lobby shows the new ratings
+   * once the room is saved.
+   */
+  rateMatch(room: GameRoom, standings: MatchSummary['standings']): RatingChange[] {
+    const rated = standings.flatMap(standing => {
+      const player = room.players.find(p => p.id === standing.playerId);
+      if (player) {
+        return player.isBot ? [] : [{ standing, player }];
+      }
+
+      // Eliminated before round 1: behind everyone who stayed
+      const leaver = room.leavers.find(p => p.id === standing.playerId);
+      return leaver && !leaver.isBot ? [{ standing: { ...standing, eliminatedAtRound: 0 }, player: leaver }] : [];
+    });
+
+    if (rated.length < 2 || !rated.some(({ player }) => player.accountId)) {
+      return [];
+    }
+
+    // Current stored rating; the room's copy may be stale
+    const results: RatedResult[] = rated.map(({ standing, player }) => ({
+      ...standing,
+      rating: this.getRating(player.accountId),
+    }));
+    const deltas = calculateRatingDeltas(results);
+
+    return rated.flatMap(({ player }) => {
+      if (!player.accountId) return [];
+
+      // Apply the change to the latest rating: another instance may have
+      // rated this account since it was read
+      const delta = deltas[player.id] ?? 0;
+      const account = this.accounts.setRating(player.accountId, this.getRating(player.accountId) + delta);
+      if (!account) return [];
+
+      player.rating = account.rating;
+      return [{ playerId: player.id, rating: account.rating, delta }];
+    });
+  }
+
+  /**
+   * An account's rating, or the default for guests
+   */
+  private getRating(accountId: string | null): number {
+    const account = accountId ? this.accounts.getAccount(accountId) : null;
+    return account?.rating ?? RATING_CONSTANTS.DEFAULT_RATING;
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+export const ratingService = new RatingService(accountService);
@@ -5,9 +5,10 @@
  * Uses HTTP-only cookies for security.
  */
 
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import type { SessionPayload } from '@shared/types';
-import { PLATFORM_CONSTANTS } from '@shared/types';
+import { ACCOUNT_CONSTANTS, PLATFORM_CONSTANTS } from '@shared/types';
 
 // =============================================================================
 // CONFIGURATION
@@ -45,6 +46,117 @@ export function verifyToken(token: string): SessionPayload | null {
   }
 }
 
+/**
+ * Generate a long-lived token identifying a daily challenge player
+ */
+export function generateDailyToken(playerId: string): string {
+  return jwt.sign({ playerId }, JWT_SECRET, {
+    expiresIn: PLATFORM_CONSTANTS.DAILY_TOKEN_EXPIRATION,
+  });
+}
+
+/**
+ * Verify a daily challenge token, returns the player ID
+ * Returns null if token is invalid or expired
+ */
+export function verifyDailyToken(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { playerId?: unknown };
+    return typeof decoded.playerId === 'string' ? decoded.playerId : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Generate a long-lived token identifying a signed-in account
+ */
+export function generateAccountToken(accountId: string): string {
+  return jwt.sign({ accountId, purpose: 'account' }, JWT_SECRET, {
+    expiresIn: ACCOUNT_CONSTANTS.ACCOUNT_TOKEN_EXPIRATION,
+  });
+}
+
+/**
+ * Verify an account token, returns the account ID
+ * Returns null if token is invalid or expired
+ */
+export function verifyAccountToken(token: string): string | null {
+  return verifyPurposeToken(token, 'account')?.accountId ?? null;
+}
+
+/**
+ * Generate a short-lived magic link token for an account
+ * The nonce names this one link, so the account can accept it only once.
+ */
+export function generateMagicLinkToken(accountId: string, nonce: string): string {
+  return jwt.sign({ accountId, nonce, purpose: 'magic_link' }, JWT_SECRET, {
+    expiresIn: ACCOUNT_CONSTANTS.MAGIC_LINK_EXPIRATION,
+  });
+}
+
+/**
+ * Verify a magic link token, returns the account ID and the link's nonce
+ * Returns null if token is invalid or expired
+ */
+export function verifyMagicLinkToken(token: string): { accountId: string; nonce: string } | null {
+  const claims = verifyPurposeToken(token, 'magic_link');
+  return claims && typeof claims.nonce === 'string' ? { accountId: claims.accountId, nonce: claims.nonce } : null;
+}
+
+/**
+ * Claims of a token signed for one purpose (so a magic link can't be
+ * used as an account cookie and vice versa)
+ */
+function verifyPurposeToken(token: string, purpose: string): { accountId: string; nonce?: unknown } | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { accountId?: unknown; nonce?: unknown; purpose?: unknown };
+    return decoded.purpose === purpose && typeof decoded.accountId === 'string'
+      ? { accountId: decoded.accountId, nonce: decoded.nonce }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// =============================================================================
+// PASSWORD FUNCTIONS
+// =============================================================================
+
+const SCRYPT_KEY_LENGTH = 64;
+
+/**
+ * scrypt off the event loop, so hashing never stalls the game server
+ */
+function scrypt(password: string, salt: string, keyLength: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, keyLength, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+/**
+ * Hash a password with a random salt ("scrypt:<salt>:<hash>", hex)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = (await scrypt(password, salt, SCRYPT_KEY_LENGTH)).toString('hex');
+  return `scrypt:${salt}:${hash}`;
+}
+
+/**
+ * Check a password against a stored hash (constant-time)
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(password, salt, expected.length);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
 // =============================================================================
 // COOKIE OPTIONS
 // =============================================================================
@@ -62,3 +174,25 @@ export function getSessionCookieOptions() {
     maxAge: 24 * 60 * 60 * 1000, // 24 hours in milliseconds
   };
 }
+
+/**
+ * Get cookie options for the daily challenge cookie
+ * Outlives a day so the same browser keeps one attempt per day
+ */
+export function getDailyCookieOptions() {
+  return {
+    ...getSessionCookieOptions(),
+    maxAge: 365 * 24 * 60 * 60 * 1000, // 1 year in milliseconds
+  };
+}
+
+/**
+ * Get cookie options for the account cookie
+ * Kept as long as the account token so players stay signed in
+ */
+export function getAccountCookieOptions() {
+  return {
+    ...getSessionCookieOptions(),
+    maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days in milliseconds
+  };
+}
@@ -9,9 +9,12 @@ import type { Player } from '@shared/types';
 import type { 
   Color, 
   ColorRaceGameState, 
+  MatchRound,
   PlayerAnswer,
 } from '@shared/types';
-import { COLORS, COLOR_RACE_CONSTANTS } from '@shared/types';
+import { CLASSIC_COLORS, COLOR_RACE_CONSTANTS } from '@shared/types';
+import { createSeed, createSeededRandom } from '@shared/random';
+import type { RandomSource } from '@shared/random';
 
 // =============================================================================
 // INITIALIZATION
@@ -19,8 +22,12 @@ import { COLORS, COLOR_RACE_CONSTANTS } from '@shared/types';
 
 /**
  * Initialize a new Color Race game state
+ * The same seed always produces the same colors.
  */
-export function initializeColorRaceGame(players: Player[]): ColorRaceGameState {
+export function initializeColorRaceGame(
+  players: Player[],
+  seed: number = createSeed()
+): ColorRaceGameState {
   const scores: Record<string, number> = {};
   
   // Initialize scores for all players
@@ -28,14 +35,20 @@ export function initializeColorRaceGame(players: Player[]): ColorRaceGameState {
     scores[player.id] = 0;
   });
   
+  const random = createSeededRandom(seed);
+  
   return {
     gameType: 'color_race',
     phase: 'showing_color',
-    currentColor: getRandomColor(),
+    currentColor: getRandomColor(random.next),
     round: 1,
     totalRounds: COLOR_RACE_CONSTANTS.TOTAL_ROUNDS,
     scores,
     roundWinner: null,
+    roundStartedAt: null,
+    rounds: [],
+    seed,
+    rngState: random.getState(),
   };
 }
 
@@ -46,9 +59,9 @@ export function initializeColorRaceGame(players: Player[]): ColorRaceGameState {
 /**
  * Get a random color
  */
-export function getRandomColor(): Color {
-  const randomIndex = Math.floor(Math.random() * COLORS.length);
-  return COLORS[randomIndex];
+export function getRandomColor(random: RandomSource = Math.random): Color {
+  const randomIndex = Math.floor(random() * CLASSIC_COLORS.length);
+  return CLASSIC_COLORS[randomIndex];
 }
 
 // =============================================================================
@@ -76,6 +89,8 @@ export function processRound(
   gameState: ColorRaceGameState,
   answers: PlayerAnswer[]
 ): ColorRaceGameState {
+  gameState = { ...gameState, rounds: [...gameState.rounds, recordRound(gameState, answers)] };
+  
   // Find correct answers
   const correctAnswers = answers.filter(answer => 
     answer.color === gameState.currentColor
@@ -101,6 +116,23 @@ export function processRound(
   );
 }
 
+/**
+ * Everyone's answer and reaction time this round, for match history
+ */
+function recordRound(gameState: ColorRaceGameState, answers: PlayerAnswer[]): MatchRound {
+  const { roundStartedAt } = gameState;
+  
+  return {
+    round: gameState.round,
+    submissions: answers.map(answer => ({
+      playerId: answer.playerId,
+      isCorrect: answer.color === gameState.currentColor,
+      reactionMs: roundStartedAt !== null ? Math.max(0, answer.timestamp - roundStartedAt) : null,
+      sequenceLength: 1,
+    })),
+  };
+}
+
 /**
  * Advance to the next round or finish the game
  */
@@ -119,12 +151,17 @@ function advanceToNextRound(
     };
   }
   
+  // Continue the game's seeded stream
+  const random = createSeededRandom(gameState.rngState);
+  
   return {
     ...gameState,
     phase: 'showing_color',
-    currentColor: getRandomColor(),
+    currentColor: getRandomColor(random.next),
     round: gameState.round + 1,
     roundWinner: roundWinnerId,
+    roundStartedAt: null,             // Set when the color is announced
+    rngState: random.getState(),
   };
 }
 
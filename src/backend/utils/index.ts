@@ -7,3 +7,4 @@ export * from './validation';
 export * from './gameCode';
 export * from './colorRaceLogic';
 export * from './simonLogic';
+export * from './ratingLogic';
@@ -0,0 +1,81 @@
+/**
+ * Rating Logic
+ *
+ * Multiplayer Elo: every game is scored as a round-robin of head-to-head
+ * results between all players, using their finishing order.
+ */
+
+import { RATING_CONSTANTS } from '@shared/types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * One player's result going into a rating update
+ */
+export interface RatedResult {
+  playerId: string;
+  rating: number;                // Rating before the game
+  score: number;
+  eliminatedAtRound: number | null; // null = never eliminated
+}
+
+// =============================================================================
+// FINISHING ORDER
+// =============================================================================
+
+/**
+ * Negative when `a` finished ahead of `b`, 0 for a tie
+ * Surviving beats being eliminated, a later elimination beats an earlier
+ * one, and score breaks ties.
+ */
+export function compareFinish(a: RatedResult, b: RatedResult): number {
+  const survivedA = a.eliminatedAtRound ?? Infinity;
+  const survivedB = b.eliminatedAtRound ?? Infinity;
+
+  if (survivedA !== survivedB) {
+    return survivedA > survivedB ? -1 : 1;
+  }
+
+  return b.score - a.score;
+}
+
+// =============================================================================
+// ELO
+// =============================================================================
+
+/**
+ * Chance (0-1) that a player beats an opponent
+ */
+export function getExpectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / RATING_CONSTANTS.SCALE));
+}
+
+/**
+ * Rating change per player, rounded to whole points
+ * Each pairing counts as a win, loss or draw; the K-factor is split
+ * across opponents so a game moves a rating as much as one duel would.
+ */
+export function calculateRatingDeltas(results: RatedResult[]): Record<string, number> {
+  const deltas: Record<string, number> = {};
+  if (results.length < 2) return deltas;
+
+  const kPerOpponent = RATING_CONSTANTS.K_FACTOR / (results.length - 1);
+
+  results.forEach(player => {
+    let total = 0;
+
+    results.forEach(opponent => {
+      if (opponent === player) return;
+
+      const order = compareFinish(player, opponent);
+      const actual = order < 0 ? 1 : order > 0 ? 0 : 0.5;
+      total += actual - getExpectedScore(player.rating, opponent.rating);
+    });
+
+    deltas[player.playerId] = Math.round(kPerOpponent * total);
+  });
+
+  return deltas;
+}
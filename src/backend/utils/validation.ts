@@ -5,7 +5,9 @@
  */
 
 import { z } from 'zod';
-import { PLATFORM_CONSTANTS } from '@shared/types';
+import { ACCOUNT_CONSTANTS, HISTORY_CONSTANTS, PLATFORM_CONSTANTS, GAME_TYPES, COLORS, BOT_DIFFICULTIES, SIMON_MODES, SIMON_SCORING_MODES, SIMON_VARIANTS, SIMON_CONSTANTS, TEAM_IDS } from '@shared/types';
+import type { GameType, Color, BotDifficulty, SimonMode, SimonScoringMode, SimonVariant, TeamId, ClientToServerEvents, ClientEventPayload } from '@shared/types';
+import { decodeChallengeCode } from '@shared/random';
 
 // =============================================================================
 // SCHEMAS
@@ -22,6 +24,18 @@ export const displayNameSchema = z
     `Display name must be at most ${PLATFORM_CONSTANTS.MAX_DISPLAY_NAME_LENGTH} characters`)
   .regex(/^[a-zA-Z0-9\s-]+$/, 'Display name can only contain letters, numbers, spaces, and hyphens');
 
+/**
+ * Lobby browser room name schema (shown to strangers, so kept plain)
+ */
+export const roomNameSchema = z
+  .string()
+  .trim()
+  .min(PLATFORM_CONSTANTS.MIN_ROOM_NAME_LENGTH,
+    `Room name must be at least ${PLATFORM_CONSTANTS.MIN_ROOM_NAME_LENGTH} characters`)
+  .max(PLATFORM_CONSTANTS.MAX_ROOM_NAME_LENGTH,
+    `Room name must be at most ${PLATFORM_CONSTANTS.MAX_ROOM_NAME_LENGTH} characters`)
+  .regex(/^[a-zA-Z0-9\s'-]+$/, 'Room name can only contain letters, numbers, spaces, apostrophes, and hyphens');
+
 /**
  * Avatar ID validation schema
  */
@@ -32,6 +46,27 @@ export const avatarIdSchema = z
     `Avatar ID must be one of: ${PLATFORM_CONSTANTS.VALID_AVATAR_IDS.join(', ')}`
   );
 
+/**
+ * Account username validation schema (same characters as display names, no spaces)
+ */
+export const usernameSchema = z
+  .string()
+  .min(ACCOUNT_CONSTANTS.MIN_USERNAME_LENGTH,
+    `Username must be at least ${ACCOUNT_CONSTANTS.MIN_USERNAME_LENGTH} characters`)
+  .max(ACCOUNT_CONSTANTS.MAX_USERNAME_LENGTH,
+    `Username must be at most ${ACCOUNT_CONSTANTS.MAX_USERNAME_LENGTH} characters`)
+  .regex(/^[a-zA-Z0-9-]+$/, 'Username can only contain letters, numbers, and hyphens');
+
+/**
+ * Account password validation schema
+ */
+export const passwordSchema = z
+  .string()
+  .min(ACCOUNT_CONSTANTS.MIN_PASSWORD_LENGTH,
+    `Password must be at least ${ACCOUNT_CONSTANTS.MIN_PASSWORD_LENGTH} characters`)
+  .max(ACCOUNT_CONSTANTS.MAX_PASSWORD_LENGTH,
+    `Password must be at most ${ACCOUNT_CONSTANTS.MAX_PASSWORD_LENGTH} characters`);
+
 /**
  * Game code validation schema
  * Accepts lowercase (will be normalized to uppercase)
@@ -42,12 +77,145 @@ export const gameCodeSchema = z
     `Game code must be exactly ${PLATFORM_CONSTANTS.GAME_CODE_LENGTH} characters`)
   .regex(/^[A-Za-z0-9]+$/, 'Game code must be alphanumeric');
 
+/**
+ * Game type validation schema
+ */
+export const gameTypeSchema = z
+  .string()
+  .refine(
+    (val): val is GameType => GAME_TYPES.includes(val as GameType),
+    `Game type must be one of: ${GAME_TYPES.join(', ')}`
+  );
+
+/**
+ * Simon settings schema (bounds keep games playable)
+ */
+export const simonSettingsSchema = z.object({
+  initialSequenceLength: z.number().int().min(1, 'Starting length must be at least 1').max(10, 'Starting length must be at most 10'),
+  timeoutBaseSeconds: z.number().min(3, 'Base timeout must be at least 3 seconds').max(60, 'Base timeout must be at most 60 seconds'),
+  timeoutPerColorSeconds: z.number().min(0, 'Time per color cannot be negative').max(5, 'Time per color must be at most 5 seconds'),
+  showColorDurationMs: z.number().int().min(200, 'Show speed must be at least 200ms').max(2000, 'Show speed must be at most 2000ms'),
+  showColorGapMs: z.number().int().min(50, 'Show gap must be at least 50ms').max(1000, 'Show gap must be at most 1000ms'),
+  lives: z.number().int().min(1, 'Lives must be at least 1').max(5, 'Lives must be at most 5'),
+  mode: z.enum(SIMON_MODES as [SimonMode, ...SimonMode[]]),
+  scoring: z.enum(SIMON_SCORING_MODES as [SimonScoringMode, ...SimonScoringMode[]]),
+  variant: z.enum(SIMON_VARIANTS as [SimonVariant, ...SimonVariant[]]),
+  padCount: z
+    .number()
+    .int()
+    .min(SIMON_CONSTANTS.MIN_PAD_COUNT, `Pad count must be at least ${SIMON_CONSTANTS.MIN_PAD_COUNT}`)
+    .max(SIMON_CONSTANTS.MAX_PAD_COUNT, `Pad count must be at most ${SIMON_CONSTANTS.MAX_PAD_COUNT}`),
+});
+
+/**
+ * Game seed schema (unsigned 32-bit, see shared/random)
+ */
+export const seedSchema = z
+  .number()
+  .int()
+  .min(0, 'Seed cannot be negative')
+  .max(0xFFFFFFFF, 'Seed must fit in 32 bits');
+
+/**
+ * Challenge code schema (base-36 seed, optionally followed by a pad count)
+ */
+export const challengeCodeSchema = z
+  .string()
+  .refine((code) => decodeChallengeCode(code) !== null, 'Invalid challenge code');
+
+/**
+ * Room settings update schema (host sends only changed fields)
+ */
+export const roomSettingsUpdateSchema = z.object({
+  maxPlayers: z
+    .number()
+    .int()
+    .min(1, 'Max players must be at least 1')
+    .max(PLATFORM_CONSTANTS.MAX_PLAYERS, `Max players must be at most ${PLATFORM_CONSTANTS.MAX_PLAYERS}`)
+    .optional(),
+  simon: simonSettingsSchema.partial().strict().optional(),
+  seed: seedSchema.nullable().optional(),
+}).strict();
+
+/**
+ * Color validation schema
+ */
+export const colorSchema = z.enum(COLORS as [Color, ...Color[]]);
+
+/**
+ * Bot difficulty validation schema
+ */
+export const botDifficultySchema = z.enum(BOT_DIFFICULTIES as [BotDifficulty, ...BotDifficulty[]]);
+
+/**
+ * Lobby team validation schema
+ */
+export const teamIdSchema = z.enum(TEAM_IDS as [TeamId, ...TeamId[]]);
+
+// =============================================================================
+// SOCKET EVENT SCHEMAS
+// =============================================================================
+
+/**
+ * Identity claims sent with socket events (checked against the session)
+ */
+export const sessionClaimsSchema = z.object({
+  gameCode: z.string().optional(),
+  playerId: z.string().optional(),
+});
+
+/**
+ * Payload schema for every client → server socket event
+ */
+export const clientEventSchemas: {
+  [E in keyof ClientToServerEvents]: z.ZodType<ClientEventPayload<E>, z.ZodTypeDef, unknown>;
+} = {
+  join_room_socket: sessionClaimsSchema,
+  leave_room: sessionClaimsSchema,
+  start_game: sessionClaimsSchema,
+  restart_game: sessionClaimsSchema,
+  select_game: sessionClaimsSchema.extend({
+    gameType: gameTypeSchema,
+  }),
+  update_settings: sessionClaimsSchema.extend({
+    settings: roomSettingsUpdateSchema,
+  }),
+  add_bot: sessionClaimsSchema.extend({
+    difficulty: botDifficultySchema,
+  }),
+  remove_bot: sessionClaimsSchema.extend({
+    botId: z.string(),
+  }),
+  set_team: sessionClaimsSchema.extend({
+    targetId: z.string(),
+    team: teamIdSchema,
+  }),
+  update_listing: sessionClaimsSchema.extend({
+    isPublic: z.boolean(),
+    name: roomNameSchema.nullable(),
+  }),
+  'simon:submit_sequence': sessionClaimsSchema.extend({
+    sequence: z.array(colorSchema).max(1000, 'Sequence is too long'),
+  }),
+  'simon:submit_input': sessionClaimsSchema.extend({
+    color: colorSchema,
+    inputIndex: z.number().int().min(0, 'Input index cannot be negative'),
+  }),
+  'simon:append_color': sessionClaimsSchema.extend({
+    color: colorSchema,
+  }),
+  'color_race:submit_answer': sessionClaimsSchema.extend({
+    color: colorSchema,
+  }),
+};
+
 /**
  * Create session request schema
  */
 export const createSessionSchema = z.object({
   displayName: displayNameSchema,
   avatarId: avatarIdSchema,
+  challengeCode: challengeCodeSchema.optional(),
 });
 
 /**
@@ -59,12 +227,100 @@ export const joinGameSchema = z.object({
   gameCode: gameCodeSchema,
 });
 
+/**
+ * Quick match request schema
+ */
+export const matchmakingJoinSchema = z.object({
+  displayName: displayNameSchema,
+  avatarId: avatarIdSchema,
+  gameType: gameTypeSchema.default('simon'),
+  byRating: z.boolean().default(false),
+});
+
+/**
+ * Start daily attempt request schema
+ */
+export const startDailySchema = z.object({
+  displayName: displayNameSchema,
+  avatarId: avatarIdSchema,
+});
+
+/**
+ * Submit daily round request schema (empty sequence = timed out)
+ */
+export const submitDailyRoundSchema = z.object({
+  sequence: z.array(colorSchema).max(1000, 'Sequence is too long'),
+});
+
+/**
+ * Daily challenge date schema (UTC day)
+ */
+export const dailyDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+/**
+ * Login request schema
+ */
+export const accountCredentialsSchema = z.object({
+  username: usernameSchema,
+  password: passwordSchema,
+});
+
+/**
+ * Register request schema (email is optional, needed for magic links)
+ */
+export const registerAccountSchema = accountCredentialsSchema.extend({
+  email: z
+    .string()
+    .trim()
+    .max(ACCOUNT_CONSTANTS.MAX_EMAIL_LENGTH, `Email must be at most ${ACCOUNT_CONSTANTS.MAX_EMAIL_LENGTH} characters`)
+    .email('Invalid email address')
+    .optional(),
+});
+
+/**
+ * Magic link request schema
+ */
+export const magicLinkSchema = z.object({
+  username: usernameSchema,
+});
+
+/**
+ * Follow magic link request schema
+ */
+export const verifyMagicLinkSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+/**
+ * Player ID in history URLs (room player or account, both UUIDs)
+ */
+export const playerIdSchema = z.string().uuid('Player ID must be a UUID');
+
+/**
+ * Number of matches to return from a player's history
+ */
+export const historyLimitSchema = z.coerce
+  .number()
+  .int('Limit must be a whole number')
+  .min(1, 'Limit must be at least 1')
+  .max(HISTORY_CONSTANTS.MAX_HISTORY_LIMIT, `Limit must be at most ${HISTORY_CONSTANTS.MAX_HISTORY_LIMIT}`);
+
 // =============================================================================
 // TYPES
 // =============================================================================
 
 export type CreateSessionInput = z.infer<typeof createSessionSchema>;
 export type JoinGameInput = z.infer<typeof joinGameSchema>;
+export type MatchmakingJoinInput = z.infer<typeof matchmakingJoinSchema>;
+export type RoomSettingsUpdateInput = z.infer<typeof roomSettingsUpdateSchema>;
+export type StartDailyInput = z.infer<typeof startDailySchema>;
+export type SubmitDailyRoundInput = z.infer<typeof submitDailyRoundSchema>;
+export type AccountCredentialsInput = z.infer<typeof accountCredentialsSchema>;
+export type RegisterAccountInput = z.infer<typeof registerAccountSchema>;
+export type MagicLinkInput = z.infer<typeof magicLinkSchema>;
+export type VerifyMagicLinkInput = z.infer<typeof verifyMagicLinkSchema>;
 
 // =============================================================================
 // HELPER FUNCTIONS
@@ -84,9 +340,111 @@ export function validateJoinGame(input: unknown): JoinGameInput {
   return joinGameSchema.parse(input);
 }
 
+/**
+ * Validate and parse quick match input
+ */
+export function validateMatchmakingJoin(input: unknown): MatchmakingJoinInput {
+  return matchmakingJoinSchema.parse(input);
+}
+
+/**
+ * Validate and parse start daily attempt input
+ */
+export function validateStartDaily(input: unknown): StartDailyInput {
+  return startDailySchema.parse(input);
+}
+
+/**
+ * Validate and parse submit daily round input
+ */
+export function validateSubmitDailyRound(input: unknown): SubmitDailyRoundInput {
+  return submitDailyRoundSchema.parse(input);
+}
+
+/**
+ * Validate and parse a daily challenge date
+ */
+export function validateDailyDate(input: unknown): string {
+  return dailyDateSchema.parse(input);
+}
+
+/**
+ * Validate and parse login input
+ */
+export function validateAccountCredentials(input: unknown): AccountCredentialsInput {
+  return accountCredentialsSchema.parse(input);
+}
+
+/**
+ * Validate and parse register input
+ */
+export function validateRegisterAccount(input: unknown): RegisterAccountInput {
+  return registerAccountSchema.parse(input);
+}
+
+/**
+ * Validate and parse magic link request input
+ */
+export function validateMagicLink(input: unknown): MagicLinkInput {
+  return magicLinkSchema.parse(input);
+}
+
+/**
+ * Validate and parse follow magic link input
+ */
+export function validateVerifyMagicLink(input: unknown): VerifyMagicLinkInput {
+  return verifyMagicLinkSchema.parse(input);
+}
+
+/**
+ * Validate a player ID from a URL
+ */
+export function validatePlayerId(input: unknown): string {
+  return playerIdSchema.parse(input);
+}
+
+/**
+ * Validate and parse a history limit query parameter
+ */
+export function validateHistoryLimit(input: unknown): number {
+  return historyLimitSchema.parse(input);
+}
+
+/**
+ * Validate and parse a room settings update
+ */
+export function validateRoomSettingsUpdate(input: unknown): RoomSettingsUpdateInput {
+  return roomSettingsUpdateSchema.parse(input);
+}
+
+/**
+ * Validate a client socket event payload
+ */
+export function parseClientEvent<E extends keyof ClientToServerEvents>(
+  event: E,
+  input: unknown
+): z.SafeParseReturnType<unknown, ClientEventPayload<E>> {
+  const schema: z.ZodType<ClientEventPayload<E>, z.ZodTypeDef, unknown> = clientEventSchemas[event];
+  return schema.safeParse(input);
+}
+
+/**
+ * Check if an event name is a known client socket event
+ */
+export function isClientEvent(event: string): event is keyof ClientToServerEvents {
+  return Object.prototype.hasOwnProperty.call(clientEventSchemas, event);
+}
+
 /**
  * Check if a game code is valid format
  */
 export function isValidGameCode(code: string): boolean {
   return gameCodeSchema.safeParse(code).success;
 }
+
+/**
+ * Check if a game type is one the server can start
+ */
+export function isValidGameType(gameType: unknown): gameType is GameType {
+  return gameTypeSchema.safeParse(gameType).success;
+}
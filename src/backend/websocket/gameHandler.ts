@@ -2,68 +2,74 @@
  * WebSocket Game Handler
  * 
  * Handles real-time game events via Socket.io.
- * Platform events are handled here, game-specific events are added separately.
+ * Platform events are handled here; game-specific events are routed
+ * to the registered game modules (see ../games).
  */
 
-import { Server, Socket } from 'socket.io';
-import cookie from 'cookie';
-import { verifyToken } from '../utils/auth';
-import { gameService } from '../services/gameService';
-import { 
-  initializeColorRaceGame, 
-  processRound, 
-  determineWinner 
-} from '../utils/colorRaceLogic';
+import { gameService, getActivePlayers, getHumanPlayers, toPublicPlayer, toRoomView } from '../services/gameService';
+import { matchmakingService } from '../services/matchmakingService';
 import {
-  initializeSimonGame,
-  validateInput,
-  validateSequence,
-  eliminatePlayer,
-  advanceToNextRound,
-  shouldGameEnd,
-  updatePlayerProgress,
-  calculateTimeoutSeconds,
-  calculateTimeoutMs,
-  processRoundSubmissions,
-  haveAllPlayersSubmitted,
-} from '../utils/simonLogic';
-import { PLATFORM_CONSTANTS, COLOR_RACE_CONSTANTS, SIMON_CONSTANTS } from '@shared/types';
-import type { Player } from '@shared/types';
-import type { ColorRaceGameState, PlayerAnswer, SimonGameState, Color } from '@shared/types';
-
-// =============================================================================
-// TYPES
-// =============================================================================
-
-interface SocketWithSession extends Socket {
-  playerId?: string;
-  gameCode?: string;
-  displayName?: string;
-}
+  getAllGameModules,
+  getGameModule,
+  createGameContext,
+  dispatchGameEvent,
+  clearGameTimers,
+  clearAllGameTimers,
+} from '../games';
+import { PLATFORM_CONSTANTS } from '@shared/types';
+import type { GameClientEvents, RoomSettings } from '@shared/types';
+import { socketAuthMiddleware, resolveSession } from './socketAuth';
+import type { SocketWithSession } from './socketAuth';
+import { onClientEvent, emitSocketError } from './socketEvents';
+import type { TypedServer } from './socketEvents';
+import { INSTANCE_ID, InProcessMessageBus, createRoomRouter } from '../cluster';
+import type { OwnerCommand, RoomRouter } from '../cluster';
 
 // Track disconnect timeouts for cleanup
 const disconnectTimeouts = new Map<string, NodeJS.Timeout>();
 
-// Track Simon game timeouts (Step 3)
-const simonTimeouts = new Map<string, NodeJS.Timeout>();
+// Track countdown intervals so a shutdown can stop them
+const countdownIntervals = new Map<string, NodeJS.Timeout>();
+
+let cleanupInterval: NodeJS.Timeout | null = null;
+
+// Set once the server starts draining for a restart
+let shuttingDown = false;
 
 // =============================================================================
 // INITIALIZATION
 // =============================================================================
 
+/**
+ * Router for a standalone instance (owns every room it creates)
+ */
+function createLocalRouter(): RoomRouter {
+  return createRoomRouter(new InProcessMessageBus(), INSTANCE_ID);
+}
+
 /**
  * Initialize WebSocket handlers
  */
-export function initializeGameHandlers(io: Server): void {
+export function initializeGameHandlers(io: TypedServer, router: RoomRouter = createLocalRouter()): void {
+  // Only sockets with a valid session cookie may connect
+  io.use(socketAuthMiddleware);
+  
+  // Run work other instances forward for rooms we own
+  router.onCommand((command) => handleOwnerCommand(io, command));
+  
+  // Quick match rooms start themselves once full or when their wait runs out
+  matchmakingService.onRoomReady((gameCode) => startMatchmakingRoom(io, router, gameCode));
+  matchmakingService.onSeatReleased((gameCode, playerId) => announcePlayerRemoved(io, gameCode, playerId));
+  
   io.on('connection', (socket: SocketWithSession) => {
     console.log(`🔌 Socket connected: ${socket.id}`);
     
-    // Try to auto-reconnect from cookie
+    // Try to auto-reconnect from the pinned session
     handleAutoReconnect(io, socket);
     
     // Register event handlers
-    registerPlatformHandlers(io, socket);
-    registerGameHandlers(io, socket);
+    registerPlatformHandlers(io, socket, router);
+    registerGameHandlers(io, socket, router);
     
     // Handle disconnect
     socket.on('disconnect', () => {
@@ -82,21 +88,14 @@ export function initializeGameHandlers(io: Server): void {
 // =============================================================================
 
 /**
- * Attempt to auto-reconnect player from session cookie
+ * Attempt to auto-reconnect player from the session pinned at handshake
  */
-function handleAutoReconnect(_io: Server, socket: SocketWithSession): void {
+function handleAutoReconnect(io: TypedServer, socket: SocketWithSession): void {
   try {
-    const cookieHeader = socket.request.headers.cookie;
-    if (!cookieHeader) return;
-    
-    const cookies = cookie.parse(cookieHeader);
-    const token = cookies.session;
-    if (!token) return;
+    const session = resolveSession(socket);
+    if (!session) return;
     
-    const payload = verifyToken(token);
-    if (!payload) return;
-    
-    const { playerId, gameCode, displayName } = payload;
+    const { playerId, gameCode } = session;
     
     // Check if room still exists
     const room = gameService.getRoom(gameCode);
@@ -109,9 +108,7 @@ function handleAutoReconnect(_io: Server, socket: SocketWithSession): void {
     // Update socket ID and mark connected
     gameService.updateSocketId(gameCode, playerId, socket.id);
     
-    // Store session info on socket
-    socket.playerId = playerId;
-    socket.gameCode = gameCode;
+    const displayName = player.displayName;
     socket.displayName = displayName;
     
     // Join socket room
@@ -132,7 +129,11 @@ function handleAutoReconnect(_io: Server, socket: SocketWithSession): void {
     });
     
     // Send current room state to reconnected player
-    socket.emit('room_state', room);
+    socket.emit('room_state', toRoomView(room));
+    sendGameSnapshot(io, socket, gameCode, playerId);
+    
+    // A quick match room may have been waiting for this player to connect
+    matchmakingService.refresh(gameCode);
     
     console.log(`✅ Auto-reconnected: ${displayName} to room ${gameCode}`);
   } catch (error) {
@@ -140,6 +141,23 @@ function handleAutoReconnect(_io: Server, socket: SocketWithSession): void {
   }
 }
 
+/**
+ * Resend the running game's state so a returning player resumes mid-round
+ */
+function sendGameSnapshot(io: TypedServer, socket: SocketWithSession, gameCode: string, playerId: string): void {
+  const room = gameService.getRoom(gameCode);
+  if (!room || room.status !== 'active' || !room.gameState) return;
+  
+  const module = getGameModule(room.gameType);
+  if (!module?.snapshot) return;
+  
+  const ctx = createGameContext(io, gameCode, module.id);
+  if (!ctx) return;
+  
+  socket.emit('game_snapshot', module.snapshot(ctx, playerId));
+  console.log(`📸 Sent ${room.gameType} snapshot to ${socket.displayName} in room ${gameCode}`);
+}
+
 // =============================================================================
 // PLATFORM EVENT HANDLERS
 // =============================================================================
@@ -147,62 +165,73 @@ function handleAutoReconnect(_io: Server, socket: SocketWithSession): void {
 /**
  * Register platform event handlers
  */
-function registerPlatformHandlers(io: Server, socket: SocketWithSession): void {
+function registerPlatformHandlers(io: TypedServer, socket: SocketWithSession, router: RoomRouter): void {
   /**
    * Join room via WebSocket
    * Called after HTTP session is created
    */
-  socket.on('join_room_socket', (data: { gameCode: string; playerId: string }) => {
+  onClientEvent(socket, 'join_room_socket', (data) => {
     try {
-      const { gameCode, playerId } = data;
+      const session = resolveSession(socket, data);
+      if (!session) {
+        emitSocketError(socket, 'SESSION_MISMATCH', 'Session mismatch');
+        return;
+      }
+      
+      const { gameCode, playerId } = session;
       
       // Verify room exists
       const room = gameService.getRoom(gameCode);
       if (!room) {
-        socket.emit('error', { message: 'Room not found' });
+        emitSocketError(socket, 'ROOM_NOT_FOUND', 'Room not found');
         return;
       }
       
       // Verify player is in room
       const player = room.players.find(p => p.id === playerId);
       if (!player) {
-        socket.emit('error', { message: 'Player not in room' });
+        emitSocketError(socket, 'NOT_IN_ROOM', 'Player not in room');
         return;
       }
       
       // Update socket ID
       gameService.updateSocketId(gameCode, playerId, socket.id);
       
-      // Store session info on socket
-      socket.playerId = playerId;
-      socket.gameCode = gameCode;
+      // Identity is pinned at handshake; only the display name is refreshed
       socket.displayName = player.displayName;
       
       // Join socket room
       socket.join(gameCode);
       
       // Send initial room state to this player
-      socket.emit('room_state', room);
+      socket.emit('room_state', toRoomView(room));
+      sendGameSnapshot(io, socket, gameCode, playerId);
       
       // Broadcast updated room state to ALL players (including this one)
-      io.to(gameCode).emit('room_state_update', room);
+      io.to(gameCode).emit('room_state_update', toRoomView(room));
       
       // Also notify others for UI feedback (optional)
-      socket.to(gameCode).emit('player_joined', player);
+      socket.to(gameCode).emit('player_joined', toPublicPlayer(player));
+      
+      // A quick match room may have been waiting for this player to connect
+      matchmakingService.refresh(gameCode);
       
       console.log(`🏠 Socket joined: ${player.displayName} in room ${gameCode} (${room.players.length} players)`);
     } catch (error) {
       console.error('❌ join_room_socket error:', error);
-      socket.emit('error', { message: 'Failed to join room' });
+      emitSocketError(socket, 'SERVER_ERROR', 'Failed to join room');
     }
   });
   
   /**
    * Leave room explicitly
    */
-  socket.on('leave_room', (data: { gameCode: string; playerId: string }) => {
+  onClientEvent(socket, 'leave_room', (data) => {
     try {
-      const { gameCode, playerId } = data;
+      const session = resolveSession(socket, data);
+      if (!session) return;
+      
+      const { gameCode, playerId } = session;
       
       // Remove player from room
       const removed = gameService.removePlayer(gameCode, playerId);
@@ -211,13 +240,16 @@ function registerPlatformHandlers(io: Server, socket: SocketWithSession): void {
         // Leave socket room
         socket.leave(gameCode);
         
+        // A quick match room may no longer have enough players to start
+        matchmakingService.refresh(gameCode);
+        
         // Notify others
         io.to(gameCode).emit('player_left', { playerId });
         
         // Broadcast updated room state to remaining players
         const room = gameService.getRoom(gameCode);
         if (room) {
-          io.to(gameCode).emit('room_state_update', room);
+          io.to(gameCode).emit('room_state_update', toRoomView(room));
         } else {
           // Room is empty/closed
           io.to(gameCode).emit('room_closed');
@@ -226,7 +258,7 @@ function registerPlatformHandlers(io: Server, socket: SocketWithSession): void {
         console.log(`👋 ${socket.displayName} left room ${gameCode} (${room?.players.length || 0} players remaining)`);
       }
       
-      // Clear socket session
+      // Clear socket session (this connection can no longer act as the player)
       socket.playerId = undefined;
       socket.gameCode = undefined;
       socket.displayName = undefined;
@@ -238,9 +270,15 @@ function registerPlatformHandlers(io: Server, socket: SocketWithSession): void {
   /**
    * Host starts the game
    */
-  socket.on('start_game', (data: { gameCode: string; playerId: string }) => {
+  onClientEvent(socket, 'start_game', (data) => {
     try {
-      const { gameCode, playerId } = data;
+      const session = resolveSession(socket, data);
+      if (!session) {
+        emitSocketError(socket, 'SESSION_MISMATCH', 'Session mismatch');
+        return;
+      }
+      
+      const { gameCode, playerId } = session;
       console.log(`🎮 DEBUG start_game: gameCode=${gameCode}, playerId=${playerId}`);
       
       // Verify room exists
@@ -248,7 +286,7 @@ function registerPlatformHandlers(io: Server, socket: SocketWithSession): void {
       console.log(`🎮 DEBUG room exists: ${!!room}`);
       if (!room) {
         console.error(`❌ Room not found: ${gameCode}`);
-        socket.emit('error', { message: 'Room not found' });
+        emitSocketError(socket, 'ROOM_NOT_FOUND', 'Room not found');
         return;
       }
       
@@ -257,7 +295,7 @@ function registerPlatformHandlers(io: Server, socket: SocketWithSession): void {
       console.log(`🎮 DEBUG player found: ${!!player}, isHost: ${player?.isHost}`);
       if (!player?.isHost) {
         console.error(`❌ Player ${playerId} is not host`);
-        socket.emit('error', { message: 'Only host can start the game' });
+        emitSocketError(socket, 'NOT_HOST', 'Only host can start the game');
         return;
       }
       
@@ -265,7 +303,26 @@ function registerPlatformHandlers(io: Server, socket: SocketWithSession): void {
       console.log(`🎮 DEBUG room status: ${room.status}`);
       if (room.status !== 'waiting') {
         console.error(`❌ Room not in waiting state: ${room.status}`);
-        socket.emit('error', { message: 'Game already started' });
+        emitSocketError(socket, 'INVALID_STATE', 'Game already started');
+        return;
+      }
+      
+      // Let the game reject a lobby it can't be played with
+      const startError = getGameModule(room.gameType)?.validateStart?.(getActivePlayers(room), room.settings);
+      if (startError) {
+        emitSocketError(socket, 'INVALID_SETTINGS', startError);
+        return;
+      }
+      
+      // Don't start games that the restart would cut short
+      if (shuttingDown) {
+        emitSocketError(socket, 'INVALID_STATE', 'Server is restarting');
+        return;
+      }
+      
+      // Only the owning instance runs the countdown and game timers
+      if (!router.isOwner(room)) {
+        router.forward(room, { type: 'start_countdown', gameCode });
         return;
       }
       
@@ -276,650 +333,500 @@ function registerPlatformHandlers(io: Server, socket: SocketWithSession): void {
       console.log(`⏳ Countdown started for room: ${gameCode}`);
     } catch (error) {
       console.error('❌ start_game error:', error);
-      socket.emit('error', { message: 'Failed to start game' });
+      emitSocketError(socket, 'SERVER_ERROR', 'Failed to start game');
     }
   });
 
   /**
-   * Restart game (play again)
+   * Host selects which game the room will play
    */
-  socket.on('restart_game', (data: { gameCode: string; playerId: string }) => {
+  onClientEvent(socket, 'select_game', (data) => {
     try {
-      const { gameCode, playerId } = data;
-      console.log(`🔄 restart_game: gameCode=${gameCode}, playerId=${playerId}`);
+      const session = resolveSession(socket, data);
+      if (!session) {
+        emitSocketError(socket, 'SESSION_MISMATCH', 'Session mismatch');
+        return;
+      }
+      
+      const { gameCode, playerId } = session;
+      const { gameType } = data;  // Validated against GAME_TYPES
       
       // Verify room exists
       const room = gameService.getRoom(gameCode);
       if (!room) {
-        console.error(`❌ Room not found: ${gameCode}`);
-        socket.emit('error', { message: 'Room not found' });
+        emitSocketError(socket, 'ROOM_NOT_FOUND', 'Room not found');
         return;
       }
       
-      // Reset room to waiting state
-      room.status = 'waiting';
-      room.gameState = null;
+      // Verify player is host
+      const player = room.players.find(p => p.id === playerId);
+      if (!player?.isHost) {
+        emitSocketError(socket, 'NOT_HOST', 'Only host can select the game');
+        return;
+      }
       
-      console.log(`✅ Room ${gameCode} reset to waiting state`);
+      // Game can only be changed from the lobby
+      if (room.status !== 'waiting') {
+        emitSocketError(socket, 'INVALID_STATE', 'Game already started');
+        return;
+      }
       
-      // Broadcast updated room state to all players
-      io.to(gameCode).emit('room_state_update', {
-        ...room,
-        players: room.players.map(p => ({
-          id: p.id,
-          displayName: p.displayName,
-          avatarId: p.avatarId,
-          isHost: p.isHost,
-        })),
-      });
+      gameService.updateGameType(gameCode, gameType);
       
-      // Also emit game_restarted event so clients know to reset
-      io.to(gameCode).emit('game_restarted', { gameCode });
+      // Broadcast so every lobby shows the selected game
+      io.to(gameCode).emit('room_state_update', toRoomView(room));
       
+      console.log(`🎲 ${player.displayName} selected ${gameType} for room ${gameCode}`);
     } catch (error) {
-      console.error('❌ restart_game error:', error);
-      socket.emit('error', { message: 'Failed to restart game' });
+      console.error('❌ select_game error:', error);
+      emitSocketError(socket, 'SERVER_ERROR', 'Failed to select game');
     }
   });
-}
-
-// =============================================================================
-// GAME EVENT HANDLERS (Color Race)
-// =============================================================================
-
-// Track round answers for each game
-const roundAnswers = new Map<string, PlayerAnswer[]>();
 
-/**
- * Register game-specific event handlers
- */
-function registerGameHandlers(io: Server, socket: SocketWithSession): void {
   /**
-   * Color Race: Submit answer
+   * Host updates room settings (timing, starting length, max players)
    */
-  socket.on('color_race:submit_answer', (data: { gameCode: string; playerId: string; color: import('@shared/types').Color }) => {
+  onClientEvent(socket, 'update_settings', (data) => {
     try {
-      const { gameCode, playerId, color } = data;
+      const session = resolveSession(socket, data);
+      if (!session) {
+        emitSocketError(socket, 'SESSION_MISMATCH', 'Session mismatch');
+        return;
+      }
+      
+      const { gameCode, playerId } = session;
       
       // Verify room exists
       const room = gameService.getRoom(gameCode);
-      if (!room || room.status !== 'active') {
+      if (!room) {
+        emitSocketError(socket, 'ROOM_NOT_FOUND', 'Room not found');
         return;
       }
       
-      // Get game state
-      const gameState = room.gameState as any;
-      if (!gameState || gameState.gameType !== 'color_race') {
+      // Verify player is host
+      const player = room.players.find(p => p.id === playerId);
+      if (!player?.isHost) {
+        emitSocketError(socket, 'NOT_HOST', 'Only host can change settings');
         return;
       }
       
-      // Check if player already answered this round
-      const answers = roundAnswers.get(gameCode) || [];
-      if (answers.some(a => a.playerId === playerId)) {
-        return; // Already answered
+      // Settings are locked once the game starts
+      if (room.status !== 'waiting') {
+        emitSocketError(socket, 'INVALID_STATE', 'Game already started');
+        return;
       }
       
-      // Record answer with server timestamp
-      const answer = {
-        playerId,
-        color,
-        timestamp: Date.now(),
+      // Merge validated changes into current settings
+      const update = data.settings;
+      const settings: RoomSettings = {
+        ...room.settings,
+        ...update,
+        simon: { ...room.settings.simon, ...update.simon },
       };
       
-      answers.push(answer);
-      roundAnswers.set(gameCode, answers);
+      gameService.updateSettings(gameCode, settings);
+      matchmakingService.refresh(gameCode); // A smaller quick match room may now be full
       
-      // Check if all connected players have answered
-      const connectedPlayers = room.players.filter(p => p.connected);
+      // Broadcast so every lobby shows the new settings
+      io.to(gameCode).emit('room_state_update', toRoomView(room));
       
-      if (answers.length >= connectedPlayers.length) {
-        // Process round
-        processColorRaceRound(io, gameCode, room, gameState, answers);
-        
-        // Clear answers for next round
-        roundAnswers.set(gameCode, []);
+      console.log(`⚙️ ${player.displayName} updated settings for room ${gameCode}`);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Max players is below current player count') {
+        emitSocketError(socket, 'INVALID_SETTINGS', error.message);
+        return;
       }
+      console.error('❌ update_settings error:', error);
+      emitSocketError(socket, 'SERVER_ERROR', 'Failed to update settings');
+    }
+  });
+
+  /**
+   * Host adds a bot to fill a seat
+   */
+  onClientEvent(socket, 'add_bot', (data) => {
+    try {
+      const session = resolveSession(socket, data);
+      if (!session) {
+        emitSocketError(socket, 'SESSION_MISMATCH', 'Session mismatch');
+        return;
+      }
+      
+      const { gameCode, playerId } = session;
+      
+      // Verify room exists
+      const room = gameService.getRoom(gameCode);
+      if (!room) {
+        emitSocketError(socket, 'ROOM_NOT_FOUND', 'Room not found');
+        return;
+      }
+      
+      // Verify player is host
+      const player = room.players.find(p => p.id === playerId);
+      if (!player?.isHost) {
+        emitSocketError(socket, 'NOT_HOST', 'Only host can add bots');
+        return;
+      }
+      
+      const bot = gameService.addBot(gameCode, data.difficulty);
+      matchmakingService.refresh(gameCode);
+      
+      // Bots join like players, minus the socket
+      io.to(gameCode).emit('room_state_update', toRoomView(room));
+      io.to(gameCode).emit('player_joined', toPublicPlayer(bot));
+      
+      console.log(`🤖 ${player.displayName} added ${bot.displayName} (${data.difficulty}) to room ${gameCode}`);
     } catch (error) {
-      console.error('❌ color_race:submit_answer error:', error);
+      if (error instanceof Error && error.message === 'Room is full') {
+        emitSocketError(socket, 'INVALID_STATE', error.message);
+        return;
+      }
+      if (error instanceof Error && error.message === 'Game already in progress') {
+        emitSocketError(socket, 'INVALID_STATE', 'Game already started');
+        return;
+      }
+      console.error('❌ add_bot error:', error);
+      emitSocketError(socket, 'SERVER_ERROR', 'Failed to add bot');
     }
   });
   
   /**
-   * Simon: Submit complete sequence (Step 2, 3 & 4 - Competitive Multiplayer)
+   * Host removes a bot from the lobby
    */
-  socket.on('simon:submit_sequence', (data: { gameCode: string; playerId: string; sequence: Color[] }) => {
+  onClientEvent(socket, 'remove_bot', (data) => {
     try {
-      const { gameCode, playerId, sequence } = data;
+      const session = resolveSession(socket, data);
+      if (!session) {
+        emitSocketError(socket, 'SESSION_MISMATCH', 'Session mismatch');
+        return;
+      }
+      
+      const { gameCode, playerId } = session;
       
       // Verify room exists
       const room = gameService.getRoom(gameCode);
-      if (!room || room.status !== 'active') {
+      if (!room) {
+        emitSocketError(socket, 'ROOM_NOT_FOUND', 'Room not found');
         return;
       }
       
-      // Get game state
-      let gameState = room.gameState as SimonGameState;
-      if (!gameState || gameState.gameType !== 'simon') {
+      // Verify player is host
+      const player = room.players.find(p => p.id === playerId);
+      if (!player?.isHost) {
+        emitSocketError(socket, 'NOT_HOST', 'Only host can remove bots');
         return;
       }
       
-      // Verify player is still playing (Step 4: Check status)
-      const playerState = gameState.playerStates[playerId];
-      if (!playerState || playerState.status !== 'playing') {
-        console.log(`⚠️ Player ${playerId} tried to submit but is not active`);
+      // Bots keep their seat once the game starts
+      if (room.status !== 'waiting') {
+        emitSocketError(socket, 'INVALID_STATE', 'Game already started');
         return;
       }
       
-      // Check if already submitted
-      if (gameState.submissions[playerId]) {
-        console.log(`⚠️ Player ${playerId} already submitted`);
+      if (gameService.removeBot(gameCode, data.botId)) {
+        matchmakingService.refresh(gameCode);
+        io.to(gameCode).emit('player_left', { playerId: data.botId });
+        io.to(gameCode).emit('room_state_update', toRoomView(room));
+        console.log(`🤖 ${player.displayName} removed a bot from room ${gameCode}`);
+      }
+    } catch (error) {
+      console.error('❌ remove_bot error:', error);
+      emitSocketError(socket, 'SERVER_ERROR', 'Failed to remove bot');
+    }
+  });
+  
+  /**
+   * Move a player to a team in the lobby (host: anyone, players: themselves)
+   */
+  onClientEvent(socket, 'set_team', (data) => {
+    try {
+      const session = resolveSession(socket, data);
+      if (!session) {
+        emitSocketError(socket, 'SESSION_MISMATCH', 'Session mismatch');
         return;
       }
       
-      // Get player info
-      const player = room.players.find(p => p.id === playerId);
-      const playerName = player?.displayName || 'Unknown';
-      
-      // Validate sequence
-      const isCorrect = validateSequence(gameState, sequence);
-      const timestamp = Date.now();
-      
-      // Step 4: Record submission (don't reveal correctness yet)
-      gameState.submissions[playerId] = {
-        playerId,
-        sequence,
-        timestamp,
-        isCorrect,
-      };
-      gameService.updateGameState(gameCode, gameState);
+      const { gameCode, playerId } = session;
       
-      console.log(`📝 ${playerName} submitted (${isCorrect ? 'correct' : 'wrong'}) at ${timestamp}`);
+      // Verify room exists
+      const room = gameService.getRoom(gameCode);
+      if (!room) {
+        emitSocketError(socket, 'ROOM_NOT_FOUND', 'Room not found');
+        return;
+      }
       
-      // Broadcast that player submitted (Step 4: Don't reveal correctness)
-      io.to(gameCode).emit('simon:player_submitted', {
-        playerId,
-        playerName,
-      });
+      // Only the host can move other players
+      const player = room.players.find(p => p.id === playerId);
+      if (data.targetId !== playerId && !player?.isHost) {
+        emitSocketError(socket, 'NOT_HOST', 'Only host can move other players');
+        return;
+      }
       
-      // Step 4: Check if all active players have submitted
-      if (haveAllPlayersSubmitted(gameState)) {
-        console.log(`✅ All players submitted! Processing round ${gameState.round}...`);
-        
-        // Cancel timeout (Step 3)
-        const existingTimeout = simonTimeouts.get(gameCode);
-        if (existingTimeout) {
-          clearTimeout(existingTimeout);
-          simonTimeouts.delete(gameCode);
-        }
-        
-        // Process round (Step 4)
-        processSimonRound(io, gameCode);
+      const updatedRoom = gameService.setPlayerTeam(gameCode, data.targetId, data.team);
+      if (updatedRoom) {
+        io.to(gameCode).emit('room_state_update', toRoomView(updatedRoom));
+        console.log(`👥 ${player?.displayName} moved ${data.targetId} to team ${data.team} in room ${gameCode}`);
       }
     } catch (error) {
-      console.error('❌ simon:submit_sequence error:', error);
+      if (error instanceof Error && error.message === 'Game already in progress') {
+        emitSocketError(socket, 'INVALID_STATE', 'Game already started');
+        return;
+      }
+      console.error('❌ set_team error:', error);
+      emitSocketError(socket, 'SERVER_ERROR', 'Failed to change team');
     }
   });
   
   /**
-   * Simon: Submit input (single color in sequence) - For Step 4 elimination
-   * This is the old per-color input, keeping for Step 4+
+   * Host lists the room in the lobby browser (or hides it) and names it
    */
-  socket.on('simon:submit_input', (data: { gameCode: string; playerId: string; color: Color; inputIndex: number }) => {
+  onClientEvent(socket, 'update_listing', (data) => {
     try {
-      const { gameCode, playerId, color, inputIndex } = data;
+      const session = resolveSession(socket, data);
+      if (!session) {
+        emitSocketError(socket, 'SESSION_MISMATCH', 'Session mismatch');
+        return;
+      }
+      
+      const { gameCode, playerId } = session;
       
       // Verify room exists
       const room = gameService.getRoom(gameCode);
-      if (!room || room.status !== 'active') {
+      if (!room) {
+        emitSocketError(socket, 'ROOM_NOT_FOUND', 'Room not found');
         return;
       }
       
-      // Get game state
-      const gameState = room.gameState as SimonGameState;
-      if (!gameState || gameState.gameType !== 'simon') {
+      // Verify player is host
+      const player = room.players.find(p => p.id === playerId);
+      if (!player?.isHost) {
+        emitSocketError(socket, 'NOT_HOST', 'Only host can change the room listing');
         return;
       }
       
-      // Verify player is still playing
-      const playerState = gameState.playerStates[playerId];
-      if (!playerState || playerState.status !== 'playing') {
+      gameService.updateListing(gameCode, { isPublic: data.isPublic, name: data.name });
+      
+      // Broadcast so every lobby shows the listing
+      io.to(gameCode).emit('room_state_update', toRoomView(room));
+      
+      console.log(`🌐 ${player.displayName} made room ${gameCode} ${data.isPublic ? `public as "${data.name ?? ''}"` : 'private'}`);
+    } catch (error) {
+      console.error('❌ update_listing error:', error);
+      emitSocketError(socket, 'SERVER_ERROR', 'Failed to update room listing');
+    }
+  });
+  
+  /**
+   * Restart game (play again)
+   */
+  onClientEvent(socket, 'restart_game', (data) => {
+    try {
+      const session = resolveSession(socket, data);
+      if (!session) {
+        emitSocketError(socket, 'SESSION_MISMATCH', 'Session mismatch');
         return;
       }
       
-      // Validate input
-      const isCorrect = validateInput(gameState, playerId, color, inputIndex);
+      const { gameCode, playerId } = session;
+      console.log(`🔄 restart_game: gameCode=${gameCode}, playerId=${playerId}`);
       
-      if (!isCorrect) {
-        // Wrong input - eliminate player
-        const newState = eliminatePlayer(gameState, playerId, gameState.round);
-        gameService.updateGameState(gameCode, newState);
-        
-        // Get player info
-        const player = room.players.find(p => p.id === playerId);
-        
-        // Broadcast elimination
-        io.to(gameCode).emit('simon:player_eliminated', {
-          playerId,
-          playerName: player?.displayName || 'Unknown',
-          reason: 'wrong_color',
-        });
-        
-        // Check if game should end
-        if (shouldGameEnd(newState)) {
-          finishSimonGame(io, gameCode, newState, room);
-        }
-        
+      // Verify room exists
+      const room = gameService.getRoom(gameCode);
+      if (!room) {
+        console.error(`❌ Room not found: ${gameCode}`);
+        emitSocketError(socket, 'ROOM_NOT_FOUND', 'Room not found');
         return;
       }
       
-      // Correct input - update progress
-      let newState = updatePlayerProgress(gameState, playerId);
-      gameService.updateGameState(gameCode, newState);
+      // Verify player is in room
+      const player = room.players.find(p => p.id === playerId);
+      if (!player) {
+        emitSocketError(socket, 'NOT_IN_ROOM', 'Player not in room');
+        return;
+      }
       
-      // Emit correct feedback
-      io.to(gameCode).emit('simon:input_correct', {
-        playerId,
-        index: inputIndex,
-      });
+      // Spectators can't restart a game they aren't playing
+      if (player.role === 'spectator') {
+        emitSocketError(socket, 'SPECTATOR', 'Spectators cannot restart the game');
+        return;
+      }
       
-      // Check if player completed the sequence
-      const updatedPlayerState = newState.playerStates[playerId];
-      if (updatedPlayerState.currentInputIndex >= newState.sequence.length) {
-        // Player completed this round!
-        console.log(`✅ Player ${playerId} completed round ${newState.round}`);
-        
-        // Check if all active players have completed
-        const allComplete = Object.values(newState.playerStates).every(state => 
-          state.status !== 'playing' || state.currentInputIndex >= newState.sequence.length
-        );
-        
-        if (allComplete) {
-          // All players completed - advance to next round
-          setTimeout(() => {
-            advanceSimonRound(io, gameCode);
-          }, 2000);
-        }
+      // The finished game's phase timers live on the owning instance
+      if (!router.isOwner(room)) {
+        router.forward(room, { type: 'restart_game', gameCode });
+        return;
       }
+      
+      restartGame(io, gameCode);
     } catch (error) {
-      console.error('❌ simon:submit_input error:', error);
+      console.error('❌ restart_game error:', error);
+      emitSocketError(socket, 'SERVER_ERROR', 'Failed to restart game');
     }
   });
 }
 
 // =============================================================================
-// COUNTDOWN
+// GAME EVENT HANDLERS
 // =============================================================================
 
 /**
- * Start countdown before game begins
+ * Register client events for every game module.
+ * Events only reach a module while its game is active in the sender's room,
+ * and always act as the player pinned on the socket.
  */
-function startCountdown(io: Server, gameCode: string): void {
-  gameService.updateRoomStatus(gameCode, 'countdown');
-  
-  let count = 3;
+function registerGameHandlers(io: TypedServer, socket: SocketWithSession, router: RoomRouter): void {
+  const events = new Set(
+    getAllGameModules().flatMap(module => Object.keys(module.handlers) as Array<keyof GameClientEvents>)
+  );
   
-  const interval = setInterval(() => {
-    io.to(gameCode).emit('countdown', { count });
-    
-    if (count === 0) {
-      clearInterval(interval);
-      
-      // Update status to active
-      gameService.updateRoomStatus(gameCode, 'active');
-      
-      // TODO: Determine game type (for now, default to Simon)
-      // In future: Pass game type from client or room settings
-      const gameType = 'simon'; // or 'color_race'
-      
-      const room = gameService.getRoom(gameCode);
-      if (!room) return;
-      
-      if (gameType === 'simon') {
-        // Initialize Simon game
-        const gameState = initializeSimonGame(room.players);
-        gameService.updateGameState(gameCode, gameState);
+  events.forEach(event => {
+    // Payload is checked against the event's schema before reaching the handler
+    onClientEvent(socket, event, (data) => {
+      try {
+        // Ignore events without a session or claiming another player/room
+        const session = resolveSession(socket, data);
+        if (!session) return;
         
-        console.log(`🎮 Simon started in room: ${gameCode}`);
+        const room = gameService.getRoom(session.gameCode);
+        if (!room) return;
         
-        // Start showing sequence after brief delay
-        setTimeout(() => {
-          showSimonSequence(io, gameCode, gameState);
-        }, 500);
-      } else {
-        // Initialize Color Race game
-        const gameState = initializeColorRaceGame(room.players);
-        gameService.updateGameState(gameCode, gameState);
-        
-        // Start first round
-        io.to(gameCode).emit('color_race:new_round', {
-          round: gameState.round,
-          color: gameState.currentColor,
-          totalRounds: gameState.totalRounds,
-        });
+        // Game state and timers live on the owning instance
+        if (!router.isOwner(room)) {
+          router.forward(room, { type: 'game_event', ...session, event, data });
+          return;
+        }
         
-        console.log(`🎮 Color Race started in room: ${gameCode}`);
+        dispatchGameEvent(io, session.gameCode, session.playerId, event, data);
+      } catch (error) {
+        console.error(`❌ ${event} error:`, error);
       }
-    }
-    
-    count--;
-  }, 1000);
+    });
+  });
 }
 
-// =============================================================================
-// COLOR RACE GAME LOGIC
-// =============================================================================
-
 /**
- * Process a Color Race round
+ * Run a command another instance forwarded for a room we own
  */
-function processColorRaceRound(
-  io: Server,
-  gameCode: string,
-  room: any,
-  gameState: ColorRaceGameState,
-  answers: PlayerAnswer[]
-): void {
-  // Process the round
-  const newState = processRound(gameState, answers);
-  
-  // Update game state
-  gameService.updateGameState(gameCode, newState);
-  
-  // Get winner info for this round
-  const roundWinner = room.players.find((p: Player) => p.id === newState.roundWinner);
-  
-  // Broadcast round result
-  io.to(gameCode).emit('color_race:round_result', {
-    winnerId: newState.roundWinner,
-    winnerName: roundWinner?.displayName || null,
-    scores: newState.scores,
-  });
-  
-  // Check if game finished
-  if (newState.phase === 'finished') {
-    const winner = determineWinner(newState);
-    const winnerPlayer = room.players.find((p: Player) => p.id === winner?.winnerId);
-    
-    io.to(gameCode).emit('color_race:game_finished', {
-      winnerId: winner!.winnerId,
-      winnerName: winnerPlayer!.displayName,
-      finalScores: newState.scores,
-    });
-    
-    gameService.updateRoomStatus(gameCode, 'finished');
-    console.log(`🏆 Color Race finished in room ${gameCode} - Winner: ${winnerPlayer?.displayName}`);
-  } else {
-    // Start next round after delay
-    setTimeout(() => {
-      const currentRoom = gameService.getRoom(gameCode);
-      if (currentRoom && currentRoom.status === 'active') {
-        io.to(gameCode).emit('color_race:new_round', {
-          round: newState.round,
-          color: newState.currentColor,
-          totalRounds: newState.totalRounds,
-        });
-      }
-    }, COLOR_RACE_CONSTANTS.ROUND_RESULT_DELAY_MS);
+function handleOwnerCommand(io: TypedServer, command: OwnerCommand): void {
+  try {
+    switch (command.type) {
+      case 'game_event':
+        dispatchGameEvent(io, command.gameCode, command.playerId, command.event, command.data);
+        break;
+      case 'restart_game':
+        // The forwarding instance checked the player
+        restartGame(io, command.gameCode);
+        break;
+      case 'start_countdown':
+        // The forwarding instance checked the host; re-check the room is still in the lobby
+        if (!shuttingDown && gameService.getRoom(command.gameCode)?.status === 'waiting') {
+          startCountdown(io, command.gameCode);
+        }
+        break;
+    }
+  } catch (error) {
+    console.error(`❌ Forwarded ${command.type} error:`, error);
   }
 }
 
-// =============================================================================
-// SIMON GAME LOGIC
-// =============================================================================
-
 /**
- * Show the Simon sequence to all players
+ * Send a room back to the lobby for another game (owner only)
  */
-function showSimonSequence(io: Server, gameCode: string, gameState: SimonGameState): void {
-  const { sequence, round } = gameState;
+function restartGame(io: TypedServer, gameCode: string): void {
+  // Stop any phase timers from the finished game
+  clearGameTimers(gameCode);
   
-  // Emit sequence start event
-  io.to(gameCode).emit('simon:show_sequence', {
-    round,
-    sequence,
-  });
+  // Reset room to waiting state
+  gameService.updateRoomStatus(gameCode, 'waiting');
+  const room = gameService.updateGameState(gameCode, null);
+  if (!room) return;
   
-  console.log(`🎨 Showing sequence for round ${round}: [${sequence.join(', ')}]`);
-  console.log(`📡 Emitted simon:show_sequence to room ${gameCode}`);
+  console.log(`✅ Room ${gameCode} reset to waiting state`);
   
-  // Calculate total animation time
-  // Each color shows for SHOW_COLOR_DURATION_MS + GAP
-  const totalTime = sequence.length * (SIMON_CONSTANTS.SHOW_COLOR_DURATION_MS + SIMON_CONSTANTS.SHOW_COLOR_GAP_MS);
+  // Broadcast updated room state to all players
+  io.to(gameCode).emit('room_state_update', toRoomView(room));
   
-  // After sequence completes, start input phase (Step 2 & Step 3)
-  setTimeout(() => {
-    io.to(gameCode).emit('simon:sequence_complete');
-    
-    // Wait 500ms, then enable input
-    setTimeout(() => {
-      const room = gameService.getRoom(gameCode);
-      if (!room || room.status !== 'active') return;
-      
-      const currentState = room.gameState as SimonGameState;
-      if (!currentState || currentState.gameType !== 'simon') return;
-      
-      // Step 3: Calculate timeout based on sequence length
-      const timeoutSeconds = calculateTimeoutSeconds(currentState.sequence.length);
-      const timeoutMs = calculateTimeoutMs(currentState.sequence.length);
-      const now = Date.now();
-      const timeoutAt = now + timeoutMs;
-      
-      // Update game state with timeout timestamps
-      const updatedState: SimonGameState = {
-        ...currentState,
-        phase: 'player_input',
-        timeoutAt,
-        timerStartedAt: now,
-      };
-      gameService.updateGameState(gameCode, updatedState);
-      
-      // Emit input phase with timeout data (Step 3)
-      io.to(gameCode).emit('simon:input_phase', {
-        round: currentState.round,
-        timeoutAt,
-        timeoutSeconds,
-      });
-      
-      console.log(`⏰ Input phase started for round ${round} - ${timeoutSeconds}s timeout`);
-      
-      // Step 3: Set server-side timeout
-      const timeout = setTimeout(() => {
-        handleSimonTimeout(io, gameCode);
-      }, timeoutMs);
-      
-      simonTimeouts.set(gameCode, timeout);
-    }, 500);
-  }, totalTime + 500);
+  // Also emit game_restarted event so clients know to reset
+  io.to(gameCode).emit('game_restarted', { gameCode });
 }
 
-/**
- * Advance to next Simon round
- */
-function advanceSimonRound(io: Server, gameCode: string): void {
-  const room = gameService.getRoom(gameCode);
-  if (!room || room.status !== 'active') return;
-  
-  const gameState = room.gameState as SimonGameState;
-  if (!gameState || gameState.gameType !== 'simon') return;
-  
-  // Advance to next round
-  const newState = advanceToNextRound(gameState);
-  gameService.updateGameState(gameCode, newState);
-  
-  console.log(`⏭️ Advancing to round ${newState.round}`);
-  
-  // Show new sequence
-  showSimonSequence(io, gameCode, newState);
-}
+// =============================================================================
+// COUNTDOWN
+// =============================================================================
 
 /**
- * Process Simon round - award points, eliminate wrong answers (Step 4)
+ * Start a quick match room without a host action
+ * Gets the same checks as start_game; a room that can't start stays in
+ * the lobby for its host to start by hand.
  */
-function processSimonRound(io: Server, gameCode: string): void {
+function startMatchmakingRoom(io: TypedServer, router: RoomRouter, gameCode: string): void {
   try {
     const room = gameService.getRoom(gameCode);
-    if (!room || room.status !== 'active') {
-      console.log(`❌ processSimonRound: Room ${gameCode} not found or inactive`);
+    if (!room || room.status !== 'waiting' || shuttingDown) return;
+    
+    // Lobbies stop showing the wait timer
+    io.to(gameCode).emit('room_state_update', toRoomView(room));
+    
+    const startError = getGameModule(room.gameType)?.validateStart?.(getActivePlayers(room), room.settings);
+    if (startError) {
+      console.log(`⚠️ Quick match room ${gameCode} can't start: ${startError}`);
       return;
     }
     
-    let gameState = room.gameState as SimonGameState;
-    if (!gameState || gameState.gameType !== 'simon') {
-      console.log(`❌ processSimonRound: Invalid game state for ${gameCode}`);
+    if (!router.isOwner(room)) {
+      router.forward(room, { type: 'start_countdown', gameCode });
       return;
     }
     
-    console.log(`🏁 Processing round ${gameState.round} for room ${gameCode}...`);
-    console.log(`   Submissions:`, gameState.submissions);
-    console.log(`   Player states:`, gameState.playerStates);
-    
-    // Process submissions (find fastest, eliminate wrong)
-    console.log(`📤 Calling processRoundSubmissions...`);
-    const { gameState: newState, roundWinner, eliminations } = processRoundSubmissions(gameState);
-    console.log(`📥 processRoundSubmissions returned:`, { roundWinner, eliminationsCount: eliminations.length });
-  gameService.updateGameState(gameCode, newState);
-  
-  // Prepare elimination data with player names
-  const eliminationData = eliminations.map(e => {
-    const player = room.players.find(p => p.id === e.playerId);
-    return {
-      playerId: e.playerId,
-      name: player?.displayName || 'Unknown',
-      reason: e.reason,
-    };
-  });
-  
-  // Prepare round winner data
-  const roundWinnerData = roundWinner ? {
-    playerId: roundWinner.playerId,
-    name: room.players.find(p => p.id === roundWinner.playerId)?.displayName || 'Unknown',
-  } : null;
-  
-  // Broadcast eliminations
-  eliminationData.forEach(elim => {
-    io.to(gameCode).emit('simon:player_eliminated', {
-      playerId: elim.playerId,
-      playerName: elim.name,
-      reason: elim.reason,
-    });
-  });
-  
-  // Broadcast round result (Step 4)
-  io.to(gameCode).emit('simon:round_result', {
-    roundWinner: roundWinnerData,
-    eliminations: eliminationData,
-    scores: newState.scores,
-    playerStatuses: Object.fromEntries(
-      Object.entries(newState.playerStates).map(([id, state]) => [id, state.status])
-    ),
-  });
-  
-  console.log(`🏆 Round ${newState.round} complete - Winner: ${roundWinnerData?.name || 'None'}`);
-  
-  // Check end conditions
-  const totalPlayers = Object.keys(newState.playerStates).length;
-  const activePlayers = Object.values(newState.playerStates).filter(s => s.status === 'playing').length;
-  const gameEnds = shouldGameEnd(newState);
-  
-  console.log(`🔍 Game check: ${totalPlayers} total, ${activePlayers} active → shouldEnd=${gameEnds}`);
-  
-  if (gameEnds) {
-    console.log(`🎯 ENDING GAME for ${gameCode}`);
-    // Wait briefly, then end game
-    setTimeout(() => {
-      finishSimonGame(io, gameCode, newState, room);
-    }, 3000);
-  } else {
-    console.log(`➡️ ADVANCING to next round for ${gameCode}`);
-    // Wait briefly, then advance to next round
-    setTimeout(() => {
-      advanceSimonRound(io, gameCode);
-    }, 3000);
-  }
+    startCountdown(io, gameCode);
+    console.log(`⏳ Countdown started for quick match room: ${gameCode}`);
   } catch (error) {
-    console.error(`❌ ERROR in processSimonRound for ${gameCode}:`, error);
-    console.error(`   Stack:`, (error as Error).stack);
+    console.error('❌ Quick match start error:', error);
   }
 }
 
 /**
- * Handle Simon timeout (Step 3 & 4 - Competitive Multiplayer)
+ * Start countdown before game begins
  */
-function handleSimonTimeout(io: Server, gameCode: string): void {
-  const room = gameService.getRoom(gameCode);
-  if (!room || room.status !== 'active') return;
-  
-  let gameState = room.gameState as SimonGameState;
-  if (!gameState || gameState.gameType !== 'simon') return;
-  
-  console.log(`⏰ Timeout expired for room ${gameCode}`);
+function startCountdown(io: TypedServer, gameCode: string): void {
+  gameService.updateRoomStatus(gameCode, 'countdown');
+  matchmakingService.refresh(gameCode); // No more quick match players
   
-  // Step 4: Record timeout for all players who didn't submit
-  const activePlayers = Object.values(gameState.playerStates).filter(
-    state => state.status === 'playing'
-  );
+  let count = 3;
   
-  activePlayers.forEach(playerState => {
-    if (!gameState.submissions[playerState.playerId]) {
-      const player = room.players.find(p => p.id === playerState.playerId);
+  const interval = setInterval(() => {
+    io.to(gameCode).emit('countdown', { count });
+    
+    if (count === 0) {
+      clearInterval(interval);
+      countdownIntervals.delete(gameCode);
       
-      // Record timeout submission (wrong)
-      gameState.submissions[playerState.playerId] = {
-        playerId: playerState.playerId,
-        sequence: [], // Empty = timeout
-        timestamp: Date.now(),
-        isCorrect: false,
-      };
+      // Update status to active
+      gameService.updateRoomStatus(gameCode, 'active');
       
-      console.log(`⏰ ${player?.displayName || 'Unknown'} timed out`);
+      const room = gameService.getRoom(gameCode);
+      if (!room) return;
       
-      // Emit timeout event
-      io.to(gameCode).emit('simon:timeout', {
-        playerId: playerState.playerId,
-        playerName: player?.displayName || 'Unknown',
-        correctSequence: gameState.sequence,
-      });
+      // Start the game the host selected in the lobby
+      const module = getGameModule(room.gameType);
+      if (!module) {
+        console.error(`❌ No game module for ${room.gameType}`);
+        return;
+      }
+      
+      // Spectators watch the broadcasts but get no game state of their own
+      gameService.updateGameState(gameCode, module.initialize(getActivePlayers(room), room.settings));
+      
+      const ctx = createGameContext(io, gameCode, module.id);
+      if (ctx) {
+        module.onStart(ctx);
+      }
     }
-  });
-  
-  // Update game state with timeout submissions
-  gameService.updateGameState(gameCode, gameState);
-  
-  // Clear timeout
-  simonTimeouts.delete(gameCode);
-  
-  // Process the round (Step 4)
-  processSimonRound(io, gameCode);
-}
-
-/**
- * Finish Simon game and declare winner (Step 4: Competitive Scoring)
- */
-function finishSimonGame(io: Server, gameCode: string, gameState: SimonGameState, room: any): void {
-  console.log(`🏁 finishSimonGame called for ${gameCode}`);
-  
-  // Step 4: Find winner by highest score
-  const playerScores = Object.entries(gameState.scores)
-    .map(([playerId, score]) => {
-      const player = room.players.find((p: Player) => p.id === playerId);
-      return {
-        playerId,
-        name: player?.displayName || 'Unknown',
-        score,
-      };
-    })
-    .sort((a, b) => b.score - a.score); // Sort by score descending
-  
-  const winner = playerScores[0];
-  
-  // Emit game finished with full scoreboard
-  io.to(gameCode).emit('simon:game_finished', {
-    winner,
-    finalScores: playerScores,
-  });
+    
+    count--;
+  }, 1000);
   
-  gameService.updateRoomStatus(gameCode, 'finished');
-  console.log(`🏆 Simon finished in room ${gameCode} - Winner: ${winner?.name} with ${winner?.score} points!`);
+  countdownIntervals.set(gameCode, interval);
 }
 
 // =============================================================================
@@ -929,7 +836,7 @@ function finishSimonGame(io: Server, gameCode: string, gameState: SimonGameState
 /**
  * Handle socket disconnect
  */
-function handleDisconnect(io: Server, socket: SocketWithSession): void {
+function handleDisconnect(io: TypedServer, socket: SocketWithSession): void {
   const { playerId, gameCode, displayName } = socket;
   
   if (!playerId || !gameCode) {
@@ -937,14 +844,24 @@ function handleDisconnect(io: Server, socket: SocketWithSession): void {
     return;
   }
   
+  // Sockets closed by our own shutdown keep their seat for the next process
+  if (shuttingDown) {
+    console.log(`🔌 Socket closed for restart: ${displayName} (${gameCode})`);
+    return;
+  }
+  
   console.log(`⚠️ Disconnect detected: ${displayName} from room ${gameCode}`);
   
   const timeoutKey = `${gameCode}:${playerId}`;
   
   // Set buffer timeout before marking as disconnected
   const bufferTimeout = setTimeout(() => {
-    // Mark player as disconnected
-    gameService.markPlayerDisconnected(gameCode, playerId);
+    // Players waiting for a quick match give up their seat instead of holding it
+    const room = gameService.getRoom(gameCode);
+    const graceMs = room?.matchmaking && room.status === 'waiting' ? 0 : PLATFORM_CONSTANTS.DISCONNECT_GRACE_MS;
+    
+    // Mark player as disconnected (the removal deadline is stored with the room)
+    gameService.markPlayerDisconnected(gameCode, playerId, Date.now() + graceMs);
     
     // Notify others
     io.to(gameCode).emit('player_disconnected', { 
@@ -955,32 +872,101 @@ function handleDisconnect(io: Server, socket: SocketWithSession): void {
     console.log(`⏳ ${displayName} marked as disconnected (grace period started)`);
     
     // Set removal timeout
-    const removalTimeout = setTimeout(() => {
-      const removed = gameService.removeIfStillDisconnected(gameCode, playerId);
-      
-      if (removed) {
-        io.to(gameCode).emit('player_left', { playerId });
-        console.log(`🗑️ ${displayName} removed after timeout`);
-        
-        // Broadcast updated room state to remaining players
-        const room = gameService.getRoom(gameCode);
-        if (room) {
-          io.to(gameCode).emit('room_state_update', room);
-        } else {
-          // Room is empty/closed
-          io.to(gameCode).emit('room_closed');
-        }
-      }
-      
-      disconnectTimeouts.delete(timeoutKey);
-    }, PLATFORM_CONSTANTS.DISCONNECT_GRACE_MS);
-    
-    disconnectTimeouts.set(timeoutKey, removalTimeout);
+    scheduleRemoval(io, gameCode, playerId, graceMs);
   }, PLATFORM_CONSTANTS.DISCONNECT_BUFFER_MS);
   
   disconnectTimeouts.set(timeoutKey, bufferTimeout);
 }
 
+/**
+ * Remove a player who is still disconnected once the grace period ends
+ */
+function scheduleRemoval(io: TypedServer, gameCode: string, playerId: string, delayMs: number): void {
+  const timeoutKey = `${gameCode}:${playerId}`;
+  
+  const removalTimeout = setTimeout(() => {
+    const displayName = gameService.getPlayer(gameCode, playerId)?.displayName;
+    const removed = gameService.removeIfStillDisconnected(gameCode, playerId);
+    
+    if (removed) {
+      matchmakingService.refresh(gameCode);
+      announcePlayerRemoved(io, gameCode, playerId);
+      console.log(`🗑️ ${displayName} removed after timeout`);
+    }
+    
+    disconnectTimeouts.delete(timeoutKey);
+  }, delayMs);
+  
+  disconnectTimeouts.set(timeoutKey, removalTimeout);
+}
+
+/**
+ * Tell the room a player is gone, or that it closed with them
+ */
+function announcePlayerRemoved(io: TypedServer, gameCode: string, playerId: string): void {
+  io.to(gameCode).emit('player_left', { playerId });
+  
+  // Broadcast updated room state to remaining players
+  const room = gameService.getRoom(gameCode);
+  if (room) {
+    io.to(gameCode).emit('room_state_update', toRoomView(room));
+  } else {
+    // Room is empty/closed
+    io.to(gameCode).emit('room_closed');
+  }
+}
+
+// =============================================================================
+// RESUME AFTER RESTART
+// =============================================================================
+
+/**
+ * Rebuild timers for rooms loaded from storage at startup.
+ * Every socket died with the old process, so all players start their
+ * disconnect grace period; games pick up from their stored deadlines.
+ */
+export function resumeStoredRooms(io: TypedServer, router: RoomRouter = createLocalRouter()): void {
+  const now = Date.now();
+  
+  for (const room of gameService.getAllRooms()) {
+    // Rooms owned by other instances are resumed by their owner
+    if (!router.isOwner(room)) continue;
+    
+    const { gameCode } = room;
+    
+    // Disconnect timeouts: keep a stored deadline, otherwise start one now
+    // (bots have no socket to lose and keep their seat, and sockets held
+    // by other instances survived our restart)
+    for (const player of getHumanPlayers(room)) {
+      const onOtherInstance = player.socketInstanceId !== null && player.socketInstanceId !== router.instanceId;
+      if (player.connected && onOtherInstance) continue;
+      
+      const removeAt = player.disconnectTimeoutAt ?? now + PLATFORM_CONSTANTS.DISCONNECT_GRACE_MS;
+      gameService.markPlayerDisconnected(gameCode, player.id, removeAt);
+      scheduleRemoval(io, gameCode, player.id, Math.max(0, removeAt - now));
+    }
+    
+    // The countdown interval can't be resumed; send the room back to the lobby
+    if (room.status === 'countdown') {
+      gameService.updateRoomStatus(gameCode, 'waiting');
+    }
+    
+    // Quick match wait timers pick up from their stored deadline
+    matchmakingService.refresh(gameCode, now);
+    
+    // Game timers are rebuilt by the module from its state
+    if (room.status === 'active') {
+      const module = getGameModule(room.gameType);
+      const ctx = module ? createGameContext(io, gameCode, module.id) : null;
+      if (module?.onResume && ctx) {
+        module.onResume(ctx);
+      }
+    }
+    
+    console.log(`♻️ Resumed room ${gameCode} (${room.status}, ${room.players.length} members)`);
+  }
+}
+
 // =============================================================================
 // CLEANUP
 // =============================================================================
@@ -989,10 +975,85 @@ function handleDisconnect(io: Server, socket: SocketWithSession): void {
  * Start interval for cleaning up dead rooms
  */
 function startCleanupInterval(): void {
-  setInterval(() => {
+  if (cleanupInterval) {
+    clearInterval(cleanupInterval);
+  }
+  
+  cleanupInterval = setInterval(() => {
     const cleaned = gameService.cleanupDeadRooms();
     if (cleaned > 0) {
       console.log(`🧹 Cleaned up ${cleaned} dead rooms`);
     }
   }, PLATFORM_CONSTANTS.ROOM_CLEANUP_INTERVAL_MS);
 }
+
+// =============================================================================
+// SHUTDOWN
+// =============================================================================
+
+/**
+ * Drain this instance before a restart: refuse new rooms and games,
+ * tell connected clients when to expect the server back, and give running
+ * games up to `drainMs` to finish. Games still running after that keep
+ * their stored state and continue via resumeStoredRooms on the next start.
+ * Resolves once every timer is stopped; the caller then closes the sockets.
+ */
+export async function shutdownGameHandlers(
+  io: TypedServer,
+  drainMs: number = PLATFORM_CONSTANTS.SHUTDOWN_DRAIN_MS
+): Promise<void> {
+  shuttingDown = true;
+  gameService.setAcceptingRooms(false);
+  
+  // Only our own sockets; other instances keep running
+  const etaSeconds = Math.ceil((drainMs + PLATFORM_CONSTANTS.RESTART_ETA_MS) / 1000);
+  io.local.emit('server_restarting', { etaSeconds });
+  console.log(`🛑 Draining for restart (back in ~${etaSeconds}s)`);
+  
+  await waitForGamesToFinish(drainMs);
+  
+  stopAllTimers();
+  console.log('🛑 Game handlers stopped');
+}
+
+/**
+ * Poll until no owned room is counting down or playing, or the deadline passes
+ */
+function waitForGamesToFinish(drainMs: number): Promise<void> {
+  const deadline = Date.now() + drainMs;
+  
+  return new Promise((resolve) => {
+    const check = () => {
+      if (!gameService.hasRunningGames()) {
+        resolve();
+      } else if (Date.now() >= deadline) {
+        console.log('⏳ Drain timed out, in-progress games will resume after the restart');
+        resolve();
+      } else {
+        setTimeout(check, 500);
+      }
+    };
+    
+    check();
+  });
+}
+
+/**
+ * Cancel the cleanup interval, countdowns, disconnect timeouts, quick match
+ * wait timers and game timers
+ */
+function stopAllTimers(): void {
+  if (cleanupInterval) {
+    clearInterval(cleanupInterval);
+    cleanupInterval = null;
+  }
+  
+  countdownIntervals.forEach(interval => clearInterval(interval));
+  countdownIntervals.clear();
+  
+  disconnectTimeouts.forEach(timeout => clearTimeout(timeout));
+  disconnectTimeouts.clear();
+  
+  matchmakingService.stopTimers();
+  clearAllGameTimers();
+}
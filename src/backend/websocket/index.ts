@@ -3,3 +3,5 @@
  */
 
 export * from './gameHandler';
+export * from './socketAuth';
+export * from './socketEvents';
@@ -0,0 +1,82 @@
+/**
+ * WebSocket Authentication
+ *
+ * Verifies the session cookie once per connection and pins the
+ * player's identity on the socket. Handlers act on the pinned identity
+ * and never trust playerId/gameCode sent in event payloads.
+ */
+
+import type { Socket } from 'socket.io';
+import cookie from 'cookie';
+import { verifyToken } from '../utils/auth';
+import type { ClientToServerEvents, ServerToClientEvents, SessionClaims } from '@shared/types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SocketWithSession extends Socket<ClientToServerEvents, ServerToClientEvents> {
+  playerId?: string;
+  gameCode?: string;
+  displayName?: string;
+}
+
+/**
+ * Identity pinned on an authenticated socket
+ */
+export interface SocketSession {
+  playerId: string;
+  gameCode: string;
+}
+
+// =============================================================================
+// MIDDLEWARE
+// =============================================================================
+
+/**
+ * Socket.io middleware: reject connections without a valid session cookie
+ */
+export function socketAuthMiddleware(socket: SocketWithSession, next: (err?: Error) => void): void {
+  const cookieHeader = socket.request.headers.cookie;
+  const token = cookieHeader ? cookie.parse(cookieHeader).session : undefined;
+  const payload = token ? verifyToken(token) : null;
+
+  if (!payload) {
+    console.log(`🔒 Socket rejected: ${socket.id} (no valid session)`);
+    next(new Error('Authentication required'));
+    return;
+  }
+
+  // Pin identity for the lifetime of this connection
+  socket.playerId = payload.playerId;
+  socket.gameCode = payload.gameCode;
+  socket.displayName = payload.displayName;
+
+  next();
+}
+
+// =============================================================================
+// PAYLOAD GUARD
+// =============================================================================
+
+/**
+ * Resolve the identity an event acts as.
+ * Returns null if the socket has no session (e.g. after leave_room) or the
+ * payload claims a different player or room than the one pinned.
+ */
+export function resolveSession(socket: SocketWithSession, data?: SessionClaims | null): SocketSession | null {
+  const { playerId, gameCode } = socket;
+  if (!playerId || !gameCode) return null;
+
+  if (data?.playerId !== undefined && data.playerId !== playerId) {
+    console.warn(`🚫 Spoofed playerId from ${socket.id}: ${data.playerId} (session: ${playerId})`);
+    return null;
+  }
+
+  if (data?.gameCode !== undefined && data.gameCode !== gameCode) {
+    console.warn(`🚫 Spoofed gameCode from ${socket.id}: ${data.gameCode} (session: ${gameCode})`);
+    return null;
+  }
+
+  return { playerId, gameCode };
+}
@@ -0,0 +1,74 @@
+/**
+ * WebSocket Event Helpers
+ *
+ * Typed server alias, payload validation for client events and the
+ * structured `error` event.
+ */
+
+import type { Server, Socket } from 'socket.io';
+import { parseClientEvent } from '../utils/validation';
+import type {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  ClientEventPayload,
+  SocketErrorCode,
+} from '@shared/types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Socket.io server typed with the shared event maps
+ */
+export type TypedServer = Server<ClientToServerEvents, ServerToClientEvents>;
+
+/**
+ * Any socket typed with the shared event maps
+ */
+export type TypedSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+// =============================================================================
+// ERRORS
+// =============================================================================
+
+/**
+ * Send a structured error to one client
+ */
+export function emitSocketError(
+  socket: TypedSocket,
+  code: SocketErrorCode,
+  message: string,
+  event?: string
+): void {
+  socket.emit('error', { code, message, event });
+}
+
+// =============================================================================
+// VALIDATED HANDLERS
+// =============================================================================
+
+/**
+ * Listen for a client event, validating its payload against the shared schema.
+ * Invalid payloads never reach the handler; the sender gets an
+ * `INVALID_PAYLOAD` error instead.
+ */
+export function onClientEvent<E extends keyof ClientToServerEvents>(
+  socket: TypedSocket,
+  event: E,
+  handler: (data: ClientEventPayload<E>) => void
+): void {
+  // Untyped view: listener args are validated below instead of trusted
+  (socket as Socket).on(event as string, (input: unknown) => {
+    const result = parseClientEvent(event, input);
+
+    if (!result.success) {
+      const message = result.error.errors[0]?.message || 'Invalid payload';
+      console.warn(`⚠️ Invalid ${event} payload from ${socket.id}: ${message}`);
+      emitSocketError(socket, 'INVALID_PAYLOAD', message, event);
+      return;
+    }
+
+    handler(result.data);
+  });
+}
@@ -0,0 +1,5 @@
+/**
+ * Shared Random - Re-export the seeded PRNG and challenge codes
+ */
+
+export * from './seededRandom';
@@ -0,0 +1,116 @@
+/**
+ * Seeded Random
+ * 
+ * Small deterministic PRNG (mulberry32) so a game can be replayed from
+ * its seed. Games keep the generator state on their game state, which
+ * makes every draw reproducible and survives a server restart.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Source of random numbers in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Generator that can be resumed from its state
+ */
+export interface SeededRandom {
+  /** Next number in [0, 1) */
+  next: RandomSource;
+  
+  /** Current state; pass to createSeededRandom to continue the stream */
+  getState(): number;
+}
+
+/**
+ * What a challenge code replays
+ */
+export interface Challenge {
+  seed: number;
+  padCount: number | null;  // Null for codes that don't fix the board
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Seeds are unsigned 32-bit integers
+const MAX_SEED = 0xFFFFFFFF;
+
+// Seven base-36 characters hold any 32-bit seed
+const CHALLENGE_CODE_LENGTH = 7;
+const CHALLENGE_CODE_PATTERN = /^([0-9A-Z]{1,7})$|^([0-9A-Z]{7})([0-9])$/;
+
+// Boards a code may fix (one digit after the seed)
+const MIN_CODE_PAD_COUNT = 3;
+const MAX_CODE_PAD_COUNT = 8;
+
+// =============================================================================
+// GENERATOR
+// =============================================================================
+
+/**
+ * Pick a fresh random seed
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+/**
+ * Create a generator starting from a seed or a saved state
+ */
+export function createSeededRandom(state: number): SeededRandom {
+  let current = state >>> 0;
+  
+  return {
+    next: () => {
+      current = (current + 0x6D2B79F5) >>> 0;
+      let t = current;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    
+    getState: () => current,
+  };
+}
+
+// =============================================================================
+// CHALLENGE CODES
+// =============================================================================
+
+/**
+ * Shareable form of a seed, e.g. "0K3F9QZ". The colors a Simon game
+ * draws from its seed depend on the board, so Simon codes append the
+ * pad count, e.g. "0K3F9QZ6".
+ */
+export function encodeChallengeCode(seed: number, padCount?: number): string {
+  const code = (seed >>> 0).toString(36).toUpperCase().padStart(CHALLENGE_CODE_LENGTH, '0');
+  return padCount === undefined ? code : `${code}${padCount}`;
+}
+
+/**
+ * Challenge of a code (case-insensitive), or null if it isn't one
+ */
+export function decodeChallengeCode(code: string): Challenge | null {
+  const match = CHALLENGE_CODE_PATTERN.exec(code.trim().toUpperCase());
+  if (!match) {
+    return null;
+  }
+  
+  const seed = parseInt(match[1] ?? match[2], 36);
+  const padCount = match[3] === undefined ? null : Number(match[3]);
+  
+  if (seed > MAX_SEED) {
+    return null;
+  }
+  if (padCount !== null && (padCount < MIN_CODE_PAD_COUNT || padCount > MAX_CODE_PAD_COUNT)) {
+    return null;
+  }
+  
+  return { seed, padCount };
+}
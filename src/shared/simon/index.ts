@@ -0,0 +1,6 @@
+/**
+ * Shared Simon Logic - Re-export game rules
+ */
+
+export * from './simonLogic';
+export * from './scoring';
@@ -0,0 +1,124 @@
+/**
+ * Simon Scoring Strategies
+ *
+ * How a round's correct answers turn into points. Each room picks a
+ * strategy through its scoring setting; processRoundSubmissions applies
+ * it after updating streaks.
+ */
+
+import type {
+  PlayerSubmission,
+  RoundScore,
+  SimonGameState,
+  SimonScoringMode,
+} from '../types';
+import { SIMON_SCORING_CONSTANTS } from '../types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Scores the correct submissions of a round
+ * `correct` is sorted fastest first; streaks already count this round.
+ */
+export interface ScoringStrategy {
+  mode: SimonScoringMode;
+  scoreRound(gameState: SimonGameState, correct: PlayerSubmission[]): RoundScore[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Share of the input time left when a submission arrived (0 to 1)
+ */
+export function getTimeLeftFraction(gameState: SimonGameState, timestamp: number): number {
+  const { timerStartedAt, timeoutAt } = gameState;
+  if (timerStartedAt === null || timeoutAt === null || timeoutAt <= timerStartedAt) {
+    return 0;
+  }
+
+  return Math.min(1, Math.max(0, (timeoutAt - timestamp) / (timeoutAt - timerStartedAt)));
+}
+
+/**
+ * Multiplier for a number of correct rounds in a row
+ * The first correct round counts ×1, each further one adds a step.
+ */
+export function getStreakMultiplier(streak: number): number {
+  const multiplier = 1 + Math.max(0, streak - 1) * SIMON_SCORING_CONSTANTS.STREAK_STEP;
+  return Math.min(SIMON_SCORING_CONSTANTS.MAX_STREAK_MULTIPLIER, Math.round(multiplier * 100) / 100);
+}
+
+// =============================================================================
+// STRATEGIES
+// =============================================================================
+
+/**
+ * +1 to the fastest correct player (all of them on a same-millisecond tie)
+ */
+export const classicScoring: ScoringStrategy = {
+  mode: 'classic',
+
+  scoreRound: (_gameState, correct) => {
+    const fastestTime = correct[0]?.timestamp;
+
+    return correct.map(submission => {
+      const points = submission.timestamp === fastestTime ? 1 : 0;
+      return {
+        playerId: submission.playerId,
+        basePoints: points,
+        speedPoints: 0,
+        streakMultiplier: 1,
+        firstCorrectBonus: 0,
+        total: points,
+      };
+    });
+  },
+};
+
+/**
+ * Every correct player scores: points per color repeated plus up to as
+ * much again for answering quickly, times the streak multiplier, plus a
+ * bonus for the first correct answer
+ */
+export const speedScoring: ScoringStrategy = {
+  mode: 'speed',
+
+  scoreRound: (gameState, correct) => {
+    const fastestTime = correct[0]?.timestamp;
+
+    return correct.map(submission => {
+      const playerState = gameState.playerStates[submission.playerId];
+      const sequenceLength = playerState?.sequenceLength ?? gameState.sequence.length;
+
+      const basePoints = sequenceLength * SIMON_SCORING_CONSTANTS.POINTS_PER_COLOR;
+      const speedPoints = Math.round(basePoints * getTimeLeftFraction(gameState, submission.timestamp));
+      const streakMultiplier = getStreakMultiplier(playerState?.streak ?? 1);
+      const firstCorrectBonus = submission.timestamp === fastestTime ? SIMON_SCORING_CONSTANTS.FIRST_CORRECT_BONUS : 0;
+
+      return {
+        playerId: submission.playerId,
+        basePoints,
+        speedPoints,
+        streakMultiplier,
+        firstCorrectBonus,
+        total: Math.round((basePoints + speedPoints) * streakMultiplier) + firstCorrectBonus,
+      };
+    });
+  },
+};
+
+const SCORING_STRATEGIES: Record<SimonScoringMode, ScoringStrategy> = {
+  classic: classicScoring,
+  speed: speedScoring,
+};
+
+/**
+ * Strategy for a room's scoring setting
+ */
+export function getScoringStrategy(mode: SimonScoringMode): ScoringStrategy {
+  return SCORING_STRATEGIES[mode] ?? classicScoring;
+}
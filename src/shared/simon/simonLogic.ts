@@ -0,0 +1,856 @@
+/**
+ * Simon Game Logic
+ * 
+ * Core game logic for Simon Says, shared by the server and the
+ * client-side practice mode. Pure functions only: no timers, sockets
+ * or storage, so both sides run exactly the same rules.
+ */
+
+import type { 
+  MatchSubmission,
+  Color, 
+  Player,
+  PlayerSubmission,
+  RoundScore,
+  SequenceSlice,
+  SimonGameState, 
+  SimonGameSnapshot,
+  SimonPlayerState,
+  SimonSettings,
+  SimonTeamResult,
+  SimonVariant,
+  TeamId,
+} from '../types';
+import { CLASSIC_COLORS, COLORS, SIMON_CONSTANTS, DEFAULT_SIMON_SETTINGS, MIRROR_COLORS, TEAM_IDS } from '../types';
+import { createSeed, createSeededRandom } from '../random';
+import type { RandomSource } from '../random';
+import { classicScoring } from './scoring';
+import type { ScoringStrategy } from './scoring';
+
+// =============================================================================
+// INITIALIZATION
+// =============================================================================
+
+/**
+ * Initialize a new Simon game state
+ * The same seed always produces the same sequence. In team mode players
+ * keep their lobby team; in co-op everyone is on the first team.
+ */
+export function initializeSimonGame(
+  players: Array<Pick<Player, 'id'> & Partial<Pick<Player, 'team'>>>,
+  settings: SimonSettings = DEFAULT_SIMON_SETTINGS,
+  seed: number = createSeed()
+): SimonGameState {
+  const playerStates: Record<string, SimonPlayerState> = {};
+  
+  // Initialize state for all players
+  players.forEach(player => {
+    playerStates[player.id] = {
+      playerId: player.id,
+      status: 'playing',
+      currentInputIndex: 0,
+      eliminatedAtRound: null,
+      lives: settings.lives,
+      sequenceLength: settings.initialSequenceLength,
+      lostLifeAtRound: null,
+      streak: 0,
+      teamId: getStartingTeam(player, settings),
+    };
+  });
+  
+  // Generate first sequence (1 color for round 1 by default) from the board's pads
+  const palette = getPalette(settings.padCount);
+  const random = createSeededRandom(seed);
+  const initialSequence = generateSequence(settings.initialSequenceLength, random.next, palette);
+  
+  // Initialize scores (Step 4)
+  const scores: Record<string, number> = {};
+  players.forEach(player => {
+    scores[player.id] = 0;
+  });
+  
+  return {
+    gameType: 'simon',
+    phase: 'showing_sequence',
+    mode: settings.mode,
+    activePlayerId: settings.mode === 'chain' ? players[0]?.id ?? null : null, // Chain mode: join order
+    variant: settings.variant,
+    palette,
+    sequence: initialSequence,
+    round: 1,
+    playerStates,
+    currentShowingIndex: 0,
+    timeoutMs: calculateTimeoutMs(settings.initialSequenceLength, settings), // ✅ 17 seconds for round 1 by default!
+    timeoutAt: null,        // Step 3: Set when input phase begins
+    timerStartedAt: null,   // Step 3: Set when input phase begins
+    scores,                 // Step 4: Player scores
+    submissions: {},        // Step 4: Current round submissions
+    roundWinner: null,      // Step 4: Round winner
+    roundHistory: [],
+    winnerId: null,
+    seed,
+    rngState: random.getState(),
+  };
+}
+
+/**
+ * Team a player starts in for the room's mode (null outside team play)
+ */
+function getStartingTeam(player: Partial<Pick<Player, 'team'>>, settings: SimonSettings): TeamId | null {
+  switch (settings.mode) {
+    case 'coop':
+      return TEAM_IDS[0];
+    case 'teams':
+      return player.team ?? TEAM_IDS[0];
+    default:
+      return null;
+  }
+}
+
+/**
+ * Why a lobby can't start a game in this mode, or null when it can
+ * (team mode needs a player on every team)
+ */
+export function getTeamSetupError(
+  players: Array<Partial<Pick<Player, 'team'>>>,
+  settings: SimonSettings
+): string | null {
+  if (settings.mode !== 'teams') {
+    return null;
+  }
+  
+  const emptyTeam = TEAM_IDS.find(team => !players.some(player => (player.team ?? TEAM_IDS[0]) === team));
+  return emptyTeam ? `Team ${emptyTeam} needs at least one player` : null;
+}
+
+// =============================================================================
+// SEQUENCE GENERATION
+// =============================================================================
+
+/**
+ * Colors of a board with this many pads
+ */
+export function getPalette(padCount: number): Color[] {
+  const count = Math.min(SIMON_CONSTANTS.MAX_PAD_COUNT, Math.max(SIMON_CONSTANTS.MIN_PAD_COUNT, padCount));
+  return COLORS.slice(0, count);
+}
+
+/**
+ * Generate a random color sequence of specified length
+ */
+export function generateSequence(
+  length: number,
+  random: RandomSource = Math.random,
+  palette: Color[] = CLASSIC_COLORS
+): Color[] {
+  const sequence: Color[] = [];
+  
+  for (let i = 0; i < length; i++) {
+    const randomIndex = Math.floor(random() * palette.length);
+    sequence.push(palette[randomIndex]);
+  }
+  
+  return sequence;
+}
+
+/**
+ * Add one more color to existing sequence
+ */
+export function extendSequence(
+  currentSequence: Color[],
+  random: RandomSource = Math.random,
+  palette: Color[] = CLASSIC_COLORS
+): Color[] {
+  const randomIndex = Math.floor(random() * palette.length);
+  return [...currentSequence, palette[randomIndex]];
+}
+
+// =============================================================================
+// TIMING (Step 3)
+// =============================================================================
+
+/**
+ * Calculate timeout in seconds based on sequence length
+ * Formula: base + (sequenceLength × perColor) seconds (default 15 + length × 2)
+ */
+export function calculateTimeoutSeconds(
+  sequenceLength: number,
+  settings: SimonSettings = DEFAULT_SIMON_SETTINGS
+): number {
+  return settings.timeoutBaseSeconds + (sequenceLength * settings.timeoutPerColorSeconds);
+}
+
+/**
+ * Calculate timeout in milliseconds based on sequence length
+ */
+export function calculateTimeoutMs(
+  sequenceLength: number,
+  settings: SimonSettings = DEFAULT_SIMON_SETTINGS
+): number {
+  return calculateTimeoutSeconds(sequenceLength, settings) * 1000;
+}
+
+/**
+ * Calculate how long the client animation of a sequence takes
+ * Each color shows for showColorDurationMs followed by showColorGapMs
+ */
+export function calculateShowDurationMs(
+  sequenceLength: number,
+  settings: SimonSettings = DEFAULT_SIMON_SETTINGS
+): number {
+  return sequenceLength * (settings.showColorDurationMs + settings.showColorGapMs);
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * The color a pad stands for in the mirror variant
+ * A pad whose partner is not on the board stands for itself.
+ */
+export function getMirrorColor(color: Color, palette: Color[] = CLASSIC_COLORS): Color {
+  const mirrored = MIRROR_COLORS[color];
+  return palette.includes(mirrored) ? mirrored : color;
+}
+
+/**
+ * The input a variant expects for a shown sequence
+ */
+export function applyVariant(
+  sequence: Color[],
+  variant: SimonVariant,
+  palette: Color[] = CLASSIC_COLORS
+): Color[] {
+  switch (variant) {
+    case 'reverse':
+      return [...sequence].reverse();
+    case 'mirror':
+      return sequence.map(color => getMirrorColor(color, palette));
+    default:
+      return sequence;
+  }
+}
+
+/**
+ * Validate if a player's color input is correct (used in Step 4+)
+ */
+export function validateInput(
+  gameState: SimonGameState,
+  playerId: string,
+  color: Color,
+  inputIndex: number
+): boolean {
+  // Check if input index matches expected position
+  const playerState = gameState.playerStates[playerId];
+  if (!playerState || playerState.currentInputIndex !== inputIndex) {
+    return false;
+  }
+  
+  // Check if color matches the expected input at this index
+  const expectedColor = getExpectedInput(gameState, playerId)[inputIndex];
+  return color === expectedColor;
+}
+
+/**
+ * The part of the sequence a player has to repeat this round
+ * Players replaying a round after losing a life are a color or more behind.
+ */
+export function getPlayerSequence(gameState: SimonGameState, playerId: string): Color[] {
+  const playerState = gameState.playerStates[playerId];
+  return playerState ? gameState.sequence.slice(0, playerState.sequenceLength) : gameState.sequence;
+}
+
+/**
+ * What a player has to enter this round under the game's variant
+ * (only their slice of it in co-op and team modes)
+ */
+export function getExpectedInput(gameState: SimonGameState, playerId: string): Color[] {
+  const { start, end } = getPlayerSlice(gameState, playerId);
+  return applyVariant(getPlayerSequence(gameState, playerId), gameState.variant, gameState.palette).slice(start, end);
+}
+
+/**
+ * Validate an entire submitted sequence (Step 2)
+ * With a player ID, checks against that player's sequence; the game's
+ * variant decides the order and colors expected.
+ */
+export function validateSequence(
+  gameState: SimonGameState,
+  submittedSequence: Color[],
+  playerId?: string
+): boolean {
+  const expected = playerId
+    ? getExpectedInput(gameState, playerId)
+    : applyVariant(gameState.sequence, gameState.variant, gameState.palette);
+  
+  // Check length matches
+  if (submittedSequence.length !== expected.length) {
+    return false;
+  }
+  
+  // Check each color in order
+  for (let i = 0; i < expected.length; i++) {
+    if (submittedSequence[i] !== expected[i]) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+// =============================================================================
+// ROUND PROCESSING (Step 4)
+// =============================================================================
+
+/**
+ * Process all submissions for a round
+ * Take a life from wrong/timeout players (eliminating those with none
+ * left), update streaks and award points with the scoring strategy.
+ * In co-op and team modes every player takes their team's result: one
+ * wrong slice costs the whole team a life and no member scores.
+ */
+export function processRoundSubmissions(
+  gameState: SimonGameState,
+  scoring: ScoringStrategy = classicScoring
+): {
+  gameState: SimonGameState;
+  roundWinner: { playerId: string; score: number } | null;
+  eliminations: Array<{ playerId: string; reason: 'wrong_sequence' | 'timeout' }>;
+  livesLost: Array<{ playerId: string; reason: 'wrong_sequence' | 'timeout' }>;
+  roundScores: RoundScore[];
+  teamResults: Array<{ teamId: TeamId; isCorrect: boolean }>;
+} {
+  const submissions = Object.values(gameState.submissions);
+  const teamResults = getTeamResults(gameState);
+  const outcomes = getRoundOutcomes(gameState, teamResults);
+  const eliminations: Array<{ playerId: string; reason: 'wrong_sequence' | 'timeout' }> = [];
+  const livesLost: Array<{ playerId: string; reason: 'wrong_sequence' | 'timeout' }> = [];
+  let updatedPlayerStates = { ...gameState.playerStates };
+  let updatedScores = { ...gameState.scores };
+  let roundWinner: { playerId: string; score: number } | null = null;
+  
+  // Correct submissions, fastest first
+  const correctSubmissions = submissions
+    .filter(s => outcomes.find(o => o.playerId === s.playerId)?.isCorrect)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  
+  // Wrong answers cost a life (and the streak); the last one eliminates
+  outcomes.forEach(({ playerId, isCorrect, reason }) => {
+    const playerState = updatedPlayerStates[playerId];
+    if (playerState?.status !== 'playing') {
+      return;
+    }
+    
+    if (isCorrect) {
+      updatedPlayerStates[playerId] = { ...playerState, streak: playerState.streak + 1 };
+      return;
+    }
+    
+    const lives = Math.max(0, playerState.lives - 1);
+    
+    if (lives === 0) {
+      updatedPlayerStates[playerId] = {
+        ...playerState,
+        lives,
+        streak: 0,
+        status: 'eliminated',
+        eliminatedAtRound: gameState.round,
+      };
+      eliminations.push({ playerId, reason });
+    } else {
+      // Still in: the same sequence is replayed next round
+      updatedPlayerStates[playerId] = {
+        ...playerState,
+        lives,
+        streak: 0,
+        lostLifeAtRound: gameState.round,
+      };
+      livesLost.push({ playerId, reason });
+    }
+  });
+  
+  // Award points to correct submissions
+  const roundScores = scoring.scoreRound(
+    { ...gameState, playerStates: updatedPlayerStates },
+    correctSubmissions
+  );
+  roundScores.forEach(roundScore => {
+    updatedScores[roundScore.playerId] = (updatedScores[roundScore.playerId] || 0) + roundScore.total;
+  });
+  
+  // Round winner is the fastest correct player (first if tie)
+  if (correctSubmissions.length > 0) {
+    const winnerId = correctSubmissions[0].playerId;
+    roundWinner = {
+      playerId: winnerId,
+      score: updatedScores[winnerId],
+    };
+  }
+  
+  return {
+    gameState: {
+      ...gameState,
+      playerStates: updatedPlayerStates,
+      scores: updatedScores,
+      roundWinner: roundWinner?.playerId || null,
+      roundHistory: [
+        ...gameState.roundHistory,
+        { round: gameState.round, scores: roundScores, submissions: recordSubmissions(gameState, outcomes) },
+      ],
+      submissions: {}, // Clear for next round
+    },
+    roundWinner,
+    eliminations,
+    livesLost,
+    roundScores,
+    teamResults,
+  };
+}
+
+/**
+ * Each answering player's result and timing, for match history
+ * Reaction time runs from the input phase opening to the submission.
+ */
+function recordSubmissions(
+  gameState: SimonGameState,
+  outcomes: Array<{ playerId: string; isCorrect: boolean }>
+): MatchSubmission[] {
+  const { timerStartedAt } = gameState;
+  
+  return outcomes.map(({ playerId, isCorrect }) => {
+    const submission = gameState.submissions[playerId];
+    const answered = submission?.sequence.length && timerStartedAt !== null;
+    
+    return {
+      playerId,
+      isCorrect,
+      reactionMs: answered ? Math.max(0, submission.timestamp - timerStartedAt) : null,
+      sequenceLength: getExpectedInput(gameState, playerId).length,
+    };
+  });
+}
+
+/**
+ * Whether each player got the round right, and why not
+ * Players count their own submission, or in team modes their team's result.
+ */
+function getRoundOutcomes(
+  gameState: SimonGameState,
+  teamResults: Array<{ teamId: TeamId; isCorrect: boolean }>
+): Array<{ playerId: string; isCorrect: boolean; reason: 'wrong_sequence' | 'timeout' }> {
+  const submissions = Object.values(gameState.submissions);
+  const getReason = (misses: PlayerSubmission[]) =>
+    misses.every(s => s.sequence.length === 0) ? 'timeout' as const : 'wrong_sequence' as const;
+  
+  if (!isTeamMode(gameState)) {
+    return submissions.map(s => ({ playerId: s.playerId, isCorrect: s.isCorrect, reason: getReason([s]) }));
+  }
+  
+  return teamResults.flatMap(({ teamId, isCorrect }) => {
+    const members = getTeamMembers(gameState, teamId);
+    const misses = submissions.filter(s => members.includes(s.playerId) && !s.isCorrect);
+    
+    return members.map(playerId => ({ playerId, isCorrect, reason: getReason(misses) }));
+  });
+}
+
+/**
+ * Players who have to answer this round
+ * Everyone still playing, or in chain mode only the player whose turn it is.
+ * In team modes, teammates whose slice is empty (short sequences) sit it out.
+ */
+export function getAnsweringPlayers(gameState: SimonGameState): SimonPlayerState[] {
+  return Object.values(gameState.playerStates).filter(
+    state => state.status === 'playing' && isPlayersTurn(gameState, state.playerId) && hasColorsToEnter(gameState, state.playerId)
+  );
+}
+
+/**
+ * Check if all players who have to answer have submitted
+ */
+export function haveAllPlayersSubmitted(gameState: SimonGameState): boolean {
+  const answeringPlayers = getAnsweringPlayers(gameState);
+  
+  return answeringPlayers.length > 0 &&
+    answeringPlayers.every(state => gameState.submissions[state.playerId]);
+}
+
+// =============================================================================
+// TURNS (chain mode)
+// =============================================================================
+
+/**
+ * Whether a player may answer (and in chain mode, choose a color) now
+ */
+export function isPlayersTurn(gameState: SimonGameState, playerId: string): boolean {
+  return gameState.mode !== 'chain' || gameState.activePlayerId === playerId;
+}
+
+/**
+ * Next player still in the game after the active one, in join order
+ * (the active player again when they are the only one left)
+ */
+export function getNextActivePlayer(gameState: SimonGameState): string | null {
+  const playerIds = Object.keys(gameState.playerStates);
+  const start = gameState.activePlayerId === null ? -1 : playerIds.indexOf(gameState.activePlayerId);
+  
+  for (let offset = 1; offset <= playerIds.length; offset++) {
+    const playerId = playerIds[(start + offset) % playerIds.length];
+    if (gameState.playerStates[playerId].status === 'playing') {
+      return playerId;
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Add the active player's chosen color to the sequence
+ * Without a color (the player ran out of time) one is drawn from the
+ * game's seeded stream instead.
+ */
+export function appendChainColor(gameState: SimonGameState, color: Color | null): SimonGameState {
+  if (color) {
+    return { ...gameState, sequence: [...gameState.sequence, color] };
+  }
+  
+  const random = createSeededRandom(gameState.rngState);
+  return {
+    ...gameState,
+    sequence: extendSequence(gameState.sequence, random.next, gameState.palette),
+    rngState: random.getState(),
+  };
+}
+
+/**
+ * Pass the turn to the next player, who repeats the whole sequence
+ * (the same one again when the last player missed)
+ */
+export function advanceChainTurn(gameState: SimonGameState): SimonGameState {
+  const updatedPlayerStates: Record<string, SimonPlayerState> = {};
+  Object.entries(gameState.playerStates).forEach(([id, state]) => {
+    updatedPlayerStates[id] = {
+      ...state,
+      currentInputIndex: 0,
+      sequenceLength: gameState.sequence.length,
+    };
+  });
+  
+  return {
+    ...gameState,
+    phase: 'showing_sequence',
+    activePlayerId: getNextActivePlayer(gameState),
+    round: gameState.round + 1,
+    playerStates: updatedPlayerStates,
+    currentShowingIndex: 0,
+    timeoutAt: null,
+    submissions: {},
+    roundWinner: null,
+  };
+}
+
+// =============================================================================
+// TEAMS (co-op and team modes)
+// =============================================================================
+
+/**
+ * Whether players win and lose as teams
+ */
+export function isTeamMode(gameState: SimonGameState): boolean {
+  return gameState.mode === 'coop' || gameState.mode === 'teams';
+}
+
+/**
+ * A team's players, in join order
+ */
+export function getTeamMembers(gameState: SimonGameState, teamId: TeamId): string[] {
+  return Object.values(gameState.playerStates)
+    .filter(state => state.teamId === teamId)
+    .map(state => state.playerId);
+}
+
+/**
+ * Part of the sequence a player enters
+ * In team modes the sequence is split into consecutive slices, one per
+ * teammate in join order; earlier teammates get the extra colors.
+ */
+export function getPlayerSlice(gameState: SimonGameState, playerId: string): SequenceSlice {
+  const playerState = gameState.playerStates[playerId];
+  const length = playerState?.sequenceLength ?? gameState.sequence.length;
+  if (!playerState?.teamId || !isTeamMode(gameState)) {
+    return { start: 0, end: length };
+  }
+  
+  const members = getTeamMembers(gameState, playerState.teamId);
+  const index = members.indexOf(playerId);
+  return {
+    start: Math.ceil((index * length) / members.length),
+    end: Math.ceil(((index + 1) * length) / members.length),
+  };
+}
+
+/**
+ * Whether a player has any colors to enter this round
+ */
+function hasColorsToEnter(gameState: SimonGameState, playerId: string): boolean {
+  const { start, end } = getPlayerSlice(gameState, playerId);
+  return end > start;
+}
+
+/**
+ * Each team still in the game, and whether all of its slices were right
+ */
+export function getTeamResults(gameState: SimonGameState): Array<{ teamId: TeamId; isCorrect: boolean }> {
+  if (!isTeamMode(gameState)) {
+    return [];
+  }
+  
+  const answering = getAnsweringPlayers(gameState);
+  const teamIds = TEAM_IDS.filter(teamId => answering.some(state => state.teamId === teamId));
+  
+  return teamIds.map(teamId => ({
+    teamId,
+    isCorrect: answering
+      .filter(state => state.teamId === teamId)
+      .every(state => gameState.submissions[state.playerId]?.isCorrect),
+  }));
+}
+
+/**
+ * Teams ranked for the final results: still in first, then by how long
+ * they lasted, then by score
+ */
+export function getTeamStandings(gameState: SimonGameState): SimonTeamResult[] {
+  if (!isTeamMode(gameState)) {
+    return [];
+  }
+  
+  const standings = TEAM_IDS
+    .map(teamId => {
+      const members = Object.values(gameState.playerStates).filter(state => state.teamId === teamId);
+      const stillIn = members.some(state => state.status === 'playing');
+      
+      return {
+        teamId,
+        playerIds: members.map(state => state.playerId),
+        score: members.reduce((total, state) => total + (gameState.scores[state.playerId] ?? 0), 0),
+        eliminatedAtRound: stillIn ? null : Math.max(...members.map(state => state.eliminatedAtRound ?? 0)),
+      };
+    })
+    .filter(team => team.playerIds.length > 0);
+  
+  const lastedUntil = (team: SimonTeamResult) => team.eliminatedAtRound ?? Infinity;
+  return standings.sort((a, b) => lastedUntil(b) - lastedUntil(a) || b.score - a.score);
+}
+
+// =============================================================================
+// GAME PROGRESSION
+// =============================================================================
+
+/**
+ * Advance to the next round
+ */
+export function advanceToNextRound(gameState: SimonGameState): SimonGameState {
+  // Extend sequence by one color, continuing the game's seeded stream
+  const random = createSeededRandom(gameState.rngState);
+  const newSequence = extendSequence(gameState.sequence, random.next, gameState.palette);
+  
+  // Calculate new timeout (decreases each round but has minimum)
+  const newTimeout = Math.max(
+    SIMON_CONSTANTS.MIN_TIMEOUT_MS,
+    gameState.timeoutMs - SIMON_CONSTANTS.TIMEOUT_DECREMENT_MS
+  );
+  
+  // Reset all active players' input index for new round; players who
+  // just lost a life repeat the same colors instead of one more, everyone
+  // else (including those done replaying) plays the whole new sequence
+  const updatedPlayerStates: Record<string, SimonPlayerState> = {};
+  Object.entries(gameState.playerStates).forEach(([id, state]) => {
+    updatedPlayerStates[id] = {
+      ...state,
+      currentInputIndex: 0,
+      sequenceLength: state.lostLifeAtRound === gameState.round
+        ? state.sequenceLength
+        : newSequence.length,
+    };
+  });
+  
+  return {
+    ...gameState,
+    phase: 'showing_sequence',
+    sequence: newSequence,
+    round: gameState.round + 1,
+    playerStates: updatedPlayerStates,
+    currentShowingIndex: 0,
+    timeoutMs: newTimeout,
+    submissions: {},      // Step 4: Clear submissions for new round
+    roundWinner: null,    // Step 4: Clear round winner
+    rngState: random.getState(),
+  };
+}
+
+/**
+ * Eliminate a player from the game
+ */
+export function eliminatePlayer(
+  gameState: SimonGameState,
+  playerId: string,
+  round: number
+): SimonGameState {
+  const updatedPlayerStates = { ...gameState.playerStates };
+  
+  if (updatedPlayerStates[playerId]) {
+    updatedPlayerStates[playerId] = {
+      ...updatedPlayerStates[playerId],
+      status: 'eliminated',
+      eliminatedAtRound: round,
+      lives: 0,
+    };
+  }
+  
+  return {
+    ...gameState,
+    playerStates: updatedPlayerStates,
+  };
+}
+
+/**
+ * Check if game should end
+ * 
+ * Solo mode (1 total player): End only when that player is eliminated (0 active)
+ * Multiplayer (2+ players): End when 1 or fewer active players remain
+ */
+export function shouldGameEnd(gameState: SimonGameState): boolean {
+  const totalPlayers = Object.keys(gameState.playerStates).length;
+  const activePlayers = Object.values(gameState.playerStates).filter(
+    state => state.status === 'playing'
+  );
+  
+  // Team modes: teams go out together; a lone team (co-op) plays until it does
+  if (isTeamMode(gameState)) {
+    const totalTeams = new Set(Object.values(gameState.playerStates).map(state => state.teamId)).size;
+    const teamsLeft = new Set(activePlayers.map(state => state.teamId)).size;
+    return totalTeams === 1 ? teamsLeft === 0 : teamsLeft <= 1;
+  }
+  
+  // Solo mode: only end when the player is eliminated
+  if (totalPlayers === 1) {
+    return activePlayers.length === 0;
+  }
+  
+  // Multiplayer: end when 1 or fewer active players
+  return activePlayers.length <= 1;
+}
+
+/**
+ * Get the winner (last player standing or highest scorer)
+ */
+export function getWinner(gameState: SimonGameState): string | null {
+  const activePlayers = Object.values(gameState.playerStates).filter(
+    state => state.status === 'playing'
+  );
+  
+  // If 1 player still active, they're the winner
+  if (activePlayers.length === 1) {
+    return activePlayers[0].playerId;
+  }
+  
+  // If all eliminated, return player with highest score
+  if (activePlayers.length === 0) {
+    let highestScore = -1;
+    let winnerId: string | null = null;
+    
+    Object.entries(gameState.scores).forEach(([playerId, score]) => {
+      if (score > highestScore) {
+        highestScore = score;
+        winnerId = playerId;
+      }
+    });
+    
+    return winnerId;
+  }
+  
+  return null;
+}
+
+/**
+ * Get count of active (still playing) players
+ */
+export function getActivePlayerCount(gameState: SimonGameState): number {
+  return Object.values(gameState.playerStates).filter(
+    state => state.status === 'playing'
+  ).length;
+}
+
+/**
+ * Lives left per player
+ */
+export function getPlayerLives(gameState: SimonGameState): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(gameState.playerStates).map(([id, state]) => [id, state.lives])
+  );
+}
+
+/**
+ * Update player's current input index (progress through sequence)
+ */
+export function updatePlayerProgress(
+  gameState: SimonGameState,
+  playerId: string
+): SimonGameState {
+  const updatedPlayerStates = { ...gameState.playerStates };
+  
+  if (updatedPlayerStates[playerId]) {
+    updatedPlayerStates[playerId] = {
+      ...updatedPlayerStates[playerId],
+      currentInputIndex: updatedPlayerStates[playerId].currentInputIndex + 1,
+    };
+  }
+  
+  return {
+    ...gameState,
+    playerStates: updatedPlayerStates,
+  };
+}
+
+// =============================================================================
+// RECONNECTION
+// =============================================================================
+
+/**
+ * Build the snapshot a reconnecting player needs to resume the round
+ */
+export function createSimonSnapshot(
+  gameState: SimonGameState,
+  playerId: string,
+  settings: SimonSettings = DEFAULT_SIMON_SETTINGS
+): SimonGameSnapshot {
+  const isInputPhase = gameState.phase === 'player_input';
+  const isChoosingColor = gameState.phase === 'choosing_color';
+  
+  return {
+    gameType: 'simon',
+    phase: gameState.phase,
+    mode: gameState.mode,
+    activePlayerId: gameState.activePlayerId,
+    variant: gameState.variant,
+    palette: gameState.palette,
+    round: gameState.round,
+    sequence: getPlayerSequence(gameState, playerId),
+    showColorDurationMs: settings.showColorDurationMs,
+    showColorGapMs: settings.showColorGapMs,
+    timeoutAt: isInputPhase || isChoosingColor ? gameState.timeoutAt : null,
+    slice: getPlayerSlice(gameState, playerId),
+    timeoutSeconds: isChoosingColor
+      ? SIMON_CONSTANTS.CHAIN_APPEND_TIMEOUT_MS / 1000
+      : calculateTimeoutSeconds(gameState.sequence.length, settings),
+    scores: gameState.scores,
+    playerStatuses: Object.fromEntries(
+      Object.entries(gameState.playerStates).map(([id, state]) => [id, state.status])
+    ),
+    lives: getPlayerLives(gameState),
+    submittedPlayers: Object.keys(gameState.submissions),
+    hasSubmitted: playerId in gameState.submissions,
+  };
+}
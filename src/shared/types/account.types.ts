@@ -0,0 +1,86 @@
+/**
+ * Account Types
+ *
+ * Optional persistent accounts. Guests keep playing with a name and
+ * avatar per room; signing in adds a stable account ID to every room
+ * session so results can follow the player from game to game.
+ */
+
+// =============================================================================
+// ACCOUNT TYPES
+// =============================================================================
+
+/**
+ * Public view of an account (never includes credentials)
+ */
+export interface Account {
+  id: string;                    // UUID, stable across rooms
+  username: string;              // Unique, case-insensitive
+  createdAt: number;             // Epoch ms
+  rating: number;                // Elo skill rating (see rating.types.ts)
+}
+
+// =============================================================================
+// API TYPES
+// =============================================================================
+
+/**
+ * Login request (local username + password)
+ */
+export interface AccountCredentialsRequest {
+  username: string;
+  password: string;
+}
+
+/**
+ * Register request
+ */
+export interface RegisterAccountRequest extends AccountCredentialsRequest {
+  email?: string;                // Enables magic link sign-in
+}
+
+/**
+ * Magic link request (sign in through the account's email address)
+ */
+export interface MagicLinkRequest {
+  username: string;
+}
+
+/**
+ * Magic link response
+ * The same whether or not the username has an account with an email.
+ * devToken is only included when the server opted in with
+ * MAGIC_LINK_DEV_TOKEN=true (never in production).
+ */
+export interface MagicLinkResponse {
+  sent: boolean;
+  devToken?: string;
+}
+
+/**
+ * Follow a magic link
+ */
+export interface VerifyMagicLinkRequest {
+  token: string;
+}
+
+/**
+ * Current account (null when playing as a guest)
+ */
+export interface AccountResponse {
+  account: Account | null;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const ACCOUNT_CONSTANTS = {
+  MIN_USERNAME_LENGTH: 3,
+  MAX_USERNAME_LENGTH: 12,       // Same as display names, so a username is always a valid one
+  MIN_PASSWORD_LENGTH: 8,
+  MAX_PASSWORD_LENGTH: 128,
+  MAX_EMAIL_LENGTH: 254,
+  MAGIC_LINK_EXPIRATION: '15m',
+  ACCOUNT_TOKEN_EXPIRATION: '30d',
+} as const;
@@ -0,0 +1,95 @@
+/**
+ * Daily Challenge Types
+ *
+ * One Simon sequence per UTC day, derived on the server. Each player
+ * gets a single attempt, which they can resume after a reload; the server
+ * hands out one round at a time and checks every submission, so a score
+ * always matches the round reached.
+ */
+
+import type { Color } from './game.types';
+
+// =============================================================================
+// API TYPES
+// =============================================================================
+
+/**
+ * Start daily attempt request
+ */
+export interface StartDailyRequest {
+  displayName: string;
+  avatarId: string;
+}
+
+/**
+ * A round of the daily sequence to play
+ */
+export interface DailyRound {
+  date: string;                  // UTC day (YYYY-MM-DD)
+  round: number;
+  sequence: Color[];
+  timeLeftMs: number;            // Until the round closes, counted from when it was sent
+}
+
+/**
+ * Final result of a player's attempt
+ */
+export interface DailyResult {
+  score: number;                 // Rounds cleared
+  rank: number;                  // 1-based place on the day's leaderboard
+}
+
+/**
+ * Today's challenge, as seen by the requesting player
+ */
+export interface DailyChallengeResponse {
+  date: string;
+  hasPlayed: boolean;
+  result: DailyResult | null;    // Set once the player's attempt is over
+  current: DailyRound | null;    // Round of an attempt still being played, to resume it
+}
+
+/**
+ * Submit daily round request
+ */
+export interface SubmitDailyRoundRequest {
+  sequence: Color[];             // Empty when the input timed out
+}
+
+/**
+ * Submit daily round response
+ */
+export interface SubmitDailyRoundResponse {
+  isCorrect: boolean;
+  score: number;
+  next: DailyRound | null;       // Next round when correct
+  result: DailyResult | null;    // Final result when the attempt is over
+}
+
+/**
+ * One leaderboard row
+ */
+export interface DailyLeaderboardEntry {
+  rank: number;
+  displayName: string;
+  avatarId: string;
+  score: number;
+  finishedAt: number;
+}
+
+/**
+ * Leaderboard response
+ */
+export interface DailyLeaderboardResponse {
+  date: string;
+  entries: DailyLeaderboardEntry[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const DAILY_CONSTANTS = {
+  LEADERBOARD_SIZE: 50,
+  SUBMIT_GRACE_MS: 3000,         // Allowance for network latency on each round
+} as const;
@@ -5,19 +5,40 @@
  * Platform types belong in platform.types.ts
  */
 
+import type { SessionClaims, TeamId } from './platform.types';
+import type { MatchRound, MatchSubmission } from './history.types';
+import type { RatingChange } from './rating.types';
+
 // =============================================================================
 // SHARED GAME TYPES
 // =============================================================================
 
 /**
- * Available colors in both games
+ * Available colors in both games (Simon boards with more than four
+ * pads use the extra ones)
+ */
+export type Color = 'red' | 'blue' | 'yellow' | 'green' | 'purple' | 'orange' | 'white' | 'brown';
+
+/**
+ * The four colors of the original board (Color Race, default Simon)
+ */
+export const CLASSIC_COLORS: Color[] = ['red', 'blue', 'yellow', 'green'];
+
+/**
+ * All available colors, in the order pads are added to a Simon board
+ * (the classic four first, so seeds replay the same sequences)
+ */
+export const COLORS: Color[] = [...CLASSIC_COLORS, 'purple', 'orange', 'white', 'brown'];
+
+/**
+ * Games a room can be set up to play
  */
-export type Color = 'red' | 'blue' | 'yellow' | 'green';
+export type GameType = 'simon' | 'color_race';
 
 /**
- * All available colors
+ * All available game types
  */
-export const COLORS: Color[] = ['red', 'blue', 'yellow', 'green'];
+export const GAME_TYPES: GameType[] = ['simon', 'color_race'];
 
 // =============================================================================
 // COLOR RACE TYPES (Dummy Game)
@@ -44,6 +65,10 @@ export interface ColorRaceGameState {
   totalRounds: number;             // Total rounds in game
   scores: Record<string, number>;  // playerId -> score
   roundWinner: string | null;      // playerId of round winner
+  roundStartedAt: number | null;   // When the current color was shown (epoch ms)
+  rounds: MatchRound[];            // Answers of every finished round (match history)
+  seed: number;                    // Seed the colors were drawn from (challenge code)
+  rngState: number;                // Generator state for the next color
 }
 
 /**
@@ -72,9 +97,10 @@ export interface ColorRaceServerEvents {
   }) => void;
   
   'color_race:game_finished': (data: {
-    winnerId: string;
-    winnerName: string;
+    winnerId: string | null;
+    winnerName: string | null;
     finalScores: Record<string, number>;
+    challengeCode: string;         // Replays the same colors
   }) => void;
 }
 
@@ -82,9 +108,7 @@ export interface ColorRaceServerEvents {
  * Color Race WebSocket events (client → server)
  */
 export interface ColorRaceClientEvents {
-  'color_race:submit_answer': (data: {
-    gameCode: string;
-    playerId: string;
+  'color_race:submit_answer': (data: SessionClaims & {
     color: Color;
   }) => void;
 }
@@ -109,6 +133,7 @@ export type SimonPhase =
   | 'countdown'         // 3-2-1 before game (handled by platform)
   | 'showing_sequence'  // Simon showing the sequence
   | 'player_input'      // Player's turn to repeat
+  | 'choosing_color'    // Chain mode: the active player picks the next color
   | 'round_result'      // Showing who passed/failed
   | 'elimination'       // Player eliminated
   | 'finished';         // Game over, winner declared
@@ -129,6 +154,11 @@ export interface SimonPlayerState {
   status: SimonPlayerStatus;
   currentInputIndex: number;  // How far in the sequence they are
   eliminatedAtRound: number | null;
+  lives: number;              // Wrong answers left before elimination
+  sequenceLength: number;     // Colors of the shared sequence this player repeats
+  lostLifeAtRound: number | null; // Last round that cost a life (replayed next round)
+  streak: number;             // Correct rounds in a row
+  teamId: TeamId | null;      // Co-op and team modes: who this player wins or loses with
 }
 
 /**
@@ -141,12 +171,115 @@ export interface PlayerSubmission {
   isCorrect: boolean;
 }
 
+/**
+ * How players must enter the sequence they were shown
+ * - standard: as shown
+ * - reverse: last color first
+ * - mirror: in order, with each color swapped for its opposite
+ *   (red ↔ blue, yellow ↔ green)
+ */
+export type SimonVariant = 'standard' | 'reverse' | 'mirror';
+
+/**
+ * All Simon variants
+ */
+export const SIMON_VARIANTS: SimonVariant[] = ['standard', 'reverse', 'mirror'];
+
+/**
+ * Color each color stands for in the mirror variant
+ * On boards with an odd pad count the unpaired last pad stands for itself.
+ */
+export const MIRROR_COLORS: Record<Color, Color> = {
+  red: 'blue',
+  blue: 'red',
+  yellow: 'green',
+  green: 'yellow',
+  purple: 'orange',
+  orange: 'purple',
+  white: 'brown',
+  brown: 'white',
+};
+
+/**
+ * How turns are played
+ * - free_for_all: everyone repeats the same sequence at once
+ * - chain: players take turns repeating it, and each correct repeat
+ *   lets that player choose the next color
+ * - coop: everyone is one team; the sequence is split across teammates,
+ *   each entering their slice, and the team survives or fails together
+ * - teams: the same split within each lobby team, team against team
+ */
+export type SimonMode = 'free_for_all' | 'chain' | 'coop' | 'teams';
+
+/**
+ * All Simon modes
+ */
+export const SIMON_MODES: SimonMode[] = ['free_for_all', 'chain', 'coop', 'teams'];
+
+/**
+ * Part of the sequence a player enters in co-op and team modes
+ * (start inclusive, end exclusive; the whole sequence otherwise)
+ */
+export interface SequenceSlice {
+  start: number;
+  end: number;
+}
+
+/**
+ * How a team did over a game, best first in the final results
+ */
+export interface SimonTeamResult {
+  teamId: TeamId;
+  playerIds: string[];
+  score: number;                     // Members' scores added up
+  eliminatedAtRound: number | null;  // null if still in at the end
+}
+
+/**
+ * How Simon rounds are scored
+ * - classic: +1 to the fastest correct player
+ * - speed: every correct player scores by sequence length and time left,
+ *   with a streak multiplier and a bonus for the first correct answer
+ */
+export type SimonScoringMode = 'classic' | 'speed';
+
+/**
+ * All Simon scoring modes
+ */
+export const SIMON_SCORING_MODES: SimonScoringMode[] = ['classic', 'speed'];
+
+/**
+ * Points one player earned in a round, itemized
+ * total = round((basePoints + speedPoints) × streakMultiplier) + firstCorrectBonus
+ */
+export interface RoundScore {
+  playerId: string;
+  basePoints: number;
+  speedPoints: number;
+  streakMultiplier: number;
+  firstCorrectBonus: number;
+  total: number;
+}
+
+/**
+ * Everyone's points and answers for one round
+ */
+export interface SimonRoundBreakdown {
+  round: number;
+  scores: RoundScore[];
+  submissions: MatchSubmission[]; // Everyone who had to answer (match history)
+}
+
 /**
  * Simon Says game state
  */
 export interface SimonGameState {
   gameType: 'simon';
   phase: SimonPhase;
+  mode: SimonMode;
+  activePlayerId: string | null;               // Chain mode: whose turn it is
+  variant: SimonVariant;                       // How the sequence must be entered
+  palette: Color[];                            // Pads on the board (sequence colors)
   sequence: Color[];                           // The sequence to repeat
   round: number;                               // Current round
   playerStates: Record<string, SimonPlayerState>;
@@ -157,13 +290,53 @@ export interface SimonGameState {
   scores: Record<string, number>;              // Player scores (Step 4)
   submissions: Record<string, PlayerSubmission>; // Current round submissions (Step 4)
   roundWinner: string | null;                  // Winner of current round (Step 4)
+  roundHistory: SimonRoundBreakdown[];         // Points earned each round so far
   winnerId: string | null;                     // Last player standing
+  seed: number;                                // Seed the sequence was drawn from (challenge code)
+  rngState: number;                            // Generator state for the next color
+  ratingChanges?: RatingChange[];              // Set when a rated game finishes (match history)
+}
+
+/**
+ * Simon state resent to a player who reconnects mid-game
+ */
+export interface SimonGameSnapshot {
+  gameType: 'simon';
+  phase: SimonPhase;
+  mode: SimonMode;
+  activePlayerId: string | null;
+  variant: SimonVariant;
+  palette: Color[];
+  round: number;
+  sequence: Color[];
+  showColorDurationMs: number;
+  showColorGapMs: number;
+  timeoutAt: number | null;                    // Set during player_input and choosing_color
+  slice: SequenceSlice;                        // What the receiving player enters
+  timeoutSeconds: number;
+  scores: Record<string, number>;
+  playerStatuses: Record<string, SimonPlayerStatus>;
+  lives: Record<string, number>;
+  submittedPlayers: string[];                  // Who has submitted this round
+  hasSubmitted: boolean;                       // Whether the receiving player has
 }
 
 /**
  * Simon Says WebSocket events (server → client)
  */
 export interface SimonServerEvents {
+  'simon:show_sequence': (data: {
+    round: number;
+    sequence: Color[];
+    sequenceLengths: Record<string, number>;   // Shorter for players replaying a round
+    activePlayerId: string | null;             // Chain mode: the only player who answers
+    slices: Record<string, SequenceSlice>;     // What each player enters (split in team modes)
+    variant: SimonVariant;
+    palette: Color[];
+    showColorDurationMs: number;
+    showColorGapMs: number;
+  }) => void;
+  
   'simon:sequence_start': (data: {
     round: number;
     sequenceLength: number;
@@ -207,14 +380,32 @@ export interface SimonServerEvents {
   'simon:player_eliminated': (data: {
     playerId: string;
     playerName: string;
-    reason: 'wrong_sequence' | 'timeout';
+    reason: 'wrong_sequence' | 'wrong_color' | 'timeout';
   }) => void;
   
   'simon:round_result': (data: {
     roundWinner: { playerId: string; name: string; } | null;
-    eliminations: Array<{ playerId: string; name: string; reason: string }>;
+    eliminations: Array<{ playerId: string; name: string; reason: 'wrong_sequence' | 'timeout' }>;
+    livesLost: Array<{ playerId: string; name: string; reason: 'wrong_sequence' | 'timeout' }>;
     scores: Record<string, number>;
     playerStatuses: Record<string, SimonPlayerStatus>;
+    lives: Record<string, number>;
+    roundScores: RoundScore[];
+    teamResults: Array<{ teamId: TeamId; isCorrect: boolean }>; // Co-op and team modes
+  }) => void;
+  
+  'simon:choose_color': (data: {
+    playerId: string;
+    playerName: string;
+    timeoutAt: number;
+    timeoutSeconds: number;
+  }) => void;
+  
+  'simon:color_appended': (data: {
+    playerId: string;
+    playerName: string;
+    color: Color;
+    autoPicked: boolean;           // The player ran out of time
   }) => void;
   
   'simon:round_complete': (data: {
@@ -225,6 +416,11 @@ export interface SimonServerEvents {
   'simon:game_finished': (data: {
     winner: { playerId: string; name: string; score: number };
     finalScores: Array<{ playerId: string; name: string; score: number }>;
+    challengeCode: string | null;  // Replays the same sequence (null in chain mode)
+    roundHistory: SimonRoundBreakdown[];
+    teams: SimonTeamResult[];      // Co-op and team modes, best first
+    winningTeamId: TeamId | null;  // Team mode only
+    ratingChanges: RatingChange[]; // Signed-in players only
   }) => void;
 }
 
@@ -232,12 +428,18 @@ export interface SimonServerEvents {
  * Simon Says WebSocket events (client → server)
  */
 export interface SimonClientEvents {
-  'simon:submit_input': (data: {
-    gameCode: string;
-    playerId: string;
+  'simon:submit_sequence': (data: SessionClaims & {
+    sequence: Color[];
+  }) => void;
+  
+  'simon:submit_input': (data: SessionClaims & {
     color: Color;
     inputIndex: number;
   }) => void;
+  
+  'simon:append_color': (data: SessionClaims & {
+    color: Color;
+  }) => void;
 }
 
 /**
@@ -251,6 +453,51 @@ export const SIMON_CONSTANTS = {
   MIN_TIMEOUT_MS: 1500,               // Minimum 1.5 seconds
   SHOW_COLOR_DURATION_MS: 600,        // How long each color shows
   SHOW_COLOR_GAP_MS: 200,             // Gap between colors
+  MIN_PAD_COUNT: 3,
+  MAX_PAD_COUNT: 8,                   // One pad per color in COLORS
+  CHAIN_APPEND_TIMEOUT_MS: 10000,     // Chain mode: time to choose the next color
+} as const;
+
+/**
+ * Per-room Simon tuning, edited by the host in the lobby
+ */
+export interface SimonSettings {
+  initialSequenceLength: number;   // Colors in round 1
+  timeoutBaseSeconds: number;      // Input timeout = base + perColor × sequence length
+  timeoutPerColorSeconds: number;
+  showColorDurationMs: number;     // How long each color shows
+  showColorGapMs: number;          // Gap between colors
+  lives: number;                   // Wrong answers allowed (1 = instant elimination)
+  mode: SimonMode;
+  scoring: SimonScoringMode;
+  variant: SimonVariant;
+  padCount: number;                // Pads on the board (3-8), more is harder
+}
+
+/**
+ * Default Simon settings (15 + length × 2 seconds to answer)
+ */
+export const DEFAULT_SIMON_SETTINGS: SimonSettings = {
+  initialSequenceLength: SIMON_CONSTANTS.INITIAL_SEQUENCE_LENGTH,
+  timeoutBaseSeconds: 15,
+  timeoutPerColorSeconds: 2,
+  showColorDurationMs: SIMON_CONSTANTS.SHOW_COLOR_DURATION_MS,
+  showColorGapMs: SIMON_CONSTANTS.SHOW_COLOR_GAP_MS,
+  lives: 1,
+  mode: 'free_for_all',
+  scoring: 'speed',
+  variant: 'standard',
+  padCount: CLASSIC_COLORS.length,
+};
+
+/**
+ * Speed scoring tuning (see RoundScore)
+ */
+export const SIMON_SCORING_CONSTANTS = {
+  POINTS_PER_COLOR: 10,               // Base points per color repeated
+  FIRST_CORRECT_BONUS: 10,            // Fastest correct answer of the round
+  STREAK_STEP: 0.1,                   // Multiplier gained per extra round in a row
+  MAX_STREAK_MULTIPLIER: 2,
 } as const;
 
 // =============================================================================
@@ -262,6 +509,11 @@ export const SIMON_CONSTANTS = {
  */
 export type GameState = ColorRaceGameState | SimonGameState;
 
+/**
+ * Any game snapshot (sent on reconnect)
+ */
+export type GameSnapshot = SimonGameSnapshot;
+
 /**
  * All game server events
  */
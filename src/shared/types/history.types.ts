@@ -0,0 +1,100 @@
+/**
+ * Match History Types
+ *
+ * Finished games are stored with their players, rounds and results so a
+ * player's history and stats can be read back later. Players are looked
+ * up by account ID when signed in, or by their room player ID as guests.
+ * Account IDs stay on the server; matches only show what the other
+ * players could see in the room.
+ */
+
+import type { GameType } from './game.types';
+
+// =============================================================================
+// MATCH TYPES
+// =============================================================================
+
+/**
+ * One player's answer in a round
+ */
+export interface MatchSubmission {
+  playerId: string;
+  isCorrect: boolean;
+  reactionMs: number | null;     // From the input phase opening to the answer, null on a timeout
+  sequenceLength: number;        // Colors the player had to enter
+}
+
+/**
+ * Every answer given in one round
+ */
+export interface MatchRound {
+  round: number;
+  submissions: MatchSubmission[];
+}
+
+/**
+ * A player's result in a finished match
+ */
+export interface MatchPlayer {
+  playerId: string;              // Room player ID
+  displayName: string;
+  avatarId: string;
+  isBot: boolean;
+  score: number;
+  rank: number;                  // 1-based finishing place
+  eliminatedAtRound: number | null; // null when still in at the end
+  ratingChange: number | null;   // Rating delta, null when the match wasn't rated for them
+}
+
+/**
+ * A finished match
+ */
+export interface MatchRecord {
+  id: string;
+  gameCode: string;
+  gameType: GameType;
+  finishedAt: number;            // Epoch ms
+  winnerId: string | null;
+  players: MatchPlayer[];        // Best first
+  rounds: MatchRound[];
+}
+
+// =============================================================================
+// API TYPES
+// =============================================================================
+
+/**
+ * A match in a player's history
+ */
+export interface PlayerMatch extends MatchRecord {
+  selfPlayerId: string;          // The player's room player ID in this match
+}
+
+/**
+ * A player's recent matches, newest first
+ */
+export interface PlayerHistoryResponse {
+  playerId: string;
+  matches: PlayerMatch[];
+}
+
+/**
+ * A player's stats across every stored match
+ */
+export interface PlayerStatsResponse {
+  playerId: string;
+  gamesPlayed: number;
+  wins: number;                  // Multiplayer matches won
+  winRate: number | null;        // wins / multiplayer matches (0-1), null without any
+  longestSequence: number;       // Longest sequence repeated correctly
+  averageReactionMs: number | null;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const HISTORY_CONSTANTS = {
+  DEFAULT_HISTORY_LIMIT: 20,
+  MAX_HISTORY_LIMIT: 100,
+} as const;
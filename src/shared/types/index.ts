@@ -7,3 +7,18 @@ export * from './platform.types';
 
 // Game types
 export * from './game.types';
+
+// Socket event maps
+export * from './socket.types';
+
+// Daily challenge
+export * from './daily.types';
+
+// Accounts
+export * from './account.types';
+
+// Match history
+export * from './history.types';
+
+// Skill ratings
+export * from './rating.types';
@@ -5,10 +5,20 @@
  * Game-specific types belong in game.types.ts
  */
 
+import type { GameSnapshot, GameType, SimonSettings } from './game.types';
+import { DEFAULT_SIMON_SETTINGS } from './game.types';
+
 // =============================================================================
 // PLAYER TYPES
 // =============================================================================
 
+/**
+ * Whether a room member plays or only watches
+ */
+export type PlayerRole = 
+  | 'player'      // Takes a slot and plays
+  | 'spectator';  // Watches without taking a slot
+
 /**
  * Player in a game room
  */
@@ -16,18 +26,57 @@ export interface Player {
   id: string;                    // UUID
   displayName: string;           // 3-12 characters
   avatarId: string;              // "1" to "8"
-  isHost: boolean;               // Host privileges
+  role: PlayerRole;              // Spectators don't count toward maxPlayers
+  isHost: boolean;               // Host privileges (never a spectator)
   socketId: string | null;       // Current socket ID
+  socketInstanceId: string | null; // Server instance holding that socket
   connected: boolean;            // Online status
+  disconnectTimeoutAt: number | null; // When a disconnected player is removed (epoch ms)
   lastActivity: Date;            // For timeout detection
+  isBot: boolean;                // Played by the server, never disconnects
+  botDifficulty: BotDifficulty | null; // Set for bots only
+  team: TeamId | null;           // Lobby team (team games), null for spectators
+  accountId: string | null;      // Signed-in account, null for guests and bots
+  rating: number | null;         // Account's skill rating, null for guests and bots
 }
 
+/**
+ * What room members see of each other.
+ * Only these fields leave the server: no sockets, instances or accounts.
+ */
+export type PublicPlayer = Pick<
+  Player,
+  'id' | 'displayName' | 'avatarId' | 'role' | 'isHost' | 'connected' | 'isBot' | 'botDifficulty' | 'team' | 'rating'
+>;
+
+/**
+ * Teams players are split into in the lobby
+ */
+export type TeamId = 'A' | 'B';
+
+/**
+ * All teams, in the order new players fill them
+ */
+export const TEAM_IDS: TeamId[] = ['A', 'B'];
+
+/**
+ * How well a bot plays (memory errors and reaction time)
+ */
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
+/**
+ * Bot difficulties, easiest first
+ */
+export const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'medium', 'hard'];
+
 /**
  * Player info for creating/joining games
  */
 export interface PlayerInfo {
   displayName: string;
   avatarId: string;
+  accountId?: string | null;     // Signed-in account (omitted for guests)
+  rating?: number | null;        // That account's skill rating
 }
 
 // =============================================================================
@@ -43,15 +92,90 @@ export type RoomStatus =
   | 'active'      // Game in progress
   | 'finished';   // Game ended
 
+/**
+ * Host-editable room settings
+ */
+export interface RoomSettings {
+  maxPlayers: number;            // 1 to PLATFORM_CONSTANTS.MAX_PLAYERS
+  simon: SimonSettings;          // Simon timing and difficulty
+  seed: number | null;           // Fixed seed from a challenge code, null for a new one each game
+}
+
+/**
+ * Partial settings sent by the host (only changed fields)
+ */
+export interface RoomSettingsUpdate {
+  maxPlayers?: number;
+  simon?: Partial<SimonSettings>;
+  seed?: number | null;
+}
+
+/**
+ * How a room shows up in the public lobby browser (host-editable)
+ */
+export interface RoomListingUpdate {
+  isPublic: boolean;
+  name: string | null;           // Shown in the lobby browser
+}
+
+/**
+ * Quick-match state of a room filled by matchmaking
+ */
+export interface RoomMatchmaking {
+  rating: number | null;         // Rating the room is matched around, null = anyone
+  startsAt: number | null;       // Epoch ms the wait timer starts the game (set once 2+ players)
+}
+
 /**
  * Game room container
  */
 export interface GameRoom {
   gameCode: string;              // 6-char uppercase alphanumeric
-  players: Player[];             // Max 4 players
+  players: Player[];             // Max 4 players, plus spectators
   status: RoomStatus;            // Lifecycle state
   createdAt: Date;               // For cleanup
+  gameType: GameType;            // Game selected by the host in the lobby
+  settings: RoomSettings;        // Host-editable settings
   gameState: unknown;            // Game-specific state (defined in game.types.ts)
+  ownerId: string;               // Server instance that runs this room's timers
+  matchmaking: RoomMatchmaking | null; // Open for quick match, null for code-only rooms
+  isPublic: boolean;             // Listed in the lobby browser while waiting
+  name: string | null;           // Lobby browser name (host's choice)
+  leavers: Player[];             // Left the running game; results and ratings still count them
+}
+
+/**
+ * Room settings as sent to room members.
+ * The seed would give away a challenge's sequence: members only learn
+ * that one is set, and get its code when the game ends.
+ */
+export interface RoomSettingsView extends Omit<RoomSettings, 'seed'> {
+  hasChallenge: boolean;
+}
+
+/**
+ * A room as sent to its members (room_state, room_state_update).
+ * Settings and game state leave out seeds and generator state, which
+ * would let a client work out every upcoming color.
+ */
+export interface RoomView extends Omit<GameRoom, 'players' | 'settings' | 'leavers'> {
+  players: PublicPlayer[];
+  settings: RoomSettingsView;
+}
+
+/**
+ * What the lobby browser shows of a public room.
+ * Only these fields leave the server: no player IDs, sockets or accounts.
+ */
+export interface PublicRoom {
+  gameCode: string;
+  name: string | null;
+  hostName: string;
+  playerCount: number;
+  maxPlayers: number;
+  gameType: GameType;
+  settings: Omit<RoomSettings, 'seed'>; // The seed would give away a challenge's sequence
+  createdAt: number;             // Epoch ms
 }
 
 // =============================================================================
@@ -66,7 +190,9 @@ export interface SessionPayload {
   gameCode: string;
   displayName: string;
   avatarId: string;
+  role: PlayerRole;
   isHost: boolean;
+  accountId: string | null;      // Signed-in account, null for guests
 }
 
 /**
@@ -77,7 +203,9 @@ export interface Session {
   gameCode: string;
   displayName: string;
   avatarId: string;
+  role: PlayerRole;
   isHost: boolean;
+  accountId: string | null;      // Signed-in account, null for guests
 }
 
 // =============================================================================
@@ -90,6 +218,7 @@ export interface Session {
 export interface CreateSessionRequest {
   displayName: string;
   avatarId: string;
+  challengeCode?: string;        // Start the room from a shared run's seed
 }
 
 /**
@@ -111,7 +240,24 @@ export interface JoinGameRequest {
 }
 
 /**
- * Join game response
+ * Quick match request (joins or opens a matchmaking room)
+ */
+export interface MatchmakingJoinRequest {
+  displayName: string;
+  avatarId: string;
+  gameType?: GameType;           // Defaults to Simon
+  byRating?: boolean;            // Only match players with a similar rating
+}
+
+/**
+ * Public rooms response (lobby browser)
+ */
+export interface PublicRoomsResponse {
+  rooms: PublicRoom[];           // Newest first
+}
+
+/**
+ * Join game response (also returned by quick match)
  */
 export interface JoinGameResponse {
   playerId: string;
@@ -130,27 +276,71 @@ export interface VerifySessionResponse {
 // WEBSOCKET EVENT TYPES
 // =============================================================================
 
+/**
+ * Identity fields clients send with events.
+ * Optional: the server acts as the session pinned at handshake and
+ * rejects payloads that claim a different player or room.
+ */
+export interface SessionClaims {
+  gameCode?: string;
+  playerId?: string;
+}
+
+/**
+ * Machine-readable reason carried by the `error` event
+ */
+export type SocketErrorCode =
+  | 'INVALID_PAYLOAD'    // Payload failed schema validation
+  | 'SESSION_MISMATCH'   // Payload claims another player/room
+  | 'ROOM_NOT_FOUND'
+  | 'NOT_IN_ROOM'
+  | 'NOT_HOST'           // Host-only action
+  | 'INVALID_STATE'      // Action not allowed in the current room status
+  | 'INVALID_SETTINGS'   // Settings conflict with the room (e.g. too many players)
+  | 'SPECTATOR'          // Action not allowed for spectators
+  | 'SERVER_ERROR';
+
+/**
+ * Payload of the `error` event
+ */
+export interface SocketError {
+  code: SocketErrorCode;
+  message: string;
+  event?: string;                // Client event that caused the error
+}
+
 /**
  * Platform WebSocket events (server → client)
  */
 export interface PlatformServerEvents {
-  player_joined: (player: Player) => void;
+  player_joined: (player: PublicPlayer) => void;
   player_left: (data: { playerId: string }) => void;
-  player_disconnected: (data: { playerId: string }) => void;
-  player_reconnected: (data: { playerId: string }) => void;
+  player_disconnected: (data: { playerId: string; displayName?: string }) => void;
+  player_reconnected: (data: { playerId: string; displayName?: string }) => void;
   room_closed: () => void;
   countdown: (data: { count: number }) => void;
-  room_state: (room: GameRoom) => void;
-  error: (data: { message: string }) => void;
+  room_state: (room: RoomView) => void;
+  room_state_update: (room: RoomView) => void;
+  game_restarted: (data: { gameCode: string }) => void;
+  game_snapshot: (snapshot: GameSnapshot) => void;
+  server_restarting: (data: { etaSeconds: number }) => void;  // Seconds until the server should be back
+  error: (data: SocketError) => void;
 }
 
 /**
  * Platform WebSocket events (client → server)
  */
 export interface PlatformClientEvents {
-  join_room_socket: (data: { gameCode: string; playerId: string }) => void;
-  leave_room: (data: { gameCode: string; playerId: string }) => void;
-  start_game: (data: { gameCode: string; playerId: string }) => void;
+  join_room_socket: (data: SessionClaims) => void;
+  leave_room: (data: SessionClaims) => void;
+  start_game: (data: SessionClaims) => void;
+  restart_game: (data: SessionClaims) => void;
+  select_game: (data: SessionClaims & { gameType: GameType }) => void;
+  update_settings: (data: SessionClaims & { settings: RoomSettingsUpdate }) => void;
+  add_bot: (data: SessionClaims & { difficulty: BotDifficulty }) => void;
+  remove_bot: (data: SessionClaims & { botId: string }) => void;
+  set_team: (data: SessionClaims & { targetId: string; team: TeamId }) => void;  // Host moves anyone, players themselves
+  update_listing: (data: SessionClaims & RoomListingUpdate) => void;
 }
 
 // =============================================================================
@@ -159,7 +349,8 @@ export interface PlatformClientEvents {
 
 export const PLATFORM_CONSTANTS = {
   // Room settings
-  MAX_PLAYERS: 4,
+  MAX_PLAYERS: 4,                  // Upper bound for RoomSettings.maxPlayers
+  MAX_SPECTATORS: 20,
   GAME_CODE_LENGTH: 6,
   
   // Timeouts
@@ -167,12 +358,39 @@ export const PLATFORM_CONSTANTS = {
   DISCONNECT_GRACE_MS: 180000,     // 3 minutes before removing player
   ROOM_CLEANUP_INTERVAL_MS: 300000, // 5 minutes
   ROOM_MAX_AGE_MS: 86400000,       // 24 hours
+  SHUTDOWN_DRAIN_MS: 15000,        // 15 seconds for running games to finish before a restart
+  RESTART_ETA_MS: 30000,           // Expected downtime announced to clients
   
   // Validation
   MIN_DISPLAY_NAME_LENGTH: 3,
   MAX_DISPLAY_NAME_LENGTH: 12,
+  MIN_ROOM_NAME_LENGTH: 3,
+  MAX_ROOM_NAME_LENGTH: 24,
   VALID_AVATAR_IDS: ['1', '2', '3', '4', '5', '6', '7', '8'],
   
   // JWT
   JWT_EXPIRATION: '24h',
+  DAILY_TOKEN_EXPIRATION: '365d',
 } as const;
+
+/**
+ * Quick match grouping and auto-start
+ */
+export const MATCHMAKING_CONSTANTS = {
+  MIN_PLAYERS: 2,                  // Wait timer starts once this many have joined
+  WAIT_MS: 20000,                  // 20 seconds for more players before starting anyway
+  RATING_WINDOW: 200,              // Max rating gap when matching by rating
+  RATING_WINDOW_GROWTH: 100,       // Added to the gap for every RATING_WINDOW_GROWTH_MS a room waits
+  RATING_WINDOW_GROWTH_MS: 10000,
+  MAX_RATING_WINDOW: 800,
+  CONNECT_TIMEOUT_MS: 15000,       // Seat released if the player's socket hasn't joined by then
+} as const;
+
+/**
+ * Settings for newly created rooms
+ */
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  maxPlayers: PLATFORM_CONSTANTS.MAX_PLAYERS,
+  simon: DEFAULT_SIMON_SETTINGS,
+  seed: null,
+};
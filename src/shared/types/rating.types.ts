@@ -0,0 +1,29 @@
+/**
+ * Rating Types
+ *
+ * Elo skill ratings for signed-in players, updated after every
+ * multiplayer Simon game from the finishing order.
+ */
+
+// =============================================================================
+// RATING TYPES
+// =============================================================================
+
+/**
+ * A player's rating after a game and how much it moved
+ */
+export interface RatingChange {
+  playerId: string;              // Room player ID
+  rating: number;                // New rating
+  delta: number;                 // e.g. +14 or -8
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const RATING_CONSTANTS = {
+  DEFAULT_RATING: 1200,          // New accounts, and guests/bots as opponents
+  K_FACTOR: 32,                  // Largest swing against a single opponent
+  SCALE: 400,                    // Rating gap at which the stronger player is 10× as likely to win
+} as const;
@@ -0,0 +1,29 @@
+/**
+ * Socket Types - Full WebSocket Event Maps
+ * 
+ * Combines platform and game events for typing socket.io on both sides:
+ * `Server<ClientToServerEvents, ServerToClientEvents>` and
+ * `Socket<ServerToClientEvents, ClientToServerEvents>` (client).
+ */
+
+import type { PlatformClientEvents, PlatformServerEvents } from './platform.types';
+import type { GameClientEvents, GameServerEvents } from './game.types';
+
+// =============================================================================
+// EVENT MAPS
+// =============================================================================
+
+/**
+ * Every event the server emits
+ */
+export type ServerToClientEvents = PlatformServerEvents & GameServerEvents;
+
+/**
+ * Every event the client emits
+ */
+export type ClientToServerEvents = PlatformClientEvents & GameClientEvents;
+
+/**
+ * Payload of a client event
+ */
+export type ClientEventPayload<E extends keyof ClientToServerEvents> = Parameters<ClientToServerEvents[E]>[0];
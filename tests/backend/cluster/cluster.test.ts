@@ -0,0 +1,423 @@
+/**
+ * Cluster Tests
+ *
+ * Verifies broadcasts cross instances over the message bus, that
+ * instances with their own repositories share rooms through the file
+ * store, and that player actions reach the instance owning the room.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Server } from 'socket.io';
+import { Adapter } from 'socket.io-adapter';
+import {
+  INSTANCE_ID,
+  InProcessMessageBus,
+  MessageBusHub,
+  TcpMessageBus,
+  createBusAdapter,
+  createMessageBus,
+  createRoomRouter,
+  readClusterConfig,
+} from '../../../src/backend/cluster';
+import type { MessageBus, RoomRouter } from '../../../src/backend/cluster';
+import type { initializeGameHandlers } from '../../../src/backend/websocket';
+import type { SocketWithSession, TypedServer } from '../../../src/backend/websocket';
+import { generateToken } from '../../../src/backend/utils/auth';
+import { gameService } from '../../../src/backend/services/gameService';
+import type { GameService } from '../../../src/backend/services/gameService';
+import { initializeSimonGame } from '../../../src/backend/utils/simonLogic';
+import type { GameRoom, Player, SimonGameState } from '../../../src/shared/types';
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+function sessionCookie(player: Player, gameCode: string): string {
+  const token = generateToken({
+    playerId: player.id,
+    gameCode,
+    displayName: player.displayName,
+    avatarId: player.avatarId,
+    role: player.role,
+    isHost: player.isHost,
+  });
+  return `session=${token}`;
+}
+
+/**
+ * Fake io server for one instance, running the real handlers
+ */
+function createInstance(router: RoomRouter, initialize: typeof initializeGameHandlers) {
+  let middleware: (socket: SocketWithSession, next: (err?: Error) => void) => void = () => {};
+  let onConnection: (socket: SocketWithSession) => void = () => {};
+  const broadcast = vi.fn();
+
+  const io = {
+    use: vi.fn((fn) => { middleware = fn; }),
+    on: vi.fn((_event: string, fn) => { onConnection = fn; }),
+    to: vi.fn(() => ({ emit: broadcast })),
+  } as unknown as TypedServer;
+
+  initialize(io, router);
+
+  const connect = (cookieHeader: string) => {
+    const handlers = new Map<string, (data?: unknown) => void>();
+    const socket = {
+      id: `socket-${Math.random().toString(36).slice(2)}`,
+      request: { headers: { cookie: cookieHeader } },
+      on: vi.fn((event: string, handler: (data?: unknown) => void) => handlers.set(event, handler)),
+      emit: vi.fn(),
+      join: vi.fn(),
+      leave: vi.fn(),
+      to: vi.fn(() => ({ emit: vi.fn() })),
+    } as unknown as SocketWithSession;
+
+    middleware(socket, () => {});
+    onConnection(socket);
+    return { handlers, emit: socket.emit };
+  };
+
+  return { connect, broadcast };
+}
+
+/**
+ * Alice opens a room on one instance, Bob joins it through another
+ */
+function createRoomWithTwoPlayers(
+  hostService: GameService,
+  joinService: GameService
+): { room: GameRoom; alice: Player; bob: Player } {
+  const room = hostService.createRoom({ displayName: 'Alice', avatarId: '1' });
+  joinService.joinRoom(room.gameCode, { displayName: 'Bob', avatarId: '2' });
+  const [alice, bob] = hostService.getRoom(room.gameCode)!.players;
+  return { room, alice, bob };
+}
+
+// =============================================================================
+// MESSAGE BUS
+// =============================================================================
+
+describe('InProcessMessageBus', () => {
+  it('should deliver messages to subscribers of the channel', () => {
+    const bus = new InProcessMessageBus();
+    const handler = vi.fn();
+    bus.subscribe('a', handler);
+
+    bus.publish('a', { hello: 'world' });
+    bus.publish('b', { ignored: true });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ hello: 'world' });
+  });
+
+  it('should serialize messages like a network transport', () => {
+    const bus = new InProcessMessageBus();
+    const handler = vi.fn();
+    bus.subscribe('a', handler);
+
+    const createdAt = new Date(0);
+    bus.publish('a', { createdAt });
+
+    expect(handler).toHaveBeenCalledWith({ createdAt: createdAt.toISOString() });
+  });
+
+  it('should stop delivering after unsubscribe', () => {
+    const bus = new InProcessMessageBus();
+    const handler = vi.fn();
+    const unsubscribe = bus.subscribe('a', handler);
+
+    unsubscribe();
+    bus.publish('a', {});
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+// =============================================================================
+// TCP MESSAGE BUS
+// =============================================================================
+
+describe('TcpMessageBus', () => {
+  let hub: MessageBusHub;
+  let url: string;
+  let buses: TcpMessageBus[];
+
+  beforeEach(async () => {
+    hub = new MessageBusHub();
+    url = `tcp://127.0.0.1:${await hub.listen(0, '127.0.0.1')}`;
+    buses = [];
+  });
+
+  afterEach(async () => {
+    buses.forEach(bus => bus.close());
+    await hub.close();
+  });
+
+  async function connectBus(instanceId: string): Promise<TcpMessageBus> {
+    const bus = new TcpMessageBus(url, instanceId);
+    buses.push(bus);
+    await bus.connect();
+    return bus;
+  }
+
+  function nextMessage(bus: MessageBus, channel: string): Promise<unknown> {
+    return new Promise(resolve => {
+      const unsubscribe = bus.subscribe(channel, (message) => {
+        unsubscribe();
+        resolve(message);
+      });
+    });
+  }
+
+  it('should deliver messages to instances subscribed to the channel', async () => {
+    const busA = await connectBus('instance-a');
+    const busB = await connectBus('instance-b');
+    const other = vi.fn();
+    busB.subscribe('b', other);
+    const received = nextMessage(busB, 'a');
+
+    // Let the subscriptions reach the hub before publishing
+    await new Promise(resolve => setTimeout(resolve, 50));
+    busA.publish('a', { hello: 'world' });
+
+    expect(await received).toEqual({ hello: 'world' });
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it('should send messages published before the hub answered', async () => {
+    const busB = await connectBus('instance-b');
+    const received = nextMessage(busB, 'a');
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const busA = new TcpMessageBus(url, 'instance-a');
+    buses.push(busA);
+    busA.publish('a', { early: true });
+    await busA.connect();
+
+    expect(await received).toEqual({ early: true });
+  });
+
+  it('should refuse a second instance with the same id', async () => {
+    await connectBus('instance-a');
+
+    await expect(connectBus('instance-a')).rejects.toThrow('Instance id already connected: instance-a');
+  });
+
+  it('should reject a URL that is not tcp://host:port', () => {
+    expect(() => new TcpMessageBus('redis://localhost', 'instance-a')).toThrow('Invalid bus URL');
+  });
+});
+
+// =============================================================================
+// CLUSTER CONFIG
+// =============================================================================
+
+describe('readClusterConfig', () => {
+  it('should run a single local instance by default', () => {
+    expect(readClusterConfig({})).toEqual({ instanceId: 'local', busUrl: null });
+  });
+
+  it('should require an instance id when clustered', () => {
+    expect(() => readClusterConfig({ CLUSTER_BUS_URL: 'tcp://hub:4000', ROOM_STORE: 'file' }))
+      .toThrow('INSTANCE_ID must be set');
+  });
+
+  it('should require the shared file room store when clustered', () => {
+    expect(() => readClusterConfig({ CLUSTER_BUS_URL: 'tcp://hub:4000', INSTANCE_ID: 'a' }))
+      .toThrow('ROOM_STORE=file');
+  });
+
+  it('should use the networked bus when clustered', () => {
+    const config = readClusterConfig({ CLUSTER_BUS_URL: 'tcp://hub:4000', INSTANCE_ID: 'a', ROOM_STORE: 'file' });
+
+    expect(config).toEqual({ instanceId: 'a', busUrl: 'tcp://hub:4000' });
+    expect(createMessageBus(config)).toBeInstanceOf(TcpMessageBus);
+    expect(createMessageBus(readClusterConfig({}))).toBeInstanceOf(InProcessMessageBus);
+  });
+});
+
+// =============================================================================
+// BUS ADAPTER
+// =============================================================================
+
+describe('createBusAdapter', () => {
+  let bus: MessageBus;
+  let servers: Server[];
+
+  beforeEach(() => {
+    bus = new InProcessMessageBus();
+    servers = [];
+  });
+
+  afterEach(() => {
+    // Servers never listened; only the bus subscriptions need closing
+    servers.forEach(server => server.of('/').adapter.close());
+    vi.restoreAllMocks();
+  });
+
+  function createServer(instanceId: string): Server {
+    const server = new Server({ adapter: createBusAdapter(bus, instanceId) });
+    servers.push(server);
+    return server;
+  }
+
+  it('should replay a broadcast on the other instances', () => {
+    const ioA = createServer('instance-a');
+    const ioB = createServer('instance-b');
+    const localBroadcast = vi.spyOn(Adapter.prototype, 'broadcast');
+
+    ioA.to('ABC123').emit('countdown', { count: 3 });
+
+    // Once on instance A, once replayed on instance B
+    expect(localBroadcast).toHaveBeenCalledTimes(2);
+    const [replayPacket, replayOpts] = localBroadcast.mock.calls[0];
+    expect(localBroadcast.mock.contexts[0]).toBe(ioB.of('/').adapter);
+    expect(replayPacket.data).toEqual(['countdown', { count: 3 }]);
+    expect([...replayOpts.rooms]).toEqual(['ABC123']);
+    expect(localBroadcast.mock.contexts[1]).toBe(ioA.of('/').adapter);
+  });
+
+  it('should not republish local-only broadcasts', () => {
+    const ioA = createServer('instance-a');
+    createServer('instance-b');
+    const localBroadcast = vi.spyOn(Adapter.prototype, 'broadcast');
+
+    ioA.local.to('ABC123').emit('countdown', { count: 3 });
+
+    expect(localBroadcast).toHaveBeenCalledTimes(1);
+  });
+});
+
+// =============================================================================
+// ROOM OWNERSHIP
+// =============================================================================
+
+describe('room ownership', () => {
+  let bus: MessageBus;
+  let dir: string;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    bus = new InProcessMessageBus();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cluster-rooms-'));
+  });
+
+  afterEach(() => {
+    vi.clearAllTimers();
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Load a separate copy of the backend, as a second process would,
+   * with its own room repository on the shared directory
+   */
+  async function loadInstance(instanceId: string) {
+    vi.resetModules();
+    vi.stubEnv('INSTANCE_ID', instanceId);
+    vi.stubEnv('ROOM_STORE', 'file');
+    vi.stubEnv('ROOM_STORE_DIR', dir);
+
+    const cluster = await import('../../../src/backend/cluster');
+    const websocket = await import('../../../src/backend/websocket');
+    const { gameService: service } = await import('../../../src/backend/services/gameService');
+
+    const router = cluster.createRoomRouter(bus, instanceId);
+    return { router, gameService: service, ...createInstance(router, websocket.initializeGameHandlers) };
+  }
+
+  it('should assign new rooms to the instance that created them', async () => {
+    const instanceA = await loadInstance('instance-a');
+    const room = instanceA.gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+
+    expect(room.ownerId).toBe('instance-a');
+    expect(instanceA.router.isOwner(room)).toBe(true);
+    expect(createRoomRouter(bus, 'instance-b').isOwner(room)).toBe(false);
+  });
+
+  it('should deliver forwarded commands only to the owner', () => {
+    const owner = createRoomRouter(bus, INSTANCE_ID);
+    const other = createRoomRouter(bus, 'instance-b');
+    const ownerHandler = vi.fn();
+    const otherHandler = vi.fn();
+    owner.onCommand(ownerHandler);
+    other.onCommand(otherHandler);
+    const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+
+    other.forward(room, { type: 'start_countdown', gameCode: room.gameCode });
+
+    expect(ownerHandler).toHaveBeenCalledWith({ type: 'start_countdown', gameCode: room.gameCode });
+    expect(otherHandler).not.toHaveBeenCalled();
+  });
+
+  it('should share rooms between instances', async () => {
+    const instanceA = await loadInstance('instance-a');
+    const instanceB = await loadInstance('instance-b');
+    const { room } = createRoomWithTwoPlayers(instanceA.gameService, instanceB.gameService);
+
+    expect(instanceB.gameService.getRoom(room.gameCode)?.ownerId).toBe('instance-a');
+    expect(instanceA.gameService.getRoom(room.gameCode)?.players.map(p => p.displayName)).toEqual(['Alice', 'Bob']);
+  });
+
+  it('should join a room over a socket on another instance', async () => {
+    const instanceA = await loadInstance('instance-a');
+    const instanceB = await loadInstance('instance-b');
+    const { room, bob } = createRoomWithTwoPlayers(instanceA.gameService, instanceB.gameService);
+
+    const { handlers, emit } = instanceB.connect(sessionCookie(bob, room.gameCode));
+    handlers.get('join_room_socket')!({});
+
+    expect(emit).not.toHaveBeenCalledWith('error', expect.anything());
+    expect(emit).toHaveBeenCalledWith('room_state', expect.objectContaining({ gameCode: room.gameCode }));
+    expect(instanceA.gameService.getPlayer(room.gameCode, bob.id)?.connected).toBe(true);
+  });
+
+  it('should run a game event received by another instance on the owner', async () => {
+    const instanceA = await loadInstance('instance-a');
+    const instanceB = await loadInstance('instance-b');
+    const { room, bob } = createRoomWithTwoPlayers(instanceA.gameService, instanceB.gameService);
+    instanceA.gameService.updateRoomStatus(room.gameCode, 'active');
+    instanceA.gameService.updateGameState(room.gameCode, initializeSimonGame(room.players));
+    const state = room.gameState as SimonGameState;
+
+    const { handlers } = instanceB.connect(sessionCookie(bob, room.gameCode));
+    handlers.get('simon:submit_sequence')!({ sequence: state.sequence });
+
+    const stored = instanceB.gameService.getRoom(room.gameCode)?.gameState as SimonGameState;
+    expect(stored.submissions[bob.id]?.isCorrect).toBe(true);
+    expect(instanceA.broadcast).toHaveBeenCalledWith('simon:player_submitted', expect.objectContaining({ playerId: bob.id }));
+    expect(instanceB.broadcast).not.toHaveBeenCalledWith('simon:player_submitted', expect.anything());
+  });
+
+  it('should run the countdown on the owner when the host is on another instance', async () => {
+    const instanceA = await loadInstance('instance-a');
+    const instanceB = await loadInstance('instance-b');
+    const { room, alice } = createRoomWithTwoPlayers(instanceA.gameService, instanceB.gameService);
+
+    const { handlers } = instanceB.connect(sessionCookie(alice, room.gameCode));
+    handlers.get('start_game')!({});
+    vi.advanceTimersByTime(1000);
+
+    expect(instanceB.gameService.getRoom(room.gameCode)?.status).toBe('countdown');
+    expect(instanceA.broadcast).toHaveBeenCalledWith('countdown', { count: 3 });
+    expect(instanceB.broadcast).not.toHaveBeenCalledWith('countdown', expect.anything());
+  });
+
+  it('should restart the game on the owner when the host is on another instance', async () => {
+    const instanceA = await loadInstance('instance-a');
+    const instanceB = await loadInstance('instance-b');
+    const { room, alice } = createRoomWithTwoPlayers(instanceA.gameService, instanceB.gameService);
+    instanceA.gameService.updateRoomStatus(room.gameCode, 'finished');
+
+    const { handlers } = instanceB.connect(sessionCookie(alice, room.gameCode));
+    handlers.get('restart_game')!({});
+
+    expect(instanceB.gameService.getRoom(room.gameCode)?.status).toBe('waiting');
+    expect(instanceA.broadcast).toHaveBeenCalledWith('game_restarted', { gameCode: room.gameCode });
+    expect(instanceB.broadcast).not.toHaveBeenCalledWith('game_restarted', expect.anything());
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Account Controller Tests
+ *
+ * Integration tests for the account endpoints and how room sessions
+ * pick up the signed-in account.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { app } from '../../../src/backend/app';
+import { accountService } from '../../../src/backend/services/accountService';
+import { gameService } from '../../../src/backend/services/gameService';
+
+/**
+ * Register an account, returns the account cookie and response
+ */
+async function register(username = 'alice', password = 'correct-horse') {
+  const response = await request(app)
+    .post('/api/accounts/register')
+    .send({ username, password });
+
+  return { cookies: response.headers['set-cookie'], response };
+}
+
+describe('Account Controller', () => {
+  beforeEach(() => {
+    accountService.clearAll();
+    gameService.clearAllRooms();
+  });
+
+  // ===========================================================================
+  // POST /api/accounts/register + login
+  // ===========================================================================
+
+  describe('POST /api/accounts/register', () => {
+    it('should create the account and set the account cookie', async () => {
+      const { cookies, response } = await register();
+
+      expect(response.status).toBe(201);
+      expect(response.body.account).toMatchObject({ username: 'alice' });
+      expect(response.body.account).not.toHaveProperty('passwordHash');
+      expect(cookies[0]).toContain('account=');
+    });
+
+    it('should return 409 for a taken username', async () => {
+      await register();
+      const { response } = await register();
+
+      expect(response.status).toBe(409);
+      expect(response.body).toHaveProperty('error', 'Username already taken');
+    });
+
+    it('should return 400 for a short password', async () => {
+      const { response } = await register('alice', 'short');
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'Validation failed');
+    });
+  });
+
+  describe('POST /api/accounts/login', () => {
+    it('should return 401 for a wrong password', async () => {
+      await register();
+
+      const response = await request(app)
+        .post('/api/accounts/login')
+        .send({ username: 'alice', password: 'wrong-horse' });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  // ===========================================================================
+  // MAGIC LINKS
+  // ===========================================================================
+
+  describe('POST /api/accounts/magic-link', () => {
+    it('should not hand the token back without the dev opt-in', async () => {
+      await request(app)
+        .post('/api/accounts/register')
+        .send({ username: 'alice', password: 'correct-horse', email: 'alice@example.com' });
+
+      const response = await request(app)
+        .post('/api/accounts/magic-link')
+        .send({ username: 'alice' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ sent: true });
+    });
+
+    it('should answer the same for an unknown username without creating it', async () => {
+      const response = await request(app)
+        .post('/api/accounts/magic-link')
+        .send({ username: 'bob' });
+
+      expect(response.body).toEqual({ sent: true });
+      expect((await register('bob')).response.status).toBe(201);
+    });
+
+    it('should return 400 for an invalid email at registration', async () => {
+      const response = await request(app)
+        .post('/api/accounts/register')
+        .send({ username: 'alice', password: 'correct-horse', email: 'not-an-email' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  // ===========================================================================
+  // GET /api/accounts/me
+  // ===========================================================================
+
+  describe('GET /api/accounts/me', () => {
+    it('should return the signed-in account, or null for a guest', async () => {
+      const { cookies, response: registered } = await register();
+
+      const signedIn = await request(app).get('/api/accounts/me').set('Cookie', cookies);
+      const guest = await request(app).get('/api/accounts/me');
+
+      expect(signedIn.body.account).toEqual(registered.body.account);
+      expect(guest.body.account).toBeNull();
+    });
+  });
+
+  // ===========================================================================
+  // ROOM SESSIONS
+  // ===========================================================================
+
+  describe('room sessions', () => {
+    it('should attach the account when creating and joining a game', async () => {
+      const { cookies: alice, response: aliceAccount } = await register('alice');
+      const { cookies: bob, response: bobAccount } = await register('bob');
+
+      const created = await request(app)
+        .post('/api/auth/create-session')
+        .set('Cookie', alice)
+        .send({ displayName: 'Alice', avatarId: '1' });
+      const joined = await request(app)
+        .post('/api/auth/join-game')
+        .set('Cookie', bob)
+        .send({ displayName: 'Bob', avatarId: '2', gameCode: created.body.gameCode });
+
+      expect(created.body.session.accountId).toBe(aliceAccount.body.account.id);
+      expect(joined.body.session.accountId).toBe(bobAccount.body.account.id);
+      expect(gameService.getRoom(created.body.gameCode)?.players.map(p => p.accountId))
+        .toEqual([aliceAccount.body.account.id, bobAccount.body.account.id]);
+    });
+
+    it('should keep guests as they are', async () => {
+      const response = await request(app)
+        .post('/api/auth/create-session')
+        .send({ displayName: 'Alice', avatarId: '1' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.session.accountId).toBeNull();
+    });
+  });
+});
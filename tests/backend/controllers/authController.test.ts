@@ -100,6 +100,62 @@ describe('Auth Controller', () => {
       expect(response.status).toBe(400);
       expect(response.body).toHaveProperty('error', 'Validation failed');
     });
+
+    it('should seed the room from a challenge code', async () => {
+      const response = await request(app)
+        .post('/api/auth/create-session')
+        .send({
+          displayName: 'Alice',
+          avatarId: '1',
+          challengeCode: '000002s',
+        });
+
+      expect(response.status).toBe(201);
+      expect(gameService.getRoom(response.body.gameCode)?.settings.seed).toBe(100);
+    });
+
+    it('should set the board from a challenge code with a pad count', async () => {
+      const response = await request(app)
+        .post('/api/auth/create-session')
+        .send({
+          displayName: 'Alice',
+          avatarId: '1',
+          challengeCode: '000002s6',
+        });
+
+      const settings = gameService.getRoom(response.body.gameCode)?.settings;
+      expect(response.status).toBe(201);
+      expect(settings?.seed).toBe(100);
+      expect(settings?.simon.padCount).toBe(6);
+    });
+
+    it('should return 400 for an invalid challenge code', async () => {
+      const response = await request(app)
+        .post('/api/auth/create-session')
+        .send({
+          displayName: 'Alice',
+          avatarId: '1',
+          challengeCode: 'not-a-code',
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'Validation failed');
+    });
+
+    it('should return 503 while the server is restarting', async () => {
+      gameService.setAcceptingRooms(false);
+
+      const response = await request(app)
+        .post('/api/auth/create-session')
+        .send({
+          displayName: 'Alice',
+          avatarId: '1',
+        });
+
+      gameService.setAcceptingRooms(true);
+      expect(response.status).toBe(503);
+      expect(response.body).toHaveProperty('error', 'Server is restarting');
+    });
   });
 
   // ===========================================================================
@@ -210,6 +266,70 @@ describe('Auth Controller', () => {
     });
   });
 
+  // ===========================================================================
+  // POST /api/auth/spectate
+  // ===========================================================================
+
+  describe('POST /api/auth/spectate', () => {
+    let gameCode: string;
+
+    beforeEach(async () => {
+      const response = await request(app)
+        .post('/api/auth/create-session')
+        .send({
+          displayName: 'Alice',
+          avatarId: '1',
+        });
+      gameCode = response.body.gameCode;
+    });
+
+    it('should join as a spectator and return 200', async () => {
+      const response = await request(app)
+        .post('/api/auth/spectate')
+        .send({
+          displayName: 'Eve',
+          avatarId: '5',
+          gameCode,
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['set-cookie'][0]).toContain('session=');
+      expect(response.body.session).toMatchObject({
+        displayName: 'Eve',
+        isHost: false,
+        role: 'spectator',
+        gameCode,
+      });
+    });
+
+    it('should allow spectating a game in progress', async () => {
+      gameService.updateRoomStatus(gameCode, 'active');
+
+      const response = await request(app)
+        .post('/api/auth/spectate')
+        .send({
+          displayName: 'Eve',
+          avatarId: '5',
+          gameCode,
+        });
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should return 404 for non-existent game code', async () => {
+      const response = await request(app)
+        .post('/api/auth/spectate')
+        .send({
+          displayName: 'Eve',
+          avatarId: '5',
+          gameCode: 'XXXXXX',
+        });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toHaveProperty('error', 'Room not found');
+    });
+  });
+
   // ===========================================================================
   // GET /api/auth/verify-session
   // ===========================================================================
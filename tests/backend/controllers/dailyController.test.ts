@@ -0,0 +1,163 @@
+/**
+ * Daily Controller Tests
+ *
+ * Integration tests for the daily challenge endpoints.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { app } from '../../../src/backend/app';
+import { dailyService, getUtcDate } from '../../../src/backend/services/dailyService';
+import { accountService } from '../../../src/backend/services/accountService';
+
+/**
+ * Start today's attempt, returns the daily cookie and round 1
+ */
+async function start(displayName = 'Alice') {
+  const response = await request(app)
+    .post('/api/daily/start')
+    .send({ displayName, avatarId: '1' });
+
+  return { cookies: response.headers['set-cookie'], response };
+}
+
+describe('Daily Controller', () => {
+  beforeEach(() => {
+    dailyService.clearAll();
+    accountService.clearAll();
+  });
+
+  // ===========================================================================
+  // POST /api/daily/start
+  // ===========================================================================
+
+  describe('POST /api/daily/start', () => {
+    it('should return round 1 and set the daily cookie', async () => {
+      const { cookies, response } = await start();
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({ date: getUtcDate(), round: 1 });
+      expect(response.body.sequence).toHaveLength(1);
+      expect(cookies[0]).toContain('daily=');
+    });
+
+    it('should return 409 for a second attempt on the same day', async () => {
+      const { cookies } = await start();
+
+      const response = await request(app)
+        .post('/api/daily/start')
+        .set('Cookie', cookies)
+        .send({ displayName: 'Alice', avatarId: '1' });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toHaveProperty('error', 'Already played today');
+    });
+
+    it('should keep a signed-in player to one attempt without the daily cookie', async () => {
+      const registered = await request(app)
+        .post('/api/accounts/register')
+        .send({ username: 'alice', password: 'correct-horse' });
+      const accountCookie = registered.headers['set-cookie'][0].split(';')[0];
+
+      const first = await request(app)
+        .post('/api/daily/start')
+        .set('Cookie', accountCookie)
+        .send({ displayName: 'Alice', avatarId: '1' });
+      const second = await request(app)
+        .post('/api/daily/start')
+        .set('Cookie', accountCookie)
+        .send({ displayName: 'Alice', avatarId: '1' });
+
+      expect(first.status).toBe(201);
+      expect(first.headers['set-cookie']).toBeUndefined();
+      expect(second.status).toBe(409);
+    });
+
+    it('should return 400 for an invalid display name', async () => {
+      const response = await request(app)
+        .post('/api/daily/start')
+        .send({ displayName: 'AB', avatarId: '1' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'Validation failed');
+    });
+  });
+
+  // ===========================================================================
+  // POST /api/daily/submit
+  // ===========================================================================
+
+  describe('POST /api/daily/submit', () => {
+    it('should score a correct round and finish on a timeout', async () => {
+      const { cookies, response: started } = await start();
+
+      const correct = await request(app)
+        .post('/api/daily/submit')
+        .set('Cookie', cookies)
+        .send({ sequence: started.body.sequence });
+
+      expect(correct.status).toBe(200);
+      expect(correct.body).toMatchObject({ isCorrect: true, score: 1, result: null });
+      expect(correct.body.next.round).toBe(2);
+
+      const timedOut = await request(app)
+        .post('/api/daily/submit')
+        .set('Cookie', cookies)
+        .send({ sequence: [] });
+
+      expect(timedOut.body).toMatchObject({ isCorrect: false, score: 1, next: null, result: { score: 1, rank: 1 } });
+    });
+
+    it('should return 400 without an attempt in progress', async () => {
+      const response = await request(app)
+        .post('/api/daily/submit')
+        .send({ sequence: ['red'] });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'No daily attempt in progress');
+    });
+  });
+
+  // ===========================================================================
+  // GET /api/daily, GET /api/daily/leaderboard
+  // ===========================================================================
+
+  describe('GET /api/daily', () => {
+    it('should tell a returning player their result', async () => {
+      const { cookies } = await start();
+      await request(app).post('/api/daily/submit').set('Cookie', cookies).send({ sequence: [] });
+
+      const response = await request(app).get('/api/daily').set('Cookie', cookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ date: getUtcDate(), hasPlayed: true, result: { score: 0, rank: 1 }, current: null });
+    });
+
+    it('should hand back an attempt in progress to resume', async () => {
+      const { cookies, response: started } = await start();
+
+      const response = await request(app).get('/api/daily').set('Cookie', cookies);
+
+      expect(response.body.current).toMatchObject({ round: 1, sequence: started.body.sequence });
+      expect(response.body.current.timeLeftMs).toBeGreaterThan(0);
+    });
+
+    it('should list finished attempts on the leaderboard', async () => {
+      const { cookies } = await start('Alice');
+      await request(app).post('/api/daily/submit').set('Cookie', cookies).send({ sequence: [] });
+
+      const response = await request(app).get('/api/daily/leaderboard');
+
+      expect(response.status).toBe(200);
+      expect(response.body.entries).toEqual([
+        expect.objectContaining({ rank: 1, displayName: 'Alice', score: 0 }),
+      ]);
+    });
+
+    it('should return 400 for a malformed leaderboard date', async () => {
+      const response = await request(app).get('/api/daily/leaderboard?date=yesterday');
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Matchmaking Controller Tests
+ *
+ * Integration tests for the quick match endpoint.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { app } from '../../../src/backend/app';
+import { gameService } from '../../../src/backend/services/gameService';
+import { matchmakingService } from '../../../src/backend/services/matchmakingService';
+
+describe('Matchmaking Controller', () => {
+  beforeEach(() => {
+    gameService.clearAllRooms();
+  });
+
+  afterEach(() => {
+    matchmakingService.stopTimers();
+  });
+
+  describe('POST /api/matchmaking/join', () => {
+    it('should seat players in the same room and sign them in', async () => {
+      const first = await request(app)
+        .post('/api/matchmaking/join')
+        .send({ displayName: 'Alice', avatarId: '1' });
+      const second = await request(app)
+        .post('/api/matchmaking/join')
+        .send({ displayName: 'Bob', avatarId: '2' });
+
+      expect(first.status).toBe(200);
+      expect(first.body.session).toMatchObject({ displayName: 'Alice', isHost: true, role: 'player' });
+      expect(second.body.session.gameCode).toBe(first.body.session.gameCode);
+      expect(second.body.session.isHost).toBe(false);
+      expect(second.headers['set-cookie'][0]).toContain('session=');
+    });
+
+    it('should reject an unknown game type', async () => {
+      const response = await request(app)
+        .post('/api/matchmaking/join')
+        .send({ displayName: 'Alice', avatarId: '1', gameType: 'chess' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Validation failed');
+    });
+  });
+});
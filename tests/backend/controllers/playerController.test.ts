@@ -0,0 +1,88 @@
+/**
+ * Player Controller Tests
+ *
+ * Integration tests for the match history and stats endpoints.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { app } from '../../../src/backend/app';
+import { gameService } from '../../../src/backend/services/gameService';
+import { historyService } from '../../../src/backend/services/historyService';
+
+describe('Player Controller', () => {
+  let playerId: string;
+
+  beforeEach(() => {
+    gameService.clearAllRooms();
+    historyService.clearAll();
+
+    const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+    playerId = room.players[0].id;
+    historyService.recordMatch(room, 'color_race', {
+      winnerId: playerId,
+      standings: [{ playerId, score: 5, eliminatedAtRound: null }],
+      rounds: [{ round: 1, submissions: [{ playerId, isCorrect: true, reactionMs: 420, sequenceLength: 1 }] }],
+    });
+  });
+
+  // ===========================================================================
+  // GET /api/players/:id/history
+  // ===========================================================================
+
+  describe('GET /api/players/:id/history', () => {
+    it('should return the player\'s matches', async () => {
+      const response = await request(app).get(`/api/players/${playerId}/history`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.playerId).toBe(playerId);
+      expect(response.body.matches).toHaveLength(1);
+      expect(response.body.matches[0].players[0]).toMatchObject({ displayName: 'Alice', score: 5 });
+    });
+
+    it('should not expose other players\' accounts', async () => {
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      gameService.joinRoom(room.gameCode, { displayName: 'Bob', avatarId: '2', accountId: 'account-bob' });
+      const [alice, bob] = room.players;
+      historyService.recordMatch(room, 'simon', {
+        winnerId: alice.id,
+        standings: [
+          { playerId: alice.id, score: 3, eliminatedAtRound: null },
+          { playerId: bob.id, score: 1, eliminatedAtRound: 2 },
+        ],
+        rounds: [],
+      });
+
+      const response = await request(app).get(`/api/players/${alice.id}/history`);
+
+      expect(response.body.matches[0].players[1]).toMatchObject({ displayName: 'Bob', rank: 2 });
+      expect(JSON.stringify(response.body)).not.toContain('account-bob');
+    });
+
+    it('should return 400 for an invalid limit', async () => {
+      const response = await request(app).get(`/api/players/${playerId}/history?limit=0`);
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'Validation failed');
+    });
+  });
+
+  // ===========================================================================
+  // GET /api/players/:id/stats
+  // ===========================================================================
+
+  describe('GET /api/players/:id/stats', () => {
+    it('should return the player\'s stats', async () => {
+      const response = await request(app).get(`/api/players/${playerId}/stats`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ gamesPlayed: 1, longestSequence: 1, averageReactionMs: 420 });
+    });
+
+    it('should return 400 for a malformed player ID', async () => {
+      const response = await request(app).get('/api/players/not-a-uuid/stats');
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Room Controller Tests
+ *
+ * Integration tests for the public lobby browser endpoint. Private rooms
+ * and player details must never appear in the response.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { app } from '../../../src/backend/app';
+import { gameService } from '../../../src/backend/services/gameService';
+
+describe('Room Controller', () => {
+  beforeEach(() => {
+    gameService.clearAllRooms();
+  });
+
+  describe('GET /api/rooms', () => {
+    it('should list public rooms with their players count, game and settings', async () => {
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      gameService.joinRoom(room.gameCode, { displayName: 'Bob', avatarId: '2' });
+      gameService.updateGameType(room.gameCode, 'color_race');
+      gameService.updateListing(room.gameCode, { isPublic: true, name: 'Speed Club' });
+
+      const response = await request(app).get('/api/rooms');
+
+      expect(response.status).toBe(200);
+      expect(response.body.rooms).toHaveLength(1);
+      expect(response.body.rooms[0]).toMatchObject({
+        gameCode: room.gameCode,
+        name: 'Speed Club',
+        hostName: 'Alice',
+        playerCount: 2,
+        maxPlayers: 4,
+        gameType: 'color_race',
+      });
+      expect(response.body.rooms[0].settings.simon).toBeDefined();
+    });
+
+    it('should never leak private rooms or player details', async () => {
+      const hidden = gameService.createRoom({ displayName: 'Alice', avatarId: '1', accountId: 'account-alice' }, 12345);
+      const listed = gameService.createRoom({ displayName: 'Bob', avatarId: '2', accountId: 'account-bob' }, 67890);
+      gameService.updateListing(listed.gameCode, { isPublic: true, name: null });
+
+      const response = await request(app).get('/api/rooms');
+      const body = JSON.stringify(response.body);
+
+      expect(body).not.toContain(hidden.gameCode);
+      expect(body).not.toContain(listed.players[0].id);
+      expect(body).not.toContain('account-bob');
+      expect(response.body.rooms[0]).not.toHaveProperty('players');
+      expect(response.body.rooms[0].settings).not.toHaveProperty('seed');
+    });
+  });
+});
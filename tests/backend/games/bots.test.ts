@@ -0,0 +1,122 @@
+/**
+ * Bot Tests
+ *
+ * Verifies the bot skill model and that bots play Simon and Color Race
+ * through the games' own event handlers.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  BOT_SKILLS,
+  getColorErrorChance,
+  recallSequence,
+  sampleReactionMs,
+  createGameContext,
+  simonModule,
+  colorRaceModule,
+} from '../../../src/backend/games';
+import type { TypedServer } from '../../../src/backend/websocket';
+import { gameService, getActivePlayers } from '../../../src/backend/services/gameService';
+import type { ColorRaceGameState, SimonGameState } from '../../../src/shared/types';
+
+function createMockIo() {
+  const emit = vi.fn();
+  const io = { to: vi.fn(() => ({ emit })) } as unknown as TypedServer;
+  return { io, emit };
+}
+
+describe('Bots', () => {
+  // ===========================================================================
+  // SKILL MODEL
+  // ===========================================================================
+
+  describe('skill model', () => {
+    it('should make more memory errors on easier difficulties and longer sequences', () => {
+      const { easy, medium, hard } = BOT_SKILLS;
+
+      expect(getColorErrorChance(easy, 5)).toBeGreaterThan(getColorErrorChance(medium, 5));
+      expect(getColorErrorChance(medium, 5)).toBeGreaterThan(getColorErrorChance(hard, 5));
+      expect(getColorErrorChance(hard, 20)).toBeGreaterThan(getColorErrorChance(hard, 5));
+    });
+
+    it('should react slower on easier difficulties and longer sequences', () => {
+      const { easy, hard } = BOT_SKILLS;
+      const middle = () => 0.5; // No jitter
+
+      expect(sampleReactionMs(easy, 5, middle)).toBeGreaterThan(sampleReactionMs(hard, 5, middle));
+      expect(sampleReactionMs(hard, 10, middle)).toBeGreaterThan(sampleReactionMs(hard, 5, middle));
+    });
+
+    it('should recall a sequence exactly when no error is drawn', () => {
+      expect(recallSequence(['red', 'blue', 'green'], BOT_SKILLS.easy, () => 0.99)).toEqual(['red', 'blue', 'green']);
+    });
+
+    it('should replace a misremembered color with a different one', () => {
+      const recalled = recallSequence(['red', 'red'], BOT_SKILLS.easy, () => 0);
+
+      expect(recalled).toHaveLength(2);
+      recalled.forEach(color => expect(color).not.toBe('red'));
+    });
+  });
+
+  // ===========================================================================
+  // PLAYING
+  // ===========================================================================
+
+  describe('playing', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      gameService.clearAllRooms();
+    });
+
+    afterEach(() => {
+      vi.clearAllTimers();
+      vi.useRealTimers();
+    });
+
+    /**
+     * Active room of one host and one bot, started with the given game
+     */
+    function startRoomWithBot(module: typeof simonModule | typeof colorRaceModule) {
+      const { io, emit } = createMockIo();
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      const bot = gameService.addBot(room.gameCode, 'hard');
+      gameService.updateGameType(room.gameCode, module.id);
+      gameService.updateRoomStatus(room.gameCode, 'active');
+      gameService.updateGameState(room.gameCode, module.initialize(getActivePlayers(room), room.settings));
+
+      const ctx = createGameContext(io, room.gameCode, module.id)!;
+      module.onStart(ctx as never);
+      return { room, bot, emit };
+    }
+
+    it('should submit a Simon sequence before the input deadline', () => {
+      const { room, bot, emit } = startRoomWithBot(simonModule);
+
+      // Sequence animation, then the input phase opens
+      vi.advanceTimersByTime(3000);
+      const state = room.gameState as SimonGameState;
+      expect(state.phase).toBe('player_input');
+
+      vi.advanceTimersByTime(state.timeoutAt! - Date.now() - 1);
+
+      expect(emit).toHaveBeenCalledWith('simon:player_submitted', { playerId: bot.id, playerName: bot.displayName });
+      expect((room.gameState as SimonGameState).submissions[bot.id]).toBeDefined();
+    });
+
+    it('should answer each Color Race round', () => {
+      const { room, emit } = startRoomWithBot(colorRaceModule);
+      gameService.updateSocketId(room.gameCode, room.players[0].id, 'socket-alice');
+
+      // The host answers at once; the round completes when the bot does
+      const ctx = createGameContext(createMockIo().io, room.gameCode, 'color_race')!;
+      colorRaceModule.handlers['color_race:submit_answer']!(ctx as never, room.players[0].id, { color: 'red' });
+      expect(emit).not.toHaveBeenCalledWith('color_race:round_result', expect.anything());
+
+      vi.advanceTimersByTime(5000);
+
+      expect(emit).toHaveBeenCalledWith('color_race:round_result', expect.anything());
+      expect((room.gameState as ColorRaceGameState).round).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Game Context Tests
+ *
+ * Verifies room guards and phase timer handling for game modules.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createGameContext, clearGameTimers } from '../../../src/backend/games';
+import type { TypedServer } from '../../../src/backend/websocket';
+import { gameService } from '../../../src/backend/services/gameService';
+import { historyService } from '../../../src/backend/services/historyService';
+import { initializeSimonGame } from '../../../src/backend/utils/simonLogic';
+
+function createMockIo() {
+  const emit = vi.fn();
+  const io = { to: vi.fn(() => ({ emit })) } as unknown as TypedServer;
+  return { io, emit };
+}
+
+function createActiveSimonRoom(): string {
+  const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+  gameService.updateRoomStatus(room.gameCode, 'active');
+  gameService.updateGameState(room.gameCode, initializeSimonGame(room.players));
+  return room.gameCode;
+}
+
+describe('createGameContext', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    gameService.clearAllRooms();
+    historyService.clearAll();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return null when the room does not exist', () => {
+    const { io } = createMockIo();
+
+    expect(createGameContext(io, 'NOROOM', 'simon')).toBeNull();
+  });
+
+  it('should return null when the room is playing another game', () => {
+    const { io } = createMockIo();
+    const gameCode = createActiveSimonRoom();
+
+    expect(createGameContext(io, gameCode, 'color_race')).toBeNull();
+  });
+
+  it('should return null when the room is not active', () => {
+    const { io } = createMockIo();
+    const gameCode = createActiveSimonRoom();
+    gameService.updateRoomStatus(gameCode, 'waiting');
+
+    expect(createGameContext(io, gameCode, 'simon')).toBeNull();
+  });
+
+  it('should broadcast to the room', () => {
+    const { io, emit } = createMockIo();
+    const gameCode = createActiveSimonRoom();
+
+    createGameContext(io, gameCode, 'simon')!.emit('simon:sequence_complete');
+
+    expect(io.to).toHaveBeenCalledWith(gameCode);
+    expect(emit).toHaveBeenCalledWith('simon:sequence_complete');
+  });
+
+  it('should run timers while the game is still active', () => {
+    const { io } = createMockIo();
+    const gameCode = createActiveSimonRoom();
+    const callback = vi.fn();
+
+    createGameContext(io, gameCode, 'simon')!.setTimer('tick', 1000, callback);
+    vi.advanceTimersByTime(1000);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replace a timer with the same name', () => {
+    const { io } = createMockIo();
+    const gameCode = createActiveSimonRoom();
+    const first = vi.fn();
+    const second = vi.fn();
+    const ctx = createGameContext(io, gameCode, 'simon')!;
+
+    ctx.setTimer('tick', 1000, first);
+    ctx.setTimer('tick', 1000, second);
+    vi.advanceTimersByTime(1000);
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip timers once the room is reset', () => {
+    const { io } = createMockIo();
+    const gameCode = createActiveSimonRoom();
+    const callback = vi.fn();
+
+    createGameContext(io, gameCode, 'simon')!.setTimer('tick', 1000, callback);
+    gameService.updateRoomStatus(gameCode, 'waiting');
+    vi.advanceTimersByTime(1000);
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('should cancel all timers for a room', () => {
+    const { io } = createMockIo();
+    const gameCode = createActiveSimonRoom();
+    const callback = vi.fn();
+    const ctx = createGameContext(io, gameCode, 'simon')!;
+
+    ctx.setTimer('a', 1000, callback);
+    ctx.setTimer('b', 2000, callback);
+    clearGameTimers(gameCode);
+    vi.advanceTimersByTime(2000);
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('should emit results and mark the room finished', () => {
+    const { io, emit } = createMockIo();
+    const gameCode = createActiveSimonRoom();
+
+    createGameContext(io, gameCode, 'simon')!.finish();
+
+    expect(emit).toHaveBeenCalledWith('simon:game_finished', expect.objectContaining({
+      winner: expect.objectContaining({ name: 'Alice' }),
+    }));
+    expect(gameService.getRoom(gameCode)?.status).toBe('finished');
+  });
+
+  it('should record the finished match in history', () => {
+    const { io } = createMockIo();
+    const gameCode = createActiveSimonRoom();
+    const [alice] = gameService.getRoom(gameCode)!.players;
+
+    createGameContext(io, gameCode, 'simon')!.finish();
+
+    const { matches } = historyService.getHistory(alice.id);
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ gameCode, gameType: 'simon', winnerId: alice.id });
+    expect(matches[0].players[0]).toMatchObject({ displayName: 'Alice', rank: 1 });
+    expect(matches[0].players[0]).not.toHaveProperty('accountId');
+  });
+});
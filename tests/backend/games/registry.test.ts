@@ -0,0 +1,35 @@
+/**
+ * Game Module Registry Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  registerGameModule,
+  getGameModule,
+  getAllGameModules,
+  simonModule,
+  colorRaceModule,
+} from '../../../src/backend/games';
+
+describe('Game Module Registry', () => {
+  it('should register the built-in games', () => {
+    expect(getGameModule('simon')).toBe(simonModule);
+    expect(getGameModule('color_race')).toBe(colorRaceModule);
+    expect(getAllGameModules()).toHaveLength(2);
+  });
+
+  it('should return null for an unknown game type', () => {
+    expect(getGameModule('tic_tac_toe')).toBeNull();
+  });
+
+  it('should reject registering the same game twice', () => {
+    expect(() => registerGameModule(simonModule)).toThrow('Game module already registered: simon');
+  });
+
+  it('should not share client events between games', () => {
+    const simonEvents = Object.keys(simonModule.handlers);
+    const colorRaceEvents = Object.keys(colorRaceModule.handlers);
+
+    expect(simonEvents.some(event => colorRaceEvents.includes(event))).toBe(false);
+  });
+});
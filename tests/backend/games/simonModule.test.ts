@@ -0,0 +1,129 @@
+/**
+ * Simon Module Tests
+ *
+ * Verifies per-color input goes through round processing like a full
+ * submission, so lives apply to it, and which finished games can be
+ * replayed from a challenge code.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createGameContext, simonModule } from '../../../src/backend/games';
+import type { TypedServer } from '../../../src/backend/websocket';
+import { gameService, getActivePlayers } from '../../../src/backend/services/gameService';
+import type { Color, SimonGameState, SimonSettings } from '../../../src/shared/types';
+
+function createMockIo() {
+  const emit = vi.fn();
+  const io = { to: vi.fn(() => ({ emit })) } as unknown as TypedServer;
+  return { io, emit };
+}
+
+/**
+ * Any color except the expected one
+ */
+function wrongColor(color: Color): Color {
+  return color === 'red' ? 'blue' : 'red';
+}
+
+describe('simonModule', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    gameService.clearAllRooms();
+  });
+
+  afterEach(() => {
+    vi.clearAllTimers();
+    vi.useRealTimers();
+  });
+
+  /**
+   * Two players in the input phase of round 1, with the given settings
+   */
+  function startInputPhase(simon: Partial<SimonSettings>) {
+    const { io, emit } = createMockIo();
+    const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+    gameService.joinRoom(room.gameCode, { displayName: 'Bob', avatarId: '2' });
+    gameService.updateSettings(room.gameCode, {
+      ...room.settings,
+      simon: { ...room.settings.simon, ...simon },
+    });
+    gameService.updateRoomStatus(room.gameCode, 'active');
+    gameService.updateGameState(room.gameCode, simonModule.initialize(getActivePlayers(room), room.settings));
+
+    simonModule.onStart(createGameContext(io, room.gameCode, 'simon') as never);
+    vi.advanceTimersByTime(3000);
+
+    const [alice, bob] = room.players;
+    const input = (playerId: string, color: Color, inputIndex: number) =>
+      simonModule.handlers['simon:submit_input']!(
+        createGameContext(io, room.gameCode, 'simon') as never,
+        playerId,
+        { color, inputIndex }
+      );
+
+    return { room, alice, bob, emit, input };
+  }
+
+  it('should take a life for a wrong color in lives mode', () => {
+    const { room, alice, bob, emit, input } = startInputPhase({ lives: 3 });
+    const state = room.gameState as SimonGameState;
+    expect(state.phase).toBe('player_input');
+
+    input(alice.id, wrongColor(state.sequence[0]), 0);
+    input(bob.id, state.sequence[0], 0);
+
+    const processed = room.gameState as SimonGameState;
+    expect(processed.playerStates[alice.id]).toMatchObject({ status: 'playing', lives: 2 });
+    expect(emit).not.toHaveBeenCalledWith('simon:player_eliminated', expect.anything());
+    expect(emit).toHaveBeenCalledWith('simon:round_result', expect.objectContaining({
+      livesLost: [expect.objectContaining({ playerId: alice.id, reason: 'wrong_sequence' })],
+    }));
+  });
+
+  it('should eliminate for a wrong color with a single life', () => {
+    const { room, alice, bob, input } = startInputPhase({ lives: 1 });
+    const state = room.gameState as SimonGameState;
+
+    input(alice.id, wrongColor(state.sequence[0]), 0);
+    input(bob.id, state.sequence[0], 0);
+
+    expect((room.gameState as SimonGameState).playerStates[alice.id].status).toBe('eliminated');
+  });
+
+  it('should ignore input after a player has answered', () => {
+    const { room, alice, input } = startInputPhase({ lives: 3 });
+    const state = room.gameState as SimonGameState;
+
+    input(alice.id, wrongColor(state.sequence[0]), 0);
+    input(alice.id, state.sequence[0], 0);
+
+    expect((room.gameState as SimonGameState).submissions[alice.id].isCorrect).toBe(false);
+  });
+
+  it('should share a challenge code with the pad count when the game ends', () => {
+    const { room, alice, bob, emit, input } = startInputPhase({ lives: 1, padCount: 6 });
+    const state = room.gameState as SimonGameState;
+
+    input(alice.id, wrongColor(state.sequence[0]), 0);
+    input(bob.id, state.sequence[0], 0);
+    vi.advanceTimersByTime(3000);
+
+    expect(emit).toHaveBeenCalledWith('simon:game_finished', expect.objectContaining({
+      challengeCode: expect.stringMatching(/^[0-9A-Z]{7}6$/),
+    }));
+  });
+
+  it('should not share a challenge code for a chain game', () => {
+    const { room, alice, bob, emit, input } = startInputPhase({ lives: 1, mode: 'chain' });
+    const state = room.gameState as SimonGameState;
+    const [active, other] = state.activePlayerId === alice.id ? [alice, bob] : [bob, alice];
+
+    input(active.id, wrongColor(state.sequence[0]), 0);
+    vi.advanceTimersByTime(3000);
+
+    expect((room.gameState as SimonGameState).playerStates[other.id].status).toBe('playing');
+    expect(emit).toHaveBeenCalledWith('simon:game_finished', expect.objectContaining({
+      challengeCode: null,
+    }));
+  });
+});
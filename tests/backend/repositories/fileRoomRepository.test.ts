@@ -0,0 +1,160 @@
+/**
+ * Room Repository Tests
+ *
+ * Verifies rooms written by the file store are reloaded intact, that
+ * GameService snapshots every change through its repository, and that
+ * repositories sharing a directory see each other's rooms.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileRoomRepository } from '../../../src/backend/repositories';
+import { GameService } from '../../../src/backend/services/gameService';
+import { initializeSimonGame } from '../../../src/backend/utils/simonLogic';
+import type { SimonGameState } from '../../../src/shared/types';
+
+describe('FileRoomRepository', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rooms-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // ===========================================================================
+  // STORAGE
+  // ===========================================================================
+
+  it('should write one file per room', () => {
+    const service = new GameService(new FileRoomRepository(dir));
+    const room = service.createRoom({ displayName: 'Alice', avatarId: '1' });
+
+    expect(fs.readdirSync(dir)).toEqual([`${room.gameCode}.json`]);
+  });
+
+  it('should reload rooms with dates restored', () => {
+    const service = new GameService(new FileRoomRepository(dir));
+    const room = service.createRoom({ displayName: 'Alice', avatarId: '1' });
+
+    const reloaded = new FileRoomRepository(dir).get(room.gameCode);
+
+    expect(reloaded?.createdAt).toBeInstanceOf(Date);
+    expect(reloaded?.createdAt.getTime()).toBe(room.createdAt.getTime());
+    expect(reloaded?.players[0].lastActivity).toBeInstanceOf(Date);
+  });
+
+  it('should remove the file when a room is deleted', () => {
+    const service = new GameService(new FileRoomRepository(dir));
+    const room = service.createRoom({ displayName: 'Alice', avatarId: '1' });
+
+    service.deleteRoom(room.gameCode);
+
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it('should skip unreadable files', () => {
+    fs.writeFileSync(path.join(dir, 'BROKEN.json'), '{not json');
+
+    expect(new FileRoomRepository(dir).count()).toBe(0);
+  });
+
+  // ===========================================================================
+  // SNAPSHOTS
+  // ===========================================================================
+
+  it('should persist every change made through GameService', () => {
+    const service = new GameService(new FileRoomRepository(dir));
+    const room = service.createRoom({ displayName: 'Alice', avatarId: '1' });
+    service.joinRoom(room.gameCode, { displayName: 'Bob', avatarId: '2' });
+    service.updateGameType(room.gameCode, 'color_race');
+    service.markPlayerDisconnected(room.gameCode, room.players[1].id, 123456);
+
+    const reloaded = new GameService(new FileRoomRepository(dir)).getRoom(room.gameCode);
+
+    expect(reloaded?.players).toHaveLength(2);
+    expect(reloaded?.gameType).toBe('color_race');
+    expect(reloaded?.players[1].disconnectTimeoutAt).toBe(123456);
+  });
+
+  it('should persist the game state including the input deadline', () => {
+    const service = new GameService(new FileRoomRepository(dir));
+    const room = service.createRoom({ displayName: 'Alice', avatarId: '1' });
+    service.updateRoomStatus(room.gameCode, 'active');
+    service.updateGameState(room.gameCode, {
+      ...initializeSimonGame(room.players),
+      phase: 'player_input',
+      timeoutAt: 987654,
+    });
+
+    const reloaded = new GameService(new FileRoomRepository(dir)).getRoom(room.gameCode);
+    const state = reloaded?.gameState as SimonGameState;
+
+    expect(reloaded?.status).toBe('active');
+    expect(state.phase).toBe('player_input');
+    expect(state.timeoutAt).toBe(987654);
+  });
+
+  it('should avoid codes of reloaded rooms', () => {
+    const first = new GameService(new FileRoomRepository(dir));
+    const room = first.createRoom({ displayName: 'Alice', avatarId: '1' });
+
+    const second = new GameService(new FileRoomRepository(dir));
+    const other = second.createRoom({ displayName: 'Bob', avatarId: '2' });
+
+    expect(other.gameCode).not.toBe(room.gameCode);
+    expect(second.getRoomCount()).toBe(2);
+  });
+
+  // ===========================================================================
+  // SHARED DIRECTORY
+  // ===========================================================================
+
+  it('should see rooms another repository created, changed and deleted', () => {
+    const first = new GameService(new FileRoomRepository(dir));
+    const second = new GameService(new FileRoomRepository(dir));
+
+    const room = first.createRoom({ displayName: 'Alice', avatarId: '1' });
+    expect(second.getRoom(room.gameCode)?.players).toHaveLength(1);
+
+    second.joinRoom(room.gameCode, { displayName: 'Bob', avatarId: '2' });
+    expect(first.getRoom(room.gameCode)?.players).toHaveLength(2);
+
+    second.deleteRoom(room.gameCode);
+    expect(first.getRoom(room.gameCode)).toBeNull();
+    expect(first.getRoomCount()).toBe(0);
+  });
+
+  it('should update a cached room in place when another repository changes it', () => {
+    const first = new GameService(new FileRoomRepository(dir));
+    const second = new GameService(new FileRoomRepository(dir));
+    const room = first.createRoom({ displayName: 'Alice', avatarId: '1' });
+
+    second.updateGameType(room.gameCode, 'color_race');
+
+    expect(first.getRoom(room.gameCode)).toBe(room);
+    expect(room.gameType).toBe('color_race');
+  });
+
+  it('should refuse to overwrite a change it has not seen', () => {
+    const first = new FileRoomRepository(dir);
+    const second = new FileRoomRepository(dir);
+    const service = new GameService(first);
+    const room = service.createRoom({ displayName: 'Alice', avatarId: '1' });
+    const stale = structuredClone(second.get(room.gameCode)!);
+
+    service.joinRoom(room.gameCode, { displayName: 'Bob', avatarId: '2' });
+
+    expect(() => second.save({ ...stale, name: 'Stale' })).toThrow(`Stale room ${room.gameCode}`);
+    expect(second.get(room.gameCode)?.players).toHaveLength(2);
+    expect(second.get(room.gameCode)?.name).toBeNull();
+  });
+
+  it('should not read files outside the directory', () => {
+    expect(new FileRoomRepository(dir).get('../secrets')).toBeNull();
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Account Service Tests
+ *
+ * Verifies password and magic link sign-in, and that accounts never
+ * expose their credentials.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AccountService } from '../../../src/backend/services/accountService';
+import { FileAccountRepository } from '../../../src/backend/repositories';
+import { generateAccountToken } from '../../../src/backend/utils/auth';
+import { RATING_CONSTANTS } from '../../../src/shared/types';
+
+describe('AccountService', () => {
+  let accountService: AccountService;
+
+  beforeEach(() => {
+    accountService = new AccountService();
+  });
+
+  // ===========================================================================
+  // PASSWORD ACCOUNTS
+  // ===========================================================================
+
+  describe('register / login', () => {
+    it('should sign in with the registered password', async () => {
+      const account = await accountService.register('alice', 'correct-horse', 'alice@example.com');
+
+      expect(await accountService.login('Alice', 'correct-horse')).toEqual(account);
+      expect(account).not.toHaveProperty('passwordHash');
+      expect(account).not.toHaveProperty('email');
+    });
+
+    it('should reject a wrong password and an unknown user alike', async () => {
+      await accountService.register('alice', 'correct-horse');
+
+      await expect(accountService.login('alice', 'wrong-horse')).rejects.toThrow('Invalid username or password');
+      await expect(accountService.login('bob', 'correct-horse')).rejects.toThrow('Invalid username or password');
+    });
+
+    it('should reject a taken username regardless of case', async () => {
+      await accountService.register('alice', 'correct-horse');
+
+      await expect(accountService.register('ALICE', 'another-pass')).rejects.toThrow('Username already taken');
+    });
+  });
+
+  // ===========================================================================
+  // MAGIC LINKS
+  // ===========================================================================
+
+  describe('magic links', () => {
+    const sendMagicLink = vi.fn(async () => {});
+
+    beforeEach(() => {
+      sendMagicLink.mockClear();
+      accountService = new AccountService(undefined, sendMagicLink);
+    });
+
+    it('should send a link to the account email and sign in with it', async () => {
+      const account = await accountService.register('alice', 'correct-horse', 'alice@example.com');
+
+      const token = await accountService.requestMagicLink('alice', 'https://simon.example');
+
+      expect(sendMagicLink).toHaveBeenCalledWith({
+        to: 'alice@example.com',
+        username: 'alice',
+        link: `https://simon.example/?magic=${token}`,
+      });
+      expect(accountService.redeemMagicLink(token!)).toEqual(account);
+    });
+
+    it('should accept each link only once', async () => {
+      await accountService.register('alice', 'correct-horse', 'alice@example.com');
+      const token = await accountService.requestMagicLink('alice', 'https://simon.example');
+
+      accountService.redeemMagicLink(token!);
+
+      expect(() => accountService.redeemMagicLink(token!)).toThrow('Invalid or expired link');
+    });
+
+    it('should only accept the latest link', async () => {
+      await accountService.register('alice', 'correct-horse', 'alice@example.com');
+      const first = await accountService.requestMagicLink('alice', 'https://simon.example');
+      const second = await accountService.requestMagicLink('alice', 'https://simon.example');
+
+      expect(() => accountService.redeemMagicLink(first!)).toThrow('Invalid or expired link');
+      expect(accountService.redeemMagicLink(second!).username).toBe('alice');
+    });
+
+    it('should answer a failed delivery like an account without an email', async () => {
+      const failing = new AccountService(undefined, vi.fn(async () => {
+        throw new Error('Magic link webhook responded with 502');
+      }));
+      await failing.register('alice', 'correct-horse', 'alice@example.com');
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(await failing.requestMagicLink('alice', 'https://simon.example')).toBeNull();
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('alice'), expect.any(Error));
+      consoleError.mockRestore();
+    });
+
+    it('should not create accounts or send links for unknown usernames', async () => {
+      expect(await accountService.requestMagicLink('bob', 'https://simon.example')).toBeNull();
+
+      expect(sendMagicLink).not.toHaveBeenCalled();
+      await expect(accountService.register('bob', 'correct-horse')).resolves.toMatchObject({ username: 'bob' });
+    });
+
+    it('should not send links for accounts without an email', async () => {
+      await accountService.register('alice', 'correct-horse');
+
+      expect(await accountService.requestMagicLink('alice', 'https://simon.example')).toBeNull();
+      expect(sendMagicLink).not.toHaveBeenCalled();
+    });
+
+    it('should refuse links when there is no way to deliver them', async () => {
+      const undeliverable = new AccountService();
+      await undeliverable.register('alice', 'correct-horse', 'alice@example.com');
+
+      await expect(undeliverable.requestMagicLink('alice', 'https://simon.example'))
+        .rejects.toThrow('Magic links are not available');
+    });
+
+    it('should reject tokens that are not magic links', async () => {
+      const account = await accountService.register('alice', 'correct-horse');
+
+      expect(() => accountService.redeemMagicLink(generateAccountToken(account.id))).toThrow('Invalid or expired link');
+      expect(() => accountService.redeemMagicLink('not-a-token')).toThrow('Invalid or expired link');
+    });
+  });
+
+  // ===========================================================================
+  // PERSISTENCE
+  // ===========================================================================
+
+  describe('FileAccountRepository', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'accounts-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should keep accounts across restarts', async () => {
+      const account = await new AccountService(new FileAccountRepository(dir)).register('alice', 'correct-horse');
+
+      const restarted = new AccountService(new FileAccountRepository(dir));
+
+      expect(restarted.getAccount(account.id)).toEqual(account);
+      expect((await restarted.login('alice', 'correct-horse')).id).toBe(account.id);
+    });
+
+    it('should share accounts and ratings between instances', async () => {
+      const first = new AccountService(new FileAccountRepository(dir));
+      const second = new AccountService(new FileAccountRepository(dir));
+
+      const account = await first.register('alice', 'correct-horse');
+      expect((await second.login('alice', 'correct-horse')).id).toBe(account.id);
+
+      second.setRating(account.id, 1300);
+      expect(first.getAccount(account.id)?.rating).toBe(1300);
+    });
+
+    it('should refuse to overwrite an account another instance changed', async () => {
+      const first = new FileAccountRepository(dir);
+      const second = new FileAccountRepository(dir);
+      const account = await new AccountService(first).register('alice', 'correct-horse');
+      const stale = second.get(account.id)!;
+
+      new AccountService(first).setRating(account.id, 1300);
+
+      expect(() => second.save({ ...stale, rating: 1100 })).toThrow(`Stale account ${account.id}`);
+      expect(second.get(account.id)?.rating).toBe(1300);
+    });
+
+    it('should give accounts stored before ratings the default rating', () => {
+      fs.writeFileSync(path.join(dir, 'old.json'), JSON.stringify({
+        id: 'old',
+        username: 'carol',
+        passwordHash: null,
+        createdAt: 0,
+      }));
+
+      const restarted = new AccountService(new FileAccountRepository(dir));
+
+      expect(restarted.getAccount('old')?.rating).toBe(RATING_CONSTANTS.DEFAULT_RATING);
+    });
+  });
+});
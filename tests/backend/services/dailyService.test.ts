@@ -0,0 +1,217 @@
+/**
+ * Daily Service Tests
+ *
+ * Verifies the daily sequence is fixed per UTC day, that each player
+ * gets one attempt and that scores match the round really reached.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DailyService, deriveDailySeed, getUtcDate } from '../../../src/backend/services/dailyService';
+import { FileDailyRepository } from '../../../src/backend/repositories';
+import { DAILY_CONSTANTS } from '../../../src/shared/types';
+import type { Color } from '../../../src/shared/types';
+
+const NOON = Date.UTC(2026, 9, 19, 12);
+const ALICE = { displayName: 'Alice', avatarId: '1' };
+const BOB = { displayName: 'Bob', avatarId: '2' };
+
+/**
+ * Any color except the expected one
+ */
+function wrongColor(color: Color): Color {
+  return color === 'red' ? 'blue' : 'red';
+}
+
+/**
+ * Clear a number of rounds, then fail the next one
+ */
+function play(service: DailyService, playerId: string, rounds: number, now: number = NOON) {
+  let round = service.startAttempt(playerId, ALICE, now);
+  for (let i = 0; i < rounds; i++) {
+    round = service.submitRound(playerId, round.sequence, now).next!;
+  }
+  return service.submitRound(playerId, round.sequence.map(wrongColor), now);
+}
+
+describe('DailyService', () => {
+  let service: DailyService;
+
+  beforeEach(() => {
+    service = new DailyService(undefined, 'test-secret');
+  });
+
+  // ===========================================================================
+  // SEQUENCE
+  // ===========================================================================
+
+  describe('sequence', () => {
+    it('should use the UTC day', () => {
+      expect(getUtcDate(Date.UTC(2026, 9, 19, 23, 59))).toBe('2026-10-19');
+      expect(getUtcDate(Date.UTC(2026, 9, 20, 0, 1))).toBe('2026-10-20');
+    });
+
+    it('should give everyone the same sequence for a day', () => {
+      const alice = service.startAttempt('alice', ALICE, NOON);
+      const bob = service.startAttempt('bob', BOB, NOON + 1000);
+
+      expect(bob.sequence).toEqual(alice.sequence);
+      expect(alice).toMatchObject({ date: '2026-10-19', round: 1 });
+    });
+
+    it('should extend the same sequence each round', () => {
+      const round5 = service.getSequence('2026-10-19', 5);
+      const round6 = service.getSequence('2026-10-19', 6);
+
+      expect(round6).toHaveLength(round5.length + 1);
+      expect(round6.slice(0, 5)).toEqual(round5);
+    });
+
+    it('should derive a different seed per day and per secret', () => {
+      const seed = deriveDailySeed('2026-10-19', 'test-secret');
+
+      expect(deriveDailySeed('2026-10-20', 'test-secret')).not.toBe(seed);
+      expect(deriveDailySeed('2026-10-19', 'other-secret')).not.toBe(seed);
+    });
+  });
+
+  // ===========================================================================
+  // ATTEMPTS
+  // ===========================================================================
+
+  describe('attempts', () => {
+    it('should allow one attempt per player per day', () => {
+      service.startAttempt('alice', ALICE, NOON);
+
+      expect(() => service.startAttempt('alice', ALICE, NOON + 1000)).toThrow('Already played today');
+      expect(() => service.startAttempt('alice', ALICE, NOON + 24 * 60 * 60 * 1000)).not.toThrow();
+    });
+
+    it('should deal the next round for a correct sequence', () => {
+      const round1 = service.startAttempt('alice', ALICE, NOON);
+      const response = service.submitRound('alice', round1.sequence, NOON + 5000);
+
+      expect(response).toMatchObject({ isCorrect: true, score: 1, result: null });
+      expect(response.next?.round).toBe(2);
+      expect(response.next?.sequence).toHaveLength(2);
+    });
+
+    it('should end the attempt on a wrong sequence', () => {
+      const response = play(service, 'alice', 3);
+
+      expect(response).toMatchObject({ isCorrect: false, score: 3, next: null });
+      expect(response.result).toEqual({ score: 3, rank: 1 });
+      expect(() => service.submitRound('alice', [], NOON)).toThrow('No daily attempt in progress');
+    });
+
+    it('should reject a sequence submitted after the round deadline', () => {
+      const round1 = service.startAttempt('alice', ALICE, NOON);
+      const late = NOON + 60_000 + DAILY_CONSTANTS.SUBMIT_GRACE_MS;
+
+      expect(service.submitRound('alice', round1.sequence, late)).toMatchObject({ isCorrect: false, score: 0 });
+    });
+
+    it('should report the result of a finished attempt', () => {
+      expect(service.getChallenge('alice', NOON)).toEqual({ date: '2026-10-19', hasPlayed: false, result: null, current: null });
+
+      play(service, 'alice', 2);
+
+      expect(service.getChallenge('alice', NOON)).toEqual({
+        date: '2026-10-19',
+        hasPlayed: true,
+        result: { score: 2, rank: 1 },
+        current: null,
+      });
+    });
+
+    it('should hand back the round in progress with the time it has left', () => {
+      const round1 = service.startAttempt('alice', ALICE, NOON);
+      const round2 = service.submitRound('alice', round1.sequence, NOON + 5000).next!;
+
+      const { current } = service.getChallenge('alice', NOON + 8000);
+
+      expect(current).toMatchObject({ round: 2, sequence: round2.sequence });
+      expect(current?.timeLeftMs).toBe(round2.timeLeftMs - 3000);
+    });
+
+    it('should not extend the deadline of a resumed round', () => {
+      const round1 = service.startAttempt('alice', ALICE, NOON);
+      const closed = NOON + round1.timeLeftMs + DAILY_CONSTANTS.SUBMIT_GRACE_MS + 1;
+
+      expect(service.getChallenge('alice', closed)).toMatchObject({ hasPlayed: true, current: null });
+      expect(service.getChallenge('alice', closed).result).toEqual({ score: 0, rank: 1 });
+    });
+  });
+
+  // ===========================================================================
+  // LEADERBOARD
+  // ===========================================================================
+
+  describe('leaderboard', () => {
+    it('should rank finished attempts by score, then by finish time', () => {
+      play(service, 'alice', 2, NOON);
+      play(service, 'bob', 4, NOON + 1000);
+      play(service, 'carol', 2, NOON + 2000);
+      service.startAttempt('dave', BOB, NOON);
+
+      const { entries } = service.getLeaderboard('2026-10-19', 50, NOON + 3000);
+
+      expect(entries.map(e => [e.rank, e.score, e.finishedAt])).toEqual([
+        [1, 4, NOON + 1000],
+        [2, 2, NOON],
+        [3, 2, NOON + 2000],
+      ]);
+      expect(entries[0]).not.toHaveProperty('playerId');
+    });
+
+    it('should close abandoned attempts once their deadline passes', () => {
+      const round1 = service.startAttempt('alice', ALICE, NOON);
+      service.submitRound('alice', round1.sequence, NOON + 1000);
+
+      const { entries } = service.getLeaderboard('2026-10-19', 50, NOON + 10 * 60_000);
+      expect(entries).toHaveLength(1);
+      expect(entries[0].score).toBe(1);
+    });
+  });
+
+  // ===========================================================================
+  // PERSISTENCE
+  // ===========================================================================
+
+  describe('FileDailyRepository', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'daily-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should keep the leaderboard and used attempts across restarts', () => {
+      play(new DailyService(new FileDailyRepository(dir), 'test-secret'), 'alice', 3);
+      expect(fs.readdirSync(dir)).toEqual(['2026-10-19.json']);
+
+      const restarted = new DailyService(new FileDailyRepository(dir), 'test-secret');
+
+      expect(restarted.getLeaderboard('2026-10-19', 50, NOON).entries[0]).toMatchObject({ displayName: 'Alice', score: 3 });
+      expect(() => restarted.startAttempt('alice', ALICE, NOON)).toThrow('Already played today');
+    });
+
+    it('should merge attempts saved by other instances into one leaderboard', () => {
+      const first = new DailyService(new FileDailyRepository(dir), 'test-secret');
+      const second = new DailyService(new FileDailyRepository(dir), 'test-secret');
+
+      first.startAttempt('alice', ALICE, NOON);
+      play(second, 'bob', 2);
+      play(first, 'carol', 1);
+
+      const names = second.getLeaderboard('2026-10-19', 50, NOON).entries.map(entry => entry.displayName);
+      expect(names).toHaveLength(2);
+      expect(() => second.startAttempt('alice', ALICE, NOON)).toThrow('Already played today');
+    });
+  });
+});
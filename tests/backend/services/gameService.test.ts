@@ -6,7 +6,8 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { GameService } from '../../../src/backend/services/gameService';
+import { GameService, getActivePlayers, getSpectators, toRoomView } from '../../../src/backend/services/gameService';
+import { DEFAULT_ROOM_SETTINGS, PLATFORM_CONSTANTS } from '../../../src/shared/types';
 import type { PlayerInfo } from '../../../src/shared/types';
 
 describe('GameService', () => {
@@ -146,6 +147,15 @@ describe('GameService', () => {
         .toThrow('Room is full');
     });
 
+    it('should respect a lower max players setting', () => {
+      const room = gameService.getRoom(gameCode)!;
+      gameService.updateSettings(gameCode, { ...room.settings, maxPlayers: 2 });
+      gameService.joinRoom(gameCode, { displayName: 'Bob', avatarId: '2' });
+      
+      expect(() => gameService.joinRoom(gameCode, { displayName: 'Charlie', avatarId: '3' }))
+        .toThrow('Room is full');
+    });
+
     it('should throw error when game is in progress', () => {
       gameService.updateRoomStatus(gameCode, 'active');
       const playerInfo: PlayerInfo = { displayName: 'Bob', avatarId: '2' };
@@ -155,6 +165,57 @@ describe('GameService', () => {
     });
   });
 
+  // ===========================================================================
+  // SPECTATORS
+  // ===========================================================================
+
+  describe('spectateRoom', () => {
+    let gameCode: string;
+
+    beforeEach(() => {
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      gameCode = room.gameCode;
+    });
+
+    it('should add a spectator to the room', () => {
+      const room = gameService.spectateRoom(gameCode, { displayName: 'Eve', avatarId: '5' });
+
+      expect(room.players).toHaveLength(2);
+      expect(room.players[1]).toMatchObject({ displayName: 'Eve', role: 'spectator', isHost: false });
+      expect(getActivePlayers(room)).toHaveLength(1);
+      expect(getSpectators(room)).toHaveLength(1);
+    });
+
+    it('should allow spectating a game in progress', () => {
+      gameService.updateRoomStatus(gameCode, 'active');
+
+      expect(() => gameService.spectateRoom(gameCode, { displayName: 'Eve', avatarId: '5' }))
+        .not.toThrow();
+    });
+
+    it('should not count spectators toward max players', () => {
+      gameService.updateSettings(gameCode, { maxPlayers: 2 });
+      gameService.spectateRoom(gameCode, { displayName: 'Eve', avatarId: '5' });
+
+      expect(() => gameService.joinRoom(gameCode, { displayName: 'Bob', avatarId: '2' }))
+        .not.toThrow();
+    });
+
+    it('should throw error if room does not exist', () => {
+      expect(() => gameService.spectateRoom('XXXXXX', { displayName: 'Eve', avatarId: '5' }))
+        .toThrow('Room not found');
+    });
+
+    it('should throw error when spectator limit is reached', () => {
+      for (let i = 0; i < PLATFORM_CONSTANTS.MAX_SPECTATORS; i++) {
+        gameService.spectateRoom(gameCode, { displayName: `Watcher ${i}`, avatarId: '5' });
+      }
+
+      expect(() => gameService.spectateRoom(gameCode, { displayName: 'Eve', avatarId: '5' }))
+        .toThrow('Too many spectators');
+    });
+  });
+
   // ===========================================================================
   // SOCKET MANAGEMENT
   // ===========================================================================
@@ -246,6 +307,26 @@ describe('GameService', () => {
       expect(updatedRoom?.players[0].isHost).toBe(true);
     });
 
+    it('should not transfer host to a spectator', () => {
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      gameService.spectateRoom(room.gameCode, { displayName: 'Eve', avatarId: '5' });
+      gameService.joinRoom(room.gameCode, { displayName: 'Bob', avatarId: '2' });
+      
+      gameService.removePlayer(room.gameCode, room.players[0].id);
+      
+      const updatedRoom = gameService.getRoom(room.gameCode);
+      expect(updatedRoom?.players.find(p => p.isHost)?.displayName).toBe('Bob');
+    });
+
+    it('should delete room when only spectators remain', () => {
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      gameService.spectateRoom(room.gameCode, { displayName: 'Eve', avatarId: '5' });
+      
+      gameService.removePlayer(room.gameCode, room.players[0].id);
+      
+      expect(gameService.getRoom(room.gameCode)).toBeNull();
+    });
+
     it('should return false when player does not exist', () => {
       const hostInfo: PlayerInfo = { displayName: 'Alice', avatarId: '1' };
       const room = gameService.createRoom(hostInfo);
@@ -277,6 +358,169 @@ describe('GameService', () => {
     });
   });
 
+  // ===========================================================================
+  // GAME TYPE
+  // ===========================================================================
+
+  describe('updateGameType', () => {
+    it('should default new rooms to Simon', () => {
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      
+      expect(room.gameType).toBe('simon');
+    });
+
+    it('should update the selected game', () => {
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      
+      const updated = gameService.updateGameType(room.gameCode, 'color_race');
+      
+      expect(updated?.gameType).toBe('color_race');
+    });
+
+    it('should return null if room does not exist', () => {
+      const result = gameService.updateGameType('NONEXISTENT', 'color_race');
+      
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('updateSettings', () => {
+    it('should give new rooms the default settings', () => {
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      
+      expect(room.settings).toEqual(DEFAULT_ROOM_SETTINGS);
+    });
+
+    it('should not share settings objects between rooms', () => {
+      const room1 = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      const room2 = gameService.createRoom({ displayName: 'Bob', avatarId: '2' });
+      
+      room1.settings.simon.initialSequenceLength = 3;
+      
+      expect(room2.settings.simon.initialSequenceLength).toBe(1);
+      expect(DEFAULT_ROOM_SETTINGS.simon.initialSequenceLength).toBe(1);
+    });
+
+    it('should replace the room settings', () => {
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      const settings = {
+        maxPlayers: 2,
+        simon: { ...room.settings.simon, initialSequenceLength: 3 },
+      };
+      
+      const updated = gameService.updateSettings(room.gameCode, settings);
+      
+      expect(updated?.settings).toEqual(settings);
+    });
+
+    it('should throw error when max players is below current player count', () => {
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      gameService.joinRoom(room.gameCode, { displayName: 'Bob', avatarId: '2' });
+      
+      expect(() => gameService.updateSettings(room.gameCode, { ...room.settings, maxPlayers: 1 }))
+        .toThrow('Max players is below current player count');
+    });
+
+    it('should return null if room does not exist', () => {
+      const result = gameService.updateSettings('NONEXISTENT', DEFAULT_ROOM_SETTINGS);
+      
+      expect(result).toBeNull();
+    });
+  });
+
+  // ===========================================================================
+  // TEAMS
+  // ===========================================================================
+
+  describe('setPlayerTeam', () => {
+    it('should balance teams as players join', () => {
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      gameService.joinRoom(room.gameCode, { displayName: 'Bob', avatarId: '2' });
+      gameService.joinRoom(room.gameCode, { displayName: 'Carol', avatarId: '3' });
+
+      expect(room.players.map(p => p.team)).toEqual(['A', 'B', 'A']);
+    });
+
+    it('should move a player to another team', () => {
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      gameService.joinRoom(room.gameCode, { displayName: 'Bob', avatarId: '2' });
+
+      const updated = gameService.setPlayerTeam(room.gameCode, room.players[1].id, 'A');
+
+      expect(updated?.players.map(p => p.team)).toEqual(['A', 'A']);
+    });
+
+    it('should throw error once the game has started', () => {
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      gameService.updateRoomStatus(room.gameCode, 'active');
+
+      expect(() => gameService.setPlayerTeam(room.gameCode, room.players[0].id, 'B'))
+        .toThrow('Game already in progress');
+    });
+
+    it('should return null for an unknown player', () => {
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+
+      expect(gameService.setPlayerTeam(room.gameCode, 'nobody', 'B')).toBeNull();
+    });
+  });
+
+  // ===========================================================================
+  // PUBLIC LOBBY
+  // ===========================================================================
+
+  describe('getPublicRooms', () => {
+    it('should only list public rooms waiting for players', () => {
+      gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      const open = gameService.createRoom({ displayName: 'Bob', avatarId: '2' });
+      const started = gameService.createRoom({ displayName: 'Carol', avatarId: '3' });
+      gameService.updateListing(open.gameCode, { isPublic: true, name: 'Bobs Lobby' });
+      gameService.updateListing(started.gameCode, { isPublic: true, name: null });
+      gameService.updateRoomStatus(started.gameCode, 'active');
+
+      const rooms = gameService.getPublicRooms();
+
+      expect(rooms.map(r => r.gameCode)).toEqual([open.gameCode]);
+      expect(rooms[0]).toMatchObject({ name: 'Bobs Lobby', hostName: 'Bob', playerCount: 1, maxPlayers: 4 });
+    });
+
+    it('should stop listing a room made private again', () => {
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      gameService.updateListing(room.gameCode, { isPublic: true, name: null });
+      gameService.updateListing(room.gameCode, { isPublic: false, name: null });
+
+      expect(gameService.getPublicRooms()).toEqual([]);
+    });
+  });
+
+  describe('toRoomView', () => {
+    it('should leave seeds and generator state out of what members are sent', () => {
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      gameService.updateSettings(room.gameCode, { ...room.settings, seed: 12345 });
+      gameService.updateGameState(room.gameCode, { gameType: 'color_race', round: 1, seed: 12345, rngState: 678 });
+
+      const view = toRoomView(room);
+
+      expect(view.settings).toEqual({ maxPlayers: 4, simon: room.settings.simon, hasChallenge: true });
+      expect(view.gameState).toEqual({ gameType: 'color_race', round: 1 });
+      expect(JSON.stringify(view)).not.toContain('12345');
+      expect(room.settings.seed).toBe(12345);
+    });
+
+    it('should send players without their account or socket', () => {
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1', accountId: 'account-alice' });
+      gameService.updateSocketId(room.gameCode, room.players[0].id, 'socket-alice');
+
+      const [alice] = toRoomView(room).players;
+
+      expect(Object.keys(alice).sort()).toEqual([
+        'avatarId', 'botDifficulty', 'connected', 'displayName', 'id', 'isBot', 'isHost', 'rating', 'role', 'team',
+      ]);
+      expect(JSON.stringify(alice)).not.toContain('account-alice');
+      expect(toRoomView(room)).not.toHaveProperty('leavers');
+    });
+  });
+
   // ===========================================================================
   // CLEANUP
   // ===========================================================================
@@ -302,6 +546,78 @@ describe('GameService', () => {
     });
   });
 
+  // ===========================================================================
+  // BOTS
+  // ===========================================================================
+
+  describe('addBot / removeBot', () => {
+    const hostInfo: PlayerInfo = { displayName: 'Alice', avatarId: '1' };
+
+    it('should seat a connected bot with the chosen difficulty', () => {
+      const room = gameService.createRoom(hostInfo);
+      const bot = gameService.addBot(room.gameCode, 'hard');
+
+      expect(bot).toMatchObject({ isBot: true, botDifficulty: 'hard', connected: true, isHost: false, role: 'player' });
+      expect(room.players[0].isBot).toBe(false);
+      expect(getActivePlayers(room)).toHaveLength(2);
+    });
+
+    it('should give each bot its own name', () => {
+      const room = gameService.createRoom(hostInfo);
+      const names = [1, 2, 3].map(() => gameService.addBot(room.gameCode, 'easy').displayName);
+
+      expect(new Set(names).size).toBe(3);
+    });
+
+    it('should count bots toward max players', () => {
+      const room = gameService.createRoom(hostInfo);
+      for (let i = 1; i < PLATFORM_CONSTANTS.MAX_PLAYERS; i++) {
+        gameService.addBot(room.gameCode, 'medium');
+      }
+
+      expect(() => gameService.addBot(room.gameCode, 'medium')).toThrow('Room is full');
+      expect(() => gameService.joinRoom(room.gameCode, { displayName: 'Bob', avatarId: '2' })).toThrow('Room is full');
+    });
+
+    it('should only remove bots', () => {
+      const room = gameService.createRoom(hostInfo);
+      const bot = gameService.addBot(room.gameCode, 'medium');
+
+      expect(gameService.removeBot(room.gameCode, room.players[0].id)).toBe(false);
+      expect(gameService.removeBot(room.gameCode, bot.id)).toBe(true);
+      expect(room.players).toHaveLength(1);
+    });
+
+    it('should close the room when the last person leaves, even with bots seated', () => {
+      const room = gameService.createRoom(hostInfo);
+      gameService.addBot(room.gameCode, 'medium');
+
+      gameService.removePlayer(room.gameCode, room.players[0].id);
+
+      expect(gameService.getRoom(room.gameCode)).toBeNull();
+    });
+
+    it('should never hand the host role to a bot', () => {
+      const room = gameService.createRoom(hostInfo);
+      gameService.addBot(room.gameCode, 'medium');
+      const { players } = gameService.joinRoom(room.gameCode, { displayName: 'Bob', avatarId: '2' });
+
+      gameService.removePlayer(room.gameCode, players[0].id);
+
+      expect(room.players.find(p => p.isHost)?.displayName).toBe('Bob');
+    });
+
+    it('should clean up a room whose people are all gone, ignoring its bots', () => {
+      const room = gameService.createRoom(hostInfo);
+      gameService.addBot(room.gameCode, 'medium');
+      gameService.markPlayerDisconnected(room.gameCode, room.players[0].id);
+      room.players[0].lastActivity = new Date(Date.now() - PLATFORM_CONSTANTS.DISCONNECT_GRACE_MS - 1000);
+
+      expect(gameService.cleanupDeadRooms()).toBe(1);
+      expect(gameService.getRoom(room.gameCode)).toBeNull();
+    });
+  });
+
   // ===========================================================================
   // UTILITY METHODS
   // ===========================================================================
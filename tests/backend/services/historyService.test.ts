@@ -0,0 +1,186 @@
+/**
+ * History Service Tests
+ *
+ * Verifies matches are stored with the room's players, that stats
+ * follow an account across rooms, and that account IDs never leave the
+ * server.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { HistoryService } from '../../../src/backend/services/historyService';
+import { GameService } from '../../../src/backend/services/gameService';
+import { FileMatchRepository } from '../../../src/backend/repositories';
+import type { MatchSummary } from '../../../src/backend/games';
+import type { GameRoom } from '../../../src/shared/types';
+
+/**
+ * Room with Alice (signed in) and Bob (guest)
+ */
+function createRoom(gameService: GameService): GameRoom {
+  const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1', accountId: 'account-alice' });
+  return gameService.joinRoom(room.gameCode, { displayName: 'Bob', avatarId: '2' });
+}
+
+/**
+ * Summary where the first player wins, entering `length` colors per round
+ */
+function createSummary(room: GameRoom, winnerIndex: number, length: number): MatchSummary {
+  const [alice, bob] = room.players;
+  const winner = room.players[winnerIndex];
+  const loser = winner === alice ? bob : alice;
+
+  return {
+    winnerId: winner.id,
+    standings: [
+      { playerId: winner.id, score: 3, eliminatedAtRound: null },
+      { playerId: loser.id, score: 1, eliminatedAtRound: 2 },
+    ],
+    rounds: [{
+      round: 1,
+      submissions: [
+        { playerId: alice.id, isCorrect: true, reactionMs: 1000, sequenceLength: length },
+        { playerId: bob.id, isCorrect: false, reactionMs: null, sequenceLength: length },
+      ],
+    }],
+  };
+}
+
+describe('HistoryService', () => {
+  let gameService: GameService;
+  let historyService: HistoryService;
+
+  beforeEach(() => {
+    gameService = new GameService();
+    historyService = new HistoryService();
+  });
+
+  // ===========================================================================
+  // RECORDING
+  // ===========================================================================
+
+  describe('recordMatch', () => {
+    it('should store players with their rank, score and rating change', () => {
+      const room = createRoom(gameService);
+      const [alice] = room.players;
+
+      const match = historyService.recordMatch(room, 'simon', {
+        ...createSummary(room, 1, 2),
+        ratingChanges: [{ playerId: alice.id, rating: 1190, delta: -10 }],
+      }, 5000);
+
+      expect(match).toMatchObject({ gameCode: room.gameCode, gameType: 'simon', finishedAt: 5000 });
+      expect(match.players).toMatchObject([
+        { displayName: 'Bob', rank: 1, score: 3, eliminatedAtRound: null, ratingChange: null },
+        { displayName: 'Alice', rank: 2, score: 1, eliminatedAtRound: 2, ratingChange: -10 },
+      ]);
+    });
+
+    it('should keep account IDs out of recorded and listed matches', () => {
+      const room = createRoom(gameService);
+
+      const match = historyService.recordMatch(room, 'simon', createSummary(room, 0, 3));
+      const { matches } = historyService.getHistory(room.players[1].id);
+
+      expect(JSON.stringify(match)).not.toContain('account-alice');
+      expect(JSON.stringify(matches)).not.toContain('account-alice');
+      expect(matches[0].selfPlayerId).toBe(room.players[1].id);
+    });
+  });
+
+  // ===========================================================================
+  // READING
+  // ===========================================================================
+
+  describe('getHistory / getStats', () => {
+    it('should follow an account across rooms, newest first', () => {
+      const first = createRoom(gameService);
+      const second = createRoom(gameService);
+      historyService.recordMatch(first, 'simon', createSummary(first, 0, 3), 1000);
+      historyService.recordMatch(second, 'simon', createSummary(second, 1, 5), 2000);
+
+      const { matches } = historyService.getHistory('account-alice');
+
+      expect(matches.map(m => m.gameCode)).toEqual([second.gameCode, first.gameCode]);
+      expect(matches.map(m => m.selfPlayerId)).toEqual([second.players[0].id, first.players[0].id]);
+      expect(historyService.getStats('account-alice')).toEqual({
+        playerId: 'account-alice',
+        gamesPlayed: 2,
+        wins: 1,
+        winRate: 0.5,
+        longestSequence: 5,
+        averageReactionMs: 1000,
+      });
+    });
+
+    it('should find guests by their room player ID only', () => {
+      const room = createRoom(gameService);
+      historyService.recordMatch(room, 'simon', createSummary(room, 0, 3));
+
+      expect(historyService.getStats(room.players[1].id)).toMatchObject({
+        gamesPlayed: 1,
+        wins: 0,
+        longestSequence: 0,
+        averageReactionMs: null,
+      });
+    });
+
+    it('should leave solo games out of the win rate', () => {
+      const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+      const [alice] = room.players;
+      historyService.recordMatch(room, 'simon', {
+        winnerId: alice.id,
+        standings: [{ playerId: alice.id, score: 4, eliminatedAtRound: 5 }],
+        rounds: [],
+      });
+
+      expect(historyService.getStats(alice.id)).toMatchObject({ gamesPlayed: 1, wins: 0, winRate: null });
+    });
+
+    it('should limit the history', () => {
+      const room = createRoom(gameService);
+      historyService.recordMatch(room, 'simon', createSummary(room, 0, 1), 1000);
+      historyService.recordMatch(room, 'simon', createSummary(room, 0, 1), 2000);
+
+      expect(historyService.getHistory('account-alice', 1).matches[0].finishedAt).toBe(2000);
+    });
+  });
+
+  // ===========================================================================
+  // PERSISTENCE
+  // ===========================================================================
+
+  describe('FileMatchRepository', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'matches-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should keep matches across restarts', () => {
+      const room = createRoom(gameService);
+      const match = new HistoryService(new FileMatchRepository(dir)).recordMatch(room, 'simon', createSummary(room, 0, 3));
+
+      const restarted = new HistoryService(new FileMatchRepository(dir));
+
+      expect(restarted.getHistory('account-alice').matches).toEqual([{ ...match, selfPlayerId: room.players[0].id }]);
+    });
+
+    it('should list matches another instance recorded', () => {
+      const first = new HistoryService(new FileMatchRepository(dir));
+      const second = new HistoryService(new FileMatchRepository(dir));
+      expect(second.getHistory('account-alice').matches).toEqual([]);
+
+      const room = createRoom(gameService);
+      first.recordMatch(room, 'simon', createSummary(room, 0, 3));
+
+      expect(second.getHistory('account-alice').matches).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Matchmaking Service Tests
+ *
+ * Verifies players are grouped into open rooms (by rating when asked,
+ * more loosely the longer a room waits), that rooms start when full or
+ * when the wait timer runs out once everyone is connected, and that
+ * seats nobody connects to are given back.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MatchmakingService } from '../../../src/backend/services/matchmakingService';
+import { GameService } from '../../../src/backend/services/gameService';
+import { MATCHMAKING_CONSTANTS } from '../../../src/shared/types';
+import type { GameRoom, Player } from '../../../src/shared/types';
+
+const UNRATED = { gameType: 'simon', byRating: false } as const;
+const RATED = { gameType: 'simon', byRating: true } as const;
+
+function info(displayName: string, rating: number | null = null) {
+  return { displayName, avatarId: '1', accountId: null, rating };
+}
+
+describe('MatchmakingService', () => {
+  let gameService: GameService;
+  let matchmakingService: MatchmakingService;
+  let readyRooms: string[];
+  let releasedSeats: string[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    gameService = new GameService();
+    matchmakingService = new MatchmakingService(gameService);
+    readyRooms = [];
+    releasedSeats = [];
+    matchmakingService.onRoomReady(gameCode => readyRooms.push(gameCode));
+    matchmakingService.onSeatReleased((_gameCode, playerId) => releasedSeats.push(playerId));
+  });
+
+  /**
+   * The player's socket joins the room (as join_room_socket does)
+   */
+  function connect({ room, player }: { room: GameRoom; player: Player }): void {
+    gameService.updateSocketId(room.gameCode, player.id, `socket-${player.id}`);
+    matchmakingService.refresh(room.gameCode);
+  }
+
+  afterEach(() => {
+    matchmakingService.stopTimers();
+    vi.useRealTimers();
+  });
+
+  // ===========================================================================
+  // GROUPING
+  // ===========================================================================
+
+  describe('join', () => {
+    it('should open a matchmaking room for the first player', () => {
+      const { room, player } = matchmakingService.join(info('Alice'), { gameType: 'color_race', byRating: false });
+
+      expect(player.isHost).toBe(true);
+      expect(room.gameType).toBe('color_race');
+      expect(room.matchmaking).toEqual({ rating: null, startsAt: null });
+    });
+
+    it('should seat the next player in the same room', () => {
+      const first = matchmakingService.join(info('Alice'), UNRATED);
+      const second = matchmakingService.join(info('Bob'), UNRATED);
+
+      expect(second.room.gameCode).toBe(first.room.gameCode);
+      expect(second.player.isHost).toBe(false);
+    });
+
+    it('should keep games and rooms with a code apart', () => {
+      gameService.createRoom(info('Carol'));
+      const simon = matchmakingService.join(info('Alice'), UNRATED);
+      const colorRace = matchmakingService.join(info('Bob'), { gameType: 'color_race', byRating: false });
+
+      expect(colorRace.room.gameCode).not.toBe(simon.room.gameCode);
+      expect(gameService.getRoomCount()).toBe(3);
+    });
+
+    it('should hold a new seat until the player connects', () => {
+      const { player } = matchmakingService.join(info('Alice'), UNRATED, 1000);
+
+      expect(player.connected).toBe(false);
+      expect(player.disconnectTimeoutAt).toBe(1000 + MATCHMAKING_CONSTANTS.CONNECT_TIMEOUT_MS);
+    });
+
+    it('should only group rated players within the rating window', () => {
+      const first = matchmakingService.join(info('Alice', 1200), RATED);
+      const close = matchmakingService.join(info('Bob', 1200 + MATCHMAKING_CONSTANTS.RATING_WINDOW), RATED);
+      const far = matchmakingService.join(info('Carol', 1700), RATED);
+      const unrated = matchmakingService.join(info('Dave', 1200), UNRATED);
+
+      expect(close.room.gameCode).toBe(first.room.gameCode);
+      expect(far.room.gameCode).not.toBe(first.room.gameCode);
+      expect(unrated.room.gameCode).not.toBe(first.room.gameCode);
+    });
+
+    it('should widen the rating window the longer a room waits', () => {
+      const first = matchmakingService.join(info('Alice', 1200), RATED);
+      connect(first);
+      const gap = MATCHMAKING_CONSTANTS.RATING_WINDOW + MATCHMAKING_CONSTANTS.RATING_WINDOW_GROWTH;
+
+      const early = matchmakingService.join(info('Bob', 1200 + gap), RATED);
+      vi.advanceTimersByTime(MATCHMAKING_CONSTANTS.RATING_WINDOW_GROWTH_MS);
+      const later = matchmakingService.join(info('Carol', 1200 + gap), RATED);
+
+      expect(early.room.gameCode).not.toBe(first.room.gameCode);
+      expect(later.room.gameCode).toBe(first.room.gameCode);
+    });
+
+    it('should never widen the rating window past the maximum', () => {
+      const first = matchmakingService.join(info('Alice', 1200), RATED);
+      connect(first);
+      vi.advanceTimersByTime(MATCHMAKING_CONSTANTS.RATING_WINDOW_GROWTH_MS * 100);
+
+      const far = matchmakingService.join(info('Bob', 1201 + MATCHMAKING_CONSTANTS.MAX_RATING_WINDOW), RATED);
+
+      expect(far.room.gameCode).not.toBe(first.room.gameCode);
+    });
+  });
+
+  // ===========================================================================
+  // SEATS
+  // ===========================================================================
+
+  describe('seats', () => {
+    it('should give back a seat nobody connected to', () => {
+      const alice = matchmakingService.join(info('Alice'), UNRATED);
+      const bob = matchmakingService.join(info('Bob'), UNRATED);
+      connect(alice);
+
+      vi.advanceTimersByTime(MATCHMAKING_CONSTANTS.CONNECT_TIMEOUT_MS);
+
+      expect(releasedSeats).toEqual([bob.player.id]);
+      expect(gameService.getRoom(alice.room.gameCode)?.players.map(p => p.displayName)).toEqual(['Alice']);
+      expect(gameService.getRoom(alice.room.gameCode)?.matchmaking?.startsAt).toBeNull();
+    });
+
+    it('should keep the seat of a player who connected', () => {
+      const alice = matchmakingService.join(info('Alice'), UNRATED);
+      connect(alice);
+
+      vi.advanceTimersByTime(MATCHMAKING_CONSTANTS.CONNECT_TIMEOUT_MS);
+
+      expect(releasedSeats).toEqual([]);
+      expect(gameService.getRoom(alice.room.gameCode)?.players).toHaveLength(1);
+    });
+  });
+
+  // ===========================================================================
+  // AUTO-START
+  // ===========================================================================
+
+  describe('auto-start', () => {
+    it('should start a full room once every player is connected', () => {
+      const seated = ['Alice', 'Bob', 'Carol', 'Dave'].map(name => matchmakingService.join(info(name), UNRATED));
+      const { gameCode } = seated[0].room;
+      seated.slice(0, 3).forEach(connect);
+
+      expect(readyRooms).toEqual([]);
+      expect(gameService.getRoom(gameCode)?.matchmaking).not.toBeNull();
+
+      connect(seated[3]);
+
+      expect(readyRooms).toEqual([gameCode]);
+      expect(gameService.getRoom(gameCode)?.matchmaking).toBeNull();
+
+      // The next player gets a new room
+      expect(matchmakingService.join(info('Eve'), UNRATED).room.gameCode).not.toBe(gameCode);
+    });
+
+    it('should start once the wait timer runs out with enough players', () => {
+      const alice = matchmakingService.join(info('Alice'), UNRATED);
+      connect(alice);
+      vi.advanceTimersByTime(MATCHMAKING_CONSTANTS.WAIT_MS);
+      expect(readyRooms).toEqual([]); // Nobody to play with yet
+
+      const bob = matchmakingService.join(info('Bob'), UNRATED);
+      connect(bob);
+      expect(gameService.getRoom(alice.room.gameCode)?.matchmaking?.startsAt).toBe(Date.now() + MATCHMAKING_CONSTANTS.WAIT_MS);
+
+      vi.advanceTimersByTime(MATCHMAKING_CONSTANTS.WAIT_MS);
+      expect(readyRooms).toEqual([alice.room.gameCode]);
+    });
+
+    it('should wait for a late socket after the wait timer runs out', () => {
+      const alice = matchmakingService.join(info('Alice'), UNRATED);
+      const bob = matchmakingService.join(info('Bob'), UNRATED);
+      connect(alice);
+      connect(bob);
+
+      // Carol is seated just before the wait runs out
+      vi.advanceTimersByTime(MATCHMAKING_CONSTANTS.WAIT_MS - 1000);
+      const carol = matchmakingService.join(info('Carol'), UNRATED);
+      vi.advanceTimersByTime(1000);
+      expect(readyRooms).toEqual([]);
+
+      connect(carol);
+      expect(readyRooms).toEqual([alice.room.gameCode]);
+    });
+
+    it('should stop the wait timer when players leave the queue', () => {
+      const alice = matchmakingService.join(info('Alice'), UNRATED);
+      const { room, player } = matchmakingService.join(info('Bob'), UNRATED);
+      connect(alice);
+
+      gameService.removePlayer(room.gameCode, player.id);
+      matchmakingService.refresh(room.gameCode);
+      vi.advanceTimersByTime(MATCHMAKING_CONSTANTS.WAIT_MS);
+
+      expect(readyRooms).toEqual([]);
+      expect(gameService.getRoom(room.gameCode)?.matchmaking?.startsAt).toBeNull();
+    });
+
+    it('should close a room the host started by hand', () => {
+      const alice = matchmakingService.join(info('Alice'), UNRATED);
+      const bob = matchmakingService.join(info('Bob'), UNRATED);
+      const { room } = alice;
+      connect(alice);
+      connect(bob);
+
+      gameService.updateRoomStatus(room.gameCode, 'countdown');
+      matchmakingService.refresh(room.gameCode);
+      vi.advanceTimersByTime(MATCHMAKING_CONSTANTS.WAIT_MS);
+
+      expect(readyRooms).toEqual([]);
+      expect(gameService.getRoom(room.gameCode)?.matchmaking).toBeNull();
+    });
+
+    it('should forget a room whose last player left', () => {
+      const { room, player } = matchmakingService.join(info('Alice'), UNRATED);
+
+      gameService.removePlayer(room.gameCode, player.id);
+      matchmakingService.refresh(room.gameCode);
+
+      expect(matchmakingService.join(info('Bob'), UNRATED).room.gameCode).not.toBe(room.gameCode);
+    });
+  });
+});
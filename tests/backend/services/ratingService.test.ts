@@ -0,0 +1,105 @@
+/**
+ * Rating Service Tests
+ *
+ * Verifies ratings are stored per account and copied onto the room's
+ * players, while guests only count as opponents, bots don't count and
+ * players who left finish last.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RatingService } from '../../../src/backend/services/ratingService';
+import { AccountService } from '../../../src/backend/services/accountService';
+import { GameService } from '../../../src/backend/services/gameService';
+import { RATING_CONSTANTS } from '../../../src/shared/types';
+import type { Account, GameRoom } from '../../../src/shared/types';
+
+describe('RatingService', () => {
+  let accountService: AccountService;
+  let ratingService: RatingService;
+  let alice: Account;
+  let room: GameRoom;
+  let gameService: GameService;
+
+  beforeEach(async () => {
+    accountService = new AccountService();
+    ratingService = new RatingService(accountService);
+    alice = await accountService.register('alice', 'correct-horse');
+
+    // Alice (signed in) and Bob (guest)
+    gameService = new GameService();
+    const created = gameService.createRoom({
+      displayName: 'Alice',
+      avatarId: '1',
+      accountId: alice.id,
+      rating: alice.rating,
+    });
+    room = gameService.joinRoom(created.gameCode, { displayName: 'Bob', avatarId: '2' });
+  });
+
+  it('should store the new rating for signed-in players only', () => {
+    const [host, guest] = room.players;
+
+    const changes = ratingService.rateMatch(room, [
+      { playerId: host.id, score: 30, eliminatedAtRound: null },
+      { playerId: guest.id, score: 10, eliminatedAtRound: 3 },
+    ]);
+
+    const rating = RATING_CONSTANTS.DEFAULT_RATING + 16;
+    expect(changes).toEqual([{ playerId: host.id, rating, delta: 16 }]);
+    expect(accountService.getAccount(alice.id)?.rating).toBe(rating);
+    expect(host.rating).toBe(rating);
+    expect(guest.rating).toBeNull();
+  });
+
+  it('should start from the stored rating, not the room copy', () => {
+    const [host, guest] = room.players;
+    accountService.setRating(alice.id, 1400);
+
+    const [change] = ratingService.rateMatch(room, [
+      { playerId: guest.id, score: 30, eliminatedAtRound: null },
+      { playerId: host.id, score: 10, eliminatedAtRound: 3 },
+    ]);
+
+    expect(change.delta).toBeLessThan(-16);
+    expect(change.rating).toBe(1400 + change.delta);
+  });
+
+  it('should not rate a game against bots', () => {
+    const [host, guest] = room.players;
+    gameService.removePlayer(room.gameCode, guest.id);
+    const bot = gameService.addBot(room.gameCode, 'easy');
+
+    const changes = ratingService.rateMatch(room, [
+      { playerId: host.id, score: 30, eliminatedAtRound: null },
+      { playerId: bot.id, score: 0, eliminatedAtRound: 1 },
+    ]);
+
+    expect(changes).toEqual([]);
+    expect(accountService.getAccount(alice.id)?.rating).toBe(RATING_CONSTANTS.DEFAULT_RATING);
+  });
+
+  it('should rate a player who left mid-game as last', () => {
+    const [host, guest] = room.players;
+    gameService.updateRoomStatus(room.gameCode, 'active');
+    gameService.removePlayer(room.gameCode, host.id);
+
+    const [change] = ratingService.rateMatch(room, [
+      { playerId: host.id, score: 30, eliminatedAtRound: null },
+      { playerId: guest.id, score: 10, eliminatedAtRound: 3 },
+    ]);
+
+    expect(change).toEqual({ playerId: host.id, rating: RATING_CONSTANTS.DEFAULT_RATING - 16, delta: -16 });
+    expect(accountService.getAccount(alice.id)?.rating).toBe(RATING_CONSTANTS.DEFAULT_RATING - 16);
+  });
+
+  it('should not rate a solo game', () => {
+    const [host] = room.players;
+
+    const changes = ratingService.rateMatch(room, [
+      { playerId: host.id, score: 30, eliminatedAtRound: null },
+    ]);
+
+    expect(changes).toEqual([]);
+    expect(accountService.getAccount(alice.id)?.rating).toBe(RATING_CONSTANTS.DEFAULT_RATING);
+  });
+});
@@ -63,6 +63,20 @@ describe('Color Race Logic', () => {
       
       expect(state.gameType).toBe('color_race');
     });
+
+    it('should replay the same colors from the same seed', () => {
+      const playRounds = () => {
+        let state = initializeColorRaceGame(mockPlayers, 777);
+        const colors = [state.currentColor];
+        for (let round = 1; round < state.totalRounds; round++) {
+          state = processRound(state, []);
+          colors.push(state.currentColor);
+        }
+        return colors;
+      };
+      
+      expect(playRounds()).toEqual(playRounds());
+    });
   });
 
   // ===========================================================================
@@ -150,6 +164,8 @@ describe('Color Race Logic', () => {
         totalRounds: 5,
         scores: { 'player-1': 0, 'player-2': 0 },
         roundWinner: null,
+        roundStartedAt: 900,
+        rounds: [],
       };
     });
 
@@ -187,6 +203,16 @@ describe('Color Race Logic', () => {
       expect(newState.phase).toBe('showing_color');
     });
 
+    it('should not take answers for the next color until it is announced', () => {
+      const answers: PlayerAnswer[] = [
+        { playerId: 'player-1', color: 'red', timestamp: 1000 },
+      ];
+      
+      const newState = processRound(baseGameState, answers);
+      
+      expect(newState.roundStartedAt).toBeNull();
+    });
+
     it('should finish game on last round', () => {
       const lastRoundState: ColorRaceGameState = {
         ...baseGameState,
@@ -202,6 +228,23 @@ describe('Color Race Logic', () => {
       expect(newState.phase).toBe('finished');
     });
 
+    it('should record each answer and its reaction time', () => {
+      const answers: PlayerAnswer[] = [
+        { playerId: 'player-1', color: 'blue', timestamp: 1000 },
+        { playerId: 'player-2', color: 'red', timestamp: 1500 },
+      ];
+      
+      const result = processRound(baseGameState, answers);
+      
+      expect(result.rounds).toEqual([{
+        round: 1,
+        submissions: [
+          { playerId: 'player-1', isCorrect: false, reactionMs: 100, sequenceLength: 1 },
+          { playerId: 'player-2', isCorrect: true, reactionMs: 600, sequenceLength: 1 },
+        ],
+      }]);
+    });
+
     it('should not award points if no correct answers', () => {
       const answers: PlayerAnswer[] = [
         { playerId: 'player-1', color: 'blue', timestamp: 1000 },
@@ -0,0 +1,86 @@
+/**
+ * Rating Logic Tests
+ *
+ * Verifies the finishing order and the multiplayer Elo updates.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateRatingDeltas,
+  compareFinish,
+  getExpectedScore,
+} from '../../../src/backend/utils/ratingLogic';
+import type { RatedResult } from '../../../src/backend/utils/ratingLogic';
+
+function result(
+  playerId: string,
+  eliminatedAtRound: number | null,
+  score: number,
+  rating = 1200
+): RatedResult {
+  return { playerId, rating, score, eliminatedAtRound };
+}
+
+describe('Rating Logic', () => {
+  // ===========================================================================
+  // FINISHING ORDER
+  // ===========================================================================
+
+  describe('compareFinish', () => {
+    it('should rank survivors ahead of eliminated players', () => {
+      expect(compareFinish(result('a', null, 0), result('b', 5, 100))).toBeLessThan(0);
+    });
+
+    it('should rank a later elimination ahead of an earlier one', () => {
+      expect(compareFinish(result('a', 3, 0), result('b', 4, 0))).toBeGreaterThan(0);
+    });
+
+    it('should break ties by score, and tie on equal scores', () => {
+      expect(compareFinish(result('a', 3, 50), result('b', 3, 20))).toBeLessThan(0);
+      expect(compareFinish(result('a', 3, 20), result('b', 3, 20))).toBe(0);
+    });
+  });
+
+  // ===========================================================================
+  // ELO
+  // ===========================================================================
+
+  describe('getExpectedScore', () => {
+    it('should be even for equal ratings and favor the stronger player', () => {
+      expect(getExpectedScore(1200, 1200)).toBe(0.5);
+      expect(getExpectedScore(1600, 1200)).toBeCloseTo(10 / 11);
+    });
+  });
+
+  describe('calculateRatingDeltas', () => {
+    it('should move equal players by half the K-factor in a duel', () => {
+      const deltas = calculateRatingDeltas([result('a', null, 30), result('b', 2, 10)]);
+
+      expect(deltas).toEqual({ a: 16, b: -16 });
+    });
+
+    it('should reward an upset more than an expected win', () => {
+      const expected = calculateRatingDeltas([result('a', null, 30, 1400), result('b', 2, 10, 1200)]);
+      const upset = calculateRatingDeltas([result('a', null, 30, 1200), result('b', 2, 10, 1400)]);
+
+      expect(upset.a).toBeGreaterThan(expected.a);
+    });
+
+    it('should rank everyone in a multiplayer game by finishing order', () => {
+      const deltas = calculateRatingDeltas([
+        result('first', null, 40),
+        result('second', 4, 30),
+        result('third', 2, 10),
+      ]);
+
+      expect(deltas.first).toBeGreaterThan(0);
+      expect(deltas.second).toBe(0);
+      expect(deltas.third).toBeLessThan(0);
+      expect(deltas.first + deltas.second + deltas.third).toBe(0);
+    });
+
+    it('should not rate a single player', () => {
+      expect(calculateRatingDeltas([result('solo', null, 40)])).toEqual({});
+    });
+  });
+});
@@ -15,11 +15,28 @@ import {
   advanceToNextRound,
   calculateTimeoutSeconds,
   calculateTimeoutMs,
+  calculateShowDurationMs,
   shouldGameEnd,
   getWinner,
   processRoundSubmissions,
+  createSimonSnapshot,
+  validateSequence,
+  validateInput,
+  getPlayerSequence,
+  applyVariant,
+  getPalette,
+  haveAllPlayersSubmitted,
+  isPlayersTurn,
+  getNextActivePlayer,
+  appendChainColor,
+  advanceChainTurn,
+  getExpectedInput,
+  getPlayerSlice,
+  getTeamSetupError,
+  getTeamStandings,
 } from '../../../src/backend/utils/simonLogic';
-import type { Player, SimonGameState, Color } from '../../../src/shared/types';
+import { DEFAULT_SIMON_SETTINGS } from '../../../src/shared/types';
+import type { Player, SimonGameState, Color, SimonSettings } from '../../../src/shared/types';
 
 // =============================================================================
 // HELPER FUNCTIONS
@@ -31,6 +48,7 @@ function createMockPlayers(count: number): Player[] {
     displayName: `Player ${i + 1}`,
     avatarId: '1',
     isHost: i === 0,
+    team: null,
   }));
 }
 
@@ -76,6 +94,29 @@ describe('initializeSimonGame', () => {
       expect(state.currentInputIndex).toBe(0);
     });
   });
+
+  it('should use the starting length and timeout from room settings', () => {
+    const settings: SimonSettings = {
+      ...DEFAULT_SIMON_SETTINGS,
+      initialSequenceLength: 3,
+      timeoutBaseSeconds: 10,
+      timeoutPerColorSeconds: 1,
+    };
+    const gameState = initializeSimonGame(createMockPlayers(1), settings);
+
+    expect(gameState.sequence).toHaveLength(3);
+    expect(gameState.timeoutMs).toBe(13000); // 10 + (3 × 1) = 13 seconds
+  });
+
+  it('should produce the same sequence from the same seed', () => {
+    const settings: SimonSettings = { ...DEFAULT_SIMON_SETTINGS, initialSequenceLength: 8 };
+    const first = initializeSimonGame(createMockPlayers(1), settings, 42);
+    const second = initializeSimonGame(createMockPlayers(2), settings, 42);
+
+    expect(first.seed).toBe(42);
+    expect(first.sequence).toEqual(second.sequence);
+    expect(first.rngState).toBe(second.rngState);
+  });
 });
 
 // =============================================================================
@@ -122,6 +163,11 @@ describe('calculateTimeoutSeconds', () => {
   it('should calculate correct timeout for round 10', () => {
     expect(calculateTimeoutSeconds(10)).toBe(35); // 15 + (10 × 2)
   });
+
+  it('should use custom room settings', () => {
+    const settings: SimonSettings = { ...DEFAULT_SIMON_SETTINGS, timeoutBaseSeconds: 8, timeoutPerColorSeconds: 1 };
+    expect(calculateTimeoutSeconds(5, settings)).toBe(13); // 8 + (5 × 1)
+  });
 });
 
 describe('calculateTimeoutMs', () => {
@@ -134,6 +180,17 @@ describe('calculateTimeoutMs', () => {
   });
 });
 
+describe('calculateShowDurationMs', () => {
+  it('should use default timing', () => {
+    expect(calculateShowDurationMs(3)).toBe(2400); // 3 × (600 + 200)
+  });
+
+  it('should use custom room timing', () => {
+    const settings: SimonSettings = { ...DEFAULT_SIMON_SETTINGS, showColorDurationMs: 350, showColorGapMs: 150 };
+    expect(calculateShowDurationMs(4, settings)).toBe(2000); // 4 × (350 + 150)
+  });
+});
+
 // =============================================================================
 // GAME END CONDITIONS TESTS (CRITICAL FOR SOLO MODE!)
 // =============================================================================
@@ -262,6 +319,20 @@ describe('advanceToNextRound', () => {
     expect(nextState.sequence[0]).toBe(originalSequence[0]);
   });
 
+  it('should draw the next color from the game seed', () => {
+    const players = createMockPlayers(1);
+    let runA = initializeSimonGame(players, DEFAULT_SIMON_SETTINGS, 12345);
+    let runB = initializeSimonGame(players, DEFAULT_SIMON_SETTINGS, 12345);
+
+    for (let round = 0; round < 10; round++) {
+      runA = advanceToNextRound(runA);
+      runB = advanceToNextRound(runB);
+    }
+
+    expect(runA.sequence).toHaveLength(11);
+    expect(runA.sequence).toEqual(runB.sequence);
+  });
+
   it('should reset player input indices', () => {
     const players = createMockPlayers(2);
     const gameState = initializeSimonGame(players);
@@ -356,6 +427,360 @@ describe('processRoundSubmissions', () => {
   });
 });
 
+// =============================================================================
+// LIVES TESTS
+// =============================================================================
+
+describe('Lives', () => {
+  const threeLives: SimonSettings = { ...DEFAULT_SIMON_SETTINGS, lives: 3 };
+
+  function submitWrong(gameState: SimonGameState, playerId: string, sequence: Color[] = ['blue']): SimonGameState {
+    return {
+      ...gameState,
+      submissions: {
+        ...gameState.submissions,
+        [playerId]: { playerId, sequence, timestamp: Date.now(), isCorrect: false },
+      },
+    };
+  }
+
+  it('should start every player with the room setting', () => {
+    const gameState = initializeSimonGame(createMockPlayers(2), threeLives);
+
+    expect(gameState.playerStates['player-1'].lives).toBe(3);
+    expect(gameState.playerStates['player-2'].lives).toBe(3);
+  });
+
+  it('should take a life instead of eliminating', () => {
+    const gameState = submitWrong(initializeSimonGame(createMockPlayers(2), threeLives), 'player-1');
+
+    const result = processRoundSubmissions(gameState);
+
+    expect(result.eliminations).toHaveLength(0);
+    expect(result.livesLost).toEqual([{ playerId: 'player-1', reason: 'wrong_sequence' }]);
+    expect(result.gameState.playerStates['player-1'].status).toBe('playing');
+    expect(result.gameState.playerStates['player-1'].lives).toBe(2);
+  });
+
+  it('should eliminate when the last life is lost', () => {
+    const gameState = initializeSimonGame(createMockPlayers(2), threeLives);
+    gameState.playerStates['player-1'].lives = 1;
+
+    const result = processRoundSubmissions(submitWrong(gameState, 'player-1', []));
+
+    expect(result.eliminations).toEqual([{ playerId: 'player-1', reason: 'timeout' }]);
+    expect(result.gameState.playerStates['player-1'].status).toBe('eliminated');
+    expect(result.gameState.playerStates['player-1'].lives).toBe(0);
+  });
+
+  it('should replay the same sequence for a player who lost a life', () => {
+    const gameState = initializeSimonGame(createMockPlayers(2), threeLives, 42);
+    const { gameState: processed } = processRoundSubmissions(submitWrong(gameState, 'player-1'));
+
+    const nextState = advanceToNextRound(processed);
+
+    expect(nextState.sequence).toHaveLength(2);
+    expect(getPlayerSequence(nextState, 'player-1')).toEqual(gameState.sequence);
+    expect(getPlayerSequence(nextState, 'player-2')).toEqual(nextState.sequence);
+
+    // After the replay the player is back on the room's round
+    const afterward = advanceToNextRound(nextState);
+    expect(getPlayerSequence(afterward, 'player-1')).toEqual(afterward.sequence);
+    expect(getPlayerSequence(afterward, 'player-2')).toEqual(afterward.sequence);
+  });
+
+  it('should validate against the player\'s own sequence', () => {
+    const gameState = initializeSimonGame(createMockPlayers(2), threeLives);
+    gameState.sequence = ['red', 'blue'];
+    gameState.playerStates['player-1'].sequenceLength = 1;
+    gameState.playerStates['player-2'].sequenceLength = 2;
+
+    expect(validateSequence(gameState, ['red'], 'player-1')).toBe(true);
+    expect(validateSequence(gameState, ['red'], 'player-2')).toBe(false);
+    expect(validateSequence(gameState, ['red', 'blue'], 'player-2')).toBe(true);
+  });
+});
+
+// =============================================================================
+// VARIANT TESTS
+// =============================================================================
+
+describe('Variants', () => {
+  const shown: Color[] = ['red', 'yellow', 'blue'];
+
+  function createVariantGame(variant: SimonSettings['variant']): SimonGameState {
+    const gameState = initializeSimonGame(createMockPlayers(1), { ...DEFAULT_SIMON_SETTINGS, variant });
+    gameState.sequence = shown;
+    gameState.playerStates['player-1'].sequenceLength = shown.length;
+    return gameState;
+  }
+
+  it('should carry the room variant in the game state', () => {
+    expect(createVariantGame('mirror').variant).toBe('mirror');
+    expect(initializeSimonGame(createMockPlayers(1)).variant).toBe('standard');
+  });
+
+  it('should map the shown sequence to the expected input', () => {
+    expect(applyVariant(shown, 'standard')).toEqual(['red', 'yellow', 'blue']);
+    expect(applyVariant(shown, 'reverse')).toEqual(['blue', 'yellow', 'red']);
+    expect(applyVariant(shown, 'mirror')).toEqual(['blue', 'green', 'red']);
+  });
+
+  it('should validate a reversed sequence', () => {
+    const gameState = createVariantGame('reverse');
+
+    expect(validateSequence(gameState, ['blue', 'yellow', 'red'], 'player-1')).toBe(true);
+    expect(validateSequence(gameState, shown, 'player-1')).toBe(false);
+  });
+
+  it('should validate mirrored colors one input at a time', () => {
+    const gameState = createVariantGame('mirror');
+
+    expect(validateInput(gameState, 'player-1', 'blue', 0)).toBe(true);
+    expect(validateInput(gameState, 'player-1', 'red', 0)).toBe(false);
+  });
+});
+
+// =============================================================================
+// PALETTE TESTS
+// =============================================================================
+
+describe('Palettes', () => {
+  it('should use the classic colors first and clamp to 3-8 pads', () => {
+    expect(getPalette(4)).toEqual(['red', 'blue', 'yellow', 'green']);
+    expect(getPalette(6)).toEqual(['red', 'blue', 'yellow', 'green', 'purple', 'orange']);
+    expect(getPalette(1)).toHaveLength(3);
+    expect(getPalette(20)).toHaveLength(8);
+  });
+
+  it('should draw sequences from the configured pads only', () => {
+    let gameState = initializeSimonGame(createMockPlayers(1), { ...DEFAULT_SIMON_SETTINGS, padCount: 3 }, 7);
+    for (let round = 0; round < 30; round++) {
+      gameState = advanceToNextRound(gameState);
+    }
+
+    expect(gameState.palette).toEqual(['red', 'blue', 'yellow']);
+    expect(gameState.sequence.every(color => gameState.palette.includes(color))).toBe(true);
+  });
+
+  it('should reach the extra colors on larger boards', () => {
+    const sequence = generateSequence(200, Math.random, getPalette(8));
+
+    expect(new Set(sequence).size).toBe(8);
+  });
+
+  it('should mirror an unpaired pad onto itself', () => {
+    expect(applyVariant(['red', 'purple'], 'mirror', getPalette(5))).toEqual(['blue', 'purple']);
+    expect(applyVariant(['purple'], 'mirror', getPalette(6))).toEqual(['orange']);
+  });
+});
+
+describe('Chain mode', () => {
+  const CHAIN_SETTINGS: SimonSettings = { ...DEFAULT_SIMON_SETTINGS, mode: 'chain' };
+
+  it('should start with the first player\'s turn, and no turns otherwise', () => {
+    const chain = initializeSimonGame(createMockPlayers(3), CHAIN_SETTINGS);
+    const freeForAll = initializeSimonGame(createMockPlayers(3));
+
+    expect(chain.activePlayerId).toBe('player-1');
+    expect(isPlayersTurn(chain, 'player-1')).toBe(true);
+    expect(isPlayersTurn(chain, 'player-2')).toBe(false);
+    expect(freeForAll.activePlayerId).toBeNull();
+    expect(isPlayersTurn(freeForAll, 'player-2')).toBe(true);
+  });
+
+  it('should only wait for the active player\'s submission', () => {
+    const gameState = initializeSimonGame(createMockPlayers(2), CHAIN_SETTINGS);
+    gameState.submissions['player-1'] = { playerId: 'player-1', sequence: gameState.sequence, timestamp: 1, isCorrect: true };
+
+    expect(haveAllPlayersSubmitted(gameState)).toBe(true);
+  });
+
+  it('should rotate turns in join order, skipping eliminated players', () => {
+    const gameState = initializeSimonGame(createMockPlayers(3), CHAIN_SETTINGS);
+    gameState.playerStates['player-2'].status = 'eliminated';
+
+    expect(getNextActivePlayer(gameState)).toBe('player-3');
+    expect(getNextActivePlayer({ ...gameState, activePlayerId: 'player-3' })).toBe('player-1');
+  });
+
+  it('should add the chosen color and give the next player the whole sequence', () => {
+    const gameState = initializeSimonGame(createMockPlayers(2), CHAIN_SETTINGS);
+    const shown = [...gameState.sequence];
+
+    const next = advanceChainTurn(appendChainColor(gameState, 'green'));
+
+    expect(next.sequence).toEqual([...shown, 'green']);
+    expect(next.round).toBe(2);
+    expect(next.activePlayerId).toBe('player-2');
+    expect(next.playerStates['player-2'].sequenceLength).toBe(shown.length + 1);
+    expect(next.rngState).toBe(gameState.rngState);
+  });
+
+  it('should draw a seeded color when the player ran out of time', () => {
+    const a = appendChainColor(initializeSimonGame(createMockPlayers(2), CHAIN_SETTINGS, 42), null);
+    const b = appendChainColor(initializeSimonGame(createMockPlayers(2), CHAIN_SETTINGS, 42), null);
+
+    expect(a.sequence).toHaveLength(2);
+    expect(a.sequence).toEqual(b.sequence);
+    expect(a.palette).toContain(a.sequence[1]);
+  });
+
+  it('should keep the sequence when a turn is missed', () => {
+    const gameState = initializeSimonGame(createMockPlayers(2), CHAIN_SETTINGS);
+
+    const next = advanceChainTurn(gameState);
+
+    expect(next.sequence).toEqual(gameState.sequence);
+    expect(next.activePlayerId).toBe('player-2');
+  });
+});
+
+describe('Team modes', () => {
+  const COOP_SETTINGS: SimonSettings = { ...DEFAULT_SIMON_SETTINGS, mode: 'coop' };
+  const TEAMS_SETTINGS: SimonSettings = { ...DEFAULT_SIMON_SETTINGS, mode: 'teams' };
+
+  function createTeamPlayers(teams: Array<'A' | 'B'>): Player[] {
+    return createMockPlayers(teams.length).map((player, i) => ({ ...player, team: teams[i] }));
+  }
+
+  function submitAll(gameState: SimonGameState, wrong: string[] = []): void {
+    Object.keys(gameState.playerStates).forEach(playerId => {
+      gameState.submissions[playerId] = {
+        playerId,
+        sequence: [],
+        timestamp: 1,
+        isCorrect: !wrong.includes(playerId),
+      };
+    });
+  }
+
+  it('should put everyone on one team in co-op and keep lobby teams in 2v2', () => {
+    const coop = initializeSimonGame(createTeamPlayers(['A', 'B']), COOP_SETTINGS);
+    const teams = initializeSimonGame(createTeamPlayers(['A', 'B']), TEAMS_SETTINGS);
+    const freeForAll = initializeSimonGame(createTeamPlayers(['A', 'B']));
+
+    expect(coop.playerStates['player-2'].teamId).toBe('A');
+    expect(teams.playerStates['player-2'].teamId).toBe('B');
+    expect(freeForAll.playerStates['player-2'].teamId).toBeNull();
+  });
+
+  it('should split the sequence between teammates, extra colors first', () => {
+    const gameState = initializeSimonGame(createMockPlayers(2), COOP_SETTINGS);
+    gameState.sequence = ['red', 'blue', 'green'];
+    gameState.playerStates['player-1'].sequenceLength = 3;
+    gameState.playerStates['player-2'].sequenceLength = 3;
+
+    expect(getPlayerSlice(gameState, 'player-1')).toEqual({ start: 0, end: 2 });
+    expect(getPlayerSlice(gameState, 'player-2')).toEqual({ start: 2, end: 3 });
+    expect(getExpectedInput(gameState, 'player-2')).toEqual(['green']);
+  });
+
+  it('should not wait for a teammate with no colors this round', () => {
+    const gameState = initializeSimonGame(createMockPlayers(2), COOP_SETTINGS);
+    gameState.submissions['player-1'] = { playerId: 'player-1', sequence: gameState.sequence, timestamp: 1, isCorrect: true };
+
+    expect(getPlayerSlice(gameState, 'player-2')).toEqual({ start: 1, end: 1 });
+    expect(haveAllPlayersSubmitted(gameState)).toBe(true);
+  });
+
+  it('should fail the whole team when one slice is wrong', () => {
+    const gameState = initializeSimonGame(createTeamPlayers(['A', 'A', 'B', 'B']), TEAMS_SETTINGS);
+    gameState.sequence = ['red', 'blue'];
+    Object.values(gameState.playerStates).forEach(state => { state.sequenceLength = 2; });
+    submitAll(gameState, ['player-2']);
+
+    const { gameState: result, teamResults } = processRoundSubmissions(gameState);
+
+    expect(teamResults).toEqual([{ teamId: 'A', isCorrect: false }, { teamId: 'B', isCorrect: true }]);
+    expect(result.playerStates['player-1'].status).toBe('eliminated');
+    expect(result.playerStates['player-2'].status).toBe('eliminated');
+    expect(result.playerStates['player-3'].status).toBe('playing');
+    expect(shouldGameEnd(result)).toBe(true);
+    expect(getTeamStandings(result).map(team => team.teamId)).toEqual(['B', 'A']);
+  });
+
+  it('should keep a co-op team playing until it fails together', () => {
+    const gameState = initializeSimonGame(createMockPlayers(2), COOP_SETTINGS);
+    gameState.sequence = ['red', 'blue'];
+    Object.values(gameState.playerStates).forEach(state => { state.sequenceLength = 2; });
+
+    expect(shouldGameEnd(gameState)).toBe(false);
+
+    submitAll(gameState, ['player-1']);
+    const { gameState: result } = processRoundSubmissions(gameState);
+
+    expect(shouldGameEnd(result)).toBe(true);
+    expect(getTeamStandings(result)).toEqual([
+      { teamId: 'A', playerIds: ['player-1', 'player-2'], score: 0, eliminatedAtRound: 1 },
+    ]);
+  });
+
+  it('should require both teams to have a player in 2v2', () => {
+    expect(getTeamSetupError(createTeamPlayers(['A', 'A']), TEAMS_SETTINGS)).toBe('Team B needs at least one player');
+    expect(getTeamSetupError(createTeamPlayers(['A', 'B']), TEAMS_SETTINGS)).toBeNull();
+    expect(getTeamSetupError(createTeamPlayers(['A', 'A']), COOP_SETTINGS)).toBeNull();
+  });
+});
+
+// =============================================================================
+// RECONNECTION TESTS
+// =============================================================================
+
+describe('createSimonSnapshot', () => {
+  it('should include the input deadline during player input', () => {
+    const gameState = initializeSimonGame(createMockPlayers(2));
+    gameState.phase = 'player_input';
+    gameState.timeoutAt = 123456;
+
+    const snapshot = createSimonSnapshot(gameState, 'player-1');
+
+    expect(snapshot).toMatchObject({
+      gameType: 'simon',
+      phase: 'player_input',
+      round: 1,
+      sequence: gameState.sequence,
+      timeoutAt: 123456,
+      timeoutSeconds: calculateTimeoutSeconds(gameState.sequence.length),
+      hasSubmitted: false,
+    });
+  });
+
+  it('should drop a stale deadline outside player input', () => {
+    const gameState = initializeSimonGame(createMockPlayers(2));
+    gameState.phase = 'round_result';
+    gameState.timeoutAt = 123456;
+
+    expect(createSimonSnapshot(gameState, 'player-1').timeoutAt).toBeNull();
+  });
+
+  it('should report who already submitted', () => {
+    const gameState = initializeSimonGame(createMockPlayers(2));
+    gameState.phase = 'player_input';
+    gameState.submissions = {
+      'player-2': { playerId: 'player-2', sequence: gameState.sequence, timestamp: 1000, isCorrect: true },
+    };
+
+    expect(createSimonSnapshot(gameState, 'player-1').hasSubmitted).toBe(false);
+    expect(createSimonSnapshot(gameState, 'player-2').hasSubmitted).toBe(true);
+    expect(createSimonSnapshot(gameState, 'player-1').submittedPlayers).toEqual(['player-2']);
+  });
+
+  it('should include scores, statuses and room timing', () => {
+    const gameState = initializeSimonGame(createMockPlayers(2));
+    gameState.scores['player-1'] = 3;
+    gameState.playerStates['player-2'].status = 'eliminated';
+    const settings: SimonSettings = { ...DEFAULT_SIMON_SETTINGS, showColorDurationMs: 350, showColorGapMs: 150 };
+
+    const snapshot = createSimonSnapshot(gameState, 'player-1', settings);
+
+    expect(snapshot.scores).toEqual({ 'player-1': 3, 'player-2': 0 });
+    expect(snapshot.playerStatuses).toEqual({ 'player-1': 'playing', 'player-2': 'eliminated' });
+    expect(snapshot.showColorDurationMs).toBe(350);
+    expect(snapshot.showColorGapMs).toBe(150);
+  });
+});
+
 // =============================================================================
 // INTEGRATION TEST: SOLO MODE FLOW
 // =============================================================================
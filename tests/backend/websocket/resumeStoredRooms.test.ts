@@ -0,0 +1,143 @@
+/**
+ * Resume Stored Rooms Tests
+ *
+ * Verifies timers are rebuilt from stored deadlines when rooms are
+ * reloaded at startup.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { resumeStoredRooms } from '../../../src/backend/websocket';
+import type { TypedServer } from '../../../src/backend/websocket';
+import { clearGameTimers } from '../../../src/backend/games';
+import { gameService } from '../../../src/backend/services/gameService';
+import { initializeSimonGame } from '../../../src/backend/utils/simonLogic';
+import { PLATFORM_CONSTANTS } from '../../../src/shared/types';
+import type { SimonGameState } from '../../../src/shared/types';
+
+function createMockIo() {
+  const emit = vi.fn();
+  const io = { to: vi.fn(() => ({ emit })) } as unknown as TypedServer;
+  return { io, emit };
+}
+
+describe('resumeStoredRooms', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    gameService.clearAllRooms();
+  });
+
+  afterEach(() => {
+    vi.clearAllTimers();
+    vi.useRealTimers();
+  });
+
+  it('should time out the input phase at the stored deadline', () => {
+    const { io, emit } = createMockIo();
+    const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+    gameService.updateRoomStatus(room.gameCode, 'active');
+    gameService.updateGameState(room.gameCode, {
+      ...initializeSimonGame(room.players),
+      phase: 'player_input',
+      timeoutAt: Date.now() + 4000,
+    });
+
+    resumeStoredRooms(io);
+    vi.advanceTimersByTime(3999);
+    expect(emit).not.toHaveBeenCalledWith('simon:timeout', expect.anything());
+
+    vi.advanceTimersByTime(1);
+    expect(emit).toHaveBeenCalledWith('simon:timeout', expect.objectContaining({ playerId: room.players[0].id }));
+    clearGameTimers(room.gameCode);
+  });
+
+  it('should replay the sequence when interrupted while showing it', () => {
+    const { io, emit } = createMockIo();
+    const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+    gameService.updateRoomStatus(room.gameCode, 'active');
+    gameService.updateGameState(room.gameCode, initializeSimonGame(room.players));
+    const state = room.gameState as SimonGameState;
+
+    resumeStoredRooms(io);
+    vi.advanceTimersByTime(500);
+
+    expect(emit).toHaveBeenCalledWith('simon:show_sequence', expect.objectContaining({ sequence: state.sequence }));
+    clearGameTimers(room.gameCode);
+  });
+
+  it('should keep bots seated and let them answer the reopened round', () => {
+    const { io, emit } = createMockIo();
+    const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+    const bot = gameService.addBot(room.gameCode, 'hard');
+    gameService.updateRoomStatus(room.gameCode, 'active');
+    gameService.updateGameState(room.gameCode, {
+      ...initializeSimonGame(room.players),
+      phase: 'player_input',
+      timeoutAt: Date.now() + 20000,
+    });
+
+    resumeStoredRooms(io);
+    expect(bot).toMatchObject({ connected: true, disconnectTimeoutAt: null });
+
+    vi.advanceTimersByTime(19000);
+    expect(emit).toHaveBeenCalledWith('simon:player_submitted', expect.objectContaining({ playerId: bot.id }));
+    clearGameTimers(room.gameCode);
+  });
+
+  it('should send a room stuck in countdown back to the lobby', () => {
+    const { io } = createMockIo();
+    const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+    gameService.updateRoomStatus(room.gameCode, 'countdown');
+
+    resumeStoredRooms(io);
+
+    expect(room.status).toBe('waiting');
+  });
+
+  it('should remove players who do not come back within the grace period', () => {
+    const { io } = createMockIo();
+    const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+    gameService.joinRoom(room.gameCode, { displayName: 'Bob', avatarId: '2' });
+    const [alice, bob] = room.players;
+    gameService.updateSocketId(room.gameCode, alice.id, 'old-socket');
+
+    resumeStoredRooms(io);
+    expect(alice.connected).toBe(false);
+
+    // Alice reconnects in time, Bob never does
+    vi.advanceTimersByTime(1000);
+    gameService.updateSocketId(room.gameCode, alice.id, 'new-socket');
+    vi.advanceTimersByTime(PLATFORM_CONSTANTS.DISCONNECT_GRACE_MS);
+
+    expect(room.players.map(p => p.id)).toEqual([alice.id]);
+    expect(room.players.some(p => p.id === bob.id)).toBe(false);
+  });
+
+  it('should leave players connected through another instance seated', () => {
+    const { io } = createMockIo();
+    const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+    gameService.joinRoom(room.gameCode, { displayName: 'Bob', avatarId: '2' });
+    const [alice, bob] = room.players;
+    gameService.updateSocketId(room.gameCode, alice.id, 'old-socket');
+    gameService.updateSocketId(room.gameCode, bob.id, 'remote-socket');
+    bob.socketInstanceId = 'instance-b';
+
+    resumeStoredRooms(io);
+    vi.advanceTimersByTime(PLATFORM_CONSTANTS.DISCONNECT_GRACE_MS);
+
+    expect(bob).toMatchObject({ connected: true, disconnectTimeoutAt: null });
+    expect(room.players.map(p => p.id)).toEqual([bob.id]);
+  });
+
+  it('should keep a disconnect deadline stored before the restart', () => {
+    const { io } = createMockIo();
+    const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+    gameService.joinRoom(room.gameCode, { displayName: 'Bob', avatarId: '2' });
+    const bob = room.players[1];
+    gameService.markPlayerDisconnected(room.gameCode, bob.id, Date.now() + 2000);
+
+    resumeStoredRooms(io);
+    vi.advanceTimersByTime(2000);
+
+    expect(room.players).toHaveLength(1);
+  });
+});
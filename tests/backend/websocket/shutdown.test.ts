@@ -0,0 +1,145 @@
+/**
+ * Shutdown Tests
+ *
+ * Verifies the server drains running games, warns clients and stops
+ * its timers before a restart.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { initializeGameHandlers, resumeStoredRooms, shutdownGameHandlers } from '../../../src/backend/websocket';
+import type { SocketWithSession, TypedServer } from '../../../src/backend/websocket';
+import { generateToken } from '../../../src/backend/utils/auth';
+import { gameService } from '../../../src/backend/services/gameService';
+import { initializeSimonGame } from '../../../src/backend/utils/simonLogic';
+import { PLATFORM_CONSTANTS } from '../../../src/shared/types';
+import type { Player } from '../../../src/shared/types';
+
+function createMockIo() {
+  const emit = vi.fn();
+  const localEmit = vi.fn();
+  let middleware: (socket: SocketWithSession, next: (err?: Error) => void) => void = () => {};
+  let onConnection: (socket: SocketWithSession) => void = () => {};
+
+  const io = {
+    use: vi.fn((fn) => { middleware = fn; }),
+    on: vi.fn((_event: string, fn) => { onConnection = fn; }),
+    to: vi.fn(() => ({ emit })),
+    local: { emit: localEmit },
+  } as unknown as TypedServer;
+
+  const connect = (player: Player, gameCode: string) => {
+    const handlers = new Map<string, (data?: unknown) => void>();
+    const token = generateToken({
+      playerId: player.id,
+      gameCode,
+      displayName: player.displayName,
+      avatarId: player.avatarId,
+      role: player.role,
+      isHost: player.isHost,
+    });
+    const socket = {
+      id: `socket-${player.id}`,
+      request: { headers: { cookie: `session=${token}` } },
+      on: vi.fn((event: string, handler: (data?: unknown) => void) => handlers.set(event, handler)),
+      emit: vi.fn(),
+      join: vi.fn(),
+      to: vi.fn(() => ({ emit: vi.fn() })),
+    } as unknown as SocketWithSession;
+
+    middleware(socket, () => {});
+    onConnection(socket);
+    return { handlers, emit: socket.emit };
+  };
+
+  return { io, emit, localEmit, connect };
+}
+
+describe('shutdownGameHandlers', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    gameService.clearAllRooms();
+    gameService.setAcceptingRooms(true);
+  });
+
+  afterEach(() => {
+    vi.clearAllTimers();
+    vi.useRealTimers();
+    gameService.setAcceptingRooms(true);
+  });
+
+  it('should warn local sockets with an ETA and refuse new rooms', async () => {
+    const { io, localEmit } = createMockIo();
+
+    await shutdownGameHandlers(io, 10000);
+
+    const etaSeconds = Math.ceil((10000 + PLATFORM_CONSTANTS.RESTART_ETA_MS) / 1000);
+    expect(localEmit).toHaveBeenCalledWith('server_restarting', { etaSeconds });
+    expect(() => gameService.createRoom({ displayName: 'Alice', avatarId: '1' }))
+      .toThrow('Server is restarting');
+  });
+
+  it('should wait for running games to finish', async () => {
+    const { io } = createMockIo();
+    const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+    gameService.updateRoomStatus(room.gameCode, 'active');
+
+    let drained = false;
+    const shutdown = shutdownGameHandlers(io, 10000).then(() => { drained = true; });
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(drained).toBe(false);
+
+    gameService.updateRoomStatus(room.gameCode, 'finished');
+    await vi.advanceTimersByTimeAsync(500);
+    await shutdown;
+    expect(drained).toBe(true);
+  });
+
+  it('should stop game timers and keep the stored state when the drain times out', async () => {
+    const { io, emit } = createMockIo();
+    initializeGameHandlers(io);
+    const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+    gameService.updateRoomStatus(room.gameCode, 'active');
+    gameService.updateGameState(room.gameCode, {
+      ...initializeSimonGame(room.players),
+      phase: 'player_input',
+      timeoutAt: Date.now() + 20000,
+    });
+    resumeStoredRooms(io);
+
+    const shutdown = shutdownGameHandlers(io, 1000);
+    await vi.advanceTimersByTimeAsync(1000);
+    await shutdown;
+
+    expect(vi.getTimerCount()).toBe(0);
+    expect(room.status).toBe('active');
+    expect(emit).not.toHaveBeenCalledWith('simon:timeout', expect.anything());
+  });
+
+  it('should keep the seats of sockets closed by the shutdown', async () => {
+    const { io, emit, connect } = createMockIo();
+    initializeGameHandlers(io);
+    const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+    const { handlers } = connect(room.players[0], room.gameCode);
+
+    await shutdownGameHandlers(io, 0);
+    handlers.get('disconnect')!();
+    await vi.advanceTimersByTimeAsync(PLATFORM_CONSTANTS.DISCONNECT_BUFFER_MS);
+
+    expect(room.players[0].disconnectTimeoutAt).toBeNull();
+    expect(emit).not.toHaveBeenCalledWith('player_disconnected', expect.anything());
+  });
+
+  it('should refuse to start a game while draining', async () => {
+    const { io, connect } = createMockIo();
+    initializeGameHandlers(io);
+    const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+    const { handlers, emit } = connect(room.players[0], room.gameCode);
+
+    await shutdownGameHandlers(io, 0);
+    handlers.get('start_game')!({});
+
+    expect(room.status).toBe('waiting');
+    expect(emit).toHaveBeenCalledWith('error', expect.objectContaining({ message: 'Server is restarting' }));
+  });
+});
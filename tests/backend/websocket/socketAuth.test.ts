@@ -0,0 +1,359 @@
+/**
+ * Socket Authentication Tests
+ *
+ * Verifies the handshake middleware pins the session identity and that
+ * events claiming another player or room are rejected. Also covers the
+ * game snapshot sent to players reconnecting mid-game.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  socketAuthMiddleware,
+  resolveSession,
+  initializeGameHandlers,
+} from '../../../src/backend/websocket';
+import type { SocketWithSession, TypedServer } from '../../../src/backend/websocket';
+import { generateToken } from '../../../src/backend/utils/auth';
+import { gameService, getActivePlayers, toRoomView } from '../../../src/backend/services/gameService';
+import { initializeSimonGame } from '../../../src/backend/utils/simonLogic';
+import { initializeColorRaceGame } from '../../../src/backend/utils/colorRaceLogic';
+import type { GameRoom, Player, SimonGameState } from '../../../src/shared/types';
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+function sessionCookie(player: Player, gameCode: string): string {
+  const token = generateToken({
+    playerId: player.id,
+    gameCode,
+    displayName: player.displayName,
+    avatarId: player.avatarId,
+    role: player.role,
+    isHost: player.isHost,
+  });
+  return `session=${token}`;
+}
+
+function createMockSocket(cookieHeader?: string) {
+  const handlers = new Map<string, (data?: unknown) => void>();
+  const emit = vi.fn();
+  const socket = {
+    id: `socket-${Math.random().toString(36).slice(2)}`,
+    request: { headers: { cookie: cookieHeader } },
+    on: vi.fn((event: string, handler: (data?: unknown) => void) => handlers.set(event, handler)),
+    emit,
+    join: vi.fn(),
+    leave: vi.fn(),
+    to: vi.fn(() => ({ emit: vi.fn() })),
+  } as unknown as SocketWithSession;
+
+  return { socket, handlers, emit };
+}
+
+/**
+ * Fake io server that runs the real middleware and connection handlers
+ */
+function createMockServer() {
+  let middleware: (socket: SocketWithSession, next: (err?: Error) => void) => void = () => {};
+  let onConnection: (socket: SocketWithSession) => void = () => {};
+
+  const io = {
+    use: vi.fn((fn) => { middleware = fn; }),
+    on: vi.fn((_event: string, fn) => { onConnection = fn; }),
+    to: vi.fn(() => ({ emit: vi.fn() })),
+  } as unknown as TypedServer;
+
+  initializeGameHandlers(io);
+
+  const connect = (cookieHeader?: string) => {
+    const mock = createMockSocket(cookieHeader);
+    let error: Error | undefined;
+    middleware(mock.socket, (err) => { error = err; });
+    if (!error) onConnection(mock.socket);
+    return { ...mock, error };
+  };
+
+  return { connect };
+}
+
+function createRoomWithTwoPlayers(): { room: GameRoom; alice: Player; bob: Player } {
+  const room = gameService.createRoom({ displayName: 'Alice', avatarId: '1' });
+  gameService.joinRoom(room.gameCode, { displayName: 'Bob', avatarId: '2' });
+  const [alice, bob] = room.players;
+  return { room, alice, bob };
+}
+
+// =============================================================================
+// MIDDLEWARE
+// =============================================================================
+
+describe('socketAuthMiddleware', () => {
+  beforeEach(() => {
+    gameService.clearAllRooms();
+  });
+
+  it('should reject a connection without a session cookie', () => {
+    const { socket } = createMockSocket();
+    const next = vi.fn();
+
+    socketAuthMiddleware(socket, next);
+
+    expect(next).toHaveBeenCalledWith(expect.any(Error));
+    expect(socket.playerId).toBeUndefined();
+  });
+
+  it('should reject a connection with an invalid token', () => {
+    const { socket } = createMockSocket('session=not-a-real-token');
+    const next = vi.fn();
+
+    socketAuthMiddleware(socket, next);
+
+    expect(next).toHaveBeenCalledWith(expect.any(Error));
+    expect(socket.playerId).toBeUndefined();
+  });
+
+  it('should pin the session identity on the socket', () => {
+    const { room, bob } = createRoomWithTwoPlayers();
+    const { socket } = createMockSocket(sessionCookie(bob, room.gameCode));
+    const next = vi.fn();
+
+    socketAuthMiddleware(socket, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(socket.playerId).toBe(bob.id);
+    expect(socket.gameCode).toBe(room.gameCode);
+    expect(socket.displayName).toBe('Bob');
+  });
+});
+
+// =============================================================================
+// PAYLOAD GUARD
+// =============================================================================
+
+describe('resolveSession', () => {
+  function createPinnedSocket(): SocketWithSession {
+    const { socket } = createMockSocket();
+    socket.playerId = 'player-1';
+    socket.gameCode = 'ABC123';
+    return socket;
+  }
+
+  it('should return the pinned identity when the payload omits it', () => {
+    expect(resolveSession(createPinnedSocket(), {})).toEqual({ playerId: 'player-1', gameCode: 'ABC123' });
+  });
+
+  it('should return the pinned identity when the payload matches', () => {
+    const data = { playerId: 'player-1', gameCode: 'ABC123' };
+
+    expect(resolveSession(createPinnedSocket(), data)).toEqual({ playerId: 'player-1', gameCode: 'ABC123' });
+  });
+
+  it('should reject a payload claiming another player', () => {
+    expect(resolveSession(createPinnedSocket(), { playerId: 'player-2' })).toBeNull();
+  });
+
+  it('should reject a payload claiming another room', () => {
+    expect(resolveSession(createPinnedSocket(), { gameCode: 'XYZ789' })).toBeNull();
+  });
+
+  it('should reject a socket without a session', () => {
+    const { socket } = createMockSocket();
+
+    expect(resolveSession(socket, { playerId: 'player-1', gameCode: 'ABC123' })).toBeNull();
+  });
+});
+
+// =============================================================================
+// SPOOFED EVENTS
+// =============================================================================
+
+describe('spoofed socket events', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    gameService.clearAllRooms();
+  });
+
+  afterEach(() => {
+    vi.clearAllTimers();
+    vi.useRealTimers();
+  });
+
+  it('should refuse connections without a session', () => {
+    const server = createMockServer();
+
+    const { error } = server.connect();
+
+    expect(error?.message).toBe('Authentication required');
+  });
+
+  it('should ignore a Simon submission made as another player', () => {
+    const server = createMockServer();
+    const { room, alice, bob } = createRoomWithTwoPlayers();
+    gameService.updateRoomStatus(room.gameCode, 'active');
+    gameService.updateGameState(room.gameCode, initializeSimonGame(room.players));
+    const state = room.gameState as SimonGameState;
+
+    const { handlers } = server.connect(sessionCookie(bob, room.gameCode));
+    handlers.get('simon:submit_sequence')!({
+      gameCode: room.gameCode,
+      playerId: alice.id,
+      sequence: state.sequence,
+    });
+
+    expect(state.submissions[alice.id]).toBeUndefined();
+    expect(state.submissions[bob.id]).toBeUndefined();
+  });
+
+  it('should record a Simon submission as the pinned player', () => {
+    const server = createMockServer();
+    const { room, bob } = createRoomWithTwoPlayers();
+    gameService.updateRoomStatus(room.gameCode, 'active');
+    gameService.updateGameState(room.gameCode, initializeSimonGame(room.players));
+    const state = room.gameState as SimonGameState;
+
+    const { handlers } = server.connect(sessionCookie(bob, room.gameCode));
+    handlers.get('simon:submit_sequence')!({ gameCode: room.gameCode, sequence: state.sequence });
+
+    expect(state.submissions[bob.id]?.isCorrect).toBe(true);
+  });
+
+  it('should ignore a submission into another room', () => {
+    const server = createMockServer();
+    const { room: ownRoom, bob } = createRoomWithTwoPlayers();
+    const { room: otherRoom } = createRoomWithTwoPlayers();
+    gameService.updateRoomStatus(otherRoom.gameCode, 'active');
+    gameService.updateGameState(otherRoom.gameCode, initializeSimonGame(otherRoom.players));
+    const state = otherRoom.gameState as SimonGameState;
+
+    const { handlers } = server.connect(sessionCookie(bob, ownRoom.gameCode));
+    handlers.get('simon:submit_sequence')!({ gameCode: otherRoom.gameCode, sequence: state.sequence });
+
+    expect(Object.keys(state.submissions)).toHaveLength(0);
+  });
+
+  it('should ignore a Color Race answer made as another player', () => {
+    const server = createMockServer();
+    const { room, alice, bob } = createRoomWithTwoPlayers();
+    gameService.updateGameType(room.gameCode, 'color_race');
+    gameService.updateRoomStatus(room.gameCode, 'active');
+    gameService.updateGameState(room.gameCode, initializeColorRaceGame(room.players));
+    const round = (room.gameState as { round: number }).round;
+
+    // Answering for Alice and then for himself would complete the round
+    server.connect(sessionCookie(alice, room.gameCode));
+    const { handlers } = server.connect(sessionCookie(bob, room.gameCode));
+    handlers.get('color_race:submit_answer')!({ playerId: alice.id, color: 'red' });
+    handlers.get('color_race:submit_answer')!({ color: 'red' });
+
+    expect((room.gameState as { round: number }).round).toBe(round);
+  });
+
+  it('should reject start_game sent as the host by another player', () => {
+    const server = createMockServer();
+    const { room, alice, bob } = createRoomWithTwoPlayers();
+
+    const { handlers, emit } = server.connect(sessionCookie(bob, room.gameCode));
+    handlers.get('start_game')!({ gameCode: room.gameCode, playerId: alice.id });
+
+    expect(emit).toHaveBeenCalledWith('error', expect.objectContaining({ code: 'SESSION_MISMATCH' }));
+    expect(room.status).toBe('waiting');
+  });
+
+  it('should reject restart_game for another room', () => {
+    const server = createMockServer();
+    const { room: ownRoom, bob } = createRoomWithTwoPlayers();
+    const { room: otherRoom } = createRoomWithTwoPlayers();
+    gameService.updateRoomStatus(otherRoom.gameCode, 'finished');
+
+    const { handlers, emit } = server.connect(sessionCookie(bob, ownRoom.gameCode));
+    handlers.get('restart_game')!({ gameCode: otherRoom.gameCode, playerId: bob.id });
+
+    expect(emit).toHaveBeenCalledWith('error', expect.objectContaining({ code: 'SESSION_MISMATCH' }));
+    expect(otherRoom.status).toBe('finished');
+  });
+
+  it('should ignore a Simon submission from a spectator', () => {
+    const server = createMockServer();
+    const { room } = createRoomWithTwoPlayers();
+    gameService.spectateRoom(room.gameCode, { displayName: 'Eve', avatarId: '5' });
+    const eve = room.players[2];
+    gameService.updateRoomStatus(room.gameCode, 'active');
+    gameService.updateGameState(room.gameCode, initializeSimonGame(getActivePlayers(room)));
+    const state = room.gameState as SimonGameState;
+
+    const { handlers } = server.connect(sessionCookie(eve, room.gameCode));
+    handlers.get('simon:submit_sequence')!({ sequence: state.sequence });
+
+    expect(state.submissions[eve.id]).toBeUndefined();
+  });
+
+  it('should reject restart_game from a spectator', () => {
+    const server = createMockServer();
+    const { room } = createRoomWithTwoPlayers();
+    gameService.spectateRoom(room.gameCode, { displayName: 'Eve', avatarId: '5' });
+    const eve = room.players[2];
+    gameService.updateRoomStatus(room.gameCode, 'finished');
+
+    const { handlers, emit } = server.connect(sessionCookie(eve, room.gameCode));
+    handlers.get('restart_game')!({});
+
+    expect(emit).toHaveBeenCalledWith('error', expect.objectContaining({ code: 'SPECTATOR' }));
+    expect(room.status).toBe('finished');
+  });
+
+  it('should let the host start the game using the pinned identity', () => {
+    const server = createMockServer();
+    const { room, alice } = createRoomWithTwoPlayers();
+
+    const { handlers } = server.connect(sessionCookie(alice, room.gameCode));
+    handlers.get('start_game')!({});
+
+    expect(room.status).toBe('countdown');
+  });
+});
+
+// =============================================================================
+// RECONNECTION
+// =============================================================================
+
+describe('auto-reconnect', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    gameService.clearAllRooms();
+  });
+
+  afterEach(() => {
+    vi.clearAllTimers();
+    vi.useRealTimers();
+  });
+
+  it('should resend the running round to a reconnecting player', () => {
+    const server = createMockServer();
+    const { room, bob } = createRoomWithTwoPlayers();
+    gameService.updateRoomStatus(room.gameCode, 'active');
+    gameService.updateGameState(room.gameCode, {
+      ...initializeSimonGame(room.players),
+      phase: 'player_input',
+      timeoutAt: Date.now() + 10000,
+    });
+
+    const { emit } = server.connect(sessionCookie(bob, room.gameCode));
+
+    expect(emit).toHaveBeenCalledWith('room_state', toRoomView(room));
+    expect(emit).toHaveBeenCalledWith('game_snapshot', expect.objectContaining({
+      gameType: 'simon',
+      phase: 'player_input',
+      hasSubmitted: false,
+    }));
+  });
+
+  it('should not send a snapshot while the room is waiting', () => {
+    const server = createMockServer();
+    const { room, bob } = createRoomWithTwoPlayers();
+
+    const { emit } = server.connect(sessionCookie(bob, room.gameCode));
+
+    expect(emit).not.toHaveBeenCalledWith('game_snapshot', expect.anything());
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Socket Event Validation Tests
+ *
+ * Verifies client payloads are checked against the shared schemas and
+ * rejected with a structured error.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { onClientEvent, emitSocketError } from '../../../src/backend/websocket';
+import type { TypedSocket } from '../../../src/backend/websocket';
+import { clientEventSchemas, parseClientEvent } from '../../../src/backend/utils/validation';
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+function createMockSocket() {
+  const handlers = new Map<string, (data?: unknown) => void>();
+  const emit = vi.fn();
+  const socket = {
+    id: 'socket-1',
+    on: vi.fn((event: string, handler: (data?: unknown) => void) => handlers.set(event, handler)),
+    emit,
+  } as unknown as TypedSocket;
+
+  return { socket, handlers, emit };
+}
+
+// =============================================================================
+// SCHEMAS
+// =============================================================================
+
+describe('clientEventSchemas', () => {
+  it('should define a schema for every client event', () => {
+    expect(Object.keys(clientEventSchemas).sort()).toEqual([
+      'add_bot',
+      'color_race:submit_answer',
+      'join_room_socket',
+      'leave_room',
+      'remove_bot',
+      'restart_game',
+      'select_game',
+      'set_team',
+      'simon:append_color',
+      'simon:submit_input',
+      'simon:submit_sequence',
+      'start_game',
+      'update_listing',
+      'update_settings',
+    ]);
+  });
+
+  it('should accept payloads without identity claims', () => {
+    expect(parseClientEvent('start_game', {}).success).toBe(true);
+  });
+
+  it('should reject non-object payloads', () => {
+    expect(parseClientEvent('start_game', 'ABC123').success).toBe(false);
+    expect(parseClientEvent('start_game', undefined).success).toBe(false);
+  });
+
+  it('should reject an unknown game type', () => {
+    expect(parseClientEvent('select_game', { gameType: 'tic_tac_toe' }).success).toBe(false);
+  });
+
+  it('should reject out-of-range settings', () => {
+    const result = parseClientEvent('update_settings', { settings: { maxPlayers: 10 } });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject unknown colors in a Simon sequence', () => {
+    const result = parseClientEvent('simon:submit_sequence', { sequence: ['red', 'magenta'] });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject a negative input index', () => {
+    const result = parseClientEvent('simon:submit_input', { color: 'red', inputIndex: -1 });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should trim room names and reject unsafe ones', () => {
+    const valid = parseClientEvent('update_listing', { isPublic: true, name: '  Speed Club ' });
+    const invalid = parseClientEvent('update_listing', { isPublic: true, name: '<b>hi</b>' });
+
+    expect(valid.success && valid.data.name).toBe('Speed Club');
+    expect(invalid.success).toBe(false);
+  });
+
+  it('should accept a valid Color Race answer', () => {
+    const result = parseClientEvent('color_race:submit_answer', { gameCode: 'ABC123', color: 'blue' });
+
+    expect(result.success).toBe(true);
+  });
+});
+
+// =============================================================================
+// HANDLER WRAPPER
+// =============================================================================
+
+describe('onClientEvent', () => {
+  it('should pass a valid payload to the handler', () => {
+    const { socket, handlers, emit } = createMockSocket();
+    const handler = vi.fn();
+
+    onClientEvent(socket, 'simon:submit_sequence', handler);
+    handlers.get('simon:submit_sequence')!({ sequence: ['red', 'blue'] });
+
+    expect(handler).toHaveBeenCalledWith({ sequence: ['red', 'blue'] });
+    expect(emit).not.toHaveBeenCalled();
+  });
+
+  it('should strip unknown fields from the payload', () => {
+    const { socket, handlers } = createMockSocket();
+    const handler = vi.fn();
+
+    onClientEvent(socket, 'color_race:submit_answer', handler);
+    handlers.get('color_race:submit_answer')!({ color: 'red', timestamp: 0 });
+
+    expect(handler).toHaveBeenCalledWith({ color: 'red' });
+  });
+
+  it('should emit INVALID_PAYLOAD and skip the handler for a bad payload', () => {
+    const { socket, handlers, emit } = createMockSocket();
+    const handler = vi.fn();
+
+    onClientEvent(socket, 'select_game', handler);
+    handlers.get('select_game')!({ gameType: 'tic_tac_toe' });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(emit).toHaveBeenCalledWith('error', {
+      code: 'INVALID_PAYLOAD',
+      message: 'Game type must be one of: simon, color_race',
+      event: 'select_game',
+    });
+  });
+
+  it('should reject a missing payload', () => {
+    const { socket, handlers, emit } = createMockSocket();
+    const handler = vi.fn();
+
+    onClientEvent(socket, 'restart_game', handler);
+    handlers.get('restart_game')!();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(emit).toHaveBeenCalledWith('error', expect.objectContaining({ code: 'INVALID_PAYLOAD' }));
+  });
+});
+
+describe('emitSocketError', () => {
+  it('should send a structured error', () => {
+    const { socket, emit } = createMockSocket();
+
+    emitSocketError(socket, 'NOT_HOST', 'Only host can start the game');
+
+    expect(emit).toHaveBeenCalledWith('error', {
+      code: 'NOT_HOST',
+      message: 'Only host can start the game',
+      event: undefined,
+    });
+  });
+});
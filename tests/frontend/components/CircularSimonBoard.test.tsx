@@ -8,8 +8,8 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, waitFor, act } from '@testing-library/react';
-import { CircularSimonBoard } from '@frontend/components/game/CircularSimonBoard';
+import { render, screen, waitFor, act, fireEvent } from '@testing-library/react';
+import { CircularSimonBoard, getWedgeLayout } from '@frontend/components/game/CircularSimonBoard';
 import type { Color } from '@shared/types';
 import * as soundService from '@frontend/services/soundService';
 
@@ -293,4 +293,63 @@ describe('CircularSimonBoard - Sequence Animation', () => {
       expect(sequenceLengthText || screen.getByText('Round 1')).toBeTruthy();
     });
   });
+
+  describe('Wedge Layout', () => {
+    it('should keep the classic quarters for four pads', () => {
+      expect(getWedgeLayout(['red', 'blue', 'yellow', 'green'])).toEqual([
+        { color: 'green', start: 182, end: 268 },
+        { color: 'red', start: 272, end: 358 },
+        { color: 'blue', start: 362, end: 448 },
+        { color: 'yellow', start: 452, end: 538 },
+      ]);
+    });
+
+    it('should split the board evenly for larger palettes', () => {
+      const wedges = getWedgeLayout(['red', 'blue', 'yellow', 'green', 'purple', 'orange']);
+
+      expect(wedges).toHaveLength(6);
+      wedges.forEach(wedge => expect(wedge.end - wedge.start).toBe(56));
+    });
+
+    it('should render one pad per color', () => {
+      render(<CircularSimonBoard {...defaultProps} palette={['red', 'blue', 'yellow', 'green', 'purple', 'orange', 'white']} />);
+
+      expect(screen.getAllByRole('button', { name: / button$/ })).toHaveLength(7);
+    });
+  });
+
+  describe('Variant Indicator', () => {
+    it('should show the active variant during input', () => {
+      render(<CircularSimonBoard {...defaultProps} isInputPhase={true} variant="reverse" />);
+
+      expect(screen.getByTestId('variant-indicator').textContent).toContain('REVERSE');
+    });
+
+    it('should hide the indicator in standard mode and outside input', () => {
+      const { rerender } = render(<CircularSimonBoard {...defaultProps} isInputPhase={true} />);
+      expect(screen.queryByTestId('variant-indicator')).toBeNull();
+
+      rerender(<CircularSimonBoard {...defaultProps} isShowingSequence={true} variant="mirror" />);
+      expect(screen.queryByTestId('variant-indicator')).toBeNull();
+    });
+  });
+
+  describe('Chain Mode', () => {
+    it('should prompt for the next color and accept pad clicks', () => {
+      const onColorClick = vi.fn();
+      render(<CircularSimonBoard {...defaultProps} isChoosingColor={true} onColorClick={onColorClick} />);
+
+      expect(screen.getByTestId('choose-color-prompt')).toBeTruthy();
+
+      fireEvent.click(screen.getByRole('button', { name: 'green button' }));
+      expect(onColorClick).toHaveBeenCalledWith('green');
+    });
+
+    it('should show whose turn it is while waiting', () => {
+      render(<CircularSimonBoard {...defaultProps} turnPlayerName="Alice" />);
+
+      expect(screen.queryByTestId('choose-color-prompt')).toBeNull();
+      expect(screen.getByText("⏳ Alice's turn")).toBeTruthy();
+    });
+  });
 });
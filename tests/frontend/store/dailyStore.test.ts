@@ -0,0 +1,104 @@
+/**
+ * Daily Store Tests
+ *
+ * Verifies the daily challenge plays the rounds dealt by the server and
+ * reports the final result.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { useDailyStore } from '@frontend/store/dailyStore';
+import * as api from '@frontend/services/dailyService';
+import { calculateShowDurationMs, calculateTimeoutMs } from '@shared/simon';
+import { DEFAULT_SIMON_SETTINGS } from '@shared/types';
+import type { DailyRound } from '@shared/types';
+
+// Mock sound service
+vi.mock('@frontend/services/soundService', () => ({
+  soundService: {
+    playBeep: vi.fn(),
+  },
+}));
+
+// Mock the daily API
+vi.mock('@frontend/services/dailyService', () => ({
+  getDailyChallenge: vi.fn(),
+  getDailyLeaderboard: vi.fn(),
+  startDaily: vi.fn(),
+  submitDailyRound: vi.fn(),
+}));
+
+const ROUND_1: DailyRound = { date: '2026-10-19', round: 1, sequence: ['red'] };
+const ROUND_2: DailyRound = { date: '2026-10-19', round: 2, sequence: ['red', 'blue'] };
+
+/**
+ * Advance past the sequence animation into the input phase
+ */
+function skipSequence(): void {
+  const { round } = useDailyStore.getState();
+  vi.advanceTimersByTime(calculateShowDurationMs(round!.sequence.length, DEFAULT_SIMON_SETTINGS) + 1000);
+}
+
+describe('dailyStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(api.startDaily).mockResolvedValue(ROUND_1);
+    vi.mocked(api.getDailyChallenge).mockResolvedValue({ date: '2026-10-19', hasPlayed: true, result: { score: 1, rank: 2 } });
+    vi.mocked(api.getDailyLeaderboard).mockResolvedValue({ date: '2026-10-19', entries: [] });
+  });
+
+  afterEach(() => {
+    useDailyStore.getState().quit();
+    vi.clearAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should play a correct round and move on to the next one', async () => {
+    vi.mocked(api.submitDailyRound).mockResolvedValue({ isCorrect: true, score: 1, next: ROUND_2, result: null });
+
+    await useDailyStore.getState().start('Alice', '1');
+    skipSequence();
+    expect(useDailyStore.getState().phase).toBe('player_input');
+
+    useDailyStore.getState().addColor('red');
+    useDailyStore.getState().submitSequence();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(api.submitDailyRound).toHaveBeenCalledWith(['red']);
+    expect(useDailyStore.getState()).toMatchObject({ phase: 'round_result', lastResult: 'correct', score: 1 });
+
+    vi.advanceTimersByTime(1500);
+    expect(useDailyStore.getState().round).toEqual(ROUND_2);
+    expect(useDailyStore.getState().phase).toBe('showing_sequence');
+  });
+
+  it('should submit an empty sequence on timeout and show the result', async () => {
+    vi.mocked(api.submitDailyRound).mockResolvedValue({
+      isCorrect: false,
+      score: 0,
+      next: null,
+      result: { score: 0, rank: 3 },
+    });
+
+    await useDailyStore.getState().start('Alice', '1');
+    skipSequence();
+    await vi.advanceTimersByTimeAsync(calculateTimeoutMs(1, DEFAULT_SIMON_SETTINGS));
+
+    expect(api.submitDailyRound).toHaveBeenCalledWith([]);
+    expect(useDailyStore.getState().lastResult).toBe('timeout');
+
+    await vi.advanceTimersByTimeAsync(1500);
+    const state = useDailyStore.getState();
+    expect(state.round).toBeNull();
+    expect(state.challenge?.hasPlayed).toBe(true);
+    expect(api.getDailyLeaderboard).toHaveBeenCalled();
+  });
+
+  it('should surface a refused start', async () => {
+    vi.mocked(api.startDaily).mockRejectedValue(new Error('Already played today'));
+
+    await useDailyStore.getState().start('Alice', '1');
+
+    expect(useDailyStore.getState().round).toBeNull();
+    expect(useDailyStore.getState().error).toBe('Already played today');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Practice Store Tests
+ *
+ * Verifies solo practice runs rounds locally with the shared Simon
+ * rules and keeps the best score.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { usePracticeStore } from '@frontend/store/practiceStore';
+import { calculateShowDurationMs, calculateTimeoutMs } from '@shared/simon';
+import { DEFAULT_SIMON_SETTINGS } from '@shared/types';
+
+// Mock sound service
+vi.mock('@frontend/services/soundService', () => ({
+  soundService: {
+    playBeep: vi.fn(),
+  },
+}));
+
+/**
+ * Advance past the sequence animation into the input phase
+ */
+function skipSequence(): void {
+  const { sequence } = usePracticeStore.getState().gameState!;
+  vi.advanceTimersByTime(calculateShowDurationMs(sequence.length, DEFAULT_SIMON_SETTINGS) + 1000);
+}
+
+/**
+ * Enter the current sequence and submit it
+ */
+function playCorrectRound(): void {
+  const { gameState, addColor, submitSequence } = usePracticeStore.getState();
+  gameState!.sequence.forEach(color => addColor(color));
+  submitSequence();
+}
+
+describe('practiceStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+    usePracticeStore.setState({ bestScore: 0 });
+    usePracticeStore.getState().quit();
+  });
+
+  afterEach(() => {
+    usePracticeStore.getState().quit();
+    vi.useRealTimers();
+  });
+
+  it('should show the sequence, then open the input phase', () => {
+    usePracticeStore.getState().startGame();
+    expect(usePracticeStore.getState().gameState?.phase).toBe('showing_sequence');
+
+    skipSequence();
+
+    const { gameState } = usePracticeStore.getState();
+    expect(gameState?.phase).toBe('player_input');
+    expect(gameState?.timeoutAt).toBe(Date.now() + calculateTimeoutMs(1, DEFAULT_SIMON_SETTINGS));
+  });
+
+  it('should score a correct round and advance to a longer sequence', () => {
+    usePracticeStore.getState().startGame();
+    skipSequence();
+
+    playCorrectRound();
+    expect(usePracticeStore.getState().score).toBe(1);
+    expect(usePracticeStore.getState().lastResult).toBe('correct');
+
+    vi.advanceTimersByTime(1500);
+    const { gameState } = usePracticeStore.getState();
+    expect(gameState?.round).toBe(2);
+    expect(gameState?.sequence).toHaveLength(2);
+  });
+
+  it('should end the game on a wrong sequence and save the best score', () => {
+    usePracticeStore.getState().startGame();
+    skipSequence();
+    playCorrectRound();
+    vi.advanceTimersByTime(1500);
+    skipSequence();
+
+    const { gameState, addColor, submitSequence } = usePracticeStore.getState();
+    gameState!.sequence.forEach(() => addColor(gameState!.sequence[0] === 'red' ? 'blue' : 'red'));
+    submitSequence();
+    vi.advanceTimersByTime(1500);
+
+    const state = usePracticeStore.getState();
+    expect(state.isGameOver).toBe(true);
+    expect(state.score).toBe(1);
+    expect(state.bestScore).toBe(1);
+    expect(state.isNewBest).toBe(true);
+    expect(localStorage.getItem('simon-practice-storage')).toContain('"bestScore":1');
+  });
+
+  it('should end the game when the input times out', () => {
+    usePracticeStore.setState({ bestScore: 5 });
+    usePracticeStore.getState().startGame();
+    skipSequence();
+
+    vi.advanceTimersByTime(calculateTimeoutMs(1, DEFAULT_SIMON_SETTINGS));
+    expect(usePracticeStore.getState().lastResult).toBe('timeout');
+
+    vi.advanceTimersByTime(1500);
+    const state = usePracticeStore.getState();
+    expect(state.isGameOver).toBe(true);
+    expect(state.bestScore).toBe(5);
+    expect(state.isNewBest).toBe(false);
+  });
+});
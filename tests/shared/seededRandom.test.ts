@@ -0,0 +1,72 @@
+/**
+ * Seeded Random Tests
+ *
+ * Verifies the PRNG is reproducible and challenge codes round-trip.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createSeed,
+  createSeededRandom,
+  encodeChallengeCode,
+  decodeChallengeCode,
+} from '../../src/shared/random';
+
+describe('createSeededRandom', () => {
+  it('should produce the same stream from the same seed', () => {
+    const a = createSeededRandom(2024);
+    const b = createSeededRandom(2024);
+
+    const streamA = Array.from({ length: 20 }, () => a.next());
+    const streamB = Array.from({ length: 20 }, () => b.next());
+
+    expect(streamA).toEqual(streamB);
+    streamA.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('should continue the stream from a saved state', () => {
+    const original = createSeededRandom(99);
+    original.next();
+    original.next();
+
+    const resumed = createSeededRandom(original.getState());
+
+    expect(resumed.next()).toBe(original.next());
+  });
+
+  it('should produce different streams from different seeds', () => {
+    expect(createSeededRandom(1).next()).not.toBe(createSeededRandom(2).next());
+  });
+});
+
+describe('challenge codes', () => {
+  it('should round-trip any 32-bit seed', () => {
+    for (const seed of [0, 1, 123456789, 0xFFFFFFFF, createSeed()]) {
+      const code = encodeChallengeCode(seed);
+
+      expect(code).toMatch(/^[0-9A-Z]{7}$/);
+      expect(decodeChallengeCode(code)).toEqual({ seed, padCount: null });
+    }
+  });
+
+  it('should round-trip the pad count', () => {
+    const code = encodeChallengeCode(123456789, 6);
+
+    expect(code).toMatch(/^[0-9A-Z]{7}6$/);
+    expect(decodeChallengeCode(code)).toEqual({ seed: 123456789, padCount: 6 });
+  });
+
+  it('should accept lowercase codes', () => {
+    expect(decodeChallengeCode('00000az')).toEqual(decodeChallengeCode('00000AZ'));
+  });
+
+  it('should reject malformed or out of range codes', () => {
+    expect(decodeChallengeCode('')).toBeNull();
+    expect(decodeChallengeCode('ABC-123')).toBeNull();
+    expect(decodeChallengeCode('ZZZZZZZ')).toBeNull(); // Above 2^32 - 1
+    expect(decodeChallengeCode('00000AZ9')).toBeNull(); // No 9-pad board
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Simon Scoring Tests
+ *
+ * Verifies the scoring strategies and how processRoundSubmissions
+ * applies them (streaks, first-correct bonus, breakdown history).
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  classicScoring,
+  speedScoring,
+  getScoringStrategy,
+  getStreakMultiplier,
+  getTimeLeftFraction,
+  initializeSimonGame,
+  processRoundSubmissions,
+} from '../../src/shared/simon';
+import type { SimonGameState } from '../../src/shared/types';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Two-player game in its input phase: 10s to answer, opened at t=1000
+ */
+function createInputState(): SimonGameState {
+  const gameState = initializeSimonGame([{ id: 'alice' }, { id: 'bob' }]);
+  gameState.sequence = ['red', 'blue'];
+  gameState.playerStates.alice.sequenceLength = 2;
+  gameState.playerStates.bob.sequenceLength = 2;
+  gameState.timerStartedAt = 1000;
+  gameState.timeoutAt = 11000;
+  return gameState;
+}
+
+function submit(gameState: SimonGameState, playerId: string, timestamp: number, isCorrect = true): void {
+  gameState.submissions[playerId] = {
+    playerId,
+    sequence: isCorrect ? ['red', 'blue'] : ['red', 'red'],
+    timestamp,
+    isCorrect,
+  };
+}
+
+// =============================================================================
+// HELPERS TESTS
+// =============================================================================
+
+describe('getTimeLeftFraction', () => {
+  it('should scale from 1 at the start to 0 at the deadline', () => {
+    const gameState = createInputState();
+
+    expect(getTimeLeftFraction(gameState, 1000)).toBe(1);
+    expect(getTimeLeftFraction(gameState, 6000)).toBe(0.5);
+    expect(getTimeLeftFraction(gameState, 12000)).toBe(0);
+  });
+
+  it('should be 0 outside the input phase', () => {
+    const gameState = createInputState();
+    gameState.timeoutAt = null;
+
+    expect(getTimeLeftFraction(gameState, 6000)).toBe(0);
+  });
+});
+
+describe('getStreakMultiplier', () => {
+  it('should grow per round in a row up to the cap', () => {
+    expect(getStreakMultiplier(1)).toBe(1);
+    expect(getStreakMultiplier(3)).toBe(1.2);
+    expect(getStreakMultiplier(50)).toBe(2);
+  });
+});
+
+describe('getScoringStrategy', () => {
+  it('should map modes to strategies', () => {
+    expect(getScoringStrategy('classic')).toBe(classicScoring);
+    expect(getScoringStrategy('speed')).toBe(speedScoring);
+  });
+});
+
+// =============================================================================
+// STRATEGY TESTS
+// =============================================================================
+
+describe('speedScoring', () => {
+  it('should give every correct player points by length and time left', () => {
+    const gameState = createInputState();
+    submit(gameState, 'alice', 6000); // Half the time left
+    submit(gameState, 'bob', 11000);  // At the deadline
+
+    const { roundScores, gameState: result } = processRoundSubmissions(gameState, speedScoring);
+
+    expect(roundScores).toEqual([
+      { playerId: 'alice', basePoints: 20, speedPoints: 10, streakMultiplier: 1, firstCorrectBonus: 10, total: 40 },
+      { playerId: 'bob', basePoints: 20, speedPoints: 0, streakMultiplier: 1, firstCorrectBonus: 0, total: 20 },
+    ]);
+    expect(result.scores).toEqual({ alice: 40, bob: 20 });
+  });
+
+  it('should apply the streak multiplier and reset it on a miss', () => {
+    const gameState = createInputState();
+    gameState.playerStates.alice.streak = 2;
+    gameState.playerStates.bob.streak = 4;
+    submit(gameState, 'alice', 11000);
+    submit(gameState, 'bob', 2000, false);
+
+    const { roundScores, gameState: result } = processRoundSubmissions(gameState, speedScoring);
+
+    // Third correct round in a row: (20 + 0) × 1.2 + 10
+    expect(roundScores).toHaveLength(1);
+    expect(roundScores[0]).toMatchObject({ playerId: 'alice', streakMultiplier: 1.2, total: 34 });
+    expect(result.playerStates.alice.streak).toBe(3);
+    expect(result.playerStates.bob.streak).toBe(0);
+  });
+});
+
+describe('classicScoring', () => {
+  it('should keep +1 for the fastest only', () => {
+    const gameState = createInputState();
+    submit(gameState, 'alice', 6000);
+    submit(gameState, 'bob', 3000);
+
+    const { roundScores, roundWinner } = processRoundSubmissions(gameState, classicScoring);
+
+    expect(roundWinner?.playerId).toBe('bob');
+    expect(roundScores.map(s => [s.playerId, s.total])).toEqual([['bob', 1], ['alice', 0]]);
+  });
+});
+
+// =============================================================================
+// BREAKDOWN TESTS
+// =============================================================================
+
+describe('round history', () => {
+  it('should record each round\'s points', () => {
+    const gameState = createInputState();
+    submit(gameState, 'alice', 6000);
+
+    const { gameState: result } = processRoundSubmissions(gameState, speedScoring);
+
+    expect(result.roundHistory).toHaveLength(1);
+    expect(result.roundHistory[0].round).toBe(1);
+    expect(result.roundHistory[0].scores[0].playerId).toBe('alice');
+  });
+
+  it('should record each answer with its reaction time', () => {
+    const gameState = createInputState();
+    submit(gameState, 'alice', 4000);
+    gameState.submissions.bob = { playerId: 'bob', sequence: [], timestamp: 11000, isCorrect: false };
+
+    const { gameState: result } = processRoundSubmissions(gameState, speedScoring);
+
+    expect(result.roundHistory[0].submissions).toEqual([
+      { playerId: 'alice', isCorrect: true, reactionMs: 3000, sequenceLength: 2 },
+      { playerId: 'bob', isCorrect: false, reactionMs: null, sequenceLength: 2 },
+    ]);
+  });
+});
@@ -9,6 +9,11 @@ export default defineConfig({
     environment: 'jsdom', // Changed from 'node' to support React components
     include: ['tests/**/*.test.{ts,tsx}'], // Added tsx support
     setupFiles: ['./tests/setup.ts'], // Setup file for testing library
+    env: {
+      DAILY_STORE: 'memory', // Keep the daily leaderboard off disk in tests
+      ACCOUNT_STORE: 'memory', // Same for accounts
+      MATCH_STORE: 'memory', // And match history
+    },
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],